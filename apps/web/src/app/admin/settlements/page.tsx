@@ -12,7 +12,7 @@
  * @example Access
  * ```
  * Navigate to: http://localhost:3000/admin/settlements
- * Requires: Admin privileges (to be implemented)
+ * Requires: an ADMIN_ADDRESSES wallet; sign the login challenge to start a session
  * ```
  */
 
@@ -26,7 +26,8 @@ import { Skeleton } from '@/components/ui/skeleton';
 import { PaymentStatus } from '@/components/features/payment/payment-status';
 import { SettlementActionGroup } from '@/components/features/admin/settlement-action';
 import { formatCurrency, formatAddress } from '@/lib/utils';
-import { useAdminSettlements, useBatchSettle, type PendingPayment } from '@/lib/hooks/use-admin';
+import { useAdminSession, useAdminSettlements, useBatchSettle, type PendingPayment } from '@/lib/hooks/use-admin';
+import { useWallet } from '@/components/providers/wallet-provider';
 
 // ============================================================================
 // Main Component
@@ -44,7 +45,10 @@ import { useAdminSettlements, useBatchSettle, type PendingPayment } from '@/lib/
  */
 export default function AdminSettlementsPage() {
   const [selectedPayments, setSelectedPayments] = useState<string[]>([]);
+  const { connected, address, connect } = useWallet();
+  const adminSession = useAdminSession();
   const { data: pendingPayments = [], isLoading, error } = useAdminSettlements({
+    enabled: adminSession.isAuthenticated,
     refetchInterval: 30000, // Refetch every 30 seconds
   });
   const batchSettleMutation = useBatchSettle();
@@ -103,10 +107,50 @@ export default function AdminSettlementsPage() {
     // Data refresh and toast notification are handled by the hook
   };
 
+  /**
+   * Sign the admin login challenge with the connected wallet
+   */
+  const handleAdminLogin = async () => {
+    if (!address) return;
+    try {
+      await adminSession.login(address);
+    } catch (error) {
+      console.error('Admin login failed:', error);
+    }
+  };
+
   // ============================================================================
   // Render
   // ============================================================================
 
+  if (!adminSession.isAuthenticated) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <Card className="max-w-md w-full">
+          <CardHeader>
+            <CardTitle>Admin Sign-In</CardTitle>
+            <CardDescription>
+              {connected && address
+                ? `Sign a login message with ${formatAddress(address)} to access the settlement queue`
+                : 'Connect an admin wallet to access the settlement queue'}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {connected && address ? (
+              <Button className="w-full" onClick={handleAdminLogin} disabled={adminSession.isLoggingIn}>
+                {adminSession.isLoggingIn ? 'Waiting for signature...' : 'Sign In with Wallet'}
+              </Button>
+            ) : (
+              <Button className="w-full" onClick={connect}>
+                Connect Wallet
+              </Button>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
   return (
     <div className="space-y-6">
       {/* ===================================================================
@@ -120,27 +164,37 @@ export default function AdminSettlementsPage() {
           </p>
         </div>
 
-        {/* Batch Actions */}
-        {selectedPayments.length > 0 && (
-          <div className="flex gap-2">
-            <Badge variant="secondary">
-              {selectedPayments.length} selected
-            </Badge>
-            <Button
-              variant="outline"
-              size="sm"
-              onClick={clearSelection}
-            >
-              Clear
-            </Button>
-            <Button
-              size="sm"
-              onClick={handleBatchSettle}
-            >
-              Settle Selected
-            </Button>
-          </div>
-        )}
+        <div className="flex items-center gap-2">
+          {/* Batch Actions */}
+          {selectedPayments.length > 0 && (
+            <div className="flex gap-2">
+              <Badge variant="secondary">
+                {selectedPayments.length} selected
+              </Badge>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={clearSelection}
+              >
+                Clear
+              </Button>
+              <Button
+                size="sm"
+                onClick={handleBatchSettle}
+              >
+                Settle Selected
+              </Button>
+            </div>
+          )}
+
+          {/* Admin Session */}
+          <Badge variant="outline">
+            {formatAddress(adminSession.session?.address || '')}
+          </Badge>
+          <Button variant="ghost" size="sm" onClick={adminSession.logout}>
+            Sign Out
+          </Button>
+        </div>
       </div>
 
       {/* ===================================================================
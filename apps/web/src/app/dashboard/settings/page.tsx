@@ -53,7 +53,7 @@ export default function SettingsPage() {
   /**
    * Handle notification preferences save
    */
-  const handleNotificationsSave = async (_preferences: {
+  const handleNotificationsSave = async (preferences: {
     paymentDetected: boolean;
     paymentSettled: boolean;
     vaultDeposit: boolean;
@@ -63,9 +63,10 @@ export default function SettingsPage() {
     webhookUrl?: string;
     webhookEnabled: boolean;
   }) => {
-    // Notification preferences require backend API endpoint
-    // This will be implemented when the backend endpoint is available
-    throw new Error('Notification preferences API endpoint not yet implemented');
+    // Only the webhook endpoint is persisted server-side; an empty URL disables delivery
+    await updateAgentMutation.mutateAsync({
+      webhookUrl: preferences.webhookEnabled ? preferences.webhookUrl || '' : '',
+    } as Partial<Agent>);
   };
 
   // Check wallet connection
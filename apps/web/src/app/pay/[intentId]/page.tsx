@@ -120,9 +120,13 @@ export default function PaymentIntentPage({ params }: PageProps) {
               <CardTitle>Payment Status</CardTitle>
             </CardHeader>
             <CardContent>
-              <PaymentStatusDetailed status={payment.status} />
+              <PaymentStatusDetailed
+                status={payment.status}
+                confirmations={payment.confirmations}
+                confirmationsRequired={payment.confirmationsRequired}
+              />
 
-              {/* Show transaction hash if detected/settled */}
+              {/* Show transaction hash once a transfer is seen */}
               {payment.txHash && (
                 <div className="mt-4 pt-4 border-t">
                   <div className="text-xs text-muted-foreground mb-1">
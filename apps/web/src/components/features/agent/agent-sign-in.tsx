@@ -0,0 +1,80 @@
+/**
+ * Agent Sign-In Gate
+ *
+ * Renders its children only once the connected wallet has signed in as an
+ * agent; until then it shows a card to sign the login challenge, or to
+ * register the wallet as a new agent. The session authenticates the
+ * dashboard's agent and payment API calls. Without a connected wallet the
+ * children render their own connect prompt.
+ *
+ * @example
+ * ```tsx
+ * <AgentSignInGate>{children}</AgentSignInGate>
+ * ```
+ */
+
+'use client';
+
+import React, { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { RegistrationForm } from '@/components/features/agent/registration-form';
+import { formatAddress } from '@/lib/utils';
+import { useAgentSession } from '@/lib/hooks/use-agent';
+import { useWallet } from '@/components/providers/wallet-provider';
+
+export function AgentSignInGate({ children }: { children: React.ReactNode }) {
+  const { connected, address } = useWallet();
+  const agentSession = useAgentSession(address || null);
+  const [registering, setRegistering] = useState(false);
+
+  /**
+   * Sign the agent login challenge with the connected wallet
+   */
+  const handleLogin = async () => {
+    if (!address) return;
+    try {
+      await agentSession.login(address);
+    } catch (error) {
+      console.error('Agent login failed:', error);
+    }
+  };
+
+  if (!connected || !address || agentSession.isAuthenticated) {
+    return <>{children}</>;
+  }
+
+  if (registering) {
+    return (
+      <div className="max-w-4xl mx-auto">
+        <RegistrationForm
+          onSuccess={() => setRegistering(false)}
+          onError={(error) => {
+            console.error('Registration failed:', error);
+          }}
+        />
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex items-center justify-center min-h-[400px]">
+      <Card className="max-w-md w-full">
+        <CardHeader>
+          <CardTitle>Agent Sign-In</CardTitle>
+          <CardDescription>
+            Sign a login message with {formatAddress(address)} to open your dashboard
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          <Button className="w-full" onClick={handleLogin} disabled={agentSession.isLoggingIn}>
+            {agentSession.isLoggingIn ? 'Waiting for signature...' : 'Sign In with Wallet'}
+          </Button>
+          <Button className="w-full" variant="outline" onClick={() => setRegistering(true)}>
+            Register a New Agent
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -26,6 +26,24 @@ const statusConfig: Record<
     icon: '⏳',
     description: 'Waiting for payment',
   },
+  seen: {
+    label: 'Seen',
+    variant: 'default',
+    icon: '📡',
+    description: 'Payment seen on-chain, waiting for confirmations',
+  },
+  underpaid: {
+    label: 'Underpaid',
+    variant: 'warning',
+    icon: '➗',
+    description: 'Partial payment received, send the remainder before expiry',
+  },
+  overpaid: {
+    label: 'Overpaid',
+    variant: 'default',
+    icon: '➕',
+    description: 'More than requested received, processing settlement',
+  },
   detected: {
     label: 'Detected',
     variant: 'default',
@@ -73,15 +91,24 @@ export function PaymentStatus({
 
 /**
  * Payment Status with Description
+ * Seen payments show their confirmation progress when it is known
  */
 export function PaymentStatusDetailed({
   status,
+  confirmations,
+  confirmationsRequired,
   className,
 }: {
   status: PaymentStatusType;
+  confirmations?: number;
+  confirmationsRequired?: number;
   className?: string;
 }) {
   const config = statusConfig[status] || statusConfig.pending;
+  const description =
+    status === 'seen' && confirmations !== undefined && confirmationsRequired !== undefined
+      ? `Payment seen, ${Math.min(confirmations, confirmationsRequired)}/${confirmationsRequired} confirmations`
+      : config.description;
 
   return (
     <div className={cn('flex items-start space-x-3', className)}>
@@ -91,7 +118,7 @@ export function PaymentStatusDetailed({
           <h4 className="font-semibold">{config.label}</h4>
           <PaymentStatus status={status} showIcon={false} />
         </div>
-        <p className="text-sm text-muted-foreground mt-1">{config.description}</p>
+        <p className="text-sm text-muted-foreground mt-1">{description}</p>
       </div>
     </div>
   );
@@ -108,7 +135,12 @@ export function PaymentStatusAnimated({
   className?: string;
 }) {
   const config = statusConfig[status] || statusConfig.pending;
-  const isActive = status === 'pending' || status === 'detected';
+  const isActive =
+    status === 'pending' ||
+    status === 'seen' ||
+    status === 'underpaid' ||
+    status === 'detected' ||
+    status === 'overpaid';
 
   return (
     <div className={cn('flex items-center space-x-2', className)}>
@@ -117,7 +149,10 @@ export function PaymentStatusAnimated({
           'h-3 w-3 rounded-full',
           isActive && 'animate-pulse',
           status === 'pending' && 'bg-yellow-500',
+          status === 'seen' && 'bg-cyan-500',
+          status === 'underpaid' && 'bg-orange-500',
           status === 'detected' && 'bg-blue-500',
+          status === 'overpaid' && 'bg-indigo-500',
           status === 'settled' && 'bg-green-500',
           status === 'expired' && 'bg-gray-500',
           status === 'failed' && 'bg-red-500'
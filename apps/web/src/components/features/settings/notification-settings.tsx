@@ -64,7 +64,7 @@ export interface NotificationSettingsProps {
   /** Initial preferences (optional) */
   initialPreferences?: Partial<NotificationPreferences>;
   /** Callback when settings are saved */
-  onSave?: (preferences: NotificationPreferences) => void;
+  onSave?: (preferences: NotificationPreferences) => void | Promise<void>;
   /** Show email settings */
   enableEmail?: boolean;
   /** Show webhook settings */
@@ -126,11 +126,7 @@ export function NotificationSettings({
   const handleSave = async () => {
     setIsSaving(true);
     try {
-      // Notification preferences API endpoint not yet implemented
-      // This will call the backend when the endpoint is available
-      throw new Error('Notification preferences API endpoint not yet implemented');
-
-      onSave?.(preferences);
+      await onSave?.(preferences);
       setSaved(true);
 
       // Hide success message after 3 seconds
@@ -4,6 +4,7 @@ import React, { useState } from 'react';
 import Link from 'next/link';
 import { usePathname } from 'next/navigation';
 import { WalletConnectButton } from '@/components/features/wallet/wallet-connect-button';
+import { AgentSignInGate } from '@/components/features/agent/agent-sign-in';
 import { cn } from '@/lib/utils';
 
 interface DashboardLayoutProps {
@@ -12,7 +13,7 @@ interface DashboardLayoutProps {
 
 /**
  * Dashboard Layout
- * Sidebar navigation with wallet connect
+ * Sidebar navigation with wallet connect; pages render once the agent has signed in
  */
 export function DashboardLayout({ children }: DashboardLayoutProps) {
   const [sidebarOpen, setSidebarOpen] = useState(false);
@@ -116,7 +117,7 @@ export function DashboardLayout({ children }: DashboardLayoutProps) {
 
         {/* Page content */}
         <main className="p-6">
-          {children}
+          <AgentSignInGate>{children}</AgentSignInGate>
         </main>
       </div>
     </div>
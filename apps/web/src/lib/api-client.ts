@@ -33,17 +33,49 @@ async function fetchWithTimeout(url: string, options: RequestInit = {}, timeout
  */
 class ApiClient {
   private baseUrl: string;
+  private adminToken: string | null = null;
+  private agentToken: string | null = null;
 
   constructor(baseUrl: string = API_BASE_URL) {
     this.baseUrl = baseUrl;
   }
 
+  /**
+   * Set (or clear) the admin session token sent with admin requests
+   */
+  setAdminToken(token: string | null): void {
+    this.adminToken = token;
+  }
+
+  /**
+   * Set (or clear) the agent session token sent with agent and payment requests
+   */
+  setAgentToken(token: string | null): void {
+    this.agentToken = token;
+  }
+
+  /**
+   * Authorization header: the admin session on admin routes, the agent
+   * session on agent and payment routes
+   */
+  private authHeaders(path: string): Record<string, string> {
+    if (this.adminToken && path.startsWith('/api/v1/admin')) {
+      return { Authorization: `Bearer ${this.adminToken}` };
+    }
+    if (this.agentToken && (path.startsWith('/api/v1/agents/') || path.startsWith('/api/v1/payments/'))) {
+      return { Authorization: `Bearer ${this.agentToken}` };
+    }
+    return {};
+  }
+
   /**
    * Generic GET request
    */
   private async get<T>(path: string): Promise<ApiResponse<T>> {
     try {
-      const response = await fetchWithTimeout(`${this.baseUrl}${path}`);
+      const response = await fetchWithTimeout(`${this.baseUrl}${path}`, {
+        headers: this.authHeaders(path),
+      });
       return await response.json();
     } catch (error) {
       return this.handleError(error);
@@ -59,6 +91,7 @@ class ApiClient {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          ...this.authHeaders(path),
         },
         body: data ? JSON.stringify(data) : undefined,
       });
@@ -77,6 +110,7 @@ class ApiClient {
         method: 'PUT',
         headers: {
           'Content-Type': 'application/json',
+          ...this.authHeaders(path),
         },
         body: data ? JSON.stringify(data) : undefined,
       });
@@ -93,6 +127,7 @@ class ApiClient {
     try {
       const response = await fetchWithTimeout(`${this.baseUrl}${path}`, {
         method: 'DELETE',
+        headers: this.authHeaders(path),
       });
       return await response.json();
     } catch (error) {
@@ -179,6 +214,27 @@ class ApiClient {
     return this.post<Agent>('/api/v1/agents/register', data);
   }
 
+  /**
+   * Request a login challenge message for an agent's wallet to sign
+   */
+  async requestAgentChallenge(address: string): Promise<ApiResponse<{ address: string; message: string; expiresAt: string }>> {
+    return this.post<{ address: string; message: string; expiresAt: string }>(`/api/v1/agents/auth/challenge`, { address });
+  }
+
+  /**
+   * Exchange a signed challenge for an agent session token
+   */
+  async verifyAgentSignature(address: string, signature: string): Promise<ApiResponse<{ token: string; address: string; agentId: string; expiresAt: string }>> {
+    return this.post<{ token: string; address: string; agentId: string; expiresAt: string }>(`/api/v1/agents/auth/verify`, { address, signature });
+  }
+
+  /**
+   * End the current agent session
+   */
+  async agentLogout(): Promise<ApiResponse<void>> {
+    return this.post<void>(`/api/v1/agents/auth/logout`);
+  }
+
   /**
    * Get agent details
    */
@@ -229,6 +285,27 @@ class ApiClient {
   // Admin Methods
   // ============================================
 
+  /**
+   * Request a login challenge message for an admin wallet to sign
+   */
+  async requestAdminChallenge(address: string): Promise<ApiResponse<{ address: string; message: string; expiresAt: string }>> {
+    return this.post<{ address: string; message: string; expiresAt: string }>(`/api/v1/admin/auth/challenge`, { address });
+  }
+
+  /**
+   * Exchange a signed challenge for an admin session token
+   */
+  async verifyAdminSignature(address: string, signature: string): Promise<ApiResponse<{ token: string; address: string; expiresAt: string }>> {
+    return this.post<{ token: string; address: string; expiresAt: string }>(`/api/v1/admin/auth/verify`, { address, signature });
+  }
+
+  /**
+   * End the current admin session
+   */
+  async adminLogout(): Promise<ApiResponse<void>> {
+    return this.post<void>(`/api/v1/admin/auth/logout`);
+  }
+
   /**
    * Get pending settlements (admin only)
    */
@@ -1,5 +1,7 @@
+import { useCallback, useEffect, useState } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { apiClient } from '../api-client';
+import { signMessage } from '../stacks/wallet';
 import { toast } from 'sonner';
 
 export interface PendingPayment {
@@ -18,6 +20,100 @@ export interface PendingPayment {
   expiresAt: Date;
 }
 
+export interface AdminSession {
+  token: string;
+  address: string;
+  expiresAt: string;
+}
+
+const ADMIN_SESSION_STORAGE_KEY = 'admin-session';
+
+function loadStoredSession(): AdminSession | null {
+  if (typeof window === 'undefined') return null;
+  try {
+    const raw = window.sessionStorage.getItem(ADMIN_SESSION_STORAGE_KEY);
+    if (!raw) return null;
+    const session = JSON.parse(raw) as AdminSession;
+    return new Date(session.expiresAt).getTime() > Date.now() ? session : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Hook to manage the admin wallet-signature session
+ *
+ * Login flow: request a nonce challenge → sign it with the connected
+ * Stacks wallet → exchange the signature for a short-lived session token.
+ */
+export function useAdminSession() {
+  const queryClient = useQueryClient();
+  const [session, setSession] = useState<AdminSession | null>(null);
+
+  // Restore a previous session for this tab
+  useEffect(() => {
+    const stored = loadStoredSession();
+    apiClient.setAdminToken(stored?.token ?? null);
+    setSession(stored);
+  }, []);
+
+  const clearSession = useCallback(() => {
+    apiClient.setAdminToken(null);
+    if (typeof window !== 'undefined') {
+      window.sessionStorage.removeItem(ADMIN_SESSION_STORAGE_KEY);
+    }
+    setSession(null);
+    queryClient.removeQueries({ queryKey: ['admin'] });
+  }, [queryClient]);
+
+  // Drop the session once it expires
+  useEffect(() => {
+    if (!session) return;
+    const remaining = new Date(session.expiresAt).getTime() - Date.now();
+    const timer = setTimeout(clearSession, Math.max(remaining, 0));
+    return () => clearTimeout(timer);
+  }, [session, clearSession]);
+
+  const loginMutation = useMutation({
+    mutationFn: async (address: string) => {
+      const challenge = await apiClient.requestAdminChallenge(address);
+      if (!challenge.success || !challenge.data) {
+        throw new Error(challenge.error?.message || 'Failed to request login challenge');
+      }
+
+      const { signature } = await signMessage(challenge.data.message);
+
+      const response = await apiClient.verifyAdminSignature(address, signature);
+      if (!response.success || !response.data) {
+        throw new Error(response.error?.message || 'Admin login failed');
+      }
+      return response.data;
+    },
+    onSuccess: (data) => {
+      apiClient.setAdminToken(data.token);
+      window.sessionStorage.setItem(ADMIN_SESSION_STORAGE_KEY, JSON.stringify(data));
+      setSession(data);
+      toast.success('Signed in as admin');
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : 'Admin login failed');
+    },
+  });
+
+  const logout = useCallback(async () => {
+    await apiClient.adminLogout();
+    clearSession();
+  }, [clearSession]);
+
+  return {
+    session,
+    isAuthenticated: !!session,
+    login: loginMutation.mutateAsync,
+    isLoggingIn: loginMutation.isPending,
+    logout,
+  };
+}
+
 /**
  * Hook to fetch pending settlements
  */
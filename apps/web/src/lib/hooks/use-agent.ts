@@ -1,8 +1,115 @@
+import { useCallback, useEffect, useState } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { apiClient } from '../api-client';
+import { signMessage } from '../stacks/wallet';
 import type { Agent } from '@/types';
 import { toast } from 'sonner';
 
+export interface AgentSession {
+  token: string;
+  address: string;
+  agentId: string;
+  expiresAt: string;
+}
+
+const AGENT_SESSION_STORAGE_KEY = 'agent-session';
+
+function loadStoredSession(): AgentSession | null {
+  if (typeof window === 'undefined') return null;
+  try {
+    const raw = window.sessionStorage.getItem(AGENT_SESSION_STORAGE_KEY);
+    if (!raw) return null;
+    const session = JSON.parse(raw) as AgentSession;
+    return new Date(session.expiresAt).getTime() > Date.now() ? session : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Hook to manage the agent dashboard's wallet-signature session
+ *
+ * The agent and payment APIs require an API key or this session: sign a
+ * nonce challenge with the agent's registered Stacks wallet and the API
+ * returns a session token scoped to that agent.
+ */
+export function useAgentSession(address: string | null) {
+  const queryClient = useQueryClient();
+  const [session, setSession] = useState<AgentSession | null>(null);
+
+  // Restore a previous session for this tab
+  useEffect(() => {
+    const stored = loadStoredSession();
+    apiClient.setAgentToken(stored?.token ?? null);
+    setSession(stored);
+  }, []);
+
+  const clearSession = useCallback(() => {
+    apiClient.setAgentToken(null);
+    if (typeof window !== 'undefined') {
+      window.sessionStorage.removeItem(AGENT_SESSION_STORAGE_KEY);
+    }
+    setSession(null);
+    for (const queryKey of [['agent'], ['vault-stats'], ['withdrawal-history'], ['agent-payments']]) {
+      queryClient.removeQueries({ queryKey });
+    }
+  }, [queryClient]);
+
+  // Drop the session once it expires
+  useEffect(() => {
+    if (!session) return;
+    const remaining = new Date(session.expiresAt).getTime() - Date.now();
+    const timer = setTimeout(clearSession, Math.max(remaining, 0));
+    return () => clearTimeout(timer);
+  }, [session, clearSession]);
+
+  // A session belongs to the wallet that signed it
+  useEffect(() => {
+    if (session && address && session.address !== address) {
+      clearSession();
+    }
+  }, [session, address, clearSession]);
+
+  const loginMutation = useMutation({
+    mutationFn: async (walletAddress: string) => {
+      const challenge = await apiClient.requestAgentChallenge(walletAddress);
+      if (!challenge.success || !challenge.data) {
+        throw new Error(challenge.error?.message || 'Failed to request login challenge');
+      }
+
+      const { signature } = await signMessage(challenge.data.message);
+
+      const response = await apiClient.verifyAgentSignature(walletAddress, signature);
+      if (!response.success || !response.data) {
+        throw new Error(response.error?.message || 'Agent login failed');
+      }
+      return response.data;
+    },
+    onSuccess: (data) => {
+      apiClient.setAgentToken(data.token);
+      window.sessionStorage.setItem(AGENT_SESSION_STORAGE_KEY, JSON.stringify(data));
+      setSession(data);
+      toast.success('Signed in');
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : 'Agent login failed');
+    },
+  });
+
+  const logout = useCallback(async () => {
+    await apiClient.agentLogout();
+    clearSession();
+  }, [clearSession]);
+
+  return {
+    session,
+    isAuthenticated: !!session,
+    login: loginMutation.mutateAsync,
+    isLoggingIn: loginMutation.isPending,
+    logout,
+  };
+}
+
 /**
  * Hook to fetch agent details
  */
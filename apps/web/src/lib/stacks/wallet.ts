@@ -1,4 +1,4 @@
-import { AppConfig, UserSession, showConnect } from '@stacks/connect';
+import { AppConfig, UserSession, showConnect, openSignatureRequestPopup, type SignatureData } from '@stacks/connect';
 import { NETWORK } from './config';
 
 /**
@@ -30,6 +30,25 @@ export function connectWallet(
   });
 }
 
+/**
+ * Ask the connected wallet to sign an arbitrary message.
+ * Resolves with the RSV signature and the signer's public key.
+ */
+export function signMessage(message: string): Promise<SignatureData> {
+  return new Promise((resolve, reject) => {
+    openSignatureRequestPopup({
+      message,
+      appDetails: {
+        name: 'Stacks Payment Router',
+        icon: typeof window !== 'undefined' ? window.location.origin + '/logo.png' : '',
+      },
+      userSession,
+      onFinish: resolve,
+      onCancel: () => reject(new Error('Signature request cancelled')),
+    }).catch(reject);
+  });
+}
+
 /**
  * Disconnect wallet
  */
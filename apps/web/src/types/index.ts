@@ -4,7 +4,15 @@
 
 export type Network = 'mainnet' | 'testnet' | 'devnet';
 export type Chain = 'ethereum' | 'arbitrum' | 'base' | 'polygon' | 'optimism' | 'stacks';
-export type PaymentStatus = 'pending' | 'detected' | 'settled' | 'expired' | 'failed';
+export type PaymentStatus =
+  | 'pending'
+  | 'seen'
+  | 'underpaid'
+  | 'detected'
+  | 'overpaid'
+  | 'settled'
+  | 'expired'
+  | 'failed';
 
 /**
  * Payment Intent - represents a payment request
@@ -17,7 +25,10 @@ export interface PaymentIntent {
   chain: Chain;
   paymentAddress: string;
   status: PaymentStatus;
-  txHash?: string;
+  amountReceived?: string; // Total confirmed so far, across all transfers
+  txHash?: string; // Latest transfer, preferring one still being confirmed
+  confirmations?: number;
+  confirmationsRequired?: number;
   createdAt: Date;
   expiresAt: Date;
   settledAt?: Date;
@@ -35,6 +46,8 @@ export interface Agent {
   maxPaymentAmount?: string;
   minPaymentAmount?: string;
   supportedChains: Chain[];
+  /** Endpoint that receives signed payment and withdrawal webhooks */
+  webhookUrl?: string;
   vaultBalance?: string;
   totalReceived?: string;
   paymentCount?: number;
@@ -7,6 +7,8 @@ CREATE TABLE agents (
     id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
     stacks_address VARCHAR(255) UNIQUE NOT NULL,
     agent_id VARCHAR(64) UNIQUE NOT NULL,
+    agent_index INTEGER UNIQUE, -- HD account for this agent's addresses
+    next_intent_index INTEGER NOT NULL DEFAULT 0, -- Next per-intent deposit address index
     created_at TIMESTAMP DEFAULT NOW(),
     updated_at TIMESTAMP DEFAULT NOW(),
     enabled_chains JSONB NOT NULL DEFAULT '[]',
@@ -16,6 +18,11 @@ CREATE TABLE agents (
     total_volume_usd DECIMAL(20, 2) DEFAULT 0,
     total_payments INTEGER DEFAULT 0,
     status VARCHAR(20) DEFAULT 'active',
+    webhook_url VARCHAR(512),
+    webhook_secret VARCHAR(128),
+    payment_tolerance_bps INTEGER, -- NULL uses the platform default
+    overpayment_policy VARCHAR(20) DEFAULT 'credit', -- credit, refund
+    confirmation_policy JSONB, -- Per-chain confirmation rules; NULL uses the platform default
     metadata JSONB DEFAULT '{}'
 );
 
@@ -48,6 +55,7 @@ CREATE TABLE payment_intents (
     source_token_address VARCHAR(255),
     amount DECIMAL(20, 8) NOT NULL,
     amount_usd DECIMAL(20, 2) NOT NULL,
+    amount_received DECIMAL(20, 8) DEFAULT 0, -- Sum of confirmed payment events
     destination_token VARCHAR(50) DEFAULT 'USDh',
     status VARCHAR(20) DEFAULT 'pending',
     payment_address VARCHAR(255) NOT NULL,
@@ -70,47 +78,77 @@ CREATE TABLE payment_events (
     id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
     payment_intent_id UUID NOT NULL REFERENCES payment_intents(id),
     chain VARCHAR(20) NOT NULL,
-    tx_hash VARCHAR(255) UNIQUE NOT NULL,
-    block_number BIGINT,
+    tx_hash VARCHAR(255) NOT NULL,
+    log_index INTEGER NOT NULL DEFAULT -1, -- Transfer's position in the tx; -1 for a native EVM transfer
+    block_number BIGINT, -- NULL while the tx is in the mempool
     block_hash VARCHAR(255),
     from_address VARCHAR(255) NOT NULL,
     to_address VARCHAR(255) NOT NULL,
     token_address VARCHAR(255),
     amount DECIMAL(20, 8) NOT NULL,
     amount_usd DECIMAL(20, 2) NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'seen', -- seen (unconfirmed), confirmed or orphaned
     confirmed BOOLEAN DEFAULT false,
     confirmations INTEGER DEFAULT 0,
+    confirmations_required INTEGER, -- Under the agent's policy when last reported; NULL for a block tag rule
     detected_at TIMESTAMP DEFAULT NOW(),
-    confirmed_at TIMESTAMP
+    confirmed_at TIMESTAMP,
+    orphaned_at TIMESTAMP, -- Set when a reorg removed the block; cleared if the tx is mined again
+    UNIQUE (chain, tx_hash, log_index)
 );
 
 CREATE INDEX idx_payment_events_tx_hash ON payment_events(tx_hash);
+CREATE INDEX idx_payment_events_chain_block ON payment_events(chain, block_number);
 CREATE INDEX idx_payment_events_payment_intent_id ON payment_events(payment_intent_id);
 CREATE INDEX idx_payment_events_confirmed ON payment_events(confirmed);
+CREATE INDEX idx_payment_events_intent_status ON payment_events(payment_intent_id, status);
 
 -- Routes table
 CREATE TABLE routes (
     id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
-    payment_intent_id UUID NOT NULL REFERENCES payment_intents(id),
+    payment_intent_id UUID REFERENCES payment_intents(id), -- NULL until a quoted route is bound to an intent
+    parent_route_id UUID REFERENCES routes(id), -- Set on the legs of a split route
+    split_weight DECIMAL(7, 6),
     route_type VARCHAR(20) NOT NULL,
     steps JSONB NOT NULL,
     estimated_gas_cost_usd DECIMAL(20, 2) NOT NULL,
     estimated_slippage DECIMAL(5, 4) NOT NULL,
     estimated_time_seconds INTEGER NOT NULL,
     total_cost_usd DECIMAL(20, 2) NOT NULL,
+    expected_output VARCHAR(78),
+    minimum_received VARCHAR(78),
     status VARCHAR(20) DEFAULT 'pending',
     executed_at TIMESTAMP,
     execution_tx_hash VARCHAR(255),
+    actual_output VARCHAR(78), -- What the final step delivered, in expected_output's units; NULL if it could not be measured
+    actual_gas_cost_usd DECIMAL(20, 2), -- Gas paid by the mined step transactions
+    execution_heartbeat_at TIMESTAMP, -- Refreshed while a process executes the route; stale once it has died
     created_at TIMESTAMP DEFAULT NOW()
 );
 
 CREATE INDEX idx_routes_payment_intent_id ON routes(payment_intent_id);
 CREATE INDEX idx_routes_status ON routes(status);
+CREATE INDEX idx_routes_parent_route_id ON routes(parent_route_id);
+
+-- Execution state of each route step, so an interrupted route resumes after its last confirmed step
+CREATE TABLE route_steps (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    route_id UUID NOT NULL REFERENCES routes(id),
+    step_index INTEGER NOT NULL,
+    chain VARCHAR(20) NOT NULL,
+    status VARCHAR(20) NOT NULL, -- built, signed, broadcast, confirmed, or failed without spending anything
+    tx_hash VARCHAR(255), -- The signed transaction's; once confirmed, the attempt that was mined
+    signed_tx TEXT, -- Saved before broadcast, so a step signed before a crash is re-sent as-is
+    error_message TEXT,
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW(),
+    UNIQUE (route_id, step_index)
+);
 
 -- Settlements table
 CREATE TABLE settlements (
     id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
-    payment_intent_id UUID NOT NULL REFERENCES payment_intents(id),
+    payment_intent_id UUID NOT NULL REFERENCES payment_intents(id) UNIQUE, -- One settlement per intent, so a resumed payment can't settle twice
     agent_id UUID NOT NULL REFERENCES agents(id),
     source_amount DECIMAL(20, 8) NOT NULL,
     source_token VARCHAR(50) NOT NULL,
@@ -119,9 +157,14 @@ CREATE TABLE settlements (
     fees_usd DECIMAL(20, 2) NOT NULL,
     gas_cost_usd DECIMAL(20, 2) NOT NULL,
     net_amount_usdh DECIMAL(20, 8) NOT NULL,
+    quote_id UUID,
+    quoted_usdh_amount DECIMAL(20, 8),
+    quote_variance_usdh DECIMAL(20, 8), -- Executed minus quoted output
+    quote_flagged BOOLEAN DEFAULT false, -- Executed output fell below the guaranteed minimum
     deposited_to_vault BOOLEAN DEFAULT false,
     vault_deposit_tx_hash VARCHAR(255),
     status VARCHAR(20) DEFAULT 'pending',
+    paid_out_at TIMESTAMP, -- Set once the USDh reached the agent or the vault; completion only credits the balance after
     created_at TIMESTAMP DEFAULT NOW(),
     completed_at TIMESTAMP
 );
@@ -181,12 +224,24 @@ CREATE TABLE transaction_logs (
     payment_intent_id UUID REFERENCES payment_intents(id),
     chain VARCHAR(20) NOT NULL,
     tx_hash VARCHAR(255) NOT NULL,
-    tx_type VARCHAR(50) NOT NULL,
-    status VARCHAR(20) NOT NULL,
+    tx_type VARCHAR(50) NOT NULL, -- swap, bridge, transfer, sweep, or cancel for an operator cancellation
+    status VARCHAR(20) NOT NULL, -- pending, confirmed, failed, or replaced by a later attempt at the same nonce
     gas_used BIGINT,
     gas_price DECIMAL(20, 8),
     gas_cost_usd DECIMAL(20, 2),
     error_message TEXT,
+    -- What was signed, so a stuck transaction can be re-sent with higher fees
+    from_address VARCHAR(255),
+    to_address VARCHAR(255),
+    nonce BIGINT,
+    value NUMERIC(78, 0),
+    data TEXT,
+    gas_limit BIGINT,
+    max_fee_per_gas NUMERIC(78, 0),
+    max_priority_fee_per_gas NUMERIC(78, 0),
+    replaces_tx_id UUID REFERENCES transaction_logs(id), -- The attempt this one replaced at the same nonce
+    cancel_requested_at TIMESTAMP, -- Set by an operator; the execution service sends the cancellation
+    cancel_requested_by VARCHAR(255),
     created_at TIMESTAMP DEFAULT NOW(),
     confirmed_at TIMESTAMP
 );
@@ -194,6 +249,205 @@ CREATE TABLE transaction_logs (
 CREATE INDEX idx_transaction_logs_tx_hash ON transaction_logs(tx_hash);
 CREATE INDEX idx_transaction_logs_payment_intent_id ON transaction_logs(payment_intent_id);
 CREATE INDEX idx_transaction_logs_status ON transaction_logs(status);
+CREATE INDEX idx_transaction_logs_replaces ON transaction_logs(replaces_tx_id);
+CREATE INDEX idx_transaction_logs_cancel_requested ON transaction_logs(cancel_requested_at);
+
+-- Outbound merchant webhook deliveries
+CREATE TABLE webhook_deliveries (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    agent_id UUID NOT NULL REFERENCES agents(id),
+    event_type VARCHAR(50) NOT NULL,
+    payload JSONB NOT NULL,
+    url VARCHAR(512) NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending',
+    attempts INTEGER NOT NULL DEFAULT 0,
+    next_attempt_at TIMESTAMP DEFAULT NOW(),
+    last_attempt_at TIMESTAMP,
+    response_status INTEGER,
+    last_error TEXT,
+    delivered_at TIMESTAMP,
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX idx_webhook_deliveries_agent_id ON webhook_deliveries(agent_id);
+CREATE INDEX idx_webhook_deliveries_status ON webhook_deliveries(status);
+CREATE INDEX idx_webhook_deliveries_next_attempt_at ON webhook_deliveries(next_attempt_at);
+
+-- Agent API keys (only the SHA-256 hash of the key is stored)
+CREATE TABLE api_keys (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    agent_id UUID NOT NULL REFERENCES agents(id),
+    name VARCHAR(100),
+    key_prefix VARCHAR(20) NOT NULL,
+    key_hash VARCHAR(64) UNIQUE NOT NULL,
+    scopes JSONB NOT NULL DEFAULT '[]',
+    last_used_at TIMESTAMP,
+    revoked_at TIMESTAMP,
+    created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX idx_api_keys_agent_id ON api_keys(agent_id);
+CREATE INDEX idx_api_keys_key_hash ON api_keys(key_hash);
+
+-- Idempotency keys for retried write requests (responses replayed for 24h)
+CREATE TABLE idempotency_keys (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    scope VARCHAR(255) NOT NULL,
+    idempotency_key VARCHAR(255) NOT NULL,
+    request_hash VARCHAR(64) NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'processing',
+    response_status INTEGER,
+    response_body JSONB,
+    claim_token VARCHAR(64), -- Identifies the request holding a processing claim
+    locked_at TIMESTAMP DEFAULT NOW(), -- Refreshed by the claiming request while it runs; a stale claim can be taken over
+    created_at TIMESTAMP DEFAULT NOW(),
+    expires_at TIMESTAMP NOT NULL,
+    UNIQUE(scope, idempotency_key)
+);
+
+CREATE INDEX idx_idempotency_keys_expires_at ON idempotency_keys(expires_at);
+
+-- Firm quotes: a locked conversion rate that can be bound to one payment intent
+CREATE TABLE quotes (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    agent_id UUID REFERENCES agents(id), -- Optional: restricts binding to this agent
+    route_id UUID NOT NULL REFERENCES routes(id),
+    source_chain VARCHAR(20) NOT NULL,
+    source_token VARCHAR(50) NOT NULL,
+    source_decimals SMALLINT NOT NULL,
+    amount VARCHAR(78) NOT NULL, -- Source token base units
+    amount_usd DECIMAL(20, 2) NOT NULL,
+    destination_token VARCHAR(50) DEFAULT 'USDh',
+    quoted_rate DECIMAL(30, 12) NOT NULL, -- USDh per whole source token
+    expected_output_usdh DECIMAL(20, 8) NOT NULL,
+    guaranteed_min_usdh DECIMAL(20, 8) NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'open', -- open, bound
+    payment_intent_id UUID REFERENCES payment_intents(id),
+    expires_at TIMESTAMP NOT NULL, -- Must be bound before this
+    lock_expires_at TIMESTAMP, -- Rate holds until this once bound
+    bound_at TIMESTAMP,
+    created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX idx_quotes_payment_intent_id ON quotes(payment_intent_id);
+CREATE INDEX idx_quotes_expires_at ON quotes(expires_at);
+
+-- Refunds owed to payers (overpayments under a refund policy, underpaid intents that expired)
+CREATE TABLE payment_refunds (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    payment_intent_id UUID NOT NULL REFERENCES payment_intents(id),
+    chain VARCHAR(20) NOT NULL,
+    token VARCHAR(50) NOT NULL,
+    to_address VARCHAR(255) NOT NULL,
+    amount DECIMAL(20, 8) NOT NULL,
+    reason VARCHAR(30) NOT NULL, -- overpayment, expired_underpayment, late_payment
+    status VARCHAR(20) DEFAULT 'pending', -- pending, sent, failed, cancelled
+    tx_hash VARCHAR(255),
+    created_at TIMESTAMP DEFAULT NOW(),
+    sent_at TIMESTAMP
+);
+
+CREATE INDEX idx_payment_refunds_payment_intent_id ON payment_refunds(payment_intent_id);
+CREATE INDEX idx_payment_refunds_status ON payment_refunds(status);
+
+-- Deposit addresses derived for a single payment intent, swept to the treasury once the intent closes
+CREATE TABLE deposit_addresses (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    payment_intent_id UUID UNIQUE NOT NULL REFERENCES payment_intents(id),
+    agent_id UUID NOT NULL REFERENCES agents(id),
+    chain VARCHAR(20) NOT NULL,
+    address VARCHAR(255) NOT NULL,
+    derivation_path VARCHAR(100) NOT NULL, -- m/44'/{coin}'/{agent_index}'/0/{address_index}
+    agent_index INTEGER NOT NULL,
+    address_index INTEGER NOT NULL,
+    status VARCHAR(20) DEFAULT 'active', -- active, swept, empty
+    sweep_tx_hash VARCHAR(255),
+    sweep_attempts INTEGER DEFAULT 0,
+    last_sweep_error TEXT,
+    created_at TIMESTAMP DEFAULT NOW(),
+    swept_at TIMESTAMP,
+    UNIQUE(chain, address)
+);
+
+CREATE INDEX idx_deposit_addresses_status ON deposit_addresses(status);
+CREATE INDEX idx_deposit_addresses_agent_id ON deposit_addresses(agent_id);
+
+-- Listener progress per chain
+CREATE TABLE listener_checkpoints (
+    chain VARCHAR(20) PRIMARY KEY,
+    last_processed_block BIGINT NOT NULL,
+    events_processed INTEGER DEFAULT 0,
+    owner_instance VARCHAR(255), -- Listener replica leading the chain
+    lease_epoch BIGINT DEFAULT 0, -- Leadership epoch of the last write; older leaders can't overwrite
+    stats JSONB DEFAULT '{}', -- Owner's processing stats at the last checkpoint
+    updated_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Detected transfers waiting for confirmations
+CREATE TABLE pending_events (
+    event_key VARCHAR(512) PRIMARY KEY,
+    chain VARCHAR(20) NOT NULL,
+    tx_hash VARCHAR(255) NOT NULL,
+    block_number BIGINT,
+    event_data TEXT NOT NULL, -- Serialized ChainEvent
+    confirmations_required INTEGER NOT NULL,
+    status VARCHAR(20) DEFAULT 'pending',
+    created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX idx_pending_events_chain_status ON pending_events(chain, status);
+
+-- Transfers handed to the API, for exactly-once delivery
+CREATE TABLE processed_events (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    event_key VARCHAR(512) UNIQUE NOT NULL,
+    chain VARCHAR(20) NOT NULL,
+    status VARCHAR(20) NOT NULL, -- processing, completed, failed
+    tx_hash VARCHAR(255),
+    block_number BIGINT,
+    block_hash VARCHAR(255),
+    amount VARCHAR(100),
+    amount_usd DECIMAL(20, 2),
+    error_message TEXT,
+    started_at TIMESTAMP DEFAULT NOW(),
+    completed_at TIMESTAMP,
+    failed_at TIMESTAMP
+);
+
+CREATE INDEX idx_processed_events_chain_block ON processed_events(chain, block_number);
+
+-- Rolling window of recently processed block hashes, used to detect reorgs
+CREATE TABLE listener_block_hashes (
+    chain VARCHAR(20) NOT NULL,
+    block_number BIGINT NOT NULL,
+    block_hash VARCHAR(255) NOT NULL,
+    parent_hash VARCHAR(255) NOT NULL,
+    created_at TIMESTAMP DEFAULT NOW(),
+    PRIMARY KEY (chain, block_number)
+);
+
+-- Admin-requested historical rescans, claimed and run by the chain's listener
+CREATE TABLE rescan_jobs (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    chain VARCHAR(20) NOT NULL,
+    address VARCHAR(255), -- Only rescan transfers to this address
+    from_block BIGINT,
+    to_block BIGINT, -- NULL: chain head when the job starts
+    status VARCHAR(20) NOT NULL DEFAULT 'queued', -- queued, running, completed, failed
+    current_block BIGINT,
+    events_found INTEGER DEFAULT 0,
+    events_new INTEGER DEFAULT 0,
+    findings JSONB DEFAULT '[]',
+    error_message TEXT,
+    requested_by VARCHAR(255),
+    created_at TIMESTAMP DEFAULT NOW(),
+    started_at TIMESTAMP,
+    completed_at TIMESTAMP
+);
+
+CREATE INDEX idx_rescan_jobs_chain_status ON rescan_jobs(chain, status);
+CREATE INDEX idx_rescan_jobs_created_at ON rescan_jobs(created_at);
 
 -- Create updated_at trigger function
 CREATE OR REPLACE FUNCTION update_updated_at_column()
@@ -214,3 +468,5 @@ CREATE TRIGGER update_agent_balances_updated_at BEFORE UPDATE ON agent_balances
 CREATE TRIGGER update_gas_reserves_updated_at BEFORE UPDATE ON gas_reserves
     FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
+CREATE TRIGGER update_webhook_deliveries_updated_at BEFORE UPDATE ON webhook_deliveries
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,102 @@
+#!/usr/bin/env ts-node
+/**
+ * Re-derive Bitcoin Addresses
+ *
+ * Bitcoin addresses used to be derived with SHA-256 in place of RIPEMD-160,
+ * so every stored bc1/tb1/bcrt1 address commits to a hash no key can spend
+ * from. This recomputes them with the real hash160:
+ * - agent-level addresses in agent_payment_addresses are rewritten (with --apply)
+ * - per-intent deposit addresses are only reported: the payer was shown the
+ *   old address, so an open intent using one has to be cancelled or expired
+ *   by an operator, and anything sent to it is lost
+ *
+ * Usage (from the repo root, so the API's dependencies resolve):
+ *   pnpm --filter @services/api exec ts-node ../../scripts/migrate/rederive-bitcoin-addresses.ts [--apply]
+ *
+ * Requires DATABASE_URL and the HD wallet seed the addresses were derived
+ * from (HD_WALLET_MNEMONIC), and the BITCOIN_NETWORK they were derived for.
+ * Listeners pick up the new addresses on their next address resync.
+ */
+
+import * as dotenv from 'dotenv';
+
+dotenv.config({ path: '.env.local' });
+
+import { db } from '../../services/api/src/db';
+import { getHDWalletManager } from '../../shared/utils/addressGeneration';
+
+const OPEN_INTENT_STATUSES = ['pending', 'seen', 'underpaid'];
+
+async function rederiveAgentAddresses(apply: boolean): Promise<number> {
+  const manager = getHDWalletManager();
+  const result = await db.query(
+    `SELECT a.id, a.agent_id, a.agent_index, a.stacks_address, apa.address
+     FROM agents a
+     JOIN agent_payment_addresses apa ON apa.agent_id = a.id AND apa.chain = 'bitcoin'`
+  );
+
+  let changed = 0;
+  for (const row of result.rows) {
+    const address = manager.derivePaymentAddress(row.agent_index || 0, 'bitcoin', row.stacks_address).address;
+    if (address === row.address) continue;
+
+    changed++;
+    console.log(`agent ${row.agent_id}: ${row.address} -> ${address}`);
+
+    if (apply) {
+      await db.query(
+        `UPDATE agent_payment_addresses SET address = $1, updated_at = NOW()
+         WHERE agent_id = $2 AND chain = 'bitcoin'`,
+        [address, row.id]
+      );
+    }
+  }
+
+  return changed;
+}
+
+async function reportDepositAddresses(): Promise<number> {
+  const manager = getHDWalletManager();
+  const result = await db.query(
+    `SELECT d.payment_intent_id, d.address, d.agent_index, d.address_index, pi.status
+     FROM deposit_addresses d
+     JOIN payment_intents pi ON pi.id = d.payment_intent_id
+     WHERE d.chain = 'bitcoin'`
+  );
+
+  let open = 0;
+  for (const row of result.rows) {
+    const address = manager.deriveIntentAddress(row.agent_index, row.address_index, 'bitcoin').address;
+    if (address === row.address) continue;
+
+    const isOpen = OPEN_INTENT_STATUSES.includes(row.status);
+    if (isOpen) open++;
+    console.log(
+      `intent ${row.payment_intent_id} (${row.status}${isOpen ? ', still open' : ''}): ` +
+        `deposit address ${row.address} should be ${address}`
+    );
+  }
+
+  return open;
+}
+
+async function main() {
+  const apply = process.argv.includes('--apply');
+
+  const changed = await rederiveAgentAddresses(apply);
+  console.log(
+    `${changed} agent Bitcoin address(es) ${apply ? 'updated' : 'to update; re-run with --apply to write them'}`
+  );
+
+  const open = await reportDepositAddresses();
+  if (open > 0) {
+    console.log(`${open} open intent(s) use an unspendable deposit address; cancel or expire them`);
+  }
+
+  process.exit(0);
+}
+
+main().catch((error) => {
+  console.error('Re-derivation failed:', error.message);
+  process.exit(1);
+});
@@ -0,0 +1,177 @@
+#!/usr/bin/env ts-node
+/**
+ * Rescan CLI
+ *
+ * Queue a historical rescan for missed payments through the admin API and
+ * follow its progress. Already-processed events are skipped by the listener.
+ *
+ * Usage:
+ *   ts-node scripts/rescan/rescan.ts <chain> --from <block> [--to <block>] [--no-wait]
+ *   ts-node scripts/rescan/rescan.ts <chain> --address <address> [--from <block>] [--to <block>] [--no-wait]
+ *   ts-node scripts/rescan/rescan.ts status <job-id>
+ *
+ * Examples:
+ *   ts-node scripts/rescan/rescan.ts base --from 12000000 --to 12005000
+ *   ts-node scripts/rescan/rescan.ts solana --address 9xQeWvG816bUx9EPjHmaT23yvVM2ZWbrrpZb9PusVFin
+ *
+ * Requires ADMIN_SESSION_TOKEN (from the admin wallet login) and API_URL.
+ */
+
+import * as dotenv from 'dotenv';
+
+dotenv.config({ path: '.env.local' });
+
+const API_URL = process.env.API_URL || 'http://localhost:3000';
+const POLL_INTERVAL_MS = 3000;
+
+interface RescanJob {
+  id: string;
+  chain: string;
+  address?: string;
+  fromBlock?: number;
+  toBlock?: number;
+  status: 'queued' | 'running' | 'completed' | 'failed';
+  currentBlock?: number;
+  eventsFound: number;
+  eventsNew: number;
+  findings: Array<{
+    txHash: string;
+    blockNumber: number;
+    to: string;
+    amount: string;
+    tokenAddress?: string;
+    alreadyProcessed: boolean;
+  }>;
+  error?: string;
+}
+
+function usage(): never {
+  console.log('Usage:');
+  console.log('  ts-node rescan.ts <chain> --from <block> [--to <block>] [--no-wait]');
+  console.log('  ts-node rescan.ts <chain> --address <address> [--from <block>] [--to <block>] [--no-wait]');
+  console.log('  ts-node rescan.ts status <job-id>');
+  process.exit(1);
+}
+
+function option(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+function blockOption(args: string[], name: string): number | undefined {
+  const value = option(args, name);
+  if (value === undefined) return undefined;
+
+  const block = Number(value);
+  if (!Number.isInteger(block) || block < 0) {
+    console.error(`❌ ${name} must be a block number`);
+    process.exit(1);
+  }
+  return block;
+}
+
+async function api<T>(method: string, path: string, body?: unknown): Promise<T> {
+  const token = process.env.ADMIN_SESSION_TOKEN;
+  if (!token) {
+    console.error('❌ ADMIN_SESSION_TOKEN is not set');
+    process.exit(1);
+  }
+
+  const response = await fetch(`${API_URL}/api/v1/admin${path}`, {
+    method,
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${token}`,
+    },
+    body: body ? JSON.stringify(body) : undefined,
+  });
+
+  const result = (await response.json()) as { success: boolean; data?: T; error?: string };
+  if (!response.ok || !result.success) {
+    throw new Error(result.error || `Request failed with status ${response.status}`);
+  }
+  return result.data as T;
+}
+
+function printProgress(job: RescanJob) {
+  const range = job.fromBlock !== undefined ? `${job.fromBlock}-${job.toBlock ?? 'head'}` : 'pending';
+  const at = job.currentBlock !== undefined ? `, at block ${job.currentBlock}` : '';
+  console.log(`[${job.status}] blocks ${range}${at}: ${job.eventsFound} found, ${job.eventsNew} new`);
+}
+
+function printFindings(job: RescanJob) {
+  if (job.findings.length === 0) {
+    console.log('\nNo payments found.');
+    return;
+  }
+
+  console.log('\nPayments found:');
+  for (const finding of job.findings) {
+    const state = finding.alreadyProcessed ? 'already processed' : 'NEW';
+    const token = finding.tokenAddress ? ` (${finding.tokenAddress})` : '';
+    console.log(`  #${finding.blockNumber} ${finding.txHash} → ${finding.to}: ${finding.amount}${token} [${state}]`);
+  }
+
+  if (job.findings.length < job.eventsFound) {
+    console.log(`  ... and ${job.eventsFound - job.findings.length} more`);
+  }
+}
+
+async function follow(jobId: string): Promise<RescanJob> {
+  for (;;) {
+    const job = await api<RescanJob>('GET', `/rescans/${jobId}`);
+    printProgress(job);
+
+    if (job.status === 'completed' || job.status === 'failed') {
+      return job;
+    }
+    await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+  }
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  if (args.length === 0) usage();
+
+  let job: RescanJob;
+
+  if (args[0] === 'status') {
+    if (!args[1]) usage();
+    job = await api<RescanJob>('GET', `/rescans/${args[1]}`);
+    printProgress(job);
+  } else {
+    const chain = args[0];
+    const address = option(args, '--address');
+    const fromBlock = blockOption(args, '--from');
+    const toBlock = blockOption(args, '--to');
+
+    if (!address && fromBlock === undefined) usage();
+
+    console.log('\n🔎 Rescan\n');
+    console.log(`Chain: ${chain}`);
+    if (address) console.log(`Address: ${address}`);
+    console.log(`Blocks: ${fromBlock ?? 'default'} - ${toBlock ?? 'head'}\n`);
+
+    job = await api<RescanJob>('POST', '/rescans', { chain, address, fromBlock, toBlock });
+    console.log(`✅ Queued job ${job.id}`);
+
+    if (args.includes('--no-wait')) {
+      console.log(`Check progress with: ts-node scripts/rescan/rescan.ts status ${job.id}`);
+      return;
+    }
+
+    job = await follow(job.id);
+  }
+
+  if (job.status === 'failed') {
+    console.error(`\n❌ Rescan failed: ${job.error}`);
+    process.exit(1);
+  }
+
+  printFindings(job);
+}
+
+main().catch((error) => {
+  console.error(`\n❌ ${error.message}`);
+  process.exit(1);
+});
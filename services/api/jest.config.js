@@ -0,0 +1,29 @@
+module.exports = {
+  preset: 'ts-jest',
+  transform: {
+    // Resolve the router workspace package to its sources rather than its build
+    '^.+\\.ts$': [
+      'ts-jest',
+      { tsconfig: { paths: { '@shared/*': ['shared/*'], '@services/router': ['services/router/src'] } } },
+    ],
+  },
+  testEnvironment: 'node',
+  roots: ['<rootDir>/src'],
+  testMatch: ['**/__tests__/**/*.test.ts'],
+  collectCoverageFrom: [
+    'src/**/*.ts',
+    '!src/**/*.d.ts',
+    '!src/__tests__/**',
+  ],
+  coverageDirectory: 'coverage',
+  // shared/ keeps stale compiled .js next to its sources; prefer the .ts
+  moduleFileExtensions: ['ts', 'js', 'json'],
+  moduleNameMapper: {
+    '^@shared/(.*)$': '<rootDir>/../../shared/$1',
+    '^@services/router$': '<rootDir>/../router/src',
+  },
+  setupFilesAfterEnv: [],
+  testTimeout: 10000,
+};
+
+
@@ -0,0 +1,202 @@
+/**
+ * Tests for AdminAuthService and the admin session middleware
+ */
+
+import crypto from 'crypto';
+import { Request, Response } from 'express';
+import {
+  createStacksPrivateKey,
+  getAddressFromPrivateKey,
+  signMessageHashRsv,
+  TransactionVersion,
+} from '@stacks/transactions';
+import { getRedis } from '@shared/utils/redis';
+import { AdminAuthService } from '../services/AdminAuthService';
+import { adminAuth } from '../middleware/admin-auth';
+
+jest.mock('@shared/utils/redis', () => ({ getRedis: jest.fn() }));
+
+/**
+ * The slice of Redis the auth flow uses, in memory, with TTLs measured
+ * against the (fake) clock
+ */
+class FakeRedis {
+  store = new Map<string, { value: string; expiresAt: number }>();
+
+  async setEx(key: string, seconds: number, value: string) {
+    this.store.set(key, { value, expiresAt: Date.now() + seconds * 1000 });
+  }
+
+  async get(key: string) {
+    const entry = this.store.get(key);
+    return entry && entry.expiresAt > Date.now() ? entry.value : null;
+  }
+
+  async del(key: string) {
+    this.store.delete(key);
+  }
+}
+
+const adminKey = '11'.repeat(32) + '01'; // Trailing 01: compressed public key, as wallets use
+const otherKey = '22'.repeat(32) + '01';
+const addressOf = (privateKey: string) => getAddressFromPrivateKey(privateKey, TransactionVersion.Testnet);
+
+// Sign the way a Stacks wallet signs a message: sha256 over the prefixed, length-tagged text
+const signMessage = (privateKey: string, message: string) => {
+  const prefix = Buffer.from('\x17Stacks Signed Message:\n', 'utf8');
+  const body = Buffer.from(message, 'utf8');
+  const hash = crypto
+    .createHash('sha256')
+    .update(Buffer.concat([prefix, Buffer.from([body.length]), body]))
+    .digest('hex');
+  return signMessageHashRsv({ messageHash: hash, privateKey: createStacksPrivateKey(privateKey) }).data;
+};
+
+describe('AdminAuthService', () => {
+  const admin = addressOf(adminKey);
+  const outsider = addressOf(otherKey);
+  const env = { ...process.env };
+
+  let service: AdminAuthService;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    (getRedis as jest.Mock).mockReturnValue(new FakeRedis());
+    process.env.ADMIN_ADDRESSES = `${admin}, `;
+    service = new AdminAuthService();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    process.env = { ...env };
+  });
+
+  const login = async (address: string, privateKey: string) => {
+    const { message } = await service.createChallenge(address);
+    return service.verifyChallenge(address, signMessage(privateKey, message));
+  };
+
+  describe('createChallenge', () => {
+    it('should issue a challenge naming the address and a fresh nonce', async () => {
+      const first = await service.createChallenge(admin);
+      const second = await service.createChallenge(admin);
+
+      expect(first.message).toContain(`Address: ${admin}`);
+      expect(first.message).not.toBe(second.message);
+      expect(first.expiresAt.getTime() - Date.now()).toBe(5 * 60 * 1000);
+    });
+
+    it('should answer addresses off the allowlist the same way', async () => {
+      const challenge = await service.createChallenge(outsider);
+
+      expect(Object.keys(challenge).sort()).toEqual(['address', 'expiresAt', 'message']);
+      expect(challenge.message).toContain(`Address: ${outsider}`);
+    });
+  });
+
+  describe('verifyChallenge', () => {
+    it('should open a session for an allowlisted address that signed its challenge', async () => {
+      const session = await login(admin, adminKey);
+
+      expect(session.address).toBe(admin);
+      await expect(service.getSessionAddress(session.token)).resolves.toBe(admin);
+    });
+
+    it('should refuse a signature from another key', async () => {
+      const { message } = await service.createChallenge(admin);
+
+      await expect(service.verifyChallenge(admin, signMessage(otherKey, message))).rejects.toMatchObject({
+        statusCode: 401,
+        code: 'INVALID_SIGNATURE',
+      });
+    });
+
+    it('should refuse a valid signature from an address off the allowlist like any bad signature', async () => {
+      await expect(login(outsider, otherKey)).rejects.toMatchObject({ statusCode: 401, code: 'INVALID_SIGNATURE' });
+    });
+
+    it('should consume the challenge, so a signature can not be replayed', async () => {
+      const { message } = await service.createChallenge(admin);
+      const signature = signMessage(adminKey, message);
+
+      await service.verifyChallenge(admin, signature);
+      await expect(service.verifyChallenge(admin, signature)).rejects.toMatchObject({ code: 'CHALLENGE_EXPIRED' });
+    });
+
+    it('should refuse a challenge signed after it expired', async () => {
+      const { message } = await service.createChallenge(admin);
+
+      jest.advanceTimersByTime(5 * 60 * 1000 + 1);
+
+      await expect(service.verifyChallenge(admin, signMessage(adminKey, message))).rejects.toMatchObject({
+        statusCode: 401,
+        code: 'CHALLENGE_EXPIRED',
+      });
+    });
+  });
+
+  describe('getSessionAddress', () => {
+    it('should end a session after 30 minutes', async () => {
+      const { token } = await login(admin, adminKey);
+
+      jest.advanceTimersByTime(30 * 60 * 1000 - 1);
+      await expect(service.getSessionAddress(token)).resolves.toBe(admin);
+
+      jest.advanceTimersByTime(1);
+      await expect(service.getSessionAddress(token)).resolves.toBeNull();
+    });
+
+    it('should end a session as soon as its address leaves the allowlist', async () => {
+      const { token } = await login(admin, adminKey);
+
+      process.env.ADMIN_ADDRESSES = '';
+
+      await expect(service.getSessionAddress(token)).resolves.toBeNull();
+    });
+
+    it('should end a session on logout', async () => {
+      const { token } = await login(admin, adminKey);
+
+      await service.revokeSession(token);
+
+      await expect(service.getSessionAddress(token)).resolves.toBeNull();
+    });
+  });
+
+  describe('adminAuth middleware', () => {
+    const run = async (authorization?: string) => {
+      const req = { headers: { authorization } } as Request;
+      const res = { locals: {}, status: jest.fn().mockReturnThis(), json: jest.fn() };
+      const next = jest.fn();
+
+      await adminAuth(req, res as unknown as Response, next);
+      return { res, next };
+    };
+
+    it('should refuse requests without a session token', async () => {
+      const { res, next } = await run();
+
+      expect(res.status).toHaveBeenCalledWith(401);
+      expect(next).not.toHaveBeenCalled();
+    });
+
+    it('should refuse an unknown or expired session', async () => {
+      const { token } = await login(admin, adminKey);
+      jest.advanceTimersByTime(30 * 60 * 1000);
+
+      const { res, next } = await run(`Bearer ${token}`);
+
+      expect(res.status).toHaveBeenCalledWith(401);
+      expect(next).not.toHaveBeenCalled();
+    });
+
+    it('should expose the admin address of a live session', async () => {
+      const { token } = await login(admin, adminKey);
+
+      const { res, next } = await run(`Bearer ${token}`);
+
+      expect(next).toHaveBeenCalled();
+      expect(res.locals).toEqual({ adminAddress: admin, adminToken: token });
+    });
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * Tests for AgentAuthService
+ */
+
+import crypto from 'crypto';
+import {
+  createStacksPrivateKey,
+  getAddressFromPrivateKey,
+  signMessageHashRsv,
+  TransactionVersion,
+} from '@stacks/transactions';
+import { getRedis } from '@shared/utils/redis';
+import { AgentAuthService } from '../services/AgentAuthService';
+import { API_KEY_SCOPES } from '../services/ApiKeyService';
+import { db } from '../db';
+
+jest.mock('../db', () => ({ db: { query: jest.fn() } }));
+jest.mock('@shared/utils/redis', () => ({ getRedis: jest.fn() }));
+
+const query = db.query as jest.Mock;
+
+/**
+ * The slice of Redis the auth flow uses, in memory, with TTLs measured
+ * against the (fake) clock
+ */
+class FakeRedis {
+  store = new Map<string, { value: string; expiresAt: number }>();
+
+  async setEx(key: string, seconds: number, value: string) {
+    this.store.set(key, { value, expiresAt: Date.now() + seconds * 1000 });
+  }
+
+  async get(key: string) {
+    const entry = this.store.get(key);
+    return entry && entry.expiresAt > Date.now() ? entry.value : null;
+  }
+
+  async del(key: string) {
+    this.store.delete(key);
+  }
+}
+
+const agentKey = '11'.repeat(32) + '01'; // Trailing 01: compressed public key, as wallets use
+const otherKey = '22'.repeat(32) + '01';
+const addressOf = (privateKey: string) => getAddressFromPrivateKey(privateKey, TransactionVersion.Testnet);
+
+// Sign the way a Stacks wallet signs a message: sha256 over the prefixed, length-tagged text
+const signMessage = (privateKey: string, message: string) => {
+  const prefix = Buffer.from('\x17Stacks Signed Message:\n', 'utf8');
+  const body = Buffer.from(message, 'utf8');
+  const hash = crypto
+    .createHash('sha256')
+    .update(Buffer.concat([prefix, Buffer.from([body.length]), body]))
+    .digest('hex');
+  return signMessageHashRsv({ messageHash: hash, privateKey: createStacksPrivateKey(privateKey) }).data;
+};
+
+describe('AgentAuthService', () => {
+  const address = addressOf(agentKey);
+  const agent = { id: 'agent-db-1', agent_id: 'agent-1' };
+
+  let service: AgentAuthService;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    (getRedis as jest.Mock).mockReturnValue(new FakeRedis());
+    query.mockReset().mockImplementation(async (_sql: string, [lookup]: string[]) => ({
+      rows: lookup === address ? [agent] : [],
+    }));
+    service = new AgentAuthService();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  const login = async (privateKey: string) => {
+    const { message } = await service.createChallenge(address);
+    return service.verifyChallenge(address, signMessage(privateKey, message));
+  };
+
+  it('should only issue challenges to registered agents', async () => {
+    const challenge = await service.createChallenge(address);
+
+    expect(challenge.message).toContain(`Agent: ${agent.agent_id}`);
+    await expect(service.createChallenge(addressOf(otherKey))).rejects.toMatchObject({
+      statusCode: 404,
+      code: 'AGENT_NOT_FOUND',
+    });
+  });
+
+  it("should open a session when the agent's wallet signed the challenge", async () => {
+    const session = await login(agentKey);
+
+    expect(session).toMatchObject({ address, agentId: 'agent-1' });
+    await expect(service.authenticate(session.token)).resolves.toEqual({
+      keyId: 'wallet-session',
+      agentDbId: 'agent-db-1',
+      agentId: 'agent-1',
+      stacksAddress: address,
+      scopes: API_KEY_SCOPES,
+    });
+  });
+
+  it('should refuse a signature from another key and consume the challenge', async () => {
+    const { message } = await service.createChallenge(address);
+
+    await expect(service.verifyChallenge(address, signMessage(otherKey, message))).rejects.toMatchObject({
+      statusCode: 401,
+      code: 'INVALID_SIGNATURE',
+    });
+    await expect(service.verifyChallenge(address, signMessage(agentKey, message))).rejects.toMatchObject({
+      code: 'CHALLENGE_EXPIRED',
+    });
+  });
+
+  it('should end a session after an hour or on logout', async () => {
+    const expiring = await login(agentKey);
+    const revoked = await login(agentKey);
+
+    await service.revokeSession(revoked.token);
+    await expect(service.authenticate(revoked.token)).resolves.toBeNull();
+
+    jest.advanceTimersByTime(60 * 60 * 1000);
+    await expect(service.authenticate(expiring.token)).resolves.toBeNull();
+  });
+
+  it('should not authenticate a session whose agent no longer exists', async () => {
+    const { token } = await login(agentKey);
+
+    query.mockResolvedValue({ rows: [] });
+
+    await expect(service.authenticate(token)).resolves.toBeNull();
+  });
+});
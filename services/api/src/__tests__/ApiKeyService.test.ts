@@ -0,0 +1,259 @@
+/**
+ * Tests for ApiKeyService and the API key middleware
+ */
+
+import crypto from 'crypto';
+import { AddressInfo } from 'net';
+import express, { Request, Response } from 'express';
+import { getRedis } from '@shared/utils/redis';
+import { API_KEY_SCOPES, ApiKeyService } from '../services/ApiKeyService';
+import { requireApiKey } from '../middleware/api-key-auth';
+import { db } from '../db';
+
+jest.mock('../db', () => ({ db: { query: jest.fn() } }));
+jest.mock('@shared/utils/redis', () => ({ getRedis: jest.fn() }));
+
+const query = db.query as jest.Mock;
+const sha256 = (value: string) => crypto.createHash('sha256').update(value).digest('hex');
+
+describe('ApiKeyService', () => {
+  let service: ApiKeyService;
+
+  beforeEach(() => {
+    query.mockReset().mockResolvedValue({ rows: [] });
+    service = new ApiKeyService();
+  });
+
+  describe('createKey', () => {
+    it('should return the key once and store only its hash', async () => {
+      query
+        .mockResolvedValueOnce({ rows: [{ id: 'agent-db-1' }] })
+        .mockResolvedValueOnce({ rows: [{ id: 'key-1', key_prefix: 'spr_abcdefgh', scopes: '["read"]' }] });
+
+      const created = await service.createKey('agent-1', { scopes: ['read'] });
+
+      expect(created.key).toMatch(/^spr_[0-9a-f]{64}$/);
+      const [, params] = query.mock.calls[1];
+      expect(params).toEqual(['agent-db-1', null, created.key.slice(0, 12), sha256(created.key), '["read"]']);
+      expect(params).not.toContain(created.key);
+    });
+
+    it('should refuse unknown or empty scopes', async () => {
+      query.mockResolvedValueOnce({ rows: [{ id: 'agent-db-1' }] });
+      await expect(service.createKey('agent-1', { scopes: ['read', 'admin'] as never })).rejects.toMatchObject({
+        statusCode: 400,
+        code: 'INVALID_SCOPES',
+      });
+
+      query.mockResolvedValueOnce({ rows: [{ id: 'agent-db-1' }] });
+      await expect(service.createKey('agent-1', { scopes: [] })).rejects.toMatchObject({ code: 'INVALID_SCOPES' });
+    });
+  });
+
+  describe('authenticate', () => {
+    it('should resolve an active key to its agent and scopes', async () => {
+      query.mockResolvedValueOnce({
+        rows: [
+          { id: 'key-1', agent_id: 'agent-db-1', agent_agent_id: 'agent-1', stacks_address: 'ST1', scopes: '["read"]' },
+        ],
+      });
+
+      await expect(service.authenticate('spr_key')).resolves.toEqual({
+        keyId: 'key-1',
+        agentDbId: 'agent-db-1',
+        agentId: 'agent-1',
+        stacksAddress: 'ST1',
+        scopes: ['read'],
+      });
+      const [sql, params] = query.mock.calls[0];
+      expect(sql).toContain('revoked_at IS NULL');
+      expect(params).toEqual([sha256('spr_key')]);
+    });
+
+    it('should not resolve a revoked or unknown key', async () => {
+      await expect(service.authenticate('spr_revoked')).resolves.toBeNull();
+    });
+
+    it('should not look up values that are not API keys', async () => {
+      await expect(service.authenticate('session-token')).resolves.toBeNull();
+      expect(query).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('rotateKey', () => {
+    const existing = { id: 'key-1', name: 'ci', key_prefix: 'spr_old', scopes: ['read', 'payments:write'] };
+
+    it('should issue a key with the same name and scopes before revoking the old one', async () => {
+      query
+        .mockResolvedValueOnce({ rows: [{ id: 'agent-db-1' }] })
+        .mockResolvedValueOnce({ rows: [existing] })
+        .mockResolvedValueOnce({ rows: [{ id: 'agent-db-1' }] })
+        .mockResolvedValueOnce({ rows: [{ ...existing, id: 'key-2' }] }) // insert
+        .mockResolvedValueOnce({ rows: [{ id: 'agent-db-1' }] })
+        .mockResolvedValueOnce({ rows: [existing] })
+        .mockResolvedValueOnce({ rows: [{ ...existing, revoked_at: new Date() }] }); // revoke
+
+      const rotated = await service.rotateKey('agent-1', 'key-1');
+
+      expect(rotated.id).toBe('key-2');
+      const statements = query.mock.calls.map(([sql]) => sql as string);
+      const insert = statements.findIndex((sql) => sql.includes('INSERT INTO api_keys'));
+      const revoke = statements.findIndex((sql) => sql.includes('SET revoked_at = NOW()'));
+      expect(insert).toBeGreaterThan(-1);
+      expect(revoke).toBeGreaterThan(insert);
+      expect(query.mock.calls[insert][1].slice(1)).toEqual([
+        'ci',
+        rotated.key.slice(0, 12),
+        sha256(rotated.key),
+        JSON.stringify(existing.scopes),
+      ]);
+      expect(query.mock.calls[revoke][1]).toEqual(['key-1']);
+    });
+
+    it("should not rotate another agent's key", async () => {
+      query.mockResolvedValueOnce({ rows: [{ id: 'agent-db-2' }] }).mockResolvedValueOnce({ rows: [] });
+
+      await expect(service.rotateKey('agent-2', 'key-1')).rejects.toMatchObject({ statusCode: 404 });
+
+      const [sql, params] = query.mock.calls[1];
+      expect(sql).toContain('agent_id = $2');
+      expect(params).toEqual(['key-1', 'agent-db-2']);
+      expect(query).toHaveBeenCalledTimes(2);
+    });
+  });
+});
+
+describe('requireApiKey', () => {
+  const keyRow = (scopes: string[]) => ({
+    id: 'key-1',
+    agent_id: 'agent-db-1',
+    agent_agent_id: 'agent-1',
+    stacks_address: 'ST1AGENT',
+    scopes,
+  });
+
+  let redisGet: jest.Mock;
+
+  beforeEach(() => {
+    query.mockReset().mockResolvedValue({ rows: [] });
+    redisGet = jest.fn().mockResolvedValue(null);
+    (getRedis as jest.Mock).mockReturnValue({ get: redisGet });
+  });
+
+  const run = async (
+    middleware: ReturnType<typeof requireApiKey>,
+    request: { key?: string; params?: Record<string, string>; body?: unknown }
+  ) => {
+    const req = {
+      headers: request.key ? { 'x-api-key': request.key } : {},
+      params: request.params || {},
+      body: request.body,
+      path: '/test',
+    } as unknown as Request;
+    const res = { locals: {} as Record<string, unknown>, status: jest.fn().mockReturnThis(), json: jest.fn() };
+    const next = jest.fn();
+
+    await middleware(req, res as unknown as Response, next);
+    return { req, res, next };
+  };
+
+  it('should refuse a request without a key', async () => {
+    const { res, next } = await run(requireApiKey('read'), { params: { agentId: 'agent-1' } });
+
+    expect(res.status).toHaveBeenCalledWith(401);
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it('should refuse a revoked or unknown key', async () => {
+    const { res, next } = await run(requireApiKey('read'), { key: 'spr_revoked', params: { agentId: 'agent-1' } });
+
+    expect(res.status).toHaveBeenCalledWith(401);
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it("should refuse a key used on another agent's routes", async () => {
+    query.mockResolvedValueOnce({ rows: [keyRow(API_KEY_SCOPES)] });
+
+    const { res, next } = await run(requireApiKey('read'), { key: 'spr_key', params: { agentId: 'agent-2' } });
+
+    expect(res.status).toHaveBeenCalledWith(403);
+    expect(res.json).toHaveBeenCalledWith(expect.objectContaining({ error: 'API key is not valid for this agent' }));
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it('should refuse a key without the required scope', async () => {
+    query.mockResolvedValueOnce({ rows: [keyRow(['read'])] });
+
+    const { res, next } = await run(requireApiKey('withdrawals:write'), {
+      key: 'spr_key',
+      params: { agentId: 'agent-1' },
+    });
+
+    expect(res.status).toHaveBeenCalledWith(403);
+    expect(res.json).toHaveBeenCalledWith(
+      expect.objectContaining({ error: 'API key is missing required scope: withdrawals:write' })
+    );
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it('should pass a key with the scope for its own agent', async () => {
+    query.mockResolvedValueOnce({ rows: [keyRow(['read'])] });
+
+    const { res, next } = await run(requireApiKey('read'), { key: 'spr_key', params: { agentId: 'agent-1' } });
+
+    expect(next).toHaveBeenCalled();
+    expect(res.locals.apiKey).toMatchObject({ keyId: 'key-1', agentId: 'agent-1' });
+  });
+
+  it('should resolve an agent addressed by Stacks address to its agent ID', async () => {
+    query.mockResolvedValueOnce({ rows: [keyRow(['read'])] });
+
+    const { req, next } = await run(requireApiKey('read'), { key: 'spr_key', params: { agentId: 'ST1AGENT' } });
+
+    expect(next).toHaveBeenCalled();
+    expect(req.params.agentId).toBe('agent-1');
+  });
+
+  it('should only accept the agent ID from other resolvers', async () => {
+    query.mockResolvedValueOnce({ rows: [keyRow(API_KEY_SCOPES)] });
+
+    const { res, next } = await run(
+      requireApiKey('payments:write', (req) => req.body?.agentId),
+      { key: 'spr_key', body: { agentId: 'ST1AGENT' } }
+    );
+
+    expect(res.status).toHaveBeenCalledWith(403);
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it('should accept a dashboard session with every scope for its agent only', async () => {
+    redisGet.mockResolvedValue('ST1AGENT');
+    query.mockResolvedValue({ rows: [{ id: 'agent-db-1', agent_id: 'agent-1' }] });
+
+    const own = await run(requireApiKey('keys:manage'), { key: 'session-token', params: { agentId: 'agent-1' } });
+    const other = await run(requireApiKey('read'), { key: 'session-token', params: { agentId: 'agent-2' } });
+
+    expect(own.next).toHaveBeenCalled();
+    expect(own.res.locals.apiKey).toMatchObject({ keyId: 'wallet-session', scopes: API_KEY_SCOPES });
+    expect(other.res.status).toHaveBeenCalledWith(403);
+  });
+
+  it('should hand the handler the agent ID through an Express route', async () => {
+    query.mockResolvedValueOnce({ rows: [keyRow(['read'])] });
+
+    const app = express();
+    app.get('/agents/:agentId', requireApiKey('read'), (req, res) => {
+      res.json({ agentId: req.params.agentId });
+    });
+
+    const server = app.listen(0);
+    try {
+      const { port } = server.address() as AddressInfo;
+      const response = await fetch(`http://127.0.0.1:${port}/agents/ST1AGENT`, { headers: { 'X-API-Key': 'spr_key' } });
+
+      await expect(response.json()).resolves.toEqual({ agentId: 'agent-1' });
+    } finally {
+      server.close();
+    }
+  });
+});
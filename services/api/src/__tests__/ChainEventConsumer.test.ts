@@ -0,0 +1,239 @@
+/**
+ * Tests for ChainEventConsumer and the chain event stream it reads
+ */
+
+import { ChainEvent } from '@shared/types';
+import { getRedis } from '@shared/utils/redis';
+import {
+  CHAIN_EVENT_STREAMS,
+  parseChainEventMessage,
+  publishChainEvent,
+} from '@shared/utils/chainEventStream';
+import { ChainEventConsumer } from '../services/ChainEventConsumer';
+import { PaymentDetectionService } from '../services/PaymentDetectionService';
+
+jest.mock('@shared/utils/redis', () => ({ getRedis: jest.fn() }));
+jest.mock('../services/PaymentDetectionService', () => ({
+  PaymentDetectionService: jest.fn().mockImplementation(() => ({
+    handlePaymentEvent: jest.fn(),
+    handleReorg: jest.fn(),
+  })),
+}));
+
+type Fields = Record<string, string>;
+
+interface PendingEntry {
+  consumer: string;
+  deliveredAt: number;
+  deliveries: number;
+}
+
+/**
+ * The Redis Streams commands the consumer uses, in memory, for one consumer
+ * group. Idle time is measured on the real clock.
+ */
+class FakeStreams {
+  streams = new Map<string, Array<{ id: string; message: Fields }>>();
+  pending = new Map<string, PendingEntry>();
+  xAdd = jest.fn(async (key: string, _id: string, message: Fields) => {
+    const entries = this.stream(key);
+    const id = `${++this.sequence}-0`;
+    entries.push({ id, message });
+    return id;
+  });
+
+  private sequence = 0;
+  private lastDelivered = 0;
+
+  stream(key: string) {
+    if (!this.streams.has(key)) this.streams.set(key, []);
+    return this.streams.get(key)!;
+  }
+
+  duplicate() {
+    return this;
+  }
+
+  async connect() {}
+  async quit() {}
+  async xGroupCreate() {
+    return 'OK';
+  }
+
+  async xReadGroup(
+    _group: string,
+    consumer: string,
+    { key }: { key: string },
+    { COUNT, BLOCK }: { COUNT: number; BLOCK: number }
+  ) {
+    const messages = this.stream(key)
+      .filter((entry) => parseInt(entry.id) > this.lastDelivered)
+      .slice(0, COUNT);
+
+    if (messages.length === 0) {
+      await new Promise((resolve) => setTimeout(resolve, BLOCK));
+      return null;
+    }
+
+    for (const entry of messages) {
+      this.lastDelivered = parseInt(entry.id);
+      this.pending.set(entry.id, { consumer, deliveredAt: Date.now(), deliveries: 1 });
+    }
+    return [{ name: key, messages }];
+  }
+
+  async xAck(_key: string, _group: string, id: string) {
+    return this.pending.delete(id) ? 1 : 0;
+  }
+
+  async xPendingRange(
+    _key: string,
+    _group: string,
+    _start: string,
+    _end: string,
+    count: number,
+    { IDLE }: { IDLE: number }
+  ) {
+    return [...this.pending.entries()]
+      .filter(([, entry]) => Date.now() - entry.deliveredAt >= IDLE)
+      .slice(0, count)
+      .map(([id, entry]) => ({
+        id,
+        consumer: entry.consumer,
+        millisecondsSinceLastDelivery: Date.now() - entry.deliveredAt,
+        deliveriesCounter: entry.deliveries,
+      }));
+  }
+
+  async xClaim(key: string, _group: string, consumer: string, minIdle: number, id: string) {
+    const entry = this.pending.get(id);
+    if (!entry || Date.now() - entry.deliveredAt < minIdle) return [];
+
+    this.pending.set(id, { consumer, deliveredAt: Date.now(), deliveries: entry.deliveries + 1 });
+    return this.stream(key).filter((message) => message.id === id);
+  }
+
+  async xRange(key: string, start: string) {
+    return this.stream(key).filter((entry) => entry.id === start);
+  }
+}
+
+const waitFor = async (condition: () => boolean, timeoutMs = 3000) => {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error('Timed out waiting for condition');
+    await new Promise((resolve) => setTimeout(resolve, 5));
+  }
+};
+
+const payment: ChainEvent = {
+  chain: 'base',
+  txHash: '0xabc',
+  blockNumber: 100,
+  blockHash: '0xblock',
+  from: '0xpayer',
+  to: '0xwatched',
+  logIndex: 2,
+  amount: '10',
+  amountUSD: 10,
+  timestamp: 1700000000000,
+  confirmations: 12,
+};
+
+describe('chainEventStream', () => {
+  let redis: FakeStreams;
+
+  beforeEach(() => {
+    redis = new FakeStreams();
+    (getRedis as jest.Mock).mockReturnValue(redis);
+  });
+
+  it('should append events to a length-capped stream', async () => {
+    await publishChainEvent({ type: 'payment', event: payment });
+
+    expect(redis.xAdd).toHaveBeenCalledWith(
+      CHAIN_EVENT_STREAMS.events,
+      '*',
+      { type: 'payment', payload: JSON.stringify({ type: 'payment', event: payment }) },
+      { TRIM: { strategy: 'MAXLEN', strategyModifier: '~', threshold: 100000 } }
+    );
+  });
+
+  it('should refuse entries of an unknown type', () => {
+    expect(() => parseChainEventMessage({ type: 'bogus', payload: '{"type":"bogus"}' })).toThrow(
+      'Unknown chain event type: bogus'
+    );
+  });
+});
+
+describe('ChainEventConsumer', () => {
+  const config = { blockMs: 5, retryIntervalMs: 10, retryIdleMs: 100, maxDeliveries: 3 };
+
+  let redis: FakeStreams;
+  let consumer: ChainEventConsumer;
+  let detection: { handlePaymentEvent: jest.Mock; handleReorg: jest.Mock };
+
+  beforeEach(() => {
+    redis = new FakeStreams();
+    (getRedis as jest.Mock).mockReturnValue(redis);
+    consumer = new ChainEventConsumer(config);
+    detection = (PaymentDetectionService as unknown as jest.Mock).mock.results.at(-1)!.value;
+  });
+
+  afterEach(async () => {
+    await consumer.stop();
+  });
+
+  it('should hand each event to payment detection and acknowledge it', async () => {
+    await publishChainEvent({ type: 'payment', event: payment });
+    await publishChainEvent({
+      type: 'reorg',
+      reorg: {
+        chain: 'base',
+        forkBlock: 99,
+        orphanedBlockHashes: ['0xblock'],
+        detectedAt: 1700000000000,
+      },
+    });
+
+    await consumer.start();
+    await waitFor(() => detection.handleReorg.mock.calls.length === 1);
+
+    expect(detection.handlePaymentEvent).toHaveBeenCalledWith(payment);
+    await waitFor(() => redis.pending.size === 0);
+  });
+
+  it('should retry a failed event only once it has been idle for retryIdleMs', async () => {
+    const handledAt: number[] = [];
+    detection.handlePaymentEvent.mockImplementation(async () => {
+      handledAt.push(Date.now());
+      if (handledAt.length === 1) throw new Error('database unavailable');
+    });
+
+    await publishChainEvent({ type: 'payment', event: payment });
+    await consumer.start();
+    await waitFor(() => handledAt.length === 2);
+
+    expect(handledAt[1] - handledAt[0]).toBeGreaterThanOrEqual(config.retryIdleMs);
+    await waitFor(() => redis.pending.size === 0);
+    expect(redis.stream(CHAIN_EVENT_STREAMS.deadLetter)).toHaveLength(0);
+  });
+
+  it('should move an event to the dead-letter stream after maxDeliveries', async () => {
+    detection.handlePaymentEvent.mockRejectedValue(new Error('agent not found'));
+
+    const entryId = await publishChainEvent({ type: 'payment', event: payment });
+    await consumer.start();
+    await waitFor(() => redis.stream(CHAIN_EVENT_STREAMS.deadLetter).length === 1);
+
+    expect(detection.handlePaymentEvent).toHaveBeenCalledTimes(config.maxDeliveries);
+    expect(redis.stream(CHAIN_EVENT_STREAMS.deadLetter)[0].message).toEqual({
+      type: 'payment',
+      payload: JSON.stringify({ type: 'payment', event: payment }),
+      sourceId: entryId,
+      error: 'agent not found',
+      deliveries: '3',
+    });
+    expect(redis.pending.size).toBe(0);
+  });
+});
@@ -0,0 +1,162 @@
+/**
+ * Tests for IdempotencyService
+ */
+
+import { IdempotencyService } from '../services/IdempotencyService';
+import { db } from '../db';
+
+jest.mock('../db', () => ({ db: { query: jest.fn() } }));
+
+const query = db.query as jest.Mock;
+
+describe('IdempotencyService', () => {
+  let service: IdempotencyService;
+
+  const processingRow = { request_hash: 'hash-1', status: 'processing' };
+
+  beforeEach(() => {
+    query.mockReset();
+    service = new IdempotencyService();
+  });
+
+  describe('begin', () => {
+    it('should claim a new key', async () => {
+      query
+        .mockResolvedValueOnce({ rows: [] }) // expired delete
+        .mockResolvedValueOnce({ rows: [{ id: 'row-1' }] }); // insert
+
+      await expect(service.begin('agent-1', 'key-1', 'hash-1')).resolves.toEqual({
+        state: 'new',
+        claimToken: expect.any(String),
+      });
+    });
+
+    it('should report a key another request is still processing', async () => {
+      query
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [processingRow] })
+        .mockResolvedValueOnce({ rows: [] }); // claim is still being refreshed
+
+      await expect(service.begin('agent-1', 'key-1', 'hash-1')).resolves.toEqual({ state: 'in_progress' });
+    });
+
+    it('should take over a key whose request stopped refreshing its claim', async () => {
+      query
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [processingRow] })
+        .mockResolvedValueOnce({ rows: [{ id: 'row-1' }] });
+
+      const result = await service.begin('agent-1', 'key-1', 'hash-1');
+      expect(result).toEqual({ state: 'new', claimToken: expect.any(String) });
+
+      const [sql, params] = query.mock.calls[3];
+      expect(sql).toContain("status = 'processing'");
+      expect(sql).toContain('locked_at < NOW()');
+      expect(sql).toContain('claim_token = $4');
+      expect(params).toEqual(['agent-1', 'key-1', 'hash-1', result.state === 'new' && result.claimToken, 30]);
+    });
+
+    it('should not reclaim a key bound to a different request', async () => {
+      query
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [processingRow] });
+
+      await expect(service.begin('agent-1', 'key-1', 'hash-2')).resolves.toEqual({ state: 'mismatch' });
+      expect(query).toHaveBeenCalledTimes(3);
+    });
+
+    it('should replay a completed response', async () => {
+      query
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({
+          rows: [{ request_hash: 'hash-1', status: 'completed', response_status: 201, response_body: { id: 'pi-1' } }],
+        });
+
+      await expect(service.begin('agent-1', 'key-1', 'hash-1')).resolves.toEqual({
+        state: 'replay',
+        responseStatus: 201,
+        responseBody: { id: 'pi-1' },
+      });
+    });
+  });
+
+  describe('heartbeat', () => {
+    beforeEach(() => {
+      jest.useFakeTimers();
+      query.mockResolvedValue({ rows: [], rowCount: 1 });
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should refresh the claim while the request runs, until stopped', () => {
+      const stop = service.heartbeat('agent-1', 'key-1', 'claim-1');
+
+      jest.advanceTimersByTime(35000);
+      expect(query).toHaveBeenCalledTimes(3);
+      const [sql, params] = query.mock.calls[0];
+      expect(sql).toContain('SET locked_at = NOW()');
+      expect(params).toEqual(['agent-1', 'key-1', 'claim-1']);
+
+      stop();
+      jest.advanceTimersByTime(60000);
+      expect(query).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  describe('complete and release', () => {
+    it('should only settle the key for the request holding the claim', async () => {
+      query.mockResolvedValue({ rows: [], rowCount: 1 });
+
+      await service.complete('agent-1', 'key-1', 'claim-1', 201, { id: 'pi-1' });
+      await service.release('agent-1', 'key-1', 'claim-1');
+
+      for (const [sql, params] of query.mock.calls) {
+        expect(sql).toContain('claim_token = $');
+        expect(params).toContain('claim-1');
+      }
+    });
+  });
+
+  describe('canonicalize', () => {
+    it('should sort object keys at every depth', () => {
+      expect(IdempotencyService.canonicalize({ b: 1, a: { d: [2], c: 'x' } })).toBe('{"a":{"c":"x","d":[2]},"b":1}');
+    });
+
+    it('should keep array order', () => {
+      expect(IdempotencyService.canonicalize([2, 1])).not.toBe(IdempotencyService.canonicalize([1, 2]));
+    });
+
+    it('should encode a missing body as null', () => {
+      expect(IdempotencyService.canonicalize(undefined)).toBe('null');
+      expect(IdempotencyService.canonicalize(null)).toBe('null');
+    });
+
+    it('should keep strings distinct from the numbers they spell', () => {
+      expect(IdempotencyService.canonicalize({ amount: '10' })).not.toBe(
+        IdempotencyService.canonicalize({ amount: 10 })
+      );
+    });
+  });
+
+  describe('hashRequest', () => {
+    it('should ignore key order in the body', () => {
+      expect(IdempotencyService.hashRequest('post', '/v1/payments', { amount: '10', chain: 'base' })).toBe(
+        IdempotencyService.hashRequest('POST', '/v1/payments', { chain: 'base', amount: '10' })
+      );
+    });
+
+    it('should bind the hash to the route', () => {
+      const body = { amount: '10' };
+
+      expect(IdempotencyService.hashRequest('POST', '/v1/payments', body)).not.toBe(
+        IdempotencyService.hashRequest('POST', '/v1/withdrawals', body)
+      );
+    });
+  });
+});
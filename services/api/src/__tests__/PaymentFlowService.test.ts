@@ -0,0 +1,150 @@
+/**
+ * Tests for PaymentFlowService execution, settlement and resume
+ */
+
+import { PaymentFlowService } from '../services/PaymentFlowService';
+import { db } from '../db';
+
+const mockExecution = { executeRoute: jest.fn() };
+const mockSettlement = { settle: jest.fn() };
+const mockWebhooks = { emitPaymentStatus: jest.fn() };
+const mockDepositAddresses = { release: jest.fn() };
+
+jest.mock('../db', () => ({ db: { query: jest.fn() } }));
+jest.mock('../../../execution/src/ExecutionService', () => ({
+  ExecutionService: jest.fn(() => mockExecution),
+  ROUTE_HEARTBEAT_INTERVAL_MS: 30000,
+}));
+jest.mock('../../../settlement/src/SettlementEngine', () => ({
+  SettlementEngine: jest.fn(() => mockSettlement),
+}));
+jest.mock('../services/WebhookDeliveryService', () => ({
+  getWebhookDeliveryService: () => mockWebhooks,
+}));
+jest.mock('../services/DepositAddressService', () => ({
+  DepositAddressService: jest.fn(() => mockDepositAddresses),
+}));
+
+const query = db.query as jest.Mock;
+
+const waitFor = async (condition: () => boolean, timeoutMs = 3000) => {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error('Timed out waiting for condition');
+    await new Promise((resolve) => setTimeout(resolve, 5));
+  }
+};
+
+describe('PaymentFlowService', () => {
+  let intent: { id: string; status: string };
+  let route: {
+    id: string;
+    route_type: string;
+    steps: unknown[];
+    status: string;
+    execution_tx_hash: string | null;
+    created_at: Date;
+  };
+  let service: PaymentFlowService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    intent = { id: 'intent-1', status: 'detected' };
+    route = {
+      id: 'route-1',
+      route_type: 'direct',
+      steps: [],
+      status: 'pending',
+      execution_tx_hash: null,
+      created_at: new Date(),
+    };
+
+    // The intent and route rows, as the flow and the execution service update them
+    query.mockImplementation(async (sql: string, params: unknown[] = []) => {
+      if (sql.startsWith('SELECT * FROM payment_intents')) return { rows: [{ ...intent }] };
+      if (sql.startsWith('UPDATE payment_intents SET status')) intent.status = params[0] as string;
+      if (sql.includes('FROM routes r')) {
+        // The resume claim
+        const stale = intent.status === 'executing' && route.status !== 'failed';
+        return { rows: stale ? [{ id: route.id, payment_intent_id: intent.id }] : [] };
+      }
+      if (sql.startsWith('SELECT * FROM routes')) return { rows: [{ ...route }] };
+      if (sql.startsWith('SELECT status FROM routes')) return { rows: [{ status: route.status }] };
+      return { rows: [] };
+    });
+    mockExecution.executeRoute.mockImplementation(async () => {
+      route.status = 'completed';
+      route.execution_tx_hash = '0xfinal';
+      return '0xfinal';
+    });
+
+    service = new PaymentFlowService();
+  });
+
+  const statuses = () => mockWebhooks.emitPaymentStatus.mock.calls.map(([, status]) => status);
+
+  it('should keep the intent executing until settlement has committed', async () => {
+    const statusAtSettlement: string[] = [];
+    mockSettlement.settle.mockImplementation(async () => {
+      statusAtSettlement.push(intent.status);
+    });
+
+    await service.processPayment('intent-1');
+
+    expect(statusAtSettlement).toEqual(['executing']);
+    expect(intent.status).toBe('settled');
+    expect(statuses()).toEqual(['routing', 'executing', 'settled']);
+    expect(mockDepositAddresses.release).toHaveBeenCalledTimes(1);
+  });
+
+  it('should settle a route that executed before its process stopped without executing it again', async () => {
+    // Left by a process that stopped between execution and settlement
+    intent.status = 'executing';
+    route.status = 'completed';
+    route.execution_tx_hash = '0xfinal';
+
+    await expect(service.resumeInterruptedPayments()).resolves.toBe(1);
+    await waitFor(() => intent.status === 'settled');
+
+    expect(mockExecution.executeRoute).not.toHaveBeenCalled();
+    expect(mockSettlement.settle).toHaveBeenCalledWith('intent-1');
+    expect(statuses()).toEqual(['settled']);
+    expect(mockWebhooks.emitPaymentStatus).toHaveBeenCalledWith('intent-1', 'settled', {
+      txHash: '0xfinal',
+    });
+  });
+
+  it('should leave the intent to be resumed after a transient failure', async () => {
+    mockSettlement.settle.mockRejectedValueOnce(new Error('Connection terminated unexpectedly'));
+
+    await expect(service.processPayment('intent-1')).rejects.toThrow('Connection terminated');
+
+    expect(intent.status).toBe('executing');
+    expect(statuses()).not.toContain('failed');
+    expect(mockDepositAddresses.release).not.toHaveBeenCalled();
+
+    await expect(service.resumeInterruptedPayments()).resolves.toBe(1);
+    await waitFor(() => intent.status === 'settled');
+
+    expect(mockExecution.executeRoute).toHaveBeenCalledTimes(1);
+    expect(mockSettlement.settle).toHaveBeenCalledTimes(2);
+    expect(mockDepositAddresses.release).toHaveBeenCalledTimes(1);
+  });
+
+  it('should fail the payment once execution gives up on the route', async () => {
+    mockExecution.executeRoute.mockImplementation(async () => {
+      route.status = 'failed';
+      throw new Error('TRANSACTION_REVERTED: 0xabc');
+    });
+
+    await expect(service.processPayment('intent-1')).rejects.toThrow('TRANSACTION_REVERTED');
+
+    expect(intent.status).toBe('failed');
+    expect(mockSettlement.settle).not.toHaveBeenCalled();
+    expect(mockWebhooks.emitPaymentStatus).toHaveBeenLastCalledWith('intent-1', 'failed', {
+      error: 'TRANSACTION_REVERTED: 0xabc',
+    });
+    expect(mockDepositAddresses.release).toHaveBeenCalledTimes(1);
+    await expect(service.resumeInterruptedPayments()).resolves.toBe(0);
+  });
+});
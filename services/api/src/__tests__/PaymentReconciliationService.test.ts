@@ -0,0 +1,37 @@
+/**
+ * Tests for PaymentReconciliationService
+ */
+
+import { classifyPayment } from '../services/PaymentReconciliationService';
+
+jest.mock('../db', () => ({ db: { query: jest.fn() } }));
+
+describe('PaymentReconciliationService', () => {
+  describe('classifyPayment', () => {
+    it('should require the exact amount without a tolerance', () => {
+      expect(classifyPayment(100, 100, 0)).toBe('paid');
+      expect(classifyPayment(100, 99.99, 0)).toBe('underpaid');
+      expect(classifyPayment(100, 100.01, 0)).toBe('overpaid');
+    });
+
+    it('should accept amounts within the tolerance either side, inclusive', () => {
+      // 50 bps of 100 is 0.5
+      expect(classifyPayment(100, 99.5, 50)).toBe('paid');
+      expect(classifyPayment(100, 100.5, 50)).toBe('paid');
+    });
+
+    it('should flag amounts beyond the tolerance', () => {
+      expect(classifyPayment(100, 99.49, 50)).toBe('underpaid');
+      expect(classifyPayment(100, 100.51, 50)).toBe('overpaid');
+    });
+
+    it('should scale the tolerance with the expected amount', () => {
+      expect(classifyPayment(10000, 9950, 50)).toBe('paid');
+      expect(classifyPayment(10000, 9949, 50)).toBe('underpaid');
+    });
+
+    it('should treat nothing received as underpaid', () => {
+      expect(classifyPayment(100, 0, 50)).toBe('underpaid');
+    });
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * Tests for QuoteService quote binding
+ */
+
+import { PoolClient } from 'pg';
+import { QuoteService } from '../services/QuoteService';
+
+jest.mock('@services/router', () => ({ RoutingEngine: jest.fn() }));
+jest.mock('@shared/utils/priceOracle', () => ({ getPriceOracle: jest.fn() }));
+jest.mock('../db', () => ({ db: { query: jest.fn() } }));
+
+describe('QuoteService', () => {
+  let service: QuoteService;
+
+  const quoteRow = {
+    id: 'quote-1',
+    status: 'open',
+    agent_id: 'agent-db-1',
+    source_chain: 'ethereum',
+    source_token: 'USDC',
+    source_decimals: 6,
+    amount: '100000000',
+    expires_at: new Date(Date.now() + 60000),
+  };
+
+  const clientReturning = (row: object) =>
+    ({ query: jest.fn().mockResolvedValue({ rows: [row] }) }) as unknown as PoolClient;
+
+  const intent = (amount: string) => ({
+    agentDbId: 'agent-db-1',
+    sourceChain: 'ethereum',
+    sourceToken: 'USDC',
+    amount,
+  });
+
+  beforeEach(() => {
+    service = new QuoteService();
+  });
+
+  describe('lockQuoteForBinding', () => {
+    it('should match a whole-token intent amount against the quote in base units', async () => {
+      const quote = await service.lockQuoteForBinding(clientReturning(quoteRow), 'quote-1', intent('100.00'));
+
+      expect(quote.id).toBe('quote-1');
+    });
+
+    it('should match the amount without trailing decimals', async () => {
+      await expect(
+        service.lockQuoteForBinding(clientReturning(quoteRow), 'quote-1', intent('100'))
+      ).resolves.toBeDefined();
+    });
+
+    it('should reject an intent amount that differs from the quote', async () => {
+      await expect(
+        service.lockQuoteForBinding(clientReturning(quoteRow), 'quote-1', intent('100.01'))
+      ).rejects.toMatchObject({ code: 'QUOTE_MISMATCH' });
+    });
+
+    it('should reject an intent amount given in base units', async () => {
+      await expect(
+        service.lockQuoteForBinding(clientReturning(quoteRow), 'quote-1', intent('100000000'))
+      ).rejects.toMatchObject({ code: 'QUOTE_MISMATCH' });
+    });
+
+    it('should reject an amount finer than the token decimals', async () => {
+      await expect(
+        service.lockQuoteForBinding(clientReturning(quoteRow), 'quote-1', intent('100.0000001'))
+      ).rejects.toMatchObject({ code: 'QUOTE_MISMATCH' });
+    });
+  });
+});
@@ -0,0 +1,183 @@
+/**
+ * Tests for SettlementEngine split route settlement and resume
+ */
+
+import { SettlementEngine } from '../../../settlement/src/SettlementEngine';
+import { db } from '../../../settlement/src/db';
+
+const mockUsdh = { convertToUSDh: jest.fn(), transferUSDh: jest.fn() };
+const mockVault = { deposit: jest.fn() };
+
+jest.mock('../../../settlement/src/db', () => ({ db: { query: jest.fn() } }));
+jest.mock('../../../settlement/src/usdh/USDhService', () => ({
+  USDhService: jest.fn(() => mockUsdh),
+}));
+jest.mock('../../../settlement/src/vault/YieldVault', () => ({
+  YieldVault: jest.fn(() => mockVault),
+}));
+
+const query = db.query as jest.Mock;
+
+interface Leg {
+  expected_output: string | null;
+  estimated_gas_cost_usd: string | null;
+  actual_output: string | null;
+  actual_gas_cost_usd: string | null;
+}
+
+describe('SettlementEngine', () => {
+  const intent = {
+    id: 'intent-1',
+    agent_id: 'agent-db-1',
+    route_id: 'route-1',
+    amount: '200',
+    amount_received: '200',
+    source_token: 'USDC',
+    source_chain: 'base',
+    quote_id: null,
+  };
+
+  let legs: Leg[];
+  let recorded: Array<{ id: string; status: string; paid_out_at: Date | null }>;
+  let insertWins: boolean;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    legs = [];
+    recorded = [];
+    insertWins = true;
+    mockUsdh.convertToUSDh.mockResolvedValue(200);
+    mockVault.deposit.mockResolvedValue('0xdeposit');
+    query.mockImplementation(async (sql: string, params: unknown[] = []) => {
+      if (sql.includes('FROM payment_intents')) return { rows: [intent] };
+      if (sql.includes('FROM settlements WHERE payment_intent_id')) return { rows: recorded };
+      if (sql.includes('INSERT INTO settlements'))
+        return { rows: insertWins ? [{ id: params[0] }] : [] };
+      if (sql.includes('FROM payment_refunds')) return { rows: [{ refunded: '0' }] };
+      if (sql.includes('parent_route_id')) {
+        return {
+          rows: legs.map((leg, index) => ({
+            id: `leg-${index}`,
+            status: 'completed',
+            steps: [],
+            ...leg,
+          })),
+        };
+      }
+      if (sql.includes('FROM agents'))
+        return { rows: [{ id: 'agent-db-1', auto_withdraw: false }] };
+      return { rows: [] };
+    });
+  });
+
+  // The INSERT INTO settlements parameters, by column
+  const settlement = () => {
+    const [, params] = query.mock.calls.find(([sql]) => sql.includes('INSERT INTO settlements'))!;
+    return { usdhAmount: params[5] as number, gasCostUSD: params[8] as number };
+  };
+
+  it("should settle split legs on their measured output and gas, not the route's estimates", async () => {
+    legs = [
+      {
+        expected_output: '100000000',
+        estimated_gas_cost_usd: '3.00',
+        actual_output: '99000000',
+        actual_gas_cost_usd: '1.25',
+      },
+      {
+        expected_output: '100000000',
+        estimated_gas_cost_usd: '3.00',
+        actual_output: '98500000',
+        actual_gas_cost_usd: '0.75',
+      },
+    ];
+
+    await new SettlementEngine().settle('intent-1');
+
+    expect(settlement().usdhAmount).toBeCloseTo(197.5 * 0.995, 6);
+    expect(settlement().gasCostUSD).toBeCloseTo(2, 6);
+    expect(mockVault.deposit).toHaveBeenCalledWith('agent-db-1', expect.closeTo(197.5 * 0.995, 6));
+    expect(mockUsdh.convertToUSDh).not.toHaveBeenCalled();
+  });
+
+  it('should fall back to the estimates for a leg whose outcome was not measured', async () => {
+    legs = [
+      {
+        expected_output: '100000000',
+        estimated_gas_cost_usd: '3.00',
+        actual_output: '99000000',
+        actual_gas_cost_usd: '1.25',
+      },
+      {
+        expected_output: '100000000',
+        estimated_gas_cost_usd: '3.00',
+        actual_output: null,
+        actual_gas_cost_usd: null,
+      },
+    ];
+
+    await new SettlementEngine().settle('intent-1');
+
+    expect(settlement().usdhAmount).toBeCloseTo(199 * 0.995, 6);
+    expect(settlement().gasCostUSD).toBeCloseTo(4.25, 6);
+  });
+
+  describe('resume', () => {
+    const completion = () =>
+      query.mock.calls.filter(([sql]) => sql.includes("SET status = 'completed'"));
+
+    it('should do nothing for an intent that is already settled', async () => {
+      recorded = [{ id: 'settlement-1', status: 'completed', paid_out_at: new Date() }];
+
+      await new SettlementEngine().settle('intent-1');
+
+      expect(mockVault.deposit).not.toHaveBeenCalled();
+      expect(query.mock.calls.some(([sql]) => sql.includes('INSERT INTO settlements'))).toBe(false);
+      expect(completion()).toHaveLength(0);
+    });
+
+    it('should complete a settlement interrupted after its payout without paying again', async () => {
+      recorded = [{ id: 'settlement-1', status: 'processing', paid_out_at: new Date() }];
+
+      await new SettlementEngine().settle('intent-1');
+
+      expect(mockVault.deposit).not.toHaveBeenCalled();
+      expect(completion()).toEqual([[expect.stringContaining('agent_balances'), ['settlement-1']]]);
+    });
+
+    it('should not pay out again over a payout that may have gone through', async () => {
+      recorded = [{ id: 'settlement-1', status: 'processing', paid_out_at: null }];
+
+      await expect(new SettlementEngine().settle('intent-1')).rejects.toThrow(
+        'interrupted during its payout'
+      );
+      expect(mockVault.deposit).not.toHaveBeenCalled();
+      expect(completion()).toHaveLength(0);
+    });
+
+    it('should record the payout before completing the settlement', async () => {
+      await new SettlementEngine().settle('intent-1');
+
+      const sqls = query.mock.calls.map(([sql]) => sql as string);
+      expect(sqls.find((sql) => sql.includes('INSERT INTO settlements'))).toContain(
+        'ON CONFLICT (payment_intent_id) DO NOTHING'
+      );
+      expect(sqls.findIndex((sql) => sql.includes('paid_out_at = NOW()'))).toBeLessThan(
+        sqls.findIndex((sql) => sql.includes("SET status = 'completed'"))
+      );
+      expect(query).toHaveBeenCalledWith(expect.stringContaining('vault_deposit_tx_hash'), [
+        '0xdeposit',
+        expect.any(String),
+      ]);
+    });
+
+    it('should stop when a concurrent run recorded the settlement first', async () => {
+      insertWins = false;
+
+      await expect(new SettlementEngine().settle('intent-1')).rejects.toThrow(
+        'already being settled'
+      );
+      expect(mockVault.deposit).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,178 @@
+/**
+ * Tests for WebhookDeliveryService
+ */
+
+import crypto from 'crypto';
+import { lookup } from 'dns/promises';
+import { EventEmitter } from 'events';
+import https, { RequestOptions } from 'https';
+import { WEBHOOK_SIGNATURE_HEADER, WebhookDeliveryService } from '../services/WebhookDeliveryService';
+import { db } from '../db';
+
+jest.mock('../db', () => ({ db: { query: jest.fn() } }));
+jest.mock('dns/promises', () => ({ lookup: jest.fn() }));
+jest.mock('https', () => ({ ...jest.requireActual('https'), request: jest.fn() }));
+
+const query = db.query as jest.Mock;
+const request = https.request as unknown as jest.Mock;
+const resolve = (...addresses: Array<[string, number]>) =>
+  (lookup as unknown as jest.Mock).mockResolvedValue(addresses.map(([address, family]) => ({ address, family })));
+
+describe('WebhookDeliveryService', () => {
+  const secret = 'whsec_test';
+  const body = '{"event":"payment.completed"}';
+
+  describe('sign', () => {
+    it('should produce the documented t=<unix>,v1=<HMAC-SHA256 of "<t>.<body>"> header', () => {
+      expect(WebhookDeliveryService.sign(secret, 1700000000, body)).toBe(
+        't=1700000000,v1=83a52296707e854ae3f6a94483c9ac812dee0eb8aea47b2ebcc5f423031d280a'
+      );
+    });
+
+    it('should bind the signature to the timestamp and the secret', () => {
+      const digest = (header: string) => header.split(',v1=')[1];
+      const signed = digest(WebhookDeliveryService.sign(secret, 1700000000, body));
+
+      expect(digest(WebhookDeliveryService.sign(secret, 1700000001, body))).not.toBe(signed);
+      expect(digest(WebhookDeliveryService.sign('whsec_other', 1700000000, body))).not.toBe(signed);
+    });
+  });
+
+  describe('isAllowedUrl', () => {
+    const originalEnv = process.env.NODE_ENV;
+
+    afterEach(() => {
+      process.env.NODE_ENV = originalEnv;
+    });
+
+    it('should allow an https URL that resolves to public addresses', async () => {
+      resolve(['93.184.216.34', 4], ['2606:2800:220:1:248:1893:25c8:1946', 6], ['::ffff:5db8:d822', 6]);
+
+      await expect(WebhookDeliveryService.isAllowedUrl('https://merchant.example/webhooks')).resolves.toBe(true);
+    });
+
+    it('should allow http in development only', async () => {
+      resolve(['93.184.216.34', 4]);
+
+      await expect(WebhookDeliveryService.isAllowedUrl('http://merchant.example/webhooks')).resolves.toBe(false);
+      process.env.NODE_ENV = 'development';
+      await expect(WebhookDeliveryService.isAllowedUrl('http://merchant.example/webhooks')).resolves.toBe(true);
+    });
+
+    it.each([
+      ['loopback', '127.0.0.1', 4],
+      ['a private network', '10.1.2.3', 4],
+      ['a private network', '192.168.0.10', 4],
+      ['link-local metadata', '169.254.169.254', 4],
+      ['IPv6 loopback', '::1', 6],
+      ['IPv6 unique local', 'fd12:3456::1', 6],
+      ['IPv6 link-local', 'fe80::1', 6],
+      ['IPv4-mapped loopback', '::ffff:7f00:1', 6],
+      ['NAT64', '64:ff9b::a00:1', 6],
+      ['6to4', '2002:a00:1::1', 6],
+      ['Teredo', '2001:0:4136:e378:8000:63bf:3fff:fdd2', 6],
+      ['IPv4 documentation', '203.0.113.7', 4],
+      ['IPv6 documentation', '2001:db8::1', 6],
+    ])('should reject a host resolving to %s (%s)', async (_label, address, family) => {
+      resolve([address as string, family as number]);
+
+      await expect(WebhookDeliveryService.isAllowedUrl('https://merchant.example/webhooks')).resolves.toBe(false);
+    });
+
+    it('should reject a host with any non-public address', async () => {
+      resolve(['93.184.216.34', 4], ['10.0.0.5', 4]);
+
+      await expect(WebhookDeliveryService.isAllowedUrl('https://merchant.example/webhooks')).resolves.toBe(false);
+    });
+
+    it('should reject a host that does not resolve, and malformed URLs', async () => {
+      (lookup as unknown as jest.Mock).mockRejectedValue(new Error('getaddrinfo ENOTFOUND'));
+
+      await expect(WebhookDeliveryService.isAllowedUrl('https://missing.example')).resolves.toBe(false);
+      await expect(WebhookDeliveryService.isAllowedUrl('not a url')).resolves.toBe(false);
+    });
+  });
+
+  describe('processDueDeliveries', () => {
+    const delivery = {
+      id: 'wh_1',
+      agent_id: 'agent-1',
+      url: 'https://merchant.example/webhooks',
+      event_type: 'payment.completed',
+      payload: { event: 'payment.completed', data: { id: 'pi_1' } },
+      attempts: 1,
+    };
+
+    let posted: { url: URL; options: RequestOptions; body: string } | undefined;
+
+    const respond = (statusCode: number) =>
+      request.mockImplementation((url: URL, options: RequestOptions, onResponse: (response: object) => void) => {
+        const outgoing = Object.assign(new EventEmitter(), {
+          end: (body: string) => {
+            posted = { url, options, body };
+            onResponse({ statusCode, resume: jest.fn() });
+          },
+        });
+        return outgoing;
+      });
+
+    beforeEach(() => {
+      posted = undefined;
+      request.mockReset();
+      respond(200);
+      query.mockReset().mockResolvedValue({ rows: [] });
+      query
+        .mockResolvedValueOnce({ rows: [delivery] }) // Claimed
+        .mockResolvedValueOnce({ rows: [{ webhook_secret: secret }] });
+      (lookup as unknown as jest.Mock).mockReset();
+      resolve(['93.184.216.34', 4]);
+    });
+
+    it('should sign exactly the body it posts', async () => {
+      await expect(new WebhookDeliveryService().processDueDeliveries()).resolves.toBe(1);
+
+      const headers = posted!.options.headers as Record<string, string>;
+      const timestamp = headers['X-Webhook-Timestamp'];
+      const expected = crypto.createHmac('sha256', secret).update(`${timestamp}.${posted!.body}`).digest('hex');
+
+      expect(posted!.url.href).toBe(delivery.url);
+      expect(headers[WEBHOOK_SIGNATURE_HEADER]).toBe(`t=${timestamp},v1=${expected}`);
+      expect(query.mock.calls[2][0]).toContain("status = 'delivered'");
+    });
+
+    it('should connect to the address it checked rather than resolving the host again', async () => {
+      await new WebhookDeliveryService().processDueDeliveries();
+
+      // A rebinding answer after the check is never consulted
+      resolve(['10.0.0.5', 4]);
+      const pinned = posted!.options.lookup!;
+      const single = jest.fn();
+      const all = jest.fn();
+      pinned('merchant.example', {}, single);
+      pinned('merchant.example', { all: true }, all);
+
+      expect(single).toHaveBeenCalledWith(null, '93.184.216.34', 4);
+      expect(all).toHaveBeenCalledWith(null, [{ address: '93.184.216.34', family: 4 }]);
+      expect(lookup).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not deliver to a host that now resolves to a private address', async () => {
+      resolve(['10.0.0.5', 4]);
+
+      await new WebhookDeliveryService().processDueDeliveries();
+
+      expect(request).not.toHaveBeenCalled();
+      expect(query.mock.calls[2][1]).toContain('Webhook URL does not resolve to a public https endpoint');
+    });
+
+    it('should count a redirect as a failed delivery rather than follow it', async () => {
+      respond(302);
+
+      await new WebhookDeliveryService().processDueDeliveries();
+
+      expect(request).toHaveBeenCalledTimes(1);
+      expect(query.mock.calls[2][0]).toContain("SET status = 'failed'");
+      expect(query.mock.calls[2][1]).toEqual([302, 'Endpoint responded with HTTP 302', expect.any(Date), 'wh_1']);
+    });
+  });
+});
@@ -0,0 +1,50 @@
+/**
+ * Tests for HD wallet Bitcoin address derivation
+ */
+
+import { HDWalletManager } from '@shared/utils/addressGeneration';
+
+// The encoding steps of derivePaymentAddress, which HDWalletManager keeps private
+interface Bech32Encoding {
+  hash160(buffer: Buffer): Buffer;
+  encodeBech32(hrp: string, version: number, data: Buffer): string;
+}
+
+describe('HDWalletManager bitcoin addresses', () => {
+  // BIP-39 test mnemonic; m/44'/0'/0'/0/0 is the well-known 1LqBGSKuX5yYUonjxT5qGfpUsXKYYWeabA,
+  // so its P2WPKH address commits to the same hash160
+  const MNEMONIC =
+    'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about';
+
+  const env = { ...process.env };
+
+  const deriveFirst = (network: string) => {
+    process.env.BITCOIN_NETWORK = network;
+    return new HDWalletManager().derivePaymentAddress(0, 'bitcoin').address;
+  };
+
+  beforeEach(() => {
+    process.env.HD_WALLET_MNEMONIC = MNEMONIC;
+  });
+
+  afterEach(() => {
+    process.env = { ...env };
+  });
+
+  it('should derive the mainnet address of a known key', () => {
+    expect(deriveFirst('mainnet')).toBe('bc1qmxrw6qdh5g3ztfcwm0et5l8mvws4eva24kmp8m');
+  });
+
+  it('should derive the regtest address of a known key', () => {
+    expect(deriveFirst('regtest')).toBe('bcrt1qmxrw6qdh5g3ztfcwm0et5l8mvws4eva2aeeltp');
+  });
+
+  it('should encode the BIP-173 P2WPKH test vector', () => {
+    const manager = new HDWalletManager() as unknown as Bech32Encoding;
+    const publicKey = Buffer.from('0279BE667EF9DCBBAC55A06295CE870B07029BFCDB2DCE28D959F2815B16F81798', 'hex');
+
+    expect(manager.encodeBech32('bc', 0, manager.hash160(publicKey))).toBe(
+      'bc1qw508d6qejxtdg4y5r3zarvary0c5xw7kv8f3t4'
+    );
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * Tests for the confirmation policy
+ */
+
+import {
+  exceedsAnyPolicy,
+  meetsConfirmationRule,
+  parseConfirmationPolicy,
+  resolveConfirmationRule,
+} from '@shared/utils/confirmationPolicy';
+import { TOKEN_ADDRESSES } from '@shared/constants/chains';
+import { ConfirmationPolicy } from '@shared/types';
+
+describe('confirmationPolicy', () => {
+  const transfer = (amountUSD: number, tokenAddress?: string) => ({
+    chain: 'ethereum' as const,
+    amountUSD,
+    tokenAddress,
+  });
+
+  describe('resolveConfirmationRule', () => {
+    it('should pick the default Ethereum rule covering the payment amount', () => {
+      expect(resolveConfirmationRule(transfer(50), 50)).toEqual({ maxAmountUSD: 100, confirmations: 1 });
+      expect(resolveConfirmationRule(transfer(5000), 5000)).toEqual({ maxAmountUSD: 100000, confirmations: 12 });
+      expect(resolveConfirmationRule(transfer(500000), 500000)).toEqual({ confirmations: 20 });
+    });
+
+    it('should hold each part of a split payment to the rule for the whole intent', () => {
+      // A $150,000 intent paid in three $50,000 transfers
+      const rule = resolveConfirmationRule(transfer(50000), 150000);
+
+      expect(rule.confirmations).toBe(20);
+    });
+
+    it('should hold a transfer worth more than its intent to its own value', () => {
+      const rule = resolveConfirmationRule(transfer(5000), 50);
+
+      expect(rule.confirmations).toBe(12);
+    });
+
+    it("should use the agent's rules for a configured chain", () => {
+      const policy: ConfirmationPolicy = { ethereum: { rules: [{ confirmations: 3 }] } };
+
+      expect(resolveConfirmationRule(transfer(1000000), 1000000, policy)).toEqual({ confirmations: 3 });
+    });
+
+    it('should use token rules for a transfer of that token', () => {
+      const policy: ConfirmationPolicy = {
+        ethereum: { rules: [{ confirmations: 3 }], tokens: { USDC: [{ confirmations: 6 }] } },
+      };
+
+      expect(resolveConfirmationRule(transfer(10, TOKEN_ADDRESSES.ethereum.USDC), 10, policy)).toEqual({
+        confirmations: 6,
+      });
+      expect(resolveConfirmationRule(transfer(10), 10, policy)).toEqual({ confirmations: 3 });
+    });
+  });
+
+  describe('meetsConfirmationRule', () => {
+    it('should require the rule depth', () => {
+      expect(meetsConfirmationRule({ confirmations: 11 }, { confirmations: 12 })).toBe(false);
+      expect(meetsConfirmationRule({ confirmations: 12 }, { confirmations: 12 })).toBe(true);
+    });
+
+    it('should require the block tag, which finalized satisfies', () => {
+      expect(meetsConfirmationRule({ confirmations: 5 }, { blockTag: 'safe' })).toBe(false);
+      expect(meetsConfirmationRule({ confirmations: 5, finality: 'safe' }, { blockTag: 'safe' })).toBe(true);
+      expect(meetsConfirmationRule({ confirmations: 5, finality: 'finalized' }, { blockTag: 'safe' })).toBe(true);
+    });
+  });
+
+  describe('exceedsAnyPolicy', () => {
+    it('should keep tracking until past the deepest rule and, where reported, finalized', () => {
+      expect(exceedsAnyPolicy({ chain: 'ethereum', confirmations: 63 }, false)).toBe(false);
+      expect(exceedsAnyPolicy({ chain: 'ethereum', confirmations: 64 }, false)).toBe(true);
+      expect(exceedsAnyPolicy({ chain: 'ethereum', confirmations: 64, finality: 'safe' }, true)).toBe(false);
+      expect(exceedsAnyPolicy({ chain: 'ethereum', confirmations: 64, finality: 'finalized' }, true)).toBe(true);
+    });
+  });
+
+  describe('parseConfirmationPolicy', () => {
+    it('should accept a valid policy', () => {
+      const policy = {
+        ethereum: { rules: [{ maxAmountUSD: 100, confirmations: 1 }, { confirmations: 12 }] },
+        arbitrum: { rules: [{ blockTag: 'safe' }] },
+      };
+
+      expect(parseConfirmationPolicy(policy)).toEqual({
+        ethereum: {
+          rules: [
+            { maxAmountUSD: 100, confirmations: 1, blockTag: undefined },
+            { maxAmountUSD: undefined, confirmations: 12, blockTag: undefined },
+          ],
+        },
+        arbitrum: { rules: [{ maxAmountUSD: undefined, confirmations: undefined, blockTag: 'safe' }] },
+      });
+    });
+
+    it('should reject ceilings that do not increase', () => {
+      expect(() =>
+        parseConfirmationPolicy({
+          ethereum: { rules: [{ maxAmountUSD: 100, confirmations: 1 }, { maxAmountUSD: 50, confirmations: 2 }] },
+        })
+      ).toThrow('maxAmountUSD must increase');
+    });
+
+    it('should reject depths beyond the chain maximum', () => {
+      expect(() => parseConfirmationPolicy({ bitcoin: { rules: [{ confirmations: 13 }] } })).toThrow(
+        'confirmations must be an integer from 0 to 12'
+      );
+    });
+
+    it('should reject block tags outside EVM chains', () => {
+      expect(() => parseConfirmationPolicy({ solana: { rules: [{ blockTag: 'finalized' }] } })).toThrow(
+        'block tags are only supported on EVM chains'
+      );
+    });
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * Tests for the signer value policy
+ */
+
+import { randomBytes } from 'crypto';
+import { TOKEN_ADDRESSES } from '@shared/constants/chains';
+import { getSigner, LocalSigner, SignRequest } from '@shared/utils/signer';
+
+const PRIVATE_KEY = '0x' + '11'.repeat(32);
+
+const stacksCall = (value: bigint, token?: string): SignRequest => ({
+  chain: 'stacks',
+  family: 'stacks',
+  to: 'SP000000000000000000002Q6VF78.router',
+  value,
+  token,
+  transaction: '00',
+  digest: `0x${randomBytes(32).toString('hex')}`,
+});
+
+// ABI-encoded calls of one address and an optional amount, e.g. transfer(address,uint256)
+const SELECTORS = { transfer: '0xa9059cbb', approve: '0x095ea7b3', balanceOf: '0x70a08231' };
+const encodeCall = (method: keyof typeof SELECTORS, address: string, amount?: bigint) =>
+  SELECTORS[method] +
+  address.slice(2).toLowerCase().padStart(64, '0') +
+  (amount === undefined ? '' : amount.toString(16).padStart(64, '0'));
+const RECIPIENT = '0x2222222222222222222222222222222222222222';
+
+const evmCall = (to: string, data: string, value = 0n): SignRequest => ({
+  chain: 'base',
+  family: 'evm',
+  to,
+  value,
+  data,
+  transaction: '00',
+  digest: `0x${randomBytes(32).toString('hex')}`,
+});
+
+describe('Signer value policy', () => {
+  it('should check native value against the native limit only', async () => {
+    const signer = new LocalSigner(PRIVATE_KEY, { maxValue: 1000n });
+
+    await expect(signer.sign(stacksCall(1000n))).resolves.toBeDefined();
+    await expect(signer.sign(stacksCall(1001n))).rejects.toThrow(/^SIGNER_POLICY_VIOLATION: value 1001 is above/);
+    await expect(signer.sign(stacksCall(5_000_000n, 'USDh'))).resolves.toBeDefined();
+  });
+
+  it('should check token amounts against the limit for that token', async () => {
+    const signer = new LocalSigner(PRIVATE_KEY, { maxValue: 1000n, maxTokenValues: { USDH: 5_000_000n } });
+
+    await expect(signer.sign(stacksCall(5_000_000n, 'USDh'))).resolves.toBeDefined();
+    await expect(signer.sign(stacksCall(5_000_001n, 'USDh'))).rejects.toThrow(/value 5000001 USDh is above/);
+    await expect(signer.sign(stacksCall(5_000_001n, 'sBTC'))).resolves.toBeDefined();
+  });
+
+  it('should read per-token limits from the environment', async () => {
+    process.env.POLICY_TEST_WALLET_PRIVATE_KEY = PRIVATE_KEY;
+    process.env.POLICY_TEST_WALLET_MAX_VALUE = '1000';
+    process.env.POLICY_TEST_WALLET_MAX_VALUE_USDH = '2000';
+
+    try {
+      const signer = await getSigner('POLICY_TEST_WALLET');
+
+      await expect(signer.sign(stacksCall(2000n, 'USDh'))).resolves.toBeDefined();
+      await expect(signer.sign(stacksCall(2001n, 'USDh'))).rejects.toThrow(/SIGNER_POLICY_VIOLATION/);
+      await expect(signer.sign(stacksCall(1001n))).rejects.toThrow(/SIGNER_POLICY_VIOLATION/);
+    } finally {
+      delete process.env.POLICY_TEST_WALLET_PRIVATE_KEY;
+      delete process.env.POLICY_TEST_WALLET_MAX_VALUE;
+      delete process.env.POLICY_TEST_WALLET_MAX_VALUE_USDH;
+    }
+  });
+
+  describe('ERC-20 calldata', () => {
+    const usdc = TOKEN_ADDRESSES.base.USDC;
+    const signer = new LocalSigner(PRIVATE_KEY, { maxValue: 1000n, maxTokenValues: { USDC: 5_000_000n } });
+
+    it('should cap transfers and approvals of a listed token by its token limit', async () => {
+      await expect(
+        signer.sign(evmCall(usdc, encodeCall('transfer', RECIPIENT, 5_000_000n)))
+      ).resolves.toBeDefined();
+      await expect(
+        signer.sign(evmCall(usdc.toLowerCase(), encodeCall('transfer', RECIPIENT, 5_000_001n)))
+      ).rejects.toThrow(/value 5000001 USDC is above the limit of 5000000/);
+      await expect(
+        signer.sign(evmCall(usdc, encodeCall('approve', RECIPIENT, 2n ** 256n - 1n)))
+      ).rejects.toThrow(/SIGNER_POLICY_VIOLATION/);
+    });
+
+    it('should refuse token calls to unlisted contracts once token limits are set', async () => {
+      const unlisted = '0x3333333333333333333333333333333333333333';
+      const transfer = encodeCall('transfer', RECIPIENT, 1n);
+
+      await expect(signer.sign(evmCall(unlisted, transfer))).rejects.toThrow(/is not a token with a limit/);
+      await expect(new LocalSigner(PRIVATE_KEY).sign(evmCall(unlisted, transfer))).resolves.toBeDefined();
+    });
+
+    it('should leave other calldata to the native limit', async () => {
+      const read = encodeCall('balanceOf', RECIPIENT);
+
+      await expect(signer.sign(evmCall(usdc, read, 1000n))).resolves.toBeDefined();
+      await expect(signer.sign(evmCall(usdc, read, 1001n))).rejects.toThrow(/value 1001 is above/);
+    });
+  });
+});
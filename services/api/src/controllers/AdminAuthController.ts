@@ -0,0 +1,71 @@
+import { Request, Response } from 'express';
+import { logger } from '@shared/utils/logger';
+import { AppError } from '../middleware/errorHandler';
+import { AdminAuthService, getAdminAuthService } from '../services/AdminAuthService';
+
+export class AdminAuthController {
+  private adminAuthService: AdminAuthService;
+
+  constructor() {
+    this.adminAuthService = getAdminAuthService();
+  }
+
+  async createChallenge(req: Request, res: Response) {
+    try {
+      const { address } = req.body;
+      const challenge = await this.adminAuthService.createChallenge(address);
+
+      res.json({
+        success: true,
+        data: challenge,
+      });
+    } catch (error) {
+      logger.error('Admin challenge failed', error);
+      const err: AppError = error as AppError;
+      res.status(err.statusCode || 500).json({
+        success: false,
+        error: err.message || 'Failed to create login challenge',
+      });
+    }
+  }
+
+  async verify(req: Request, res: Response) {
+    try {
+      const { address, signature } = req.body;
+      const session = await this.adminAuthService.verifyChallenge(address, signature);
+
+      res.json({
+        success: true,
+        data: session,
+      });
+    } catch (error) {
+      logger.error('Admin login failed', error);
+      const err: AppError = error as AppError;
+      res.status(err.statusCode || 500).json({
+        success: false,
+        error: err.message || 'Admin login failed',
+      });
+    }
+  }
+
+  async getSession(req: Request, res: Response) {
+    res.json({
+      success: true,
+      data: { address: res.locals.adminAddress },
+    });
+  }
+
+  async logout(req: Request, res: Response) {
+    try {
+      await this.adminAuthService.revokeSession(res.locals.adminToken);
+
+      res.json({ success: true });
+    } catch (error) {
+      logger.error('Admin logout failed', error);
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error',
+      });
+    }
+  }
+}
@@ -1,13 +1,23 @@
 import { Request, Response } from 'express';
 import { SettlementService } from '../services/SettlementService';
+import { RescanService } from '../services/RescanService';
+import { ListenerStatusService } from '../services/ListenerStatusService';
+import { TransactionLogService } from '../services/TransactionLogService';
+import { Chain, RescanJobStatus } from '@shared/types';
 import { logger } from '@shared/utils/logger';
 import { AppError } from '../middleware/errorHandler';
 
 export class AdminController {
   private settlementService: SettlementService;
+  private rescanService: RescanService;
+  private listenerStatusService: ListenerStatusService;
+  private transactionLogService: TransactionLogService;
 
   constructor() {
     this.settlementService = new SettlementService();
+    this.rescanService = new RescanService();
+    this.listenerStatusService = new ListenerStatusService();
+    this.transactionLogService = new TransactionLogService();
   }
 
   async getPendingSettlements(req: Request, res: Response) {
@@ -75,5 +85,130 @@ export class AdminController {
       });
     }
   }
-}
 
+  async createRescan(req: Request, res: Response) {
+    try {
+      const { chain, address, fromBlock, toBlock } = req.body;
+
+      const job = await this.rescanService.createJob({
+        chain,
+        address,
+        fromBlock,
+        toBlock,
+        requestedBy: res.locals.adminAddress,
+      });
+
+      res.status(202).json({
+        success: true,
+        data: job,
+      });
+    } catch (error) {
+      logger.error('Create rescan job failed', error);
+      const err: AppError = error as AppError;
+      res.status(err.statusCode || 500).json({
+        success: false,
+        error: err.message || 'Failed to queue rescan',
+      });
+    }
+  }
+
+  async listRescans(req: Request, res: Response) {
+    try {
+      const { chain, status, limit, offset } = req.query;
+
+      const jobs = await this.rescanService.listJobs({
+        chain: chain as Chain | undefined,
+        status: status as RescanJobStatus | undefined,
+        limit: limit ? parseInt(limit as string) : undefined,
+        offset: offset ? parseInt(offset as string) : undefined,
+      });
+
+      res.json({
+        success: true,
+        data: jobs,
+      });
+    } catch (error) {
+      logger.error('List rescan jobs failed', error);
+      const err: AppError = error as AppError;
+      res.status(err.statusCode || 500).json({
+        success: false,
+        error: err.message || 'Failed to fetch rescan jobs',
+      });
+    }
+  }
+
+  async getRescan(req: Request, res: Response) {
+    try {
+      const job = await this.rescanService.getJob(req.params.jobId);
+
+      res.json({
+        success: true,
+        data: job,
+      });
+    } catch (error) {
+      logger.error('Get rescan job failed', error);
+      const err: AppError = error as AppError;
+      res.status(err.statusCode || 500).json({
+        success: false,
+        error: err.message || 'Failed to fetch rescan job',
+      });
+    }
+  }
+
+  async getListenerStatus(req: Request, res: Response) {
+    try {
+      const status = await this.listenerStatusService.getStatus();
+
+      res.json({
+        success: true,
+        data: status,
+      });
+    } catch (error) {
+      logger.error('Get listener status failed', error);
+      const err: AppError = error as AppError;
+      res.status(err.statusCode || 500).json({
+        success: false,
+        error: err.message || 'Failed to fetch listener status',
+      });
+    }
+  }
+
+  async getTransaction(req: Request, res: Response) {
+    try {
+      const attempts = await this.transactionLogService.getAttempts(req.params.txId);
+
+      res.json({
+        success: true,
+        data: attempts,
+      });
+    } catch (error) {
+      logger.error('Get transaction failed', error);
+      const err: AppError = error as AppError;
+      res.status(err.statusCode || 500).json({
+        success: false,
+        error: err.message || 'Failed to fetch transaction',
+      });
+    }
+  }
+
+  async cancelTransaction(req: Request, res: Response) {
+    try {
+      const transaction = await this.transactionLogService.requestCancel(
+        req.params.txId,
+        res.locals.adminAddress
+      );
+
+      res.status(202).json({
+        success: true,
+        data: transaction,
+      });
+    } catch (error) {
+      logger.error('Cancel transaction failed', error);
+      const err: AppError = error as AppError;
+      res.status(err.statusCode || 500).json({
+        success: false,
+        error: err.message || 'Failed to cancel transaction',
+      });
+    }
+  }
+}
@@ -0,0 +1,68 @@
+import { Request, Response } from 'express';
+import { logger } from '@shared/utils/logger';
+import { AppError } from '../middleware/errorHandler';
+import { AgentAuthService, getAgentAuthService } from '../services/AgentAuthService';
+
+export class AgentAuthController {
+  private agentAuthService: AgentAuthService;
+
+  constructor() {
+    this.agentAuthService = getAgentAuthService();
+  }
+
+  async createChallenge(req: Request, res: Response) {
+    try {
+      const { address } = req.body;
+      const challenge = await this.agentAuthService.createChallenge(address);
+
+      res.json({
+        success: true,
+        data: challenge,
+      });
+    } catch (error) {
+      logger.error('Agent challenge failed', error);
+      const err: AppError = error as AppError;
+      res.status(err.statusCode || 500).json({
+        success: false,
+        error: err.message || 'Failed to create login challenge',
+      });
+    }
+  }
+
+  async verify(req: Request, res: Response) {
+    try {
+      const { address, signature } = req.body;
+      const session = await this.agentAuthService.verifyChallenge(address, signature);
+
+      res.json({
+        success: true,
+        data: session,
+      });
+    } catch (error) {
+      logger.error('Agent login failed', error);
+      const err: AppError = error as AppError;
+      res.status(err.statusCode || 500).json({
+        success: false,
+        error: err.message || 'Agent login failed',
+      });
+    }
+  }
+
+  async logout(req: Request, res: Response) {
+    try {
+      const authHeader = req.headers.authorization;
+      const token = authHeader?.startsWith('Bearer ') ? authHeader.slice(7).trim() : '';
+      if (token) {
+        await this.agentAuthService.revokeSession(token);
+      }
+
+      res.json({ success: true });
+    } catch (error) {
+      logger.error('Agent logout failed', error);
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error',
+      });
+    }
+  }
+}
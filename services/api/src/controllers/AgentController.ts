@@ -203,7 +203,17 @@ export class AgentController {
   async updateAgent(req: Request, res: Response) {
     try {
       const { agentId } = req.params;
-      const { name, description, autoWithdraw, supportedChains, minPaymentAmount } = req.body;
+      const {
+        name,
+        description,
+        autoWithdraw,
+        supportedChains,
+        minPaymentAmount,
+        webhookUrl,
+        paymentToleranceBps,
+        overpaymentPolicy,
+        confirmationPolicy,
+      } = req.body;
 
       const updatedAgent = await this.agentService.updateAgent(agentId, {
         name,
@@ -211,6 +221,10 @@ export class AgentController {
         autoWithdraw,
         enabledChains: supportedChains,
         minPaymentAmount,
+        webhookUrl,
+        paymentToleranceBps,
+        overpaymentPolicy,
+        confirmationPolicy,
       });
 
       res.json({
@@ -0,0 +1,90 @@
+import { Request, Response } from 'express';
+import { logger } from '@shared/utils/logger';
+import { AppError } from '../middleware/errorHandler';
+import { ApiKeyService } from '../services/ApiKeyService';
+
+export class ApiKeyController {
+  private apiKeyService: ApiKeyService;
+
+  constructor() {
+    this.apiKeyService = new ApiKeyService();
+  }
+
+  async listKeys(req: Request, res: Response) {
+    try {
+      const { agentId } = req.params;
+      const keys = await this.apiKeyService.listKeys(agentId);
+
+      res.json({
+        success: true,
+        data: keys,
+      });
+    } catch (error) {
+      logger.error('List API keys failed', error);
+      const err: AppError = error as AppError;
+      res.status(err.statusCode || 500).json({
+        success: false,
+        error: err.message || 'Failed to fetch API keys',
+      });
+    }
+  }
+
+  async createKey(req: Request, res: Response) {
+    try {
+      const { agentId } = req.params;
+      const { name, scopes } = req.body;
+
+      const key = await this.apiKeyService.createKey(agentId, { name, scopes });
+
+      res.status(201).json({
+        success: true,
+        data: key,
+      });
+    } catch (error) {
+      logger.error('Create API key failed', error);
+      const err: AppError = error as AppError;
+      res.status(err.statusCode || 400).json({
+        success: false,
+        error: err.message || 'Failed to create API key',
+      });
+    }
+  }
+
+  async rotateKey(req: Request, res: Response) {
+    try {
+      const { agentId, keyId } = req.params;
+      const key = await this.apiKeyService.rotateKey(agentId, keyId);
+
+      res.json({
+        success: true,
+        data: key,
+      });
+    } catch (error) {
+      logger.error('Rotate API key failed', error);
+      const err: AppError = error as AppError;
+      res.status(err.statusCode || 400).json({
+        success: false,
+        error: err.message || 'Failed to rotate API key',
+      });
+    }
+  }
+
+  async revokeKey(req: Request, res: Response) {
+    try {
+      const { agentId, keyId } = req.params;
+      const key = await this.apiKeyService.revokeKey(agentId, keyId);
+
+      res.json({
+        success: true,
+        data: key,
+      });
+    } catch (error) {
+      logger.error('Revoke API key failed', error);
+      const err: AppError = error as AppError;
+      res.status(err.statusCode || 400).json({
+        success: false,
+        error: err.message || 'Failed to revoke API key',
+      });
+    }
+  }
+}
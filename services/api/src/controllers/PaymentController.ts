@@ -23,6 +23,7 @@ export class PaymentController {
       res.status(err.statusCode || 400).json({
         success: false,
         error: err.message || 'Failed to create payment intent',
+        ...(err.code && { code: err.code }), // e.g. QUOTE_EXPIRED
       });
     }
   }
@@ -1,15 +1,13 @@
 import { Request, Response } from 'express';
 import { logger } from '@shared/utils/logger';
-import { PaymentDetectionService } from '../services/PaymentDetectionService';
+import { publishChainEvent } from '@shared/utils/chainEventStream';
 import { ChainEvent } from '@shared/types';
 
+/**
+ * Events posted here are queued on the chain event stream, the same path the
+ * listeners use, and handled by the chain event consumer
+ */
 export class WebhookController {
-  private paymentDetectionService: PaymentDetectionService;
-
-  constructor() {
-    this.paymentDetectionService = new PaymentDetectionService();
-  }
-
   async handlePaymentWebhook(req: Request, res: Response) {
     try {
       logger.info('Payment webhook received', req.body);
@@ -22,15 +20,16 @@ export class WebhookController {
         from: req.body.from,
         to: req.body.to,
         tokenAddress: req.body.tokenAddress,
+        logIndex: req.body.logIndex,
         amount: req.body.amount,
         amountUSD: req.body.amountUSD,
         timestamp: req.body.timestamp || Date.now(),
         confirmations: req.body.confirmations || 0,
       };
 
-      await this.paymentDetectionService.handlePaymentEvent(event);
+      await publishChainEvent({ type: 'payment', event });
 
-      res.json({ success: true });
+      res.status(202).json({ success: true });
     } catch (error) {
       logger.error('Payment webhook failed', error);
       res.status(500).json({ success: false, error: 'Webhook processing failed' });
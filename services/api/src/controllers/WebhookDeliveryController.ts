@@ -0,0 +1,76 @@
+import { Request, Response } from 'express';
+import { logger } from '@shared/utils/logger';
+import { AppError } from '../middleware/errorHandler';
+import { WebhookDeliveryService, getWebhookDeliveryService } from '../services/WebhookDeliveryService';
+import { WebhookDeliveryStatus } from '@shared/types';
+
+export class WebhookDeliveryController {
+  private webhookService: WebhookDeliveryService;
+
+  constructor() {
+    this.webhookService = getWebhookDeliveryService();
+  }
+
+  async listDeliveries(req: Request, res: Response) {
+    try {
+      const { agentId } = req.params;
+      const { status, limit, offset } = req.query;
+
+      const deliveries = await this.webhookService.listDeliveries(agentId, {
+        status: status as WebhookDeliveryStatus | undefined,
+        limit: limit ? parseInt(limit as string) : undefined,
+        offset: offset ? parseInt(offset as string) : undefined,
+      });
+
+      res.json({
+        success: true,
+        data: deliveries,
+      });
+    } catch (error) {
+      logger.error('List webhook deliveries failed', error);
+      const err: AppError = error as AppError;
+      res.status(err.statusCode || 500).json({
+        success: false,
+        error: err.message || 'Failed to fetch webhook deliveries',
+      });
+    }
+  }
+
+  async redeliver(req: Request, res: Response) {
+    try {
+      const { agentId, deliveryId } = req.params;
+      const delivery = await this.webhookService.redeliver(agentId, deliveryId);
+
+      res.json({
+        success: true,
+        data: delivery,
+      });
+    } catch (error) {
+      logger.error('Webhook redelivery failed', error);
+      const err: AppError = error as AppError;
+      res.status(err.statusCode || 400).json({
+        success: false,
+        error: err.message || 'Webhook redelivery failed',
+      });
+    }
+  }
+
+  async rotateSecret(req: Request, res: Response) {
+    try {
+      const { agentId } = req.params;
+      const result = await this.webhookService.rotateSecret(agentId);
+
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      logger.error('Webhook secret rotation failed', error);
+      const err: AppError = error as AppError;
+      res.status(err.statusCode || 400).json({
+        success: false,
+        error: err.message || 'Failed to rotate webhook secret',
+      });
+    }
+  }
+}
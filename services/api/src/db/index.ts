@@ -1,4 +1,4 @@
-import { Pool } from 'pg';
+import { Pool, QueryResult } from 'pg';
 import { logger } from '@shared/utils/logger';
 
 const pool = new Pool({
@@ -13,6 +13,9 @@ pool.on('error', (err) => {
   process.exit(-1);
 });
 
+// A pool client inside a transaction, or the pool itself
+export type Queryable = { query: (text: string, params?: unknown[]) => Promise<QueryResult> };
+
 export const db = {
   query: async (text: string, params?: unknown[]) => {
     const start = Date.now();
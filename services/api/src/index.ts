@@ -14,6 +14,11 @@ import { paymentRoutes } from './routes/payments';
 import { quoteRoutes } from './routes/quotes';
 import { webhookRoutes } from './routes/webhooks';
 import { adminRoutes } from './routes/admin';
+import { getWebhookDeliveryService } from './services/WebhookDeliveryService';
+import { getChainEventConsumer } from './services/ChainEventConsumer';
+import { PaymentService } from './services/PaymentService';
+import { IdempotencyService } from './services/IdempotencyService';
+import { PaymentFlowService } from './services/PaymentFlowService';
 
 const app: express.Application = express();
 const PORT = process.env.API_PORT || 3000;
@@ -52,6 +57,33 @@ app.use(errorHandler);
 // Start server
 app.listen(PORT, () => {
   logger.info(`API server running on port ${PORT}`);
+
+  // Background jobs: chain event consumer, webhook retries, interrupted route recovery,
+  // payment intent expiry, idempotency key cleanup
+  getChainEventConsumer().start().catch((error) => {
+    logger.error('Failed to start chain event consumer', { error: (error as Error).message });
+  });
+  getWebhookDeliveryService().start();
+
+  const paymentFlowService = new PaymentFlowService();
+  const resumeInterruptedPayments = () => {
+    paymentFlowService.resumeInterruptedPayments().catch((error) => {
+      logger.error('Interrupted route recovery failed', error);
+    });
+  };
+  resumeInterruptedPayments();
+
+  const paymentService = new PaymentService();
+  const idempotencyService = new IdempotencyService();
+  setInterval(() => {
+    resumeInterruptedPayments();
+    paymentService.expireStaleIntents().catch((error) => {
+      logger.error('Payment intent expiry job failed', error);
+    });
+    idempotencyService.purgeExpired().catch((error) => {
+      logger.error('Idempotency key cleanup failed', error);
+    });
+  }, 60 * 1000);
 });
 
 export default app;
@@ -1,41 +1,44 @@
 import { Request, Response, NextFunction } from 'express';
 import { logger } from '@shared/utils/logger';
+import { getAdminAuthService } from '../services/AdminAuthService';
 
 /**
  * Admin authentication middleware
- * Checks if the request is from an authorized admin wallet address
+ * Requires a session token issued by the wallet-signature login flow
+ * (POST /api/v1/admin/auth/challenge → /verify), sent as `Authorization: Bearer <token>`.
+ * The authenticated admin address is exposed as `res.locals.adminAddress`.
  */
-export function adminAuth(req: Request, res: Response, next: NextFunction) {
-  // Get admin addresses from environment variable
-  const adminAddresses = process.env.ADMIN_ADDRESSES
-    ? process.env.ADMIN_ADDRESSES.split(',').map((addr) => addr.trim())
-    : [];
+export async function adminAuth(req: Request, res: Response, next: NextFunction) {
+  const authHeader = req.headers.authorization;
+  const token = authHeader?.startsWith('Bearer ') ? authHeader.slice(7).trim() : '';
 
-  // For now, we'll use a simple header-based check
-  // In production, this should verify a signed message from the wallet
-  const adminAddress = req.headers['x-admin-address'] as string;
-
-  if (!adminAddress) {
-    logger.warn('Admin route accessed without admin address header');
+  if (!token) {
+    logger.warn('Admin route accessed without session token');
     return res.status(401).json({
       success: false,
       error: 'Admin authentication required',
     });
   }
 
-  if (adminAddresses.length > 0 && !adminAddresses.includes(adminAddress)) {
-    logger.warn(`Unauthorized admin access attempt from ${adminAddress}`);
-    return res.status(403).json({
+  try {
+    const adminAddress = await getAdminAuthService().getSessionAddress(token);
+
+    if (!adminAddress) {
+      logger.warn('Admin route accessed with invalid or expired session');
+      return res.status(401).json({
+        success: false,
+        error: 'Admin session expired or invalid',
+      });
+    }
+
+    res.locals.adminAddress = adminAddress;
+    res.locals.adminToken = token;
+    next();
+  } catch (error) {
+    logger.error('Admin authentication failed', error);
+    res.status(500).json({
       success: false,
-      error: 'Unauthorized: Admin access required',
+      error: 'Admin authentication unavailable',
     });
   }
-
-  // If no admin addresses configured, allow all (for development)
-  if (adminAddresses.length === 0) {
-    logger.warn('Admin authentication disabled - no ADMIN_ADDRESSES configured');
-  }
-
-  next();
 }
-
@@ -0,0 +1,106 @@
+import { Request, Response, NextFunction } from 'express';
+import { logger } from '@shared/utils/logger';
+import { ApiKeyScope } from '@shared/types';
+import { db } from '../db';
+import { ApiKeyService } from '../services/ApiKeyService';
+import { getAgentAuthService } from '../services/AgentAuthService';
+
+const apiKeyService = new ApiKeyService();
+
+type AgentIdResolver = (req: Request) => string | undefined | Promise<string | undefined>;
+
+/**
+ * Agent API key middleware
+ * Requires an agent API key (`X-API-Key: spr_...` or `Authorization: Bearer spr_...`)
+ * that belongs to the agent targeted by the request and carries `scope`.
+ * The dashboard sends an agent session token from the wallet-signature login
+ * (POST /api/v1/agents/auth/challenge → /verify) instead, as `Authorization: Bearer <token>`;
+ * it carries every scope for the agent that signed in.
+ * The authenticated key or session is exposed as `res.locals.apiKey`.
+ *
+ * By default the target agent is `req.params.agentId`, which may also be the
+ * agent's Stacks address as the dashboard sends it; it is rewritten to the
+ * agent ID before the handler runs. Pass a resolver for routes that identify
+ * the agent some other way; it must return the agent ID.
+ */
+export function requireApiKey(
+  scope: ApiKeyScope,
+  resolveAgentId: AgentIdResolver = (req) => req.params.agentId
+) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const headerKey = req.headers['x-api-key'];
+    const authHeader = req.headers.authorization;
+    const key =
+      (typeof headerKey === 'string' && headerKey) ||
+      (authHeader?.startsWith('Bearer ') ? authHeader.slice(7).trim() : '');
+
+    if (!key) {
+      return res.status(401).json({
+        success: false,
+        error: 'API key required',
+      });
+    }
+
+    try {
+      const apiKey =
+        (await apiKeyService.authenticate(key)) || (await getAgentAuthService().authenticate(key));
+
+      if (!apiKey) {
+        logger.warn('Request with invalid or revoked API key', { path: req.path });
+        return res.status(401).json({
+          success: false,
+          error: 'Invalid API key',
+        });
+      }
+
+      const targetAgentId = await resolveAgentId(req);
+      const addressedByStacksAddress =
+        targetAgentId === apiKey.stacksAddress && req.params.agentId === targetAgentId;
+      if (!targetAgentId || (targetAgentId !== apiKey.agentId && !addressedByStacksAddress)) {
+        logger.warn('API key used for another agent', {
+          keyId: apiKey.keyId,
+          keyAgentId: apiKey.agentId,
+          targetAgentId,
+        });
+        return res.status(403).json({
+          success: false,
+          error: 'API key is not valid for this agent',
+        });
+      }
+
+      if (!apiKey.scopes.includes(scope)) {
+        return res.status(403).json({
+          success: false,
+          error: `API key is missing required scope: ${scope}`,
+        });
+      }
+
+      // Handlers look agents up by agent ID only
+      if (addressedByStacksAddress) {
+        req.params.agentId = apiKey.agentId;
+      }
+
+      res.locals.apiKey = apiKey;
+      next();
+    } catch (error) {
+      logger.error('API key authentication failed', error);
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error',
+      });
+    }
+  };
+}
+
+/**
+ * Resolve the owning agent of the payment intent in `req.params.intentId`
+ */
+export const agentIdFromIntent: AgentIdResolver = async (req) => {
+  const result = await db.query(
+    `SELECT a.agent_id FROM payment_intents pi
+     JOIN agents a ON pi.agent_id = a.id
+     WHERE pi.id::text = $1 OR pi.intent_id = $1`,
+    [req.params.intentId]
+  );
+  return result.rows[0]?.agent_id;
+};
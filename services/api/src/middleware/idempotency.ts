@@ -0,0 +1,86 @@
+import { Request, Response, NextFunction } from 'express';
+import { logger } from '@shared/utils/logger';
+import { IdempotencyService } from '../services/IdempotencyService';
+
+const idempotencyService = new IdempotencyService();
+
+const MAX_KEY_LENGTH = 255;
+
+/**
+ * Idempotency-Key middleware
+ * When the header is present, the first response (status < 500) for a key is
+ * stored and replayed for retries with the same body. Reusing a key with a
+ * different body is rejected. Requests without the header run normally.
+ *
+ * Mount after authentication: keys are scoped to the calling agent or admin.
+ */
+export function idempotency(req: Request, res: Response, next: NextFunction) {
+  const key = req.header('Idempotency-Key');
+  if (!key) {
+    return next();
+  }
+
+  if (key.length > MAX_KEY_LENGTH) {
+    return res.status(400).json({
+      success: false,
+      error: `Idempotency-Key must be at most ${MAX_KEY_LENGTH} characters`,
+    });
+  }
+
+  const owner = res.locals.apiKey?.agentDbId || res.locals.adminAddress || 'anonymous';
+  const scope = `${owner}:${req.method} ${req.baseUrl}${req.route?.path ?? req.path}`;
+  const requestHash = IdempotencyService.hashRequest(req.method, req.originalUrl, req.body);
+
+  idempotencyService
+    .begin(scope, key, requestHash)
+    .then((result) => {
+      switch (result.state) {
+        case 'mismatch':
+          return res.status(422).json({
+            success: false,
+            error: 'Idempotency-Key was already used with a different request',
+          });
+
+        case 'in_progress':
+          return res.status(409).json({
+            success: false,
+            error: 'A request with this Idempotency-Key is still being processed',
+          });
+
+        case 'replay':
+          res.setHeader('Idempotent-Replayed', 'true');
+          return res.status(result.responseStatus).json(result.responseBody);
+
+        case 'new': {
+          // Retries get 409 for as long as the handler runs, however slow it is
+          const stopHeartbeat = idempotencyService.heartbeat(scope, key, result.claimToken);
+          res.on('finish', stopHeartbeat);
+
+          // Record the outcome when the handler responds, even if the client has already gone
+          const originalJson = res.json.bind(res);
+          res.json = (body: unknown) => {
+            stopHeartbeat();
+            const outcome =
+              res.statusCode < 500
+                ? idempotencyService.complete(scope, key, result.claimToken, res.statusCode, body)
+                : idempotencyService.release(scope, key, result.claimToken);
+
+            outcome.catch((error) => {
+              logger.error('Failed to record idempotent response', { scope, error: (error as Error).message });
+            });
+
+            return originalJson(body);
+          };
+
+          return next();
+        }
+      }
+    })
+    .catch((error) => {
+      logger.error('Idempotency check failed', error);
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error',
+      });
+    });
+}
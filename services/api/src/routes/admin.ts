@@ -1,16 +1,48 @@
 import { Router, type IRouter } from 'express';
 import { AdminController } from '../controllers/AdminController';
+import { AdminAuthController } from '../controllers/AdminAuthController';
 import { adminAuth } from '../middleware/admin-auth';
+import { validateRequest } from '../middleware/validate';
+import { idempotency } from '../middleware/idempotency';
+import { adminChallengeSchema, adminVerifySchema, createRescanSchema } from '../schemas/admin';
 
 const router: IRouter = Router();
 const controller = new AdminController();
+const authController = new AdminAuthController();
 
-// Apply admin authentication to all routes
+// Wallet-signature login (unauthenticated)
+router.post(
+  '/auth/challenge',
+  validateRequest(adminChallengeSchema),
+  authController.createChallenge.bind(authController)
+);
+router.post(
+  '/auth/verify',
+  validateRequest(adminVerifySchema),
+  authController.verify.bind(authController)
+);
+
+// Apply admin authentication to all routes below
 router.use(adminAuth);
 
+router.get('/auth/session', authController.getSession.bind(authController));
+router.post('/auth/logout', authController.logout.bind(authController));
+
 router.get('/settlements/pending', controller.getPendingSettlements.bind(controller));
-router.post('/settlements/:intentId', controller.settlePayment.bind(controller));
-router.post('/settlements/batch', controller.batchSettle.bind(controller));
+// Registered before /settlements/:intentId so "batch" is not captured as an intent ID
+router.post('/settlements/batch', idempotency, controller.batchSettle.bind(controller));
+router.post('/settlements/:intentId', idempotency, controller.settlePayment.bind(controller));
 
-export { router as adminRoutes };
+// Historical rescans for missed payments, run by the chain listeners
+router.post('/rescans', validateRequest(createRescanSchema), idempotency, controller.createRescan.bind(controller));
+router.get('/rescans', controller.listRescans.bind(controller));
+router.get('/rescans/:jobId', controller.getRescan.bind(controller));
 
+// Execution transactions with their replacements; cancellation is sent by the execution service
+router.get('/transactions/:txId', controller.getTransaction.bind(controller));
+router.post('/transactions/:txId/cancel', idempotency, controller.cancelTransaction.bind(controller));
+
+// Which listener replica leads each chain, with its checkpoint and stats
+router.get('/listeners', controller.getListenerStatus.bind(controller));
+
+export { router as adminRoutes };
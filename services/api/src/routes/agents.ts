@@ -1,10 +1,23 @@
 import { Router, type IRouter } from 'express';
 import { AgentController } from '../controllers/AgentController';
+import { AgentAuthController } from '../controllers/AgentAuthController';
+import { ApiKeyController } from '../controllers/ApiKeyController';
+import { WebhookDeliveryController } from '../controllers/WebhookDeliveryController';
 import { validateRequest } from '../middleware/validate';
-import { agentRegistrationSchema } from '../schemas/agent';
+import { requireApiKey } from '../middleware/api-key-auth';
+import { idempotency } from '../middleware/idempotency';
+import {
+  agentChallengeSchema,
+  agentRegistrationSchema,
+  agentVerifySchema,
+  apiKeyCreateSchema,
+} from '../schemas/agent';
 
 const router: IRouter = Router();
 const controller = new AgentController();
+const authController = new AgentAuthController();
+const apiKeyController = new ApiKeyController();
+const webhookController = new WebhookDeliveryController();
 
 router.post(
   '/register',
@@ -12,14 +25,73 @@ router.post(
   controller.register.bind(controller)
 );
 
-router.get('/:agentId', controller.getAgent.bind(controller));
-router.get('/:agentId/balance', controller.getBalance.bind(controller));
-router.get('/:agentId/payments', controller.getAgentPayments.bind(controller));
-router.get('/:agentId/vault', controller.getVaultStats.bind(controller));
-router.get('/:agentId/withdrawals', controller.getWithdrawalHistory.bind(controller));
-router.put('/:agentId', controller.updateAgent.bind(controller));
+// Registered before /:agentId so they are not captured as an agent ID
 router.get('/addresses', controller.getAddresses.bind(controller));
-router.post('/:agentId/withdraw', controller.withdraw.bind(controller));
 
-export { router as agentRoutes };
+// Dashboard wallet-signature login; the session token authenticates like an API key
+router.post(
+  '/auth/challenge',
+  validateRequest(agentChallengeSchema),
+  authController.createChallenge.bind(authController)
+);
+router.post(
+  '/auth/verify',
+  validateRequest(agentVerifySchema),
+  authController.verify.bind(authController)
+);
+router.post('/auth/logout', authController.logout.bind(authController));
+
+router.get('/:agentId', requireApiKey('read'), controller.getAgent.bind(controller));
+router.get('/:agentId/balance', requireApiKey('read'), controller.getBalance.bind(controller));
+router.get('/:agentId/payments', requireApiKey('read'), controller.getAgentPayments.bind(controller));
+router.get('/:agentId/vault', requireApiKey('read'), controller.getVaultStats.bind(controller));
+router.get(
+  '/:agentId/withdrawals',
+  requireApiKey('read'),
+  controller.getWithdrawalHistory.bind(controller)
+);
+router.put('/:agentId', requireApiKey('agents:write'), controller.updateAgent.bind(controller));
+router.post(
+  '/:agentId/withdraw',
+  requireApiKey('withdrawals:write'),
+  idempotency,
+  controller.withdraw.bind(controller)
+);
+
+// API keys
+router.get('/:agentId/api-keys', requireApiKey('keys:manage'), apiKeyController.listKeys.bind(apiKeyController));
+router.post(
+  '/:agentId/api-keys',
+  requireApiKey('keys:manage'),
+  validateRequest(apiKeyCreateSchema),
+  apiKeyController.createKey.bind(apiKeyController)
+);
+router.post(
+  '/:agentId/api-keys/:keyId/rotate',
+  requireApiKey('keys:manage'),
+  apiKeyController.rotateKey.bind(apiKeyController)
+);
+router.delete(
+  '/:agentId/api-keys/:keyId',
+  requireApiKey('keys:manage'),
+  apiKeyController.revokeKey.bind(apiKeyController)
+);
 
+// Outbound webhooks
+router.get(
+  '/:agentId/webhooks/deliveries',
+  requireApiKey('read'),
+  webhookController.listDeliveries.bind(webhookController)
+);
+router.post(
+  '/:agentId/webhooks/deliveries/:deliveryId/redeliver',
+  requireApiKey('agents:write'),
+  webhookController.redeliver.bind(webhookController)
+);
+router.post(
+  '/:agentId/webhooks/secret/rotate',
+  requireApiKey('agents:write'),
+  webhookController.rotateSecret.bind(webhookController)
+);
+
+export { router as agentRoutes };
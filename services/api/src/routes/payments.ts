@@ -1,14 +1,31 @@
 import { Router, type IRouter } from 'express';
 import { PaymentController } from '../controllers/PaymentController';
 import { PaymentFlowController } from '../controllers/PaymentFlowController';
+import { requireApiKey, agentIdFromIntent } from '../middleware/api-key-auth';
+import { idempotency } from '../middleware/idempotency';
+import { validateRequest } from '../middleware/validate';
+import { paymentIntentSchema } from '../schemas/payment';
 
 const router: IRouter = Router();
 const controller = new PaymentController();
 const flowController = new PaymentFlowController();
 
-router.post('/intent', controller.createIntent.bind(controller));
+router.post(
+  '/intent',
+  requireApiKey('payments:write', (req) => req.body?.agentId),
+  validateRequest(paymentIntentSchema),
+  idempotency,
+  controller.createIntent.bind(controller)
+);
+
+// Intent lookups stay public: payers poll them from the checkout page
 router.get('/intent/:intentId', controller.getIntent.bind(controller));
 router.get('/intent/:intentId/status', controller.getStatus.bind(controller));
-router.post('/intent/:intentId/process', flowController.processPayment.bind(flowController));
+
+router.post(
+  '/intent/:intentId/process',
+  requireApiKey('payments:write', agentIdFromIntent),
+  flowController.processPayment.bind(flowController)
+);
 
 export { router as paymentRoutes };
@@ -1,10 +1,12 @@
 import { Router, type IRouter } from 'express';
 import { QuoteController } from '../controllers/QuoteController';
+import { validateRequest } from '../middleware/validate';
+import { quoteRequestSchema } from '../schemas/payment';
 
 const router: IRouter = Router();
 const controller = new QuoteController();
 
-router.post('/', controller.getQuote.bind(controller));
+router.post('/', validateRequest(quoteRequestSchema), controller.getQuote.bind(controller));
 router.get('/:quoteId', controller.getQuoteDetails.bind(controller));
 
 export { router as quoteRoutes };
@@ -0,0 +1,31 @@
+import { z } from 'zod';
+
+export const adminChallengeSchema = z.object({
+  body: z.object({
+    address: z.string().min(1).max(64),
+  }),
+});
+
+export const adminVerifySchema = z.object({
+  body: z.object({
+    address: z.string().min(1),
+    signature: z.string().regex(/^(0x)?[0-9a-fA-F]{130}$/, 'Signature must be a 65-byte hex string'),
+  }),
+});
+
+export const createRescanSchema = z.object({
+  body: z
+    .object({
+      chain: z.enum(['ethereum', 'arbitrum', 'base', 'polygon', 'optimism', 'solana', 'bitcoin', 'stacks']),
+      address: z.string().min(1).optional(),
+      fromBlock: z.number().int().nonnegative().optional(),
+      toBlock: z.number().int().nonnegative().optional(),
+    })
+    .refine((body) => body.address !== undefined || body.fromBlock !== undefined, {
+      message: 'fromBlock is required unless an address is given',
+    })
+    .refine(
+      (body) => body.fromBlock === undefined || body.toBlock === undefined || body.fromBlock <= body.toBlock,
+      { message: 'fromBlock must not be after toBlock' }
+    ),
+});
@@ -11,3 +11,26 @@ export const agentRegistrationSchema = z.object({
   }),
 });
 
+
+export const apiKeyCreateSchema = z.object({
+  body: z.object({
+    name: z.string().max(100).optional(),
+    scopes: z
+      .array(z.enum(['read', 'payments:write', 'withdrawals:write', 'agents:write', 'keys:manage']))
+      .min(1)
+      .optional(),
+  }),
+});
+
+export const agentChallengeSchema = z.object({
+  body: z.object({
+    address: z.string().min(1),
+  }),
+});
+
+export const agentVerifySchema = z.object({
+  body: z.object({
+    address: z.string().min(1),
+    signature: z.string().regex(/^(0x)?[0-9a-fA-F]{130}$/, 'Signature must be a 65-byte hex string'),
+  }),
+});
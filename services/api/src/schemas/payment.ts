@@ -1,15 +1,25 @@
 import { z } from 'zod';
 
 export const paymentIntentSchema = z.object({
-  agentId: z.string().min(1),
-  sourceChain: z.enum(['ethereum', 'arbitrum', 'base', 'polygon', 'optimism', 'solana', 'bitcoin', 'stacks']),
-  sourceToken: z.enum(['ETH', 'USDC', 'USDT', 'WETH', 'WBTC', 'SOL', 'STX', 'USDh']),
-  sourceTokenAddress: z.string().optional(),
-  amount: z.string().min(1),
-  expiresIn: z.number().positive().optional().default(3600), // seconds
+  body: z.object({
+    agentId: z.string().min(1),
+    sourceChain: z.enum(['ethereum', 'arbitrum', 'base', 'polygon', 'optimism', 'solana', 'bitcoin', 'stacks']),
+    sourceToken: z.enum(['ETH', 'USDC', 'USDT', 'WETH', 'WBTC', 'SOL', 'STX', 'USDh']),
+    sourceTokenAddress: z.string().optional(),
+    // Whole tokens, stored as DECIMAL(20, 8); quotes take base units instead
+    amount: z.string().regex(/^\d{1,12}(\.\d{1,8})?$/, 'Amount must be in whole tokens with at most 8 decimals'),
+    expiresIn: z.number().positive().optional().default(3600), // seconds
+    quoteId: z.string().uuid().optional(), // Firm quote to bind
+  }),
 });
 
 export const quoteRequestSchema = z.object({
-  paymentIntentId: z.string().uuid(),
+  body: z.object({
+    sourceChain: z.enum(['ethereum', 'arbitrum', 'base', 'polygon', 'optimism', 'solana', 'bitcoin', 'stacks']),
+    sourceToken: z.enum(['ETH', 'USDC', 'USDT', 'WETH', 'WBTC', 'SOL', 'STX', 'USDh']),
+    amount: z.string().regex(/^\d+$/, 'Amount must be an integer in base units'),
+    destinationToken: z.literal('USDh').optional(),
+    agentId: z.string().min(1).optional(), // Restrict the quote to this agent
+  }),
 });
 
@@ -0,0 +1,197 @@
+/**
+ * Admin Auth Service
+ * Challenge/response login for admin wallets: the server issues a nonce message,
+ * the admin signs it with their Stacks key, and a short-lived session token is issued
+ */
+
+import crypto from 'crypto';
+import {
+  createMessageSignature,
+  getAddressFromPublicKey,
+  publicKeyFromSignatureRsv,
+  TransactionVersion,
+} from '@stacks/transactions';
+import { getRedis } from '@shared/utils/redis';
+import { logger } from '@shared/utils/logger';
+import { AppError } from '../middleware/errorHandler';
+
+// Same prefix wallets use when signing arbitrary messages (SIP-018 style)
+const STACKS_MESSAGE_PREFIX = '\x17Stacks Signed Message:\n';
+
+const CHALLENGE_TTL_SECONDS = 5 * 60;     // 5 minutes to sign
+const SESSION_TTL_SECONDS = 30 * 60;      // 30 minute admin sessions
+
+const ADMIN_AUTH_KEYS = {
+  challenge: (address: string) => `admin:challenge:${address}`,
+  session: (tokenHash: string) => `admin:session:${tokenHash}`,
+};
+
+export interface AdminChallenge {
+  address: string;
+  message: string;
+  expiresAt: Date;
+}
+
+export interface AdminSession {
+  token: string;
+  address: string;
+  expiresAt: Date;
+}
+
+export class AdminAuthService {
+  /**
+   * Admin wallet allowlist. An empty list means nobody can log in.
+   */
+  getAdminAddresses(): string[] {
+    return process.env.ADMIN_ADDRESSES
+      ? process.env.ADMIN_ADDRESSES.split(',').map((addr) => addr.trim()).filter(Boolean)
+      : [];
+  }
+
+  isAdminAddress(address: string): boolean {
+    return this.getAdminAddresses().includes(address);
+  }
+
+  /**
+   * Issue a single-use nonce message for an address to sign. Every address
+   * gets one, so the response doesn't reveal who is on the allowlist; only
+   * verification checks it.
+   */
+  async createChallenge(address: string): Promise<AdminChallenge> {
+    if (!this.isAdminAddress(address)) {
+      logger.warn(`Admin challenge requested for non-admin address ${address}`);
+    }
+
+    const nonce = crypto.randomBytes(16).toString('hex');
+    const issuedAt = new Date();
+    const expiresAt = new Date(issuedAt.getTime() + CHALLENGE_TTL_SECONDS * 1000);
+    const message = [
+      'Stacks Payment Router admin login',
+      `Address: ${address}`,
+      `Nonce: ${nonce}`,
+      `Issued At: ${issuedAt.toISOString()}`,
+    ].join('\n');
+
+    await getRedis().setEx(ADMIN_AUTH_KEYS.challenge(address), CHALLENGE_TTL_SECONDS, message);
+
+    return { address, message, expiresAt };
+  }
+
+  /**
+   * Verify the signed challenge and open a session.
+   * The challenge is consumed whether or not verification succeeds.
+   */
+  async verifyChallenge(address: string, signature: string): Promise<AdminSession> {
+    const redis = getRedis();
+    const challengeKey = ADMIN_AUTH_KEYS.challenge(address);
+    const message = await redis.get(challengeKey);
+    await redis.del(challengeKey);
+
+    if (!message) {
+      const err: AppError = new Error('Login challenge expired or not found');
+      err.statusCode = 401;
+      err.code = 'CHALLENGE_EXPIRED';
+      throw err;
+    }
+
+    if (!this.isAdminAddress(address) || !isValidStacksMessageSignature(address, message, signature)) {
+      logger.warn(`Admin login failed for ${address}`);
+      const err: AppError = new Error('Invalid signature');
+      err.statusCode = 401;
+      err.code = 'INVALID_SIGNATURE';
+      throw err;
+    }
+
+    const token = crypto.randomBytes(32).toString('hex');
+    const expiresAt = new Date(Date.now() + SESSION_TTL_SECONDS * 1000);
+
+    await redis.setEx(
+      ADMIN_AUTH_KEYS.session(this.hashToken(token)),
+      SESSION_TTL_SECONDS,
+      address
+    );
+
+    logger.info(`Admin session opened for ${address}`);
+
+    return { token, address, expiresAt };
+  }
+
+  /**
+   * Resolve a session token to its admin address, or null if invalid/expired.
+   * Addresses removed from ADMIN_ADDRESSES lose access immediately.
+   */
+  async getSessionAddress(token: string): Promise<string | null> {
+    const address = await getRedis().get(ADMIN_AUTH_KEYS.session(this.hashToken(token)));
+    if (!address || !this.isAdminAddress(address)) {
+      return null;
+    }
+    return address;
+  }
+
+  async revokeSession(token: string): Promise<void> {
+    await getRedis().del(ADMIN_AUTH_KEYS.session(this.hashToken(token)));
+  }
+
+  private hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+}
+
+/**
+ * Recover the signer's public key from an RSV signature over the prefixed
+ * message hash and check it derives to the claimed address
+ */
+export function isValidStacksMessageSignature(address: string, message: string, signature: string): boolean {
+  try {
+    const messageHash = hashMessage(message);
+    const publicKey = publicKeyFromSignatureRsv(
+      messageHash,
+      createMessageSignature(signature.replace(/^0x/, ''))
+    );
+
+    // SP/SM are mainnet prefixes, ST/SN testnet
+    const version = /^S[PM]/.test(address)
+      ? TransactionVersion.Mainnet
+      : TransactionVersion.Testnet;
+
+    return getAddressFromPublicKey(publicKey, version) === address;
+  } catch (error) {
+    logger.debug('Signature verification error', { error: (error as Error).message });
+    return false;
+  }
+}
+
+function hashMessage(message: string): string {
+  const prefix = Buffer.from(STACKS_MESSAGE_PREFIX, 'utf8');
+  const body = Buffer.from(message, 'utf8');
+  return crypto
+    .createHash('sha256')
+    .update(Buffer.concat([prefix, encodeVarint(body.length), body]))
+    .digest('hex');
+}
+
+// Bitcoin-style varint length prefix
+function encodeVarint(n: number): Buffer {
+  if (n < 0xfd) {
+    return Buffer.from([n]);
+  }
+  if (n <= 0xffff) {
+    const buf = Buffer.alloc(3);
+    buf[0] = 0xfd;
+    buf.writeUInt16LE(n, 1);
+    return buf;
+  }
+  const buf = Buffer.alloc(5);
+  buf[0] = 0xfe;
+  buf.writeUInt32LE(n, 1);
+  return buf;
+}
+
+let adminAuthService: AdminAuthService | null = null;
+
+export function getAdminAuthService(): AdminAuthService {
+  if (!adminAuthService) {
+    adminAuthService = new AdminAuthService();
+  }
+  return adminAuthService;
+}
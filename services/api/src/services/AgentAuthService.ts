@@ -0,0 +1,151 @@
+/**
+ * Agent Auth Service
+ * Wallet-signature login for the agent dashboard: the agent's registered Stacks
+ * address signs a nonce message and gets a short-lived session token, which
+ * the API accepts in place of an API key for that agent's own routes
+ */
+
+import crypto from 'crypto';
+import { getRedis } from '@shared/utils/redis';
+import { logger } from '@shared/utils/logger';
+import { db } from '../db';
+import { AppError } from '../middleware/errorHandler';
+import { isValidStacksMessageSignature } from './AdminAuthService';
+import { API_KEY_SCOPES, AuthenticatedApiKey } from './ApiKeyService';
+
+const CHALLENGE_TTL_SECONDS = 5 * 60;     // 5 minutes to sign
+const SESSION_TTL_SECONDS = 60 * 60;      // 1 hour dashboard sessions
+
+const AGENT_AUTH_KEYS = {
+  challenge: (address: string) => `agent:challenge:${address}`,
+  session: (tokenHash: string) => `agent:session:${tokenHash}`,
+};
+
+export interface AgentChallenge {
+  address: string;
+  message: string;
+  expiresAt: Date;
+}
+
+export interface AgentSession {
+  token: string;
+  address: string;
+  agentId: string;
+  expiresAt: Date;
+}
+
+export class AgentAuthService {
+  /**
+   * Issue a single-use nonce message for a registered agent's wallet to sign
+   */
+  async createChallenge(address: string): Promise<AgentChallenge> {
+    const agent = await this.getAgentByAddress(address);
+    if (!agent) {
+      const err: AppError = new Error('No agent registered for this address');
+      err.statusCode = 404;
+      err.code = 'AGENT_NOT_FOUND';
+      throw err;
+    }
+
+    const nonce = crypto.randomBytes(16).toString('hex');
+    const issuedAt = new Date();
+    const expiresAt = new Date(issuedAt.getTime() + CHALLENGE_TTL_SECONDS * 1000);
+    const message = [
+      'Stacks Payment Router agent login',
+      `Address: ${address}`,
+      `Agent: ${agent.agent_id}`,
+      `Nonce: ${nonce}`,
+      `Issued At: ${issuedAt.toISOString()}`,
+    ].join('\n');
+
+    await getRedis().setEx(AGENT_AUTH_KEYS.challenge(address), CHALLENGE_TTL_SECONDS, message);
+
+    return { address, message, expiresAt };
+  }
+
+  /**
+   * Verify the signed challenge and open a session.
+   * The challenge is consumed whether or not verification succeeds.
+   */
+  async verifyChallenge(address: string, signature: string): Promise<AgentSession> {
+    const redis = getRedis();
+    const challengeKey = AGENT_AUTH_KEYS.challenge(address);
+    const message = await redis.get(challengeKey);
+    await redis.del(challengeKey);
+
+    if (!message) {
+      const err: AppError = new Error('Login challenge expired or not found');
+      err.statusCode = 401;
+      err.code = 'CHALLENGE_EXPIRED';
+      throw err;
+    }
+
+    const agent = await this.getAgentByAddress(address);
+    if (!agent || !isValidStacksMessageSignature(address, message, signature)) {
+      logger.warn(`Agent login failed for ${address}`);
+      const err: AppError = new Error('Invalid signature');
+      err.statusCode = 401;
+      err.code = 'INVALID_SIGNATURE';
+      throw err;
+    }
+
+    const token = crypto.randomBytes(32).toString('hex');
+    const expiresAt = new Date(Date.now() + SESSION_TTL_SECONDS * 1000);
+
+    await redis.setEx(
+      AGENT_AUTH_KEYS.session(this.hashToken(token)),
+      SESSION_TTL_SECONDS,
+      address
+    );
+
+    logger.info(`Agent session opened for ${agent.agent_id}`);
+
+    return { token, address, agentId: agent.agent_id, expiresAt };
+  }
+
+  /**
+   * Resolve a session token to the agent it was opened for, with every scope
+   * its API keys can carry, or null if invalid/expired
+   */
+  async authenticate(token: string): Promise<AuthenticatedApiKey | null> {
+    const address = await getRedis().get(AGENT_AUTH_KEYS.session(this.hashToken(token)));
+    if (!address) {
+      return null;
+    }
+
+    const agent = await this.getAgentByAddress(address);
+    if (!agent) {
+      return null;
+    }
+
+    return {
+      keyId: 'wallet-session',
+      agentDbId: agent.id,
+      agentId: agent.agent_id,
+      stacksAddress: address,
+      scopes: API_KEY_SCOPES,
+    };
+  }
+
+  async revokeSession(token: string): Promise<void> {
+    await getRedis().del(AGENT_AUTH_KEYS.session(this.hashToken(token)));
+  }
+
+  private async getAgentByAddress(address: string): Promise<{ id: string; agent_id: string } | null> {
+    const result = await db.query('SELECT id, agent_id FROM agents WHERE stacks_address = $1', [address]);
+    return result.rows[0] || null;
+  }
+
+  private hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+}
+
+let agentAuthService: AgentAuthService | null = null;
+
+export function getAgentAuthService(): AgentAuthService {
+  if (!agentAuthService) {
+    agentAuthService = new AgentAuthService();
+  }
+  return agentAuthService;
+}
@@ -7,10 +7,14 @@ import { db } from '../db';
 import { logger } from '@shared/utils/logger';
 import { AppError } from '../middleware/errorHandler';
 import { getHDWalletManager } from '@shared/utils/addressGeneration';
-import { Chain } from '@shared/types';
+import { Chain, ConfirmationPolicy, OverpaymentPolicy } from '@shared/types';
 import { v4 as uuidv4 } from 'uuid';
+import { WebhookDeliveryService, getWebhookDeliveryService } from './WebhookDeliveryService';
+import { ApiKeyService } from './ApiKeyService';
+import { OPEN_INTENT_STATUSES } from './PaymentReconciliationService';
+import { publishWatchedAddress } from '@shared/utils/redis';
+import { parseConfirmationPolicy } from '@shared/utils/confirmationPolicy';
 import {
-  makeContractCall,
   broadcastTransaction,
   standardPrincipalCV,
   uintCV,
@@ -22,6 +26,7 @@ import {
   createAssetInfo,
 } from '@stacks/transactions';
 import { StacksMainnet, StacksTestnet } from '@stacks/network';
+import { isSettlementSignerConfigured, makeSignedContractCall } from '../../../settlement/src/stacks/signing';
 
 // Withdrawal request interface
 interface WithdrawalRequest {
@@ -48,10 +53,10 @@ const USDH_DECIMALS = 6;
 
 export class AgentService {
   private hdWalletManager = getHDWalletManager();
+  private webhookService = getWebhookDeliveryService();
   private network: StacksMainnet | StacksTestnet;
   private usdhContractAddress: string;
   private usdhContractName: string;
-  private settlementPrivateKey: string;
   private settlementAddress: string;
 
   constructor() {
@@ -64,7 +69,6 @@ export class AgentService {
         : 'ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM.token-usdh');
     
     [this.usdhContractAddress, this.usdhContractName] = usdhContract.split('.');
-    this.settlementPrivateKey = process.env.STACKS_SETTLEMENT_WALLET_PRIVATE_KEY || '';
     this.settlementAddress = process.env.STACKS_SETTLEMENT_WALLET_ADDRESS || '';
   }
 
@@ -130,6 +134,7 @@ export class AgentService {
          ON CONFLICT (agent_id, chain) DO UPDATE SET address = $3`,
         [agentDbId, chain, address]
       );
+      await publishWatchedAddress({ action: 'add', chain, address, createdAt: Date.now() });
     }
 
     // Initialize balance
@@ -139,6 +144,9 @@ export class AgentService {
       [agentDbId]
     );
 
+    // Issue an initial full-access API key; it is only shown in this response
+    const apiKey = await new ApiKeyService().createKey(data.agentId, { name: 'default' });
+
     logger.info(`Agent registered: ${data.agentId}`, { paymentAddresses });
 
     return {
@@ -146,6 +154,8 @@ export class AgentService {
       stacksAddress: result.rows[0].stacks_address,
       paymentAddresses,
       enabledChains: data.enabledChains,
+      apiKey: apiKey.key,
+      apiKeyScopes: apiKey.scopes,
     };
   }
 
@@ -185,6 +195,8 @@ export class AgentService {
     }
 
     const agent = result.rows[0];
+    // The signing secret is only ever returned when it is created or rotated
+    delete agent.webhook_secret;
     return {
       ...agent,
       enabled_chains: JSON.parse(agent.enabled_chains || '[]'),
@@ -373,8 +385,14 @@ export class AgentService {
    * Get all payment addresses for all agents
    */
   async getAllPaymentAddresses(): Promise<Record<string, string[]>> {
+    // Agent-level addresses plus deposit addresses of intents still taking payments
     const result = await db.query(
-      `SELECT chain, address FROM agent_payment_addresses`
+      `SELECT chain, address FROM agent_payment_addresses
+       UNION
+       SELECT d.chain, d.address FROM deposit_addresses d
+       JOIN payment_intents pi ON d.payment_intent_id = pi.id
+       WHERE d.status = 'active' AND pi.status = ANY($1) AND pi.expires_at > NOW()`,
+      [OPEN_INTENT_STATUSES]
     );
 
     const addressesByChain: Record<string, string[]> = {};
@@ -444,6 +462,8 @@ export class AgentService {
       ]
     );
 
+    await this.webhookService.emitWithdrawalStatus(withdrawalId, 'pending');
+
     // Start processing withdrawal asynchronously
     this.processWithdrawal(withdrawalId, agent, netAmount, destination, destinationChain)
       .catch((error) => {
@@ -486,6 +506,7 @@ export class AgentService {
          WHERE id = $1`,
         [withdrawalId]
       );
+      await this.webhookService.emitWithdrawalStatus(withdrawalId, 'processing');
 
       // Deduct from balance
       await db.query(
@@ -519,6 +540,7 @@ export class AgentService {
          WHERE id = $2`,
         [txHash, withdrawalId]
       );
+      await this.webhookService.emitWithdrawalStatus(withdrawalId, 'completed');
 
       logger.info('Withdrawal completed', { withdrawalId, txHash });
     } catch (error) {
@@ -542,6 +564,10 @@ export class AgentService {
         [netAmount, agent.id]
       );
 
+      await this.webhookService.emitWithdrawalStatus(withdrawalId, 'failed', {
+        error: (error as Error).message,
+      });
+
       throw error;
     }
   }
@@ -550,8 +576,8 @@ export class AgentService {
    * Execute Stacks USDh transfer using @stacks/transactions
    */
   private async executeStacksTransfer(toAddress: string, amount: number): Promise<string> {
-    if (!this.settlementPrivateKey) {
-      throw new Error('Settlement wallet private key not configured');
+    if (!isSettlementSignerConfigured()) {
+      throw new Error('Settlement wallet signer not configured');
     }
 
     if (!this.settlementAddress) {
@@ -588,7 +614,6 @@ export class AgentService {
         standardPrincipalCV(toAddress),
         noneCV(),
       ],
-      senderKey: this.settlementPrivateKey,
       network: this.network,
       anchorMode: AnchorMode.Any,
       postConditionMode: PostConditionMode.Deny,
@@ -596,7 +621,7 @@ export class AgentService {
       fee: BigInt(2000),
     };
 
-    const transaction = await makeContractCall(txOptions);
+    const transaction = await makeSignedContractCall(txOptions, microAmount, 'USDh');
     const broadcastResponse = await broadcastTransaction(transaction, this.network);
 
     if (broadcastResponse.error) {
@@ -678,6 +703,10 @@ export class AgentService {
     autoWithdraw?: boolean;
     settlementPreference?: string;
     enabledChains?: string[];
+    webhookUrl?: string | null;
+    paymentToleranceBps?: number | null;
+    overpaymentPolicy?: OverpaymentPolicy;
+    confirmationPolicy?: ConfirmationPolicy | null;
   }): Promise<any> {
     const agent = await this.getAgent(agentId);
     if (!agent) {
@@ -741,8 +770,74 @@ export class AgentService {
              ON CONFLICT (agent_id, chain) DO UPDATE SET address = $3`,
             [agent.id, chain, address]
           );
+          await publishWatchedAddress({ action: 'add', chain, address, createdAt: Date.now() });
+        }
+      }
+    }
+
+    // Webhook endpoint; a signing secret is generated the first time one is set
+    let newWebhookSecret: string | undefined;
+    if (updates.webhookUrl !== undefined) {
+      if (updates.webhookUrl && !(await WebhookDeliveryService.isAllowedUrl(updates.webhookUrl))) {
+        const err: AppError = new Error('Webhook URL must be an https URL that resolves to a public address');
+        err.statusCode = 400;
+        err.code = 'INVALID_WEBHOOK_URL';
+        throw err;
+      }
+
+      dbUpdates.push(`webhook_url = $${paramIndex++}`);
+      values.push(updates.webhookUrl || null);
+
+      const secretResult = await db.query(
+        'SELECT webhook_secret FROM agents WHERE id = $1',
+        [agent.id]
+      );
+      if (updates.webhookUrl && !secretResult.rows[0]?.webhook_secret) {
+        newWebhookSecret = WebhookDeliveryService.generateSecret();
+        dbUpdates.push(`webhook_secret = $${paramIndex++}`);
+        values.push(newWebhookSecret);
+      }
+    }
+
+    // Underpayment/overpayment handling; a null tolerance falls back to the platform default
+    if (updates.paymentToleranceBps !== undefined) {
+      const bps = updates.paymentToleranceBps;
+      if (bps !== null && (!Number.isInteger(bps) || bps < 0 || bps > 10000)) {
+        const err: AppError = new Error('Payment tolerance must be an integer between 0 and 10000 basis points');
+        err.statusCode = 400;
+        err.code = 'INVALID_PAYMENT_TOLERANCE';
+        throw err;
+      }
+      dbUpdates.push(`payment_tolerance_bps = $${paramIndex++}`);
+      values.push(bps);
+    }
+
+    if (updates.overpaymentPolicy !== undefined) {
+      if (!['credit', 'refund'].includes(updates.overpaymentPolicy)) {
+        const err: AppError = new Error("Overpayment policy must be 'credit' or 'refund'");
+        err.statusCode = 400;
+        err.code = 'INVALID_OVERPAYMENT_POLICY';
+        throw err;
+      }
+      dbUpdates.push(`overpayment_policy = $${paramIndex++}`);
+      values.push(updates.overpaymentPolicy);
+    }
+
+    // Confirmation depth per chain, by amount and token; null restores the platform default
+    if (updates.confirmationPolicy !== undefined) {
+      let policy: ConfirmationPolicy | null = null;
+      if (updates.confirmationPolicy !== null) {
+        try {
+          policy = parseConfirmationPolicy(updates.confirmationPolicy);
+        } catch (error) {
+          const err: AppError = new Error((error as Error).message);
+          err.statusCode = 400;
+          err.code = 'INVALID_CONFIRMATION_POLICY';
+          throw err;
         }
       }
+      dbUpdates.push(`confirmation_policy = $${paramIndex++}`);
+      values.push(policy ? JSON.stringify(policy) : null);
     }
 
     if (dbUpdates.length === 0) {
@@ -757,7 +852,8 @@ export class AgentService {
       values
     );
 
-    return this.getAgent(agentId);
+    const updated = await this.getAgent(agentId);
+    return newWebhookSecret ? { ...updated, webhook_secret: newWebhookSecret } : updated;
   }
 
   /**
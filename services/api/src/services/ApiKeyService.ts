@@ -0,0 +1,197 @@
+/**
+ * API Key Service
+ * Issues, rotates and revokes scoped per-agent API keys.
+ * Keys are shown once at creation; only their SHA-256 hash is stored.
+ */
+
+import crypto from 'crypto';
+import { db } from '../db';
+import { logger } from '@shared/utils/logger';
+import { AppError } from '../middleware/errorHandler';
+import { ApiKey, ApiKeyScope } from '@shared/types';
+
+export const API_KEY_SCOPES: ApiKeyScope[] = [
+  'read',
+  'payments:write',
+  'withdrawals:write',
+  'agents:write',
+  'keys:manage',
+];
+
+const API_KEY_PREFIX = 'spr_';
+
+export interface AuthenticatedApiKey {
+  keyId: string;
+  agentDbId: string;
+  agentId: string;
+  stacksAddress: string;
+  scopes: ApiKeyScope[];
+}
+
+export class ApiKeyService {
+  /**
+   * Create a key for an agent. The plaintext key is only returned here.
+   */
+  async createKey(
+    agentId: string,
+    options: { name?: string; scopes?: ApiKeyScope[] } = {}
+  ): Promise<ApiKey & { key: string }> {
+    const agentDbId = await this.getAgentDbId(agentId);
+    const scopes = this.validateScopes(options.scopes ?? API_KEY_SCOPES);
+
+    const key = `${API_KEY_PREFIX}${crypto.randomBytes(32).toString('hex')}`;
+
+    const result = await db.query(
+      `INSERT INTO api_keys (agent_id, name, key_prefix, key_hash, scopes)
+       VALUES ($1, $2, $3, $4, $5) RETURNING *`,
+      [agentDbId, options.name || null, key.slice(0, 12), this.hashKey(key), JSON.stringify(scopes)]
+    );
+
+    logger.info('API key created', { agentId, keyId: result.rows[0].id, scopes });
+
+    return { ...this.mapToApiKey(result.rows[0], agentId), key };
+  }
+
+  /**
+   * List an agent's keys (active and revoked), without secrets
+   */
+  async listKeys(agentId: string): Promise<ApiKey[]> {
+    const agentDbId = await this.getAgentDbId(agentId);
+
+    const result = await db.query(
+      'SELECT * FROM api_keys WHERE agent_id = $1 ORDER BY created_at DESC',
+      [agentDbId]
+    );
+
+    return result.rows.map((row) => this.mapToApiKey(row, agentId));
+  }
+
+  /**
+   * Issue a replacement key with the same name and scopes and revoke the old one
+   */
+  async rotateKey(agentId: string, keyId: string): Promise<ApiKey & { key: string }> {
+    const existing = await this.getActiveKey(agentId, keyId);
+
+    const replacement = await this.createKey(agentId, {
+      name: existing.name,
+      scopes: existing.scopes,
+    });
+    await this.revokeKey(agentId, keyId);
+
+    logger.info('API key rotated', { agentId, oldKeyId: keyId, newKeyId: replacement.id });
+
+    return replacement;
+  }
+
+  async revokeKey(agentId: string, keyId: string): Promise<ApiKey> {
+    await this.getActiveKey(agentId, keyId);
+
+    const result = await db.query(
+      'UPDATE api_keys SET revoked_at = NOW() WHERE id = $1 RETURNING *',
+      [keyId]
+    );
+
+    logger.info('API key revoked', { agentId, keyId });
+
+    return this.mapToApiKey(result.rows[0], agentId);
+  }
+
+  /**
+   * Resolve a presented key to its agent and scopes, or null if unknown/revoked
+   */
+  async authenticate(key: string): Promise<AuthenticatedApiKey | null> {
+    if (!key.startsWith(API_KEY_PREFIX)) {
+      return null;
+    }
+
+    const result = await db.query(
+      `SELECT k.id, k.agent_id, k.scopes, a.agent_id as agent_agent_id, a.stacks_address
+       FROM api_keys k
+       JOIN agents a ON k.agent_id = a.id
+       WHERE k.key_hash = $1 AND k.revoked_at IS NULL`,
+      [this.hashKey(key)]
+    );
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    const row = result.rows[0];
+
+    // Best-effort usage tracking
+    db.query('UPDATE api_keys SET last_used_at = NOW() WHERE id = $1', [row.id]).catch((error) => {
+      logger.warn('Failed to update API key usage', { keyId: row.id, error: (error as Error).message });
+    });
+
+    return {
+      keyId: row.id,
+      agentDbId: row.agent_id,
+      agentId: row.agent_agent_id,
+      stacksAddress: row.stacks_address,
+      scopes: this.parseScopes(row.scopes),
+    };
+  }
+
+  private async getActiveKey(agentId: string, keyId: string): Promise<ApiKey> {
+    const agentDbId = await this.getAgentDbId(agentId);
+
+    const result = await db.query(
+      'SELECT * FROM api_keys WHERE id = $1 AND agent_id = $2 AND revoked_at IS NULL',
+      [keyId, agentDbId]
+    );
+
+    if (result.rows.length === 0) {
+      const err: AppError = new Error('API key not found');
+      err.statusCode = 404;
+      throw err;
+    }
+
+    return this.mapToApiKey(result.rows[0], agentId);
+  }
+
+  private validateScopes(scopes: string[]): ApiKeyScope[] {
+    const invalid = scopes.filter((s) => !API_KEY_SCOPES.includes(s as ApiKeyScope));
+    if (scopes.length === 0 || invalid.length > 0) {
+      const err: AppError = new Error(
+        invalid.length > 0 ? `Invalid scopes: ${invalid.join(', ')}` : 'At least one scope is required'
+      );
+      err.statusCode = 400;
+      err.code = 'INVALID_SCOPES';
+      throw err;
+    }
+    return Array.from(new Set(scopes)) as ApiKeyScope[];
+  }
+
+  private async getAgentDbId(agentId: string): Promise<string> {
+    const result = await db.query('SELECT id FROM agents WHERE agent_id = $1', [agentId]);
+
+    if (result.rows.length === 0) {
+      const err: AppError = new Error('Agent not found');
+      err.statusCode = 404;
+      throw err;
+    }
+
+    return result.rows[0].id;
+  }
+
+  private hashKey(key: string): string {
+    return crypto.createHash('sha256').update(key).digest('hex');
+  }
+
+  private parseScopes(scopes: unknown): ApiKeyScope[] {
+    return (typeof scopes === 'string' ? JSON.parse(scopes) : scopes) as ApiKeyScope[];
+  }
+
+  private mapToApiKey(row: any, agentId: string): ApiKey {
+    return {
+      id: row.id,
+      agentId,
+      name: row.name || undefined,
+      keyPrefix: row.key_prefix,
+      scopes: this.parseScopes(row.scopes),
+      lastUsedAt: row.last_used_at || undefined,
+      revokedAt: row.revoked_at || undefined,
+      createdAt: row.created_at,
+    };
+  }
+}
@@ -0,0 +1,223 @@
+/**
+ * Chain Event Consumer
+ * Reads payment, seen and reorg events queued by the listeners from the chain
+ * event stream, as a member of its consumer group, and hands them to
+ * PaymentDetectionService. Entries are acknowledged once handled. Ones left
+ * unacknowledged, by a failure or a crashed consumer, are claimed again
+ * after a while and moved to the dead-letter stream after maxDeliveries.
+ */
+
+import os from 'os';
+import { logger } from '@shared/utils/logger';
+import { getRedis } from '@shared/utils/redis';
+import {
+  CHAIN_EVENT_GROUP,
+  CHAIN_EVENT_STREAMS,
+  deadLetterChainEvent,
+  parseChainEventMessage,
+} from '@shared/utils/chainEventStream';
+import { PaymentDetectionService } from './PaymentDetectionService';
+
+interface ChainEventConsumerConfig {
+  batchSize: number;
+  blockMs: number;
+  retryIdleMs: number;
+  retryIntervalMs: number;
+  maxDeliveries: number;
+}
+
+const DEFAULT_CONSUMER_CONFIG: ChainEventConsumerConfig = {
+  batchSize: 20,
+  blockMs: 5000,          // Longest wait for new entries per read
+  retryIdleMs: 60000,     // Unacknowledged this long means the attempt failed or its consumer died
+  retryIntervalMs: 30000, // Check for entries to retry every 30 seconds
+  maxDeliveries: 5,
+};
+
+export class ChainEventConsumer {
+  private config: ChainEventConsumerConfig;
+  private detectionService = new PaymentDetectionService();
+  private redis: ReturnType<typeof getRedis> | null = null;
+  private consumerName = `${os.hostname()}-${process.pid}`;
+  private running = false;
+  private retryTimer: NodeJS.Timeout | null = null;
+  private lastErrors: Map<string, string> = new Map();
+
+  constructor(config: Partial<ChainEventConsumerConfig> = {}) {
+    this.config = { ...DEFAULT_CONSUMER_CONFIG, ...config };
+  }
+
+  /**
+   * Join the consumer group and start reading
+   */
+  async start(): Promise<void> {
+    if (this.running) {
+      return;
+    }
+
+    // Blocking reads hold the connection, so use one of our own
+    const redis = getRedis().duplicate();
+    await redis.connect();
+    this.redis = redis;
+
+    await this.ensureGroup();
+
+    this.running = true;
+    this.readLoop();
+
+    this.retryTimer = setInterval(() => {
+      this.retryPending().catch((error) => {
+        logger.error('Chain event retry worker failed', { error: (error as Error).message });
+      });
+    }, this.config.retryIntervalMs);
+
+    logger.info('Chain event consumer started', {
+      stream: CHAIN_EVENT_STREAMS.events,
+      group: CHAIN_EVENT_GROUP,
+      consumer: this.consumerName,
+    });
+  }
+
+  async stop(): Promise<void> {
+    this.running = false;
+
+    if (this.retryTimer) {
+      clearInterval(this.retryTimer);
+      this.retryTimer = null;
+    }
+
+    if (this.redis) {
+      await this.redis.quit();
+      this.redis = null;
+    }
+  }
+
+  private async ensureGroup(): Promise<void> {
+    try {
+      // From the start of the stream, so events queued before the first API start are handled
+      await this.redis!.xGroupCreate(CHAIN_EVENT_STREAMS.events, CHAIN_EVENT_GROUP, '0', { MKSTREAM: true });
+    } catch (error) {
+      if (!(error as Error).message.includes('BUSYGROUP')) {
+        throw error;
+      }
+    }
+  }
+
+  private async readLoop(): Promise<void> {
+    while (this.running && this.redis) {
+      try {
+        const reply = await this.redis.xReadGroup(
+          CHAIN_EVENT_GROUP,
+          this.consumerName,
+          { key: CHAIN_EVENT_STREAMS.events, id: '>' },
+          { COUNT: this.config.batchSize, BLOCK: this.config.blockMs }
+        );
+
+        for (const stream of reply || []) {
+          for (const entry of stream.messages) {
+            await this.handleEntry(entry.id, entry.message);
+          }
+        }
+      } catch (error) {
+        if (!this.running) return;
+
+        logger.error('Reading chain event stream failed', { error: (error as Error).message });
+        await new Promise((resolve) => setTimeout(resolve, this.config.blockMs));
+      }
+    }
+  }
+
+  /**
+   * Handle one entry and acknowledge it. A failed entry stays pending for
+   * retryPending to pick up.
+   */
+  private async handleEntry(entryId: string, fields: Record<string, string>): Promise<void> {
+    try {
+      const message = parseChainEventMessage(fields);
+
+      // Seen and final reports alike are judged against the agent's confirmation policy
+      if (message.type === 'reorg') {
+        await this.detectionService.handleReorg(message.reorg);
+      } else {
+        await this.detectionService.handlePaymentEvent(message.event);
+      }
+
+      await this.redis!.xAck(CHAIN_EVENT_STREAMS.events, CHAIN_EVENT_GROUP, entryId);
+      this.lastErrors.delete(entryId);
+    } catch (error) {
+      const errorMessage = (error as Error).message;
+      this.lastErrors.set(entryId, errorMessage);
+      logger.error('Chain event handling failed', { entryId, type: fields.type, error: errorMessage });
+    }
+  }
+
+  /**
+   * Claim entries left unacknowledged for retryIdleMs and handle them again,
+   * or dead-letter them once they have used up their deliveries
+   */
+  private async retryPending(): Promise<void> {
+    if (!this.running || !this.redis) return;
+
+    const pending = await this.redis.xPendingRange(
+      CHAIN_EVENT_STREAMS.events,
+      CHAIN_EVENT_GROUP,
+      '-',
+      '+',
+      this.config.batchSize,
+      { IDLE: this.config.retryIdleMs }
+    );
+
+    for (const entry of pending) {
+      const entryId = entry.id.toString();
+
+      if (entry.deliveriesCounter >= this.config.maxDeliveries) {
+        await this.deadLetter(entryId, entry.deliveriesCounter);
+        continue;
+      }
+
+      const claimed = await this.redis.xClaim(
+        CHAIN_EVENT_STREAMS.events,
+        CHAIN_EVENT_GROUP,
+        this.consumerName,
+        this.config.retryIdleMs,
+        entryId
+      );
+
+      for (const message of claimed) {
+        if (message) {
+          logger.info('Retrying chain event', { entryId: message.id, deliveries: entry.deliveriesCounter + 1 });
+          await this.handleEntry(message.id, message.message);
+        }
+      }
+    }
+  }
+
+  private async deadLetter(entryId: string, deliveries: number): Promise<void> {
+    const [entry] = await this.redis!.xRange(CHAIN_EVENT_STREAMS.events, entryId, entryId);
+    const error = this.lastErrors.get(entryId) || 'Exceeded delivery attempts';
+
+    // An entry already trimmed from the stream has nothing left to keep
+    if (entry) {
+      await deadLetterChainEvent(entryId, entry.message, error, deliveries);
+    }
+
+    await this.redis!.xAck(CHAIN_EVENT_STREAMS.events, CHAIN_EVENT_GROUP, entryId);
+    this.lastErrors.delete(entryId);
+
+    logger.error('Chain event moved to dead letter', {
+      entryId,
+      type: entry?.message.type,
+      deliveries,
+      error,
+    });
+  }
+}
+
+let chainEventConsumer: ChainEventConsumer | null = null;
+
+export function getChainEventConsumer(): ChainEventConsumer {
+  if (!chainEventConsumer) {
+    chainEventConsumer = new ChainEventConsumer();
+  }
+  return chainEventConsumer;
+}
@@ -0,0 +1,134 @@
+/**
+ * Deposit Address Service
+ * Derives a fresh HD address for every payment intent so that concurrent
+ * intents for the same agent never share an address, and tells the chain
+ * listeners when each address starts and stops taking payments
+ */
+
+import { db, Queryable } from '../db';
+import { logger } from '@shared/utils/logger';
+import { Chain } from '@shared/types';
+import { getHDWalletManager } from '@shared/utils/addressGeneration';
+import { publishWatchedAddress } from '@shared/utils/redis';
+
+export interface DepositAddress {
+  chain: Chain;
+  address: string;
+  derivationPath: string;
+  agentIndex: number;
+  addressIndex: number;
+}
+
+export class DepositAddressService {
+  private hdWalletManager = getHDWalletManager();
+
+  /**
+   * Reserve the agent's next intent index and derive its address
+   * (m/44'/{coin}'/{agentIndex}'/0/{intentIndex}). Run it in the transaction
+   * that inserts the intent so that a rollback also releases the index.
+   * Returns null when the chain or agent has no per-intent addresses; the
+   * caller then uses the agent-level address.
+   */
+  async allocate(
+    client: Queryable,
+    agent: { id: string; agent_index: number | null; stacks_address: string },
+    chain: Chain
+  ): Promise<DepositAddress | null> {
+    // Stacks payments go straight to the agent's own address
+    if (chain === 'stacks') {
+      return null;
+    }
+
+    if (!agent.agent_index) {
+      logger.warn('Agent has no HD index; falling back to its shared payment address', {
+        agentId: agent.id,
+        chain,
+      });
+      return null;
+    }
+
+    // Row lock on the agent hands out each index exactly once
+    const result = await client.query(
+      `UPDATE agents SET next_intent_index = next_intent_index + 1
+       WHERE id = $1
+       RETURNING next_intent_index - 1 AS address_index`,
+      [agent.id]
+    );
+
+    const addressIndex: number = result.rows[0].address_index;
+    const derived = this.hdWalletManager.deriveIntentAddress(
+      agent.agent_index,
+      addressIndex,
+      chain,
+      agent.stacks_address
+    );
+
+    return {
+      chain,
+      address: derived.address,
+      derivationPath: derived.path,
+      agentIndex: agent.agent_index,
+      addressIndex,
+    };
+  }
+
+  /**
+   * Store the address against its intent so the sweep job can re-derive its key
+   */
+  async record(
+    client: Queryable,
+    paymentIntentId: string,
+    agentDbId: string,
+    deposit: DepositAddress
+  ): Promise<void> {
+    await client.query(
+      `INSERT INTO deposit_addresses (
+        payment_intent_id, agent_id, chain, address, derivation_path, agent_index, address_index
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+      [
+        paymentIntentId,
+        agentDbId,
+        deposit.chain,
+        deposit.address,
+        deposit.derivationPath,
+        deposit.agentIndex,
+        deposit.addressIndex,
+      ]
+    );
+  }
+
+  /**
+   * Tell running listeners to watch a new address. They backfill from the
+   * creation time, so a payment sent before they hear about it is still seen.
+   */
+  async announce(deposit: DepositAddress): Promise<void> {
+    await publishWatchedAddress({
+      action: 'add',
+      chain: deposit.chain,
+      address: deposit.address,
+      createdAt: Date.now(),
+    });
+  }
+
+  /**
+   * Tell running listeners to stop watching an intent's address once the
+   * intent no longer takes payments (expired, settled or failed)
+   */
+  async release(paymentIntentId: string): Promise<void> {
+    try {
+      const result = await db.query(
+        'SELECT chain, address FROM deposit_addresses WHERE payment_intent_id = $1',
+        [paymentIntentId]
+      );
+
+      for (const row of result.rows) {
+        await publishWatchedAddress({ action: 'remove', chain: row.chain, address: row.address });
+      }
+    } catch (error) {
+      logger.warn('Failed to release deposit address', {
+        paymentIntentId,
+        error: (error as Error).message,
+      });
+    }
+  }
+}
@@ -0,0 +1,189 @@
+/**
+ * Idempotency Service
+ * Records the first response for an Idempotency-Key so retried write requests
+ * are replayed instead of re-executed
+ */
+
+import crypto from 'crypto';
+import { db } from '../db';
+import { logger } from '@shared/utils/logger';
+
+const IDEMPOTENCY_TTL_HOURS = 24;
+
+// A request refreshes its claim this often while it runs
+const IDEMPOTENCY_HEARTBEAT_SECONDS = 10;
+
+// A claim not refreshed for this long lost its request, e.g. in a crash,
+// and a retry may take it over
+const IDEMPOTENCY_LOCK_TIMEOUT_SECONDS = IDEMPOTENCY_HEARTBEAT_SECONDS * 3;
+
+export type IdempotencyBeginResult =
+  | { state: 'new'; claimToken: string }
+  | { state: 'replay'; responseStatus: number; responseBody: unknown }
+  | { state: 'in_progress' }
+  | { state: 'mismatch' };
+
+export class IdempotencyService {
+  /**
+   * Hash of the request that a key is bound to
+   */
+  static hashRequest(method: string, path: string, body: unknown): string {
+    return crypto
+      .createHash('sha256')
+      .update(`${method.toUpperCase()} ${path}\n${IdempotencyService.canonicalize(body)}`)
+      .digest('hex');
+  }
+
+  /**
+   * JSON with sorted object keys, so key order does not change the hash
+   */
+  static canonicalize(value: unknown): string {
+    if (Array.isArray(value)) {
+      return `[${value.map((v) => IdempotencyService.canonicalize(v)).join(',')}]`;
+    }
+    if (value && typeof value === 'object') {
+      const entries = Object.keys(value as Record<string, unknown>)
+        .sort()
+        .map((k) => `${JSON.stringify(k)}:${IdempotencyService.canonicalize((value as Record<string, unknown>)[k])}`);
+      return `{${entries.join(',')}}`;
+    }
+    return JSON.stringify(value ?? null);
+  }
+
+  /**
+   * Claim a key for a request, or report what the caller should do instead.
+   * A new claim is held with its token until complete or release, and must
+   * be kept alive with heartbeat while the request runs.
+   */
+  async begin(scope: string, key: string, requestHash: string): Promise<IdempotencyBeginResult> {
+    const claimToken = crypto.randomUUID();
+
+    // Expired keys can be reused
+    await db.query(
+      'DELETE FROM idempotency_keys WHERE scope = $1 AND idempotency_key = $2 AND expires_at < NOW()',
+      [scope, key]
+    );
+
+    const inserted = await db.query(
+      `INSERT INTO idempotency_keys (scope, idempotency_key, request_hash, status, claim_token, expires_at)
+       VALUES ($1, $2, $3, 'processing', $4, NOW() + make_interval(hours => $5))
+       ON CONFLICT (scope, idempotency_key) DO NOTHING
+       RETURNING id`,
+      [scope, key, requestHash, claimToken, IDEMPOTENCY_TTL_HOURS]
+    );
+
+    if (inserted.rows.length > 0) {
+      return { state: 'new', claimToken };
+    }
+
+    const existing = await db.query(
+      'SELECT * FROM idempotency_keys WHERE scope = $1 AND idempotency_key = $2',
+      [scope, key]
+    );
+
+    // Row vanished between insert and select (released by a failed request); treat as in flight
+    if (existing.rows.length === 0) {
+      return { state: 'in_progress' };
+    }
+
+    const row = existing.rows[0];
+
+    if (row.request_hash !== requestHash) {
+      return { state: 'mismatch' };
+    }
+
+    if (row.status !== 'completed') {
+      return (await this.reclaimStale(scope, key, requestHash, claimToken))
+        ? { state: 'new', claimToken }
+        : { state: 'in_progress' };
+    }
+
+    return {
+      state: 'replay',
+      responseStatus: row.response_status,
+      responseBody: row.response_body,
+    };
+  }
+
+  /**
+   * Take over a key whose request stopped refreshing its claim; only one
+   * retry wins the update
+   */
+  private async reclaimStale(scope: string, key: string, requestHash: string, claimToken: string): Promise<boolean> {
+    const reclaimed = await db.query(
+      `UPDATE idempotency_keys SET locked_at = NOW(), claim_token = $4
+       WHERE scope = $1 AND idempotency_key = $2 AND request_hash = $3 AND status = 'processing'
+         AND locked_at < NOW() - make_interval(secs => $5)
+       RETURNING id`,
+      [scope, key, requestHash, claimToken, IDEMPOTENCY_LOCK_TIMEOUT_SECONDS]
+    );
+
+    if (reclaimed.rows.length === 0) {
+      return false;
+    }
+
+    logger.warn('Reclaimed stale idempotency key', { scope, key });
+    return true;
+  }
+
+  /**
+   * Keep a claim alive while its request runs, so a retry waits for it
+   * however long it takes. Returns a function that stops the heartbeat.
+   */
+  heartbeat(scope: string, key: string, claimToken: string): () => void {
+    const timer = setInterval(() => {
+      db.query(
+        `UPDATE idempotency_keys SET locked_at = NOW()
+         WHERE scope = $1 AND idempotency_key = $2 AND claim_token = $3 AND status = 'processing'`,
+        [scope, key, claimToken]
+      ).catch((error) => {
+        logger.warn('Failed to refresh idempotency claim', { scope, error: (error as Error).message });
+      });
+    }, IDEMPOTENCY_HEARTBEAT_SECONDS * 1000);
+    timer.unref();
+
+    return () => clearInterval(timer);
+  }
+
+  /**
+   * Store the response to replay for this key
+   */
+  async complete(
+    scope: string,
+    key: string,
+    claimToken: string,
+    responseStatus: number,
+    responseBody: unknown
+  ): Promise<void> {
+    const result = await db.query(
+      `UPDATE idempotency_keys
+       SET status = 'completed', response_status = $1, response_body = $2
+       WHERE scope = $3 AND idempotency_key = $4 AND claim_token = $5`,
+      [responseStatus, JSON.stringify(responseBody ?? null), scope, key, claimToken]
+    );
+
+    if (result.rowCount === 0) {
+      logger.warn('Idempotency claim was taken over before the request completed', { scope, key });
+    }
+  }
+
+  /**
+   * Forget a key so the request can be retried (used after server errors)
+   */
+  async release(scope: string, key: string, claimToken: string): Promise<void> {
+    await db.query(
+      `DELETE FROM idempotency_keys
+       WHERE scope = $1 AND idempotency_key = $2 AND claim_token = $3 AND status = 'processing'`,
+      [scope, key, claimToken]
+    );
+  }
+
+  async purgeExpired(): Promise<number> {
+    const result = await db.query('DELETE FROM idempotency_keys WHERE expires_at < NOW()');
+    const count = result.rowCount ?? 0;
+    if (count > 0) {
+      logger.debug(`Purged ${count} expired idempotency keys`);
+    }
+    return count;
+  }
+}
@@ -0,0 +1,58 @@
+/**
+ * Listener Status Service
+ * Shows which listener replica leads each chain, with the checkpoint and
+ * processing stats it last recorded
+ */
+
+import { db } from '../db';
+import { getRedis, LISTENER_KEYS } from '@shared/utils/redis';
+
+export interface ListenerInstance {
+  instanceId: string;
+  lastHeartbeatAt: Date;
+}
+
+export interface ChainListenerStatus {
+  chain: string;
+  leader: string | null;            // Current lease holder, null if none
+  leaseExpiresInMs: number | null;
+  checkpointOwner: string | null;   // Replica that wrote the checkpoint
+  leaseEpoch: number;
+  lastProcessedBlock: number;
+  stats: Record<string, unknown>;
+  updatedAt: Date;
+}
+
+export class ListenerStatusService {
+  async getStatus(): Promise<{ instances: ListenerInstance[]; chains: ChainListenerStatus[] }> {
+    const redis = getRedis();
+
+    const instances = await redis.zRangeWithScores(LISTENER_KEYS.instances, 0, -1);
+    const checkpoints = await db.query('SELECT * FROM listener_checkpoints ORDER BY chain');
+
+    const chains: ChainListenerStatus[] = [];
+    for (const row of checkpoints.rows) {
+      const leader = await redis.get(LISTENER_KEYS.leader(row.chain));
+      const ttl = leader ? await redis.pTTL(LISTENER_KEYS.leader(row.chain)) : -1;
+
+      chains.push({
+        chain: row.chain,
+        leader,
+        leaseExpiresInMs: ttl >= 0 ? ttl : null,
+        checkpointOwner: row.owner_instance,
+        leaseEpoch: Number(row.lease_epoch || 0),
+        lastProcessedBlock: Number(row.last_processed_block),
+        stats: typeof row.stats === 'string' ? JSON.parse(row.stats) : row.stats || {},
+        updatedAt: row.updated_at,
+      });
+    }
+
+    return {
+      instances: instances.map((instance) => ({
+        instanceId: instance.value,
+        lastHeartbeatAt: new Date(instance.score),
+      })),
+      chains,
+    };
+  }
+}
@@ -1,73 +1,301 @@
-import { ChainEvent } from '@shared/types';
+import { ChainEvent, ChainReorg, ConfirmationRule } from '@shared/types';
 import { db } from '../db';
 import { logger } from '@shared/utils/logger';
 import { v4 as uuidv4 } from 'uuid';
+import {
+  PaymentReconciliationService,
+  OPEN_INTENT_STATUSES,
+} from './PaymentReconciliationService';
+import { getWebhookDeliveryService } from './WebhookDeliveryService';
+import { meetsConfirmationRule, resolveConfirmationRule } from '@shared/utils/confirmationPolicy';
 
 export class PaymentDetectionService {
+  private reconciliationService = new PaymentReconciliationService();
 
+  /**
+   * Record a transfer reported by a listener and count it toward its intent
+   * once it meets the agent's confirmation policy. Until then a pending
+   * intent moves to seen so the payer can follow its confirmations.
+   */
   async handlePaymentEvent(event: ChainEvent): Promise<void> {
     logger.info('Payment event detected', {
       chain: event.chain,
       txHash: event.txHash,
       to: event.to,
       amount: event.amount,
+      confirmations: event.confirmations,
     });
 
     try {
-      // Find payment intent by payment address
-      const intentResult = await db.query(
-        'SELECT * FROM payment_intents WHERE payment_address = $1 AND status = $2',
-        [event.to, 'pending']
+      const intent = await this.findOpenIntent(event.to);
+      if (!intent) {
+        await this.handleLatePayment(event);
+        return;
+      }
+
+      const rule = resolveConfirmationRule(
+        event,
+        parseFloat(intent.amount_usd),
+        intent.confirmation_policy
       );
+      const confirmed = meetsConfirmationRule(event, rule);
+      const eventResult = await this.recordEvent(intent.id, event, confirmed, rule);
 
-      if (intentResult.rows.length === 0) {
-        logger.warn('No matching payment intent found', { to: event.to });
+      // Already confirmed; a late unconfirmed notification changes nothing
+      if (eventResult.rows.length === 0) {
         return;
       }
 
-      const intent = intentResult.rows[0];
-
-      // Create payment event record
-      await db.query(
-        `INSERT INTO payment_events (
-          payment_intent_id, chain, tx_hash, block_number, block_hash,
-          from_address, to_address, token_address, amount, amount_usd,
-          confirmed, confirmations, detected_at
-        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, NOW())`,
-        [
-          intent.id,
-          event.chain,
-          event.txHash,
-          event.blockNumber,
-          event.blockHash,
-          event.from,
-          event.to,
-          event.tokenAddress || null,
-          event.amount,
-          event.amountUSD,
-          event.confirmations >= 12, // Confirmed if enough confirmations
-          event.confirmations,
-        ]
-      );
+      // A re-notified tx stays with the intent it was first recorded against
+      const paymentIntentId: string = eventResult.rows[0].payment_intent_id;
+
+      if (!confirmed) {
+        await this.markSeen(paymentIntentId, event, rule);
+        return;
+      }
 
-      // Update payment intent status
-      if (event.confirmations >= 12) {
-        await db.query(
-          'UPDATE payment_intents SET status = $1 WHERE id = $2',
-          ['detected', intent.id]
-        );
+      // Events are delivered at least once; a redelivered confirmation was already counted
+      if (eventResult.rows[0].was_confirmed) {
+        logger.info('Payment event already confirmed, skipping', {
+          intentId: paymentIntentId,
+          txHash: event.txHash,
+          logIndex: event.logIndex,
+        });
+        return;
+      }
+
+      // Total every confirmed transfer and compare against the requested amount
+      const result = await this.reconciliationService.reconcile(paymentIntentId);
+      if (!result) {
+        return;
+      }
+
+      await this.reconciliationService.notify(paymentIntentId, result, {
+        txHash: event.txHash,
+        confirmations: event.confirmations,
+      });
 
+      if (result.outcome !== 'underpaid') {
         // Trigger payment flow (routing → execution → settlement)
-        await this.triggerPaymentFlow(intent.id);
+        await this.triggerPaymentFlow(paymentIntentId);
       }
 
-      logger.info('Payment event processed', { intentId: intent.id, txHash: event.txHash });
+      logger.info('Payment event processed', {
+        intentId: paymentIntentId,
+        txHash: event.txHash,
+        outcome: result.outcome,
+      });
     } catch (error) {
       logger.error('Error handling payment event', error);
       throw error;
     }
   }
 
+  /**
+   * A transfer to an address whose intent no longer accepts payments, such
+   * as one a rescan found for an expired or completed intent. It is recorded
+   * against the address's latest intent and, once confirmed, refunded to
+   * its sender pending operator review; it never counts toward the intent.
+   */
+  private async handleLatePayment(event: ChainEvent): Promise<void> {
+    const intent = await this.findLatestIntent(event.to);
+    if (!intent) {
+      logger.warn('No matching payment intent found', { to: event.to });
+      return;
+    }
+
+    const rule = resolveConfirmationRule(event, parseFloat(intent.amount_usd), intent.confirmation_policy);
+    const confirmed = meetsConfirmationRule(event, rule);
+    const eventResult = await this.recordEvent(intent.id, event, confirmed, rule);
+
+    if (!confirmed || eventResult.rows.length === 0 || eventResult.rows[0].was_confirmed) {
+      return;
+    }
+
+    const refundId = await this.reconciliationService.createRefund(
+      db,
+      intent,
+      parseFloat(event.amount),
+      'late_payment',
+      event.from
+    );
+
+    logger.warn('Late payment recorded for refund', {
+      intentId: intent.id,
+      intentStatus: intent.status,
+      expiresAt: intent.expires_at,
+      txHash: event.txHash,
+      blockTimestamp: event.timestamp,
+      amount: event.amount,
+      refundId,
+    });
+  }
+
+  /**
+   * Move a pending intent to seen when its first transfer arrives
+   */
+  private async markSeen(paymentIntentId: string, event: ChainEvent, rule: ConfirmationRule): Promise<void> {
+    const seen = await db.query(
+      `UPDATE payment_intents SET status = 'seen'
+       WHERE id = $1 AND status = 'pending'
+       RETURNING id`,
+      [paymentIntentId]
+    );
+
+    if (seen.rows.length > 0) {
+      await getWebhookDeliveryService().emitPaymentStatus(paymentIntentId, 'seen', {
+        txHash: event.txHash,
+        confirmations: event.confirmations,
+        confirmationsRequired: rule.confirmations,
+        blockTagRequired: rule.blockTag,
+      });
+    }
+
+    logger.info('Payment event recorded, waiting for confirmations', {
+      intentId: paymentIntentId,
+      txHash: event.txHash,
+      confirmations: event.confirmations,
+      required: rule.confirmations,
+      blockTag: rule.blockTag,
+    });
+  }
+
+  /**
+   * Roll back transfers mined in blocks a listener has seen orphaned. A tx
+   * that is re-mined on the new chain is re-confirmed by the next
+   * notification for it.
+   */
+  async handleReorg(reorg: ChainReorg): Promise<void> {
+    logger.warn('Chain reorg reported', {
+      chain: reorg.chain,
+      forkBlock: reorg.forkBlock,
+      orphanedBlocks: reorg.orphanedBlockHashes.length,
+    });
+
+    const orphaned = await db.query(
+      `UPDATE payment_events
+       SET status = 'orphaned', confirmed = false, confirmations = 0, confirmed_at = NULL, orphaned_at = NOW()
+       WHERE chain = $1 AND block_number > $2 AND orphaned_at IS NULL
+       RETURNING payment_intent_id, tx_hash`,
+      [reorg.chain, reorg.forkBlock]
+    );
+
+    const txHashesByIntent = new Map<string, string[]>();
+    for (const row of orphaned.rows) {
+      const txHashes = txHashesByIntent.get(row.payment_intent_id) || [];
+      txHashes.push(row.tx_hash);
+      txHashesByIntent.set(row.payment_intent_id, txHashes);
+    }
+
+    for (const [paymentIntentId, txHashes] of txHashesByIntent) {
+      const result = await this.reconciliationService.revertOrphaned(paymentIntentId);
+      if (!result) {
+        continue;
+      }
+
+      await getWebhookDeliveryService().emitPaymentReorged(paymentIntentId, {
+        previousStatus: result.previousStatus,
+        amountReceived: result.amountReceived.toString(),
+        orphanedTxHashes: txHashes,
+        forkBlock: reorg.forkBlock,
+      });
+    }
+
+    logger.info('Chain reorg processed', {
+      chain: reorg.chain,
+      forkBlock: reorg.forkBlock,
+      orphanedEvents: orphaned.rows.length,
+      affectedIntents: txHashesByIntent.size,
+    });
+  }
+
+  /**
+   * Oldest intent at an address still accepting transfers (including
+   * top-ups), with its agent's confirmation policy
+   */
+  private async findOpenIntent(address: string) {
+    const result = await db.query(
+      `SELECT pi.*, a.confirmation_policy
+       FROM payment_intents pi
+       JOIN agents a ON pi.agent_id = a.id
+       WHERE pi.payment_address = $1 AND pi.status = ANY($2) AND pi.expires_at > NOW()
+       ORDER BY pi.created_at ASC LIMIT 1`,
+      [address, OPEN_INTENT_STATUSES]
+    );
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Most recent intent at an address whatever its status, with its agent's
+   * confirmation policy
+   */
+  private async findLatestIntent(address: string) {
+    const result = await db.query(
+      `SELECT pi.*, a.confirmation_policy
+       FROM payment_intents pi
+       JOIN agents a ON pi.agent_id = a.id
+       WHERE pi.payment_address = $1
+       ORDER BY pi.created_at DESC LIMIT 1`,
+      [address]
+    );
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Record a transfer; repeated notifications for it only update its block
+   * and confirmations. A confirmed transfer is never set back to seen, so
+   * no row is returned for a stale unconfirmed notification.
+   */
+  private async recordEvent(
+    paymentIntentId: string,
+    event: ChainEvent,
+    confirmed: boolean,
+    rule: ConfirmationRule
+  ) {
+    return await db.query(
+      `WITH previous AS (
+        SELECT confirmed FROM payment_events
+        WHERE chain = $2 AND tx_hash = $3 AND log_index = $13
+      )
+      INSERT INTO payment_events (
+        payment_intent_id, chain, tx_hash, block_number, block_hash,
+        from_address, to_address, token_address, amount, amount_usd,
+        confirmed, confirmations, detected_at, confirmed_at, log_index, status,
+        confirmations_required
+      ) VALUES (
+        $1, $2, $3, NULLIF($4::BIGINT, 0), NULLIF($5, ''), $6, $7, $8, $9, $10, $11, $12, NOW(),
+        CASE WHEN $11 THEN NOW() END, $13, CASE WHEN $11 THEN 'confirmed' ELSE 'seen' END, $14
+      )
+      ON CONFLICT (chain, tx_hash, log_index) DO UPDATE SET
+        block_number = COALESCE(EXCLUDED.block_number, payment_events.block_number),
+        block_hash = COALESCE(EXCLUDED.block_hash, payment_events.block_hash),
+        orphaned_at = NULL,
+        status = CASE WHEN payment_events.confirmed OR EXCLUDED.confirmed THEN 'confirmed' ELSE 'seen' END,
+        confirmations = EXCLUDED.confirmations,
+        confirmations_required = EXCLUDED.confirmations_required,
+        confirmed = payment_events.confirmed OR EXCLUDED.confirmed,
+        confirmed_at = COALESCE(payment_events.confirmed_at, EXCLUDED.confirmed_at)
+      WHERE EXCLUDED.confirmed OR NOT payment_events.confirmed
+      RETURNING payment_intent_id, COALESCE((SELECT confirmed FROM previous), false) AS was_confirmed`,
+      [
+        paymentIntentId,
+        event.chain,
+        event.txHash,
+        event.blockNumber,
+        event.blockHash,
+        event.from,
+        event.to,
+        event.tokenAddress || null,
+        event.amount,
+        event.amountUSD,
+        confirmed,
+        event.confirmations,
+        event.logIndex ?? -1,
+        rule.confirmations ?? null,
+      ]
+    );
+  }
+
   private async triggerPaymentFlow(paymentIntentId: string): Promise<void> {
     // In production, would use a message queue or event system
     // For now, process payment flow directly
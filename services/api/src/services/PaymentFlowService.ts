@@ -1,8 +1,13 @@
 import { db } from '../db';
 import { logger } from '@shared/utils/logger';
-import { ExecutionService } from '../../../execution/src/ExecutionService';
+import { ExecutionService, ROUTE_HEARTBEAT_INTERVAL_MS } from '../../../execution/src/ExecutionService';
 import { SettlementEngine } from '../../../settlement/src/SettlementEngine';
 import { Route } from '@shared/types';
+import { WebhookDeliveryService, getWebhookDeliveryService } from './WebhookDeliveryService';
+import { DepositAddressService } from './DepositAddressService';
+
+// A route whose heartbeat is this old lost the process executing it
+const ROUTE_STALE_AFTER_SECONDS = Math.ceil((ROUTE_HEARTBEAT_INTERVAL_MS * 4) / 1000);
 
 /**
  * Orchestrates the complete payment flow:
@@ -11,15 +16,22 @@ import { Route } from '@shared/types';
 export class PaymentFlowService {
   private executionService: ExecutionService;
   private settlementEngine: SettlementEngine;
+  private webhookService: WebhookDeliveryService;
+  private depositAddressService: DepositAddressService;
 
   constructor() {
     this.executionService = new ExecutionService();
     this.settlementEngine = new SettlementEngine();
+    this.webhookService = getWebhookDeliveryService();
+    this.depositAddressService = new DepositAddressService();
   }
 
   async processPayment(paymentIntentId: string): Promise<void> {
     logger.info(`Processing payment flow for intent: ${paymentIntentId}`);
 
+    // Set once the intent is executing; from then on it is resumed rather than failed
+    let executingRouteId: string | null = null;
+
     try {
       // Get payment intent
       const intentResult = await db.query(
@@ -33,56 +45,87 @@ export class PaymentFlowService {
 
       const intent = intentResult.rows[0];
 
+      // A resumed payment has already announced these
+      const resuming = intent.status === 'executing';
+
       // Update status to routing
-      await db.query('UPDATE payment_intents SET status = $1 WHERE id = $2', [
-        'routing',
-        paymentIntentId,
-      ]);
+      if (!resuming) {
+        await db.query('UPDATE payment_intents SET status = $1 WHERE id = $2', [
+          'routing',
+          paymentIntentId,
+        ]);
+        await this.webhookService.emitPaymentStatus(paymentIntentId, 'routing');
+      }
 
       // Get the route
-      const routeResult = await db.query(
-        'SELECT * FROM routes WHERE payment_intent_id = $1 ORDER BY created_at DESC LIMIT 1',
-        [paymentIntentId]
-      );
-
-      if (routeResult.rows.length === 0) {
-        throw new Error('No route found for payment intent');
+      const route = await this.loadRoute(paymentIntentId);
+
+      // Keeps other processes from resuming the payment until it is settled;
+      // stamped before the intent is marked executing
+      await this.refreshHeartbeat(route.id);
+      const heartbeat = setInterval(() => {
+        this.refreshHeartbeat(route.id).catch((error) => {
+          logger.warn('Failed to refresh route heartbeat', { routeId: route.id, error: (error as Error).message });
+        });
+      }, ROUTE_HEARTBEAT_INTERVAL_MS);
+
+      let finalTxHash: string;
+      try {
+        // Update status to executing
+        if (!resuming) {
+          await db.query('UPDATE payment_intents SET status = $1 WHERE id = $2', [
+            'executing',
+            paymentIntentId,
+          ]);
+          await this.webhookService.emitPaymentStatus(paymentIntentId, 'executing', {
+            routeId: route.id,
+          });
+        }
+        executingRouteId = route.id;
+
+        if (route.status === 'completed' && route.executionTxHash) {
+          // Executed before the process stopped; only settlement is left
+          logger.info(`Route already executed: ${route.id}`);
+          finalTxHash = route.executionTxHash;
+        } else {
+          // Execute the route
+          logger.info(`Executing route: ${route.id}`);
+          finalTxHash = await this.executionService.executeRoute(route, paymentIntentId);
+        }
+
+        // Record the executed route; the intent stays executing until it is
+        // settled, so an interruption before then is resumed
+        await db.query('UPDATE payment_intents SET route_id = $1 WHERE id = $2', [
+          route.id,
+          paymentIntentId,
+        ]);
+
+        // Settle the payment
+        logger.info(`Settling payment: ${paymentIntentId}`);
+        await this.settlementEngine.settle(paymentIntentId);
+      } finally {
+        clearInterval(heartbeat);
       }
 
-      const route: Route = {
-        ...routeResult.rows[0],
-        steps: JSON.parse(routeResult.rows[0].steps),
-        createdAt: new Date(routeResult.rows[0].created_at),
-      };
-
-      // Update status to executing
-      await db.query('UPDATE payment_intents SET status = $1 WHERE id = $2', [
-        'executing',
-        paymentIntentId,
-      ]);
-
-      // Execute the route
-      logger.info(`Executing route: ${route.id}`);
-      const finalTxHash = await this.executionService.executeRoute(route, paymentIntentId);
-
-      // Update payment intent with route execution
-      await db.query(
-        'UPDATE payment_intents SET route_id = $1, status = $2 WHERE id = $3',
-        [route.id, 'executed', paymentIntentId]
-      );
-
-      // Settle the payment
-      logger.info(`Settling payment: ${paymentIntentId}`);
-      await this.settlementEngine.settle(paymentIntentId);
-
       // Update status to settled
       await db.query(
         'UPDATE payment_intents SET status = $1, completed_at = NOW() WHERE id = $2',
         ['settled', paymentIntentId]
       );
+      await this.webhookService.emitPaymentStatus(paymentIntentId, 'settled', {
+        txHash: finalTxHash,
+      });
+      await this.depositAddressService.release(paymentIntentId);
 
       logger.info(`Payment flow completed: ${paymentIntentId}`);
     } catch (error) {
+      // Once executing, only a route that execution gave up on fails the
+      // payment; the intent is left executing for anything else
+      if (executingRouteId && !(await this.hasRouteFailed(executingRouteId))) {
+        logger.error(`Payment flow interrupted, left to resume: ${paymentIntentId}`, error);
+        throw error;
+      }
+
       logger.error(`Payment flow failed: ${paymentIntentId}`, error);
       
       // Update status to failed
@@ -90,9 +133,118 @@ export class PaymentFlowService {
         'failed',
         paymentIntentId,
       ]);
+      await this.webhookService.emitPaymentStatus(paymentIntentId, 'failed', {
+        error: (error as Error).message,
+      });
+      await this.depositAddressService.release(paymentIntentId);
 
       throw error;
     }
   }
-}
 
+  /**
+   * Resume payments whose execution stopped with its process, e.g. in a
+   * crash or deploy: the intent is still executing but its route's
+   * heartbeat has gone stale or was never set, whether the route had not
+   * started, was part way through, or had completed without being settled.
+   * Each is claimed by refreshing the heartbeat, so only one process
+   * resumes it, and picks up after its last confirmed step.
+   */
+  async resumeInterruptedPayments(): Promise<number> {
+    const result = await db.query(
+      `UPDATE routes SET execution_heartbeat_at = NOW()
+       WHERE id IN (
+         SELECT r.id FROM routes r
+         JOIN payment_intents p ON p.id = r.payment_intent_id
+         WHERE p.status = 'executing' AND r.parent_route_id IS NULL
+           AND r.status IN ('pending', 'executing', 'completed')
+           AND (r.execution_heartbeat_at IS NULL
+             OR r.execution_heartbeat_at < NOW() - make_interval(secs => $1))
+           AND NOT EXISTS (
+             SELECT 1 FROM routes newer
+             WHERE newer.payment_intent_id = r.payment_intent_id
+               AND newer.parent_route_id IS NULL
+               AND newer.created_at > r.created_at
+           )
+         FOR UPDATE OF r SKIP LOCKED
+       )
+       RETURNING id, payment_intent_id`,
+      [ROUTE_STALE_AFTER_SECONDS]
+    );
+
+    for (const row of result.rows) {
+      logger.warn('Resuming interrupted route execution', {
+        routeId: row.id,
+        paymentIntentId: row.payment_intent_id,
+      });
+
+      this.processPayment(row.payment_intent_id).catch((error) => {
+        logger.error('Resumed payment flow failed', {
+          paymentIntentId: row.payment_intent_id,
+          error: (error as Error).message,
+        });
+      });
+    }
+
+    return result.rows.length;
+  }
+
+  /**
+   * Whether execution gave up on the route: a step failed for good or its
+   * retries ran out
+   */
+  private async hasRouteFailed(routeId: string): Promise<boolean> {
+    try {
+      const result = await db.query('SELECT status FROM routes WHERE id = $1', [routeId]);
+      return result.rows[0]?.status === 'failed';
+    } catch (error) {
+      logger.warn('Failed to load route status', { routeId, error: (error as Error).message });
+      return false;
+    }
+  }
+
+  private async refreshHeartbeat(routeId: string): Promise<void> {
+    await db.query('UPDATE routes SET execution_heartbeat_at = NOW() WHERE id = $1', [routeId]);
+  }
+
+  /**
+   * Latest top-level route for an intent, with split legs attached
+   */
+  private async loadRoute(paymentIntentId: string): Promise<Route> {
+    const routeResult = await db.query(
+      `SELECT * FROM routes
+       WHERE payment_intent_id = $1 AND parent_route_id IS NULL
+       ORDER BY created_at DESC LIMIT 1`,
+      [paymentIntentId]
+    );
+
+    if (routeResult.rows.length === 0) {
+      throw new Error('No route found for payment intent');
+    }
+
+    const toRoute = (row: any): Route => ({
+      ...row,
+      routeType: row.route_type,
+      steps: row.steps, // JSONB, already parsed by pg
+      expectedOutput: row.expected_output ?? undefined,
+      minimumReceived: row.minimum_received ?? undefined,
+      executionTxHash: row.execution_tx_hash ?? undefined,
+      createdAt: new Date(row.created_at),
+    });
+
+    const route = toRoute(routeResult.rows[0]);
+
+    if (route.routeType === 'split') {
+      const legs = await db.query(
+        'SELECT * FROM routes WHERE parent_route_id = $1 ORDER BY split_weight DESC',
+        [route.id]
+      );
+      route.splits = legs.rows.map((row) => ({
+        weight: parseFloat(row.split_weight),
+        route: toRoute(row),
+      }));
+    }
+
+    return route;
+  }
+}
@@ -3,9 +3,11 @@ import { logger } from '@shared/utils/logger';
 import { PaymentIntent, Chain } from '@shared/types';
 import { getHDWalletManager } from '@shared/utils/addressGeneration';
 import { v4 as uuidv4 } from 'uuid';
+import { DepositAddress, DepositAddressService } from './DepositAddressService';
 
 export class PaymentIntentService {
   private hdWalletManager = getHDWalletManager();
+  private depositAddressService = new DepositAddressService();
 
   async createIntent(data: {
     agentId: string;
@@ -32,36 +34,67 @@ export class PaymentIntentService {
     const intentId = uuidv4();
     const expiresAt = new Date(Date.now() + data.expiresIn * 1000);
 
-    // Get the proper payment address for this chain from the agent's addresses
-    const paymentAddress = await this.getPaymentAddressForChain(
-      agent.id,
-      agent.agent_index,
-      agent.stacks_address,
-      data.sourceChain as Chain
-    );
+    const client = await db.connect();
+    let deposit: DepositAddress | null = null;
+    let row;
+
+    try {
+      await client.query('BEGIN');
+
+      // A fresh address per intent; Stacks and legacy agents share the agent's address
+      deposit = await this.depositAddressService.allocate(client, agent, data.sourceChain as Chain);
+      const paymentAddress =
+        deposit?.address ??
+        (await this.getPaymentAddressForChain(
+          agent.id,
+          agent.agent_index,
+          agent.stacks_address,
+          data.sourceChain as Chain
+        ));
+
+      const result = await client.query(
+        `INSERT INTO payment_intents (
+          agent_id, intent_id, source_chain, source_token, source_token_address,
+          amount, amount_usd, destination_token, payment_address, expires_at
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10) RETURNING *`,
+        [
+          agent.id,
+          intentId,
+          data.sourceChain,
+          data.sourceToken,
+          data.sourceTokenAddress || null,
+          data.amount,
+          data.amountUsd,
+          'USDh',
+          paymentAddress,
+          expiresAt,
+        ]
+      );
+      row = result.rows[0];
+
+      if (deposit) {
+        await this.depositAddressService.record(client, row.id, agent.id, deposit);
+      }
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
 
-    const result = await db.query(
-      `INSERT INTO payment_intents (
-        agent_id, intent_id, source_chain, source_token, source_token_address,
-        amount, amount_usd, destination_token, payment_address, expires_at
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10) RETURNING *`,
-      [
-        agent.id,
-        intentId,
-        data.sourceChain,
-        data.sourceToken,
-        data.sourceTokenAddress || null,
-        data.amount,
-        data.amountUsd,
-        'USDh',
-        paymentAddress,
-        expiresAt,
-      ]
-    );
+    if (deposit) {
+      await this.depositAddressService.announce(deposit);
+    }
 
-    logger.info('Payment intent created', { intentId, agentId: data.agentId, paymentAddress });
+    logger.info('Payment intent created', {
+      intentId,
+      agentId: data.agentId,
+      paymentAddress: row.payment_address,
+    });
 
-    return this.mapToPaymentIntent(result.rows[0]);
+    return this.mapToPaymentIntent(row);
   }
 
   async getIntent(intentId: string): Promise<PaymentIntent | null> {
@@ -87,7 +120,7 @@ export class PaymentIntentService {
   }
 
   /**
-   * Get or derive payment address for a specific chain
+   * Get or derive the agent-level payment address for a chain
    */
   private async getPaymentAddressForChain(
     agentDbId: number,
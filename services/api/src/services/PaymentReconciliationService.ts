@@ -0,0 +1,278 @@
+/**
+ * Payment Reconciliation Service
+ * Totals every confirmed transfer to an intent and decides whether it is
+ * underpaid (open for top-ups), paid, or overpaid (excess credited or
+ * refunded under the agent's policy)
+ */
+
+import { db, Queryable } from '../db';
+import { logger } from '@shared/utils/logger';
+import { OverpaymentPolicy } from '@shared/types';
+import { getWebhookDeliveryService } from './WebhookDeliveryService';
+
+const DEFAULT_TOLERANCE_BPS = parseInt(process.env.PAYMENT_TOLERANCE_BPS || '50', 10); // 0.5%
+
+export type PaymentOutcome = 'underpaid' | 'paid' | 'overpaid';
+
+/**
+ * Whether a received amount settles an expected one, within a tolerance in
+ * basis points of the expected amount either side
+ */
+export function classifyPayment(expected: number, received: number, toleranceBps: number): PaymentOutcome {
+  const tolerance = (expected * toleranceBps) / 10000;
+
+  if (received < expected - tolerance) return 'underpaid';
+  if (received > expected + tolerance) return 'overpaid';
+  return 'paid';
+}
+
+export interface ReconciliationResult {
+  outcome: PaymentOutcome;
+  amountExpected: number;
+  amountReceived: number;
+  refundId?: string;
+}
+
+// Intents still accepting transfers; seen ones have an unconfirmed transfer
+export const OPEN_INTENT_STATUSES = ['pending', 'seen', 'underpaid'];
+
+// Intents whose payment is seen or counted but not yet routed, so a reorg can still undo it
+const REVERTIBLE_INTENT_STATUSES = ['seen', 'underpaid', 'overpaid', 'detected'];
+
+export interface ReorgRevertResult {
+  previousStatus: string;
+  status: string;
+  amountReceived: number;
+  cancelledRefunds: number;
+}
+
+export class PaymentReconciliationService {
+  /**
+   * Recompute the received total for an intent and move it to the matching
+   * state. Returns null if the intent has already moved past payment.
+   */
+  async reconcile(paymentIntentId: string): Promise<ReconciliationResult | null> {
+    const client = await db.getClient();
+    let result: ReconciliationResult;
+
+    try {
+      await client.query('BEGIN');
+
+      // Row lock serializes concurrent transfers to the same intent
+      const intentResult = await client.query(
+        `SELECT pi.*, a.payment_tolerance_bps, a.overpayment_policy
+         FROM payment_intents pi
+         JOIN agents a ON pi.agent_id = a.id
+         WHERE pi.id = $1
+         FOR UPDATE OF pi`,
+        [paymentIntentId]
+      );
+
+      const intent = intentResult.rows[0];
+      if (!intent || !OPEN_INTENT_STATUSES.includes(intent.status)) {
+        await client.query('COMMIT');
+        return null;
+      }
+
+      const totals = await client.query(
+        `SELECT COALESCE(SUM(amount), 0) AS received
+         FROM payment_events
+         WHERE payment_intent_id = $1 AND confirmed = true`,
+        [paymentIntentId]
+      );
+
+      const amountExpected = parseFloat(intent.amount);
+      const amountReceived = parseFloat(totals.rows[0].received);
+      const toleranceBps = intent.payment_tolerance_bps ?? DEFAULT_TOLERANCE_BPS;
+      const outcome = classifyPayment(amountExpected, amountReceived, toleranceBps);
+
+      const status = outcome === 'paid' ? 'detected' : outcome;
+      await client.query(
+        'UPDATE payment_intents SET amount_received = $1, status = $2 WHERE id = $3',
+        [totals.rows[0].received, status, paymentIntentId]
+      );
+
+      result = { outcome, amountExpected, amountReceived };
+
+      const policy: OverpaymentPolicy = intent.overpayment_policy || 'credit';
+      if (outcome === 'overpaid' && policy === 'refund') {
+        result.refundId = await this.createRefund(
+          client,
+          intent,
+          amountReceived - amountExpected,
+          'overpayment'
+        );
+      }
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    logger.info('Payment reconciled', { paymentIntentId, ...result });
+    return result;
+  }
+
+  /**
+   * Recount an intent after a reorg orphaned some of its transfers. Intents
+   * that have not been routed fall back to pending, seen or underpaid and any
+   * overpayment refund not yet sent is cancelled. Returns null when nothing
+   * changed or the intent is already past payment (logged for manual review).
+   */
+  async revertOrphaned(paymentIntentId: string): Promise<ReorgRevertResult | null> {
+    const client = await db.getClient();
+    let result: ReorgRevertResult;
+
+    try {
+      await client.query('BEGIN');
+
+      const intentResult = await client.query(
+        `SELECT pi.*, a.payment_tolerance_bps
+         FROM payment_intents pi
+         JOIN agents a ON pi.agent_id = a.id
+         WHERE pi.id = $1
+         FOR UPDATE OF pi`,
+        [paymentIntentId]
+      );
+
+      const intent = intentResult.rows[0];
+      if (!intent || intent.status === 'pending') {
+        await client.query('COMMIT');
+        return null;
+      }
+
+      if (!REVERTIBLE_INTENT_STATUSES.includes(intent.status)) {
+        await client.query('COMMIT');
+        logger.error('Reorg orphaned a payment that was already routed; manual review required', {
+          paymentIntentId,
+          status: intent.status,
+        });
+        return null;
+      }
+
+      const totals = await client.query(
+        `SELECT COALESCE(SUM(amount) FILTER (WHERE confirmed = true), 0) AS received,
+                COUNT(*) FILTER (WHERE status = 'seen') AS seen
+         FROM payment_events
+         WHERE payment_intent_id = $1`,
+        [paymentIntentId]
+      );
+
+      const amountExpected = parseFloat(intent.amount);
+      const amountReceived = parseFloat(totals.rows[0].received);
+      const toleranceBps = intent.payment_tolerance_bps ?? DEFAULT_TOLERANCE_BPS;
+
+      let status: string;
+      if (amountReceived === 0) {
+        // Unconfirmed transfers outside the orphaned blocks are still on their way
+        status = parseInt(totals.rows[0].seen, 10) > 0 ? 'seen' : 'pending';
+      } else {
+        const outcome = classifyPayment(amountExpected, amountReceived, toleranceBps);
+        status = outcome === 'paid' ? 'detected' : outcome;
+      }
+
+      await client.query(
+        'UPDATE payment_intents SET amount_received = $1, status = $2 WHERE id = $3',
+        [totals.rows[0].received, status, paymentIntentId]
+      );
+
+      // The excess may no longer exist, so unsent refunds are recomputed on the next reconcile
+      const refunds = await client.query(
+        `UPDATE payment_refunds SET status = 'cancelled'
+         WHERE payment_intent_id = $1 AND reason = 'overpayment' AND status = 'pending'`,
+        [paymentIntentId]
+      );
+
+      result = {
+        previousStatus: intent.status,
+        status,
+        amountReceived,
+        cancelledRefunds: refunds.rowCount ?? 0,
+      };
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    logger.warn('Payment reverted after reorg', { paymentIntentId, ...result });
+    return result;
+  }
+
+  /**
+   * Record a refund of part of an intent's payment to `payerAddress`, by
+   * default its most recent payer
+   */
+  async createRefund(
+    client: Queryable,
+    intent: { id: string; source_chain: string; source_token: string },
+    amount: number,
+    reason: 'overpayment' | 'expired_underpayment' | 'late_payment',
+    payerAddress?: string
+  ): Promise<string | undefined> {
+    const payer = payerAddress
+      ? { rows: [{ from_address: payerAddress }] }
+      : await client.query(
+          `SELECT from_address FROM payment_events
+           WHERE payment_intent_id = $1 AND confirmed = true
+           ORDER BY detected_at DESC LIMIT 1`,
+          [intent.id]
+        );
+
+    if (payer.rows.length === 0) {
+      logger.warn('Refund skipped: no confirmed payer for intent', { paymentIntentId: intent.id, reason });
+      return undefined;
+    }
+
+    const refund = await client.query(
+      `INSERT INTO payment_refunds (payment_intent_id, chain, token, to_address, amount, reason)
+       VALUES ($1, $2, $3, $4, $5, $6) RETURNING id`,
+      [intent.id, intent.source_chain, intent.source_token, payer.rows[0].from_address, amount, reason]
+    );
+
+    logger.info('Refund recorded', {
+      refundId: refund.rows[0].id,
+      paymentIntentId: intent.id,
+      amount,
+      reason,
+    });
+
+    return refund.rows[0].id;
+  }
+
+  /**
+   * Emit the webhook that matches a reconciliation outcome
+   */
+  async notify(paymentIntentId: string, result: ReconciliationResult, extra: Record<string, unknown> = {}) {
+    const webhookService = getWebhookDeliveryService();
+    const amounts = {
+      amountReceived: result.amountReceived.toString(),
+      ...extra,
+    };
+
+    switch (result.outcome) {
+      case 'underpaid':
+        await webhookService.emitPaymentStatus(paymentIntentId, 'underpaid', {
+          ...amounts,
+          amountRemaining: (result.amountExpected - result.amountReceived).toString(),
+        });
+        break;
+      case 'overpaid':
+        await webhookService.emitPaymentStatus(paymentIntentId, 'overpaid', {
+          ...amounts,
+          amountExcess: (result.amountReceived - result.amountExpected).toString(),
+          refundId: result.refundId,
+        });
+        break;
+      case 'paid':
+        await webhookService.emitPaymentStatus(paymentIntentId, 'detected', amounts);
+        break;
+    }
+  }
+}
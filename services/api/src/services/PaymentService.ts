@@ -3,12 +3,24 @@ import { logger } from '@shared/utils/logger';
 import { v4 as uuidv4 } from 'uuid';
 import { AppError } from '../middleware/errorHandler';
 import { AgentService } from './AgentService';
+import { QuoteService } from './QuoteService';
+import { getWebhookDeliveryService } from './WebhookDeliveryService';
+import { PaymentReconciliationService } from './PaymentReconciliationService';
+import { DepositAddress, DepositAddressService } from './DepositAddressService';
+import { Chain } from '@shared/types';
+import { PoolClient } from 'pg';
 
 export class PaymentService {
   private agentService: AgentService;
+  private quoteService: QuoteService;
+  private reconciliationService: PaymentReconciliationService;
+  private depositAddressService: DepositAddressService;
 
   constructor() {
     this.agentService = new AgentService();
+    this.quoteService = new QuoteService();
+    this.reconciliationService = new PaymentReconciliationService();
+    this.depositAddressService = new DepositAddressService();
   }
 
   async createIntent(data: {
@@ -16,12 +28,14 @@ export class PaymentService {
     sourceChain: string;
     sourceToken: string;
     amount: string;
-    amountUSD: number;
+    amountUSD?: number;
+    quoteId?: string;
   }) {
     // Get agent
-    const agentResult = await db.query('SELECT id, stacks_address FROM agents WHERE agent_id = $1', [
-      data.agentId,
-    ]);
+    const agentResult = await db.query(
+      'SELECT id, stacks_address, agent_index FROM agents WHERE agent_id = $1',
+      [data.agentId]
+    );
 
     if (agentResult.rows.length === 0) {
       const err: AppError = new Error('Agent not found');
@@ -29,42 +43,126 @@ export class PaymentService {
       throw err;
     }
 
-    const agentId = agentResult.rows[0].id;
-    const stacksAddress = agentResult.rows[0].stacks_address;
+    const agent = agentResult.rows[0];
+    const agentId = agent.id;
     const intentId = uuidv4();
     
-    // Get payment address for the source chain
+    // The agent-level address doubles as a check that the chain is enabled
     const addresses = await this.agentService.getPaymentAddresses(data.agentId);
-    const paymentAddress = addresses[data.sourceChain];
     
-    if (!paymentAddress) {
+    if (!addresses[data.sourceChain]) {
       throw new Error(`No payment address found for chain: ${data.sourceChain}`);
     }
     
     const expiresAt = new Date(Date.now() + 24 * 60 * 60 * 1000); // 24 hours
 
-    const result = await db.query(
+    const client = await db.getClient();
+    let intent;
+    let deposit: DepositAddress | null = null;
+
+    try {
+      await client.query('BEGIN');
+
+      // Each intent gets its own address so transfers map to exactly one intent
+      deposit = await this.depositAddressService.allocate(client, agent, data.sourceChain as Chain);
+      const paymentAddress = deposit?.address ?? addresses[data.sourceChain];
+
+      intent = data.quoteId
+        ? await this.insertQuotedIntent(client, data, data.quoteId, { agentId, intentId, paymentAddress, expiresAt })
+        : await this.insertIntent(client, data, { agentId, intentId, paymentAddress, expiresAt });
+
+      if (deposit) {
+        await this.depositAddressService.record(client, intent.id, agentId, deposit);
+      }
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    if (deposit) {
+      await this.depositAddressService.announce(deposit);
+    }
+
+    logger.info(`Payment intent created: ${intentId}`, { quoteId: data.quoteId });
+
+    return intent;
+  }
+
+  private async insertIntent(
+    client: PoolClient,
+    data: { sourceChain: string; sourceToken: string; amount: string; amountUSD?: number },
+    intent: { agentId: string; intentId: string; paymentAddress: string; expiresAt: Date }
+  ) {
+    const result = await client.query(
       `INSERT INTO payment_intents (
         agent_id, intent_id, source_chain, source_token, amount, amount_usd,
         payment_address, expires_at
       ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8) RETURNING *`,
       [
-        agentId,
-        intentId,
+        intent.agentId,
+        intent.intentId,
         data.sourceChain,
         data.sourceToken,
         data.amount,
         data.amountUSD,
-        paymentAddress,
-        expiresAt,
+        intent.paymentAddress,
+        intent.expiresAt,
       ]
     );
 
-    logger.info(`Payment intent created: ${intentId}`);
-
     return result.rows[0];
   }
 
+  /**
+   * Insert an intent bound to a firm quote. The quote is claimed in the same
+   * transaction so it can back only one intent, and the intent expires when
+   * the quoted rate stops being honored.
+   */
+  private async insertQuotedIntent(
+    client: PoolClient,
+    data: { sourceChain: string; sourceToken: string; amount: string; amountUSD?: number },
+    quoteId: string,
+    intent: { agentId: string; intentId: string; paymentAddress: string; expiresAt: Date }
+  ) {
+    const quote = await this.quoteService.lockQuoteForBinding(client, quoteId, {
+      agentDbId: intent.agentId,
+      sourceChain: data.sourceChain,
+      sourceToken: data.sourceToken,
+      amount: data.amount,
+    });
+
+    const result = await client.query(
+      `INSERT INTO payment_intents (
+        agent_id, intent_id, source_chain, source_token, amount, amount_usd,
+        payment_address, expires_at, quote_id
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9) RETURNING *`,
+      [
+        intent.agentId,
+        intent.intentId,
+        data.sourceChain,
+        data.sourceToken,
+        data.amount,
+        data.amountUSD ?? quote.amount_usd,
+        intent.paymentAddress,
+        intent.expiresAt,
+        quoteId,
+      ]
+    );
+
+    const lockExpiresAt = await this.quoteService.bindQuote(client, quote, result.rows[0].id);
+
+    const updated = await client.query(
+      'UPDATE payment_intents SET expires_at = LEAST(expires_at, $1) WHERE id = $2 RETURNING *',
+      [lockExpiresAt, result.rows[0].id]
+    );
+
+    return updated.rows[0];
+  }
+
   async getIntent(intentId: string) {
     const result = await db.query('SELECT * FROM payment_intents WHERE intent_id = $1', [
       intentId,
@@ -74,12 +172,13 @@ export class PaymentService {
       return null;
     }
 
-    return result.rows[0];
+    const intent = result.rows[0];
+    return { ...intent, ...(await this.getTransferProgress(intent.id)) };
   }
 
   async getStatus(intentId: string) {
     const result = await db.query(
-      'SELECT status, completed_at FROM payment_intents WHERE intent_id = $1',
+      'SELECT id, status, completed_at FROM payment_intents WHERE intent_id = $1',
       [intentId]
     );
 
@@ -89,7 +188,65 @@ export class PaymentService {
       throw err;
     }
 
-    return result.rows[0];
+    const { id, ...status } = result.rows[0];
+    return { ...status, ...(await this.getTransferProgress(id)) };
   }
-}
 
+  /**
+   * Tx hash and confirmations of the intent's latest transfer, preferring
+   * one still being confirmed, for payers watching the payment page
+   */
+  private async getTransferProgress(paymentIntentId: string) {
+    const result = await db.query(
+      `SELECT tx_hash, confirmations, confirmations_required FROM payment_events
+       WHERE payment_intent_id = $1 AND status <> 'orphaned'
+       ORDER BY (status = 'seen') DESC, detected_at DESC
+       LIMIT 1`,
+      [paymentIntentId]
+    );
+
+    if (result.rows.length === 0) {
+      return {};
+    }
+
+    return {
+      txHash: result.rows[0].tx_hash as string,
+      confirmations: result.rows[0].confirmations as number,
+      confirmationsRequired: (result.rows[0].confirmations_required ?? undefined) as number | undefined,
+    };
+  }
+
+  /**
+   * Mark unpaid intents past their expiry as expired and notify their agents
+   */
+  async expireStaleIntents(): Promise<number> {
+    const result = await db.query(
+      `UPDATE payment_intents SET status = 'expired'
+       WHERE status IN ('pending', 'seen', 'underpaid') AND expires_at < NOW()
+       RETURNING id, intent_id, source_chain, source_token, amount_received`
+    );
+
+    const webhookService = getWebhookDeliveryService();
+    for (const row of result.rows) {
+      // Partial payments that were never topped up go back to the payer
+      const amountReceived = parseFloat(row.amount_received) || 0;
+      const refundId =
+        amountReceived > 0
+          ? await this.reconciliationService.createRefund(db, row, amountReceived, 'expired_underpayment')
+          : undefined;
+
+      await webhookService.emitPaymentStatus(
+        row.id,
+        'expired',
+        amountReceived > 0 ? { amountReceived: row.amount_received, refundId } : undefined
+      );
+      await this.depositAddressService.release(row.id);
+    }
+
+    if (result.rows.length > 0) {
+      logger.info(`Expired ${result.rows.length} payment intents`);
+    }
+
+    return result.rows.length;
+  }
+}
@@ -1,10 +1,17 @@
 import { logger } from '@shared/utils/logger';
 import { AppError } from '../middleware/errorHandler';
 import { RoutingEngine } from '@services/router';
-import { PaymentIntent, Chain, Token } from '@shared/types';
+import { PaymentIntent, Route, Chain, Token } from '@shared/types';
 import { getPriceOracle } from '@shared/utils/priceOracle';
+import { isSameAmount } from '@shared/utils/tokenAmounts';
 import { db } from '../db';
 import { v4 as uuidv4 } from 'uuid';
+import { PoolClient } from 'pg';
+
+// How long a quote can be attached to a new intent
+const QUOTE_TTL_SECONDS = parseInt(process.env.QUOTE_TTL_SECONDS || '30', 10);
+// How long the rate holds once bound; the intent expires with it
+const QUOTE_LOCK_SECONDS = parseInt(process.env.QUOTE_LOCK_SECONDS || '900', 10);
 
 export class QuoteService {
   private routingEngine: RoutingEngine;
@@ -29,6 +36,18 @@ export class QuoteService {
       data.sourceChain as Chain
     );
 
+    // Quotes may be restricted to one agent
+    let agentDbId: string | null = null;
+    if (data.agentId) {
+      const agentResult = await db.query('SELECT id FROM agents WHERE agent_id = $1', [data.agentId]);
+      if (agentResult.rows.length === 0) {
+        const err: AppError = new Error('Agent not found');
+        err.statusCode = 404;
+        throw err;
+      }
+      agentDbId = agentResult.rows[0].id;
+    }
+
     // Create a temporary payment intent for routing
     const intent: PaymentIntent = {
       id: uuidv4(),
@@ -45,41 +64,69 @@ export class QuoteService {
     };
 
     try {
-      // Get routes from routing engine
-      const bestRoute = await this.routingEngine.findOptimalRoute(intent);
-
-      // Store quote in database
-      const quoteId = uuidv4();
-      await db.query(
-        `INSERT INTO routes (
-          id, payment_intent_id, route_type, steps, estimated_gas_cost_usd,
-          estimated_slippage, estimated_time_seconds, total_cost_usd, status
-        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
+      // Get ranked alternatives from routing engine
+      const routes = await this.routingEngine.findRoutes(intent);
+      const bestRoute = routes[0];
+
+      if (!bestRoute || !bestRoute.expectedOutput || !bestRoute.minimumReceived) {
+        const err: AppError = new Error('No route found for this token');
+        err.statusCode = 422;
+        throw err;
+      }
+
+      // Store the route unattached; it is bound to an intent along with the quote
+      await this.saveRoute(bestRoute.id, null, bestRoute);
+
+      // Split routes keep each leg as a child row so it can be executed and tracked on its own
+      for (const split of bestRoute.splits || []) {
+        await this.saveRoute(split.route.id, null, split.route, { parentRouteId: bestRoute.id, weight: split.weight });
+      }
+
+      // Lock in the rate: USDh (6 decimals) per whole source token
+      const sourceDecimals = this.getTokenDecimals(data.sourceToken);
+      const expectedOutputUSDh = parseFloat(bestRoute.expectedOutput) / 1e6;
+      const guaranteedMinUSDh = parseFloat(bestRoute.minimumReceived) / 1e6;
+      const quotedRate = expectedOutputUSDh / (parseFloat(data.amount) / Math.pow(10, sourceDecimals));
+      const expiresAt = new Date(Date.now() + QUOTE_TTL_SECONDS * 1000);
+
+      const quoteResult = await db.query(
+        `INSERT INTO quotes (
+          agent_id, route_id, source_chain, source_token, source_decimals, amount, amount_usd,
+          destination_token, quoted_rate, expected_output_usdh, guaranteed_min_usdh, expires_at
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+        RETURNING id, created_at`,
         [
-          quoteId,
-          intent.id,
-          bestRoute.routeType,
-          JSON.stringify(bestRoute.steps),
-          bestRoute.estimatedGasCostUSD,
-          bestRoute.estimatedSlippage,
-          bestRoute.estimatedTimeSeconds,
-          bestRoute.totalCostUSD,
-          'pending',
+          agentDbId,
+          bestRoute.id,
+          data.sourceChain,
+          data.sourceToken,
+          sourceDecimals,
+          data.amount,
+          amountUSD,
+          data.destinationToken || 'USDh',
+          quotedRate,
+          expectedOutputUSDh,
+          guaranteedMinUSDh,
+          expiresAt,
         ]
       );
 
       return {
-        id: quoteId,
+        id: quoteResult.rows[0].id,
         inputAmount: data.amount,
         inputToken: data.sourceToken,
         inputChain: data.sourceChain,
         inputAmountUSD: amountUSD,
         outputToken: data.destinationToken || 'USDh',
+        outputAmount: bestRoute.expectedOutput,
+        minimumReceived: bestRoute.minimumReceived,
         outputAmountUSD: amountUSD - bestRoute.totalCostUSD, // Net after fees
-        routes: [bestRoute],
+        quotedRate,
+        guaranteedMinimumUSDh: guaranteedMinUSDh,
+        routes,
         bestRoute,
-        expiresAt: new Date(Date.now() + 30 * 1000), // 30 seconds
-        createdAt: new Date(),
+        expiresAt,
+        createdAt: quoteResult.rows[0].created_at,
       };
     } catch (error) {
       logger.error('Failed to get quote', error);
@@ -89,6 +136,118 @@ export class QuoteService {
     }
   }
 
+  /**
+   * Lock an open quote row for binding to a new intent.
+   * Must run inside a transaction on the given client. The intent's amount
+   * is in whole tokens and is compared in the quote's base units.
+   */
+  async lockQuoteForBinding(
+    client: PoolClient,
+    quoteId: string,
+    intent: { agentDbId: string; sourceChain: string; sourceToken: string; amount: string }
+  ) {
+    const result = await client.query('SELECT * FROM quotes WHERE id = $1 FOR UPDATE', [quoteId]);
+
+    if (result.rows.length === 0) {
+      const err: AppError = new Error('Quote not found');
+      err.statusCode = 404;
+      err.code = 'QUOTE_NOT_FOUND';
+      throw err;
+    }
+
+    const quote = result.rows[0];
+
+    if (quote.status !== 'open') {
+      const err: AppError = new Error('Quote has already been used for another payment intent');
+      err.statusCode = 409;
+      err.code = 'QUOTE_ALREADY_USED';
+      throw err;
+    }
+
+    if (new Date(quote.expires_at).getTime() <= Date.now()) {
+      const err: AppError = new Error(
+        `Quote expired at ${new Date(quote.expires_at).toISOString()}; request a new quote`
+      );
+      err.statusCode = 410;
+      err.code = 'QUOTE_EXPIRED';
+      throw err;
+    }
+
+    if (quote.agent_id && quote.agent_id !== intent.agentDbId) {
+      const err: AppError = new Error('Quote was issued for a different agent');
+      err.statusCode = 403;
+      err.code = 'QUOTE_AGENT_MISMATCH';
+      throw err;
+    }
+
+    if (
+      quote.source_chain !== intent.sourceChain ||
+      quote.source_token !== intent.sourceToken ||
+      !isSameAmount(intent.amount, quote.amount, quote.source_decimals)
+    ) {
+      const err: AppError = new Error('Quote does not match the payment intent chain, token or amount');
+      err.statusCode = 422;
+      err.code = 'QUOTE_MISMATCH';
+      throw err;
+    }
+
+    return quote;
+  }
+
+  /**
+   * Bind a locked quote and its route to an intent. Returns when the
+   * quoted rate stops being honored.
+   */
+  async bindQuote(client: PoolClient, quote: { id: string; route_id: string }, paymentIntentDbId: string): Promise<Date> {
+    const lockExpiresAt = new Date(Date.now() + QUOTE_LOCK_SECONDS * 1000);
+
+    await client.query(
+      `UPDATE quotes
+       SET status = 'bound', payment_intent_id = $1, bound_at = NOW(), lock_expires_at = $2
+       WHERE id = $3`,
+      [paymentIntentDbId, lockExpiresAt, quote.id]
+    );
+
+    await client.query(
+      'UPDATE routes SET payment_intent_id = $1 WHERE id = $2 OR parent_route_id = $2',
+      [paymentIntentDbId, quote.route_id]
+    );
+
+    logger.info('Quote bound to payment intent', { quoteId: quote.id, paymentIntentDbId });
+
+    return lockExpiresAt;
+  }
+
+  private async saveRoute(
+    id: string,
+    paymentIntentId: string | null,
+    route: Route,
+    split?: { parentRouteId: string; weight: number }
+  ): Promise<void> {
+    await db.query(
+      `INSERT INTO routes (
+        id, payment_intent_id, parent_route_id, split_weight, route_type, steps,
+        estimated_gas_cost_usd, estimated_slippage, estimated_time_seconds, total_cost_usd,
+        expected_output, minimum_received, status
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)`,
+      [
+        id,
+        paymentIntentId,
+        split?.parentRouteId ?? null,
+        split?.weight ?? null,
+        route.routeType,
+        JSON.stringify(route.steps),
+        route.estimatedGasCostUSD,
+        route.estimatedSlippage,
+        route.estimatedTimeSeconds,
+        route.totalCostUSD,
+        route.expectedOutput ?? null,
+        route.minimumReceived ?? null,
+        'pending',
+      ]
+    );
+  }
+
   /**
    * Convert token amount to USD using price oracle
    */
@@ -144,18 +303,41 @@ export class QuoteService {
   }
 
   async getQuoteDetails(quoteId: string) {
-    const result = await db.query('SELECT * FROM routes WHERE id = $1', [quoteId]);
+    const result = await db.query('SELECT * FROM quotes WHERE id = $1', [quoteId]);
 
     if (result.rows.length === 0) {
       return null;
     }
 
-    const route = result.rows[0];
+    const quote = result.rows[0];
+    const routeResult = await db.query('SELECT * FROM routes WHERE id = $1', [quote.route_id]);
+    const legs = await db.query(
+      'SELECT * FROM routes WHERE parent_route_id = $1 ORDER BY split_weight DESC',
+      [quote.route_id]
+    );
+
+    const expired = quote.status === 'open' && new Date(quote.expires_at).getTime() <= Date.now();
+
     return {
-      id: route.id,
+      id: quote.id,
+      status: expired ? 'expired' : quote.status,
+      sourceChain: quote.source_chain,
+      sourceToken: quote.source_token,
+      amount: quote.amount,
+      amountUSD: parseFloat(quote.amount_usd),
+      quotedRate: parseFloat(quote.quoted_rate),
+      expectedOutputUSDh: parseFloat(quote.expected_output_usdh),
+      guaranteedMinimumUSDh: parseFloat(quote.guaranteed_min_usdh),
+      paymentIntentId: quote.payment_intent_id,
+      expiresAt: quote.expires_at,
+      lockExpiresAt: quote.lock_expires_at,
+      createdAt: quote.created_at,
       route: {
-        ...route,
-        steps: JSON.parse(route.steps),
+        ...routeResult.rows[0],
+        splits: legs.rows.map((leg) => ({
+          weight: parseFloat(leg.split_weight),
+          route: leg,
+        })),
       },
     };
   }
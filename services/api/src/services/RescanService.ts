@@ -0,0 +1,126 @@
+/**
+ * Rescan Service
+ * Queues admin-requested historical rescans for the chain listeners, which
+ * run them through their deduplicated event path and record progress and
+ * findings on the job row
+ */
+
+import { db } from '../db';
+import { logger } from '@shared/utils/logger';
+import { Chain, RescanJob, RescanJobStatus } from '@shared/types';
+import { publishRescanJob } from '@shared/utils/redis';
+import { AppError } from '../middleware/errorHandler';
+
+export class RescanService {
+  /**
+   * Queue a rescan of a block range, or of one address's activity
+   */
+  async createJob(params: {
+    chain: Chain;
+    address?: string;
+    fromBlock?: number;
+    toBlock?: number;
+    requestedBy?: string;
+  }): Promise<RescanJob> {
+    const result = await db.query(
+      `INSERT INTO rescan_jobs (chain, address, from_block, to_block, requested_by)
+       VALUES ($1, $2, $3, $4, $5)
+       RETURNING *`,
+      [
+        params.chain,
+        params.address || null,
+        params.fromBlock ?? null,
+        params.toBlock ?? null,
+        params.requestedBy || null,
+      ]
+    );
+
+    const job = this.mapToJob(result.rows[0]);
+
+    logger.info('Rescan job queued', {
+      jobId: job.id,
+      chain: job.chain,
+      address: job.address,
+      fromBlock: job.fromBlock,
+      toBlock: job.toBlock,
+      requestedBy: job.requestedBy,
+    });
+
+    await publishRescanJob({ jobId: job.id, chain: job.chain });
+
+    return job;
+  }
+
+  async getJob(jobId: string): Promise<RescanJob> {
+    const result = await db.query('SELECT * FROM rescan_jobs WHERE id = $1', [jobId]);
+
+    if (result.rows.length === 0) {
+      const err: AppError = new Error('Rescan job not found');
+      err.statusCode = 404;
+      throw err;
+    }
+
+    return this.mapToJob(result.rows[0]);
+  }
+
+  /**
+   * List jobs newest first, without their findings
+   */
+  async listJobs(
+    options: {
+      chain?: Chain;
+      status?: RescanJobStatus;
+      limit?: number;
+      offset?: number;
+    } = {}
+  ): Promise<RescanJob[]> {
+    const { chain, status, limit = 50, offset = 0 } = options;
+
+    let query = `SELECT id, chain, address, from_block, to_block, status, current_block,
+                        events_found, events_new, error_message, requested_by,
+                        created_at, started_at, completed_at
+                 FROM rescan_jobs WHERE 1 = 1`;
+    const params: any[] = [];
+    let paramIndex = 1;
+
+    if (chain) {
+      query += ` AND chain = $${paramIndex}`;
+      params.push(chain);
+      paramIndex++;
+    }
+
+    if (status) {
+      query += ` AND status = $${paramIndex}`;
+      params.push(status);
+      paramIndex++;
+    }
+
+    query += ` ORDER BY created_at DESC LIMIT $${paramIndex} OFFSET $${paramIndex + 1}`;
+    params.push(limit, offset);
+
+    const result = await db.query(query, params);
+    return result.rows.map((row) => this.mapToJob(row));
+  }
+
+  private mapToJob(row: any): RescanJob {
+    const toNumber = (value: unknown) => (value === null || value === undefined ? undefined : Number(value));
+
+    return {
+      id: row.id,
+      chain: row.chain,
+      address: row.address || undefined,
+      fromBlock: toNumber(row.from_block),
+      toBlock: toNumber(row.to_block),
+      status: row.status,
+      currentBlock: toNumber(row.current_block),
+      eventsFound: Number(row.events_found || 0),
+      eventsNew: Number(row.events_new || 0),
+      findings: typeof row.findings === 'string' ? JSON.parse(row.findings) : row.findings || [],
+      error: row.error_message || undefined,
+      requestedBy: row.requested_by || undefined,
+      createdAt: row.created_at,
+      startedAt: row.started_at || undefined,
+      completedAt: row.completed_at || undefined,
+    };
+  }
+}
@@ -6,6 +6,8 @@
 import { db } from '../db';
 import { logger } from '@shared/utils/logger';
 import { AppError } from '../middleware/errorHandler';
+import { getWebhookDeliveryService } from './WebhookDeliveryService';
+import { DepositAddressService } from './DepositAddressService';
 
 export interface PendingPayment {
   intentId: string;
@@ -15,6 +17,8 @@ export interface PendingPayment {
   sourceToken: string;
   amount: string;
   amountUSD: number;
+  amountReceived: string;
+  status: string;
   paymentAddress: string;
   txHash?: string;
   blockNumber?: number;
@@ -32,7 +36,8 @@ export interface SettlementResult {
 
 export class SettlementService {
   /**
-   * Get pending settlements (payments with status 'detected')
+   * Get pending settlements (payments with status 'detected' or 'overpaid').
+   * Intents paid across several transfers report the most recent one.
    */
   async getPendingSettlements(): Promise<PendingPayment[]> {
     const result = await db.query(
@@ -45,6 +50,8 @@ export class SettlementService {
         pi.source_token,
         pi.amount,
         pi.amount_usd,
+        pi.amount_received,
+        pi.status,
         pi.payment_address,
         pe.tx_hash,
         pe.block_number,
@@ -53,8 +60,14 @@ export class SettlementService {
         pi.expires_at
       FROM payment_intents pi
       JOIN agents a ON pi.agent_id = a.id
-      LEFT JOIN payment_events pe ON pi.id = pe.payment_intent_id
-      WHERE pi.status = 'detected'
+      LEFT JOIN LATERAL (
+        SELECT tx_hash, block_number, detected_at
+        FROM payment_events
+        WHERE payment_intent_id = pi.id AND confirmed = true
+        ORDER BY detected_at DESC
+        LIMIT 1
+      ) pe ON true
+      WHERE pi.status IN ('detected', 'overpaid')
       ORDER BY pe.detected_at ASC, pi.created_at ASC`
     );
 
@@ -66,6 +79,8 @@ export class SettlementService {
       sourceToken: row.source_token,
       amount: row.amount.toString(),
       amountUSD: parseFloat(row.amount_usd),
+      amountReceived: row.amount_received.toString(),
+      status: row.status,
       paymentAddress: row.payment_address,
       txHash: row.tx_hash,
       blockNumber: row.block_number ? parseInt(row.block_number) : undefined,
@@ -119,8 +134,8 @@ export class SettlementService {
 
     const intent = intentResult.rows[0];
 
-    if (intent.status !== 'detected') {
-      throw new Error(`Payment intent is not in 'detected' status: ${intent.status}`);
+    if (!['detected', 'overpaid'].includes(intent.status)) {
+      throw new Error(`Payment intent is not ready to settle: ${intent.status}`);
     }
 
     // TODO: Call payment-router-v2.complete-settlement contract
@@ -171,6 +186,12 @@ export class SettlementService {
       ]
     );
 
+    await getWebhookDeliveryService().emitPaymentStatus(intent.id, 'settled', {
+      txHash: mockTxHash,
+      netAmount: intent.amount_usd?.toString(),
+    });
+    await new DepositAddressService().release(intent.id);
+
     logger.info(`Settlement completed for intent ${intentId}`, { txHash: mockTxHash });
 
     return mockTxHash;
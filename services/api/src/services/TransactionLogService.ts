@@ -0,0 +1,109 @@
+/**
+ * Transaction Log Service
+ * Lets operators inspect execution transactions, with every replacement sent
+ * at the same nonce, and request cancellation of a stuck one. The execution
+ * service sends the cancellation itself, since it holds the gas wallets.
+ */
+
+import { db } from '../db';
+import { logger } from '@shared/utils/logger';
+import { TransactionLog } from '@shared/types';
+import { AppError } from '../middleware/errorHandler';
+
+// Every attempt at the nonce of the given one: walk back to the first, then forward
+const ATTEMPTS_QUERY = `
+  WITH RECURSIVE earlier AS (
+    SELECT * FROM transaction_logs WHERE id = $1
+    UNION ALL
+    SELECT t.* FROM transaction_logs t JOIN earlier e ON t.id = e.replaces_tx_id
+  ),
+  attempts AS (
+    SELECT * FROM earlier WHERE replaces_tx_id IS NULL
+    UNION ALL
+    SELECT t.* FROM transaction_logs t JOIN attempts a ON t.replaces_tx_id = a.id
+  )
+  SELECT * FROM attempts ORDER BY created_at`;
+
+export class TransactionLogService {
+  /**
+   * A transaction and all its replacements, oldest first
+   */
+  async getAttempts(txId: string): Promise<TransactionLog[]> {
+    const result = await db.query(ATTEMPTS_QUERY, [txId]);
+
+    if (result.rows.length === 0) {
+      const err: AppError = new Error('Transaction not found');
+      err.statusCode = 404;
+      throw err;
+    }
+
+    return result.rows.map((row) => this.mapToLog(row));
+  }
+
+  /**
+   * Flag the live attempt at the transaction's nonce for cancellation
+   */
+  async requestCancel(txId: string, requestedBy?: string): Promise<TransactionLog> {
+    const attempts = await this.getAttempts(txId);
+    const live = attempts.find((attempt) => attempt.status === 'pending');
+
+    if (!live || live.txType === 'cancel') {
+      const err: AppError = new Error(
+        live ? 'Transaction is already being cancelled' : 'Transaction is no longer pending'
+      );
+      err.statusCode = 409;
+      err.code = 'TRANSACTION_NOT_CANCELLABLE';
+      throw err;
+    }
+
+    const result = await db.query(
+      `UPDATE transaction_logs
+       SET cancel_requested_at = COALESCE(cancel_requested_at, NOW()),
+           cancel_requested_by = COALESCE(cancel_requested_by, $2)
+       WHERE id = $1 AND status = 'pending'
+       RETURNING *`,
+      [live.id, requestedBy || null]
+    );
+
+    // Replaced or mined since it was read
+    if (result.rows.length === 0) {
+      const err: AppError = new Error('Transaction changed while cancelling; retry');
+      err.statusCode = 409;
+      err.code = 'TRANSACTION_NOT_CANCELLABLE';
+      throw err;
+    }
+
+    const cancelled = this.mapToLog(result.rows[0]);
+
+    logger.info('Transaction cancel requested', {
+      txId: cancelled.id,
+      chain: cancelled.chain,
+      txHash: cancelled.txHash,
+      nonce: cancelled.nonce,
+      requestedBy,
+    });
+
+    return cancelled;
+  }
+
+  private mapToLog(row: any): TransactionLog {
+    return {
+      id: row.id,
+      paymentIntentId: row.payment_intent_id || undefined,
+      chain: row.chain,
+      txHash: row.tx_hash,
+      txType: row.tx_type,
+      status: row.status,
+      fromAddress: row.from_address || undefined,
+      nonce: row.nonce === null ? undefined : Number(row.nonce),
+      maxFeePerGas: row.max_fee_per_gas || undefined,
+      maxPriorityFeePerGas: row.max_priority_fee_per_gas || undefined,
+      replacesTxId: row.replaces_tx_id || undefined,
+      cancelRequestedAt: row.cancel_requested_at || undefined,
+      cancelRequestedBy: row.cancel_requested_by || undefined,
+      error: row.error_message || undefined,
+      createdAt: row.created_at,
+      confirmedAt: row.confirmed_at || undefined,
+    };
+  }
+}
@@ -0,0 +1,671 @@
+/**
+ * Webhook Delivery Service
+ * Delivers signed outbound webhooks to merchant endpoints for payment intent
+ * and withdrawal lifecycle events, with exponential backoff and a dead-letter state
+ */
+
+import crypto from 'crypto';
+import { LookupAddress } from 'dns';
+import { lookup } from 'dns/promises';
+import http from 'http';
+import https from 'https';
+import { BlockList, LookupFunction } from 'net';
+import { v4 as uuidv4 } from 'uuid';
+import { db } from '../db';
+import { logger } from '@shared/utils/logger';
+import { AppError } from '../middleware/errorHandler';
+import {
+  PaymentIntentStatus,
+  WebhookDelivery,
+  WebhookDeliveryStatus,
+  WebhookEventType,
+  WithdrawalStatus,
+} from '@shared/types';
+
+// Delivery configuration
+interface WebhookDeliveryConfig {
+  maxAttempts: number;
+  initialDelayMs: number;
+  maxDelayMs: number;
+  backoffMultiplier: number;
+  requestTimeoutMs: number;
+  pollIntervalMs: number;
+  batchSize: number;
+}
+
+const DEFAULT_DELIVERY_CONFIG: WebhookDeliveryConfig = {
+  maxAttempts: 8,
+  initialDelayMs: 30000,        // 30 seconds
+  maxDelayMs: 6 * 60 * 60000,   // 6 hours max
+  backoffMultiplier: 2,         // Double each time
+  requestTimeoutMs: 10000,      // 10 seconds per request
+  pollIntervalMs: 15000,        // Check for due retries every 15 seconds
+  batchSize: 25,
+};
+
+export const WEBHOOK_SIGNATURE_HEADER = 'X-Webhook-Signature';
+
+// Loopback, private, link-local and other non-public ranges webhooks may not reach
+const NON_PUBLIC_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.0.2.0', 24], // Documentation
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['198.51.100.0', 24], // Documentation
+  ['203.0.113.0', 24], // Documentation
+  ['224.0.0.0', 3], // Multicast and reserved, through 255.255.255.255
+] as const) {
+  NON_PUBLIC_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 127], // Unspecified and loopback
+  ['64:ff9b::', 96], // NAT64, which embeds an IPv4 address
+  ['64:ff9b:1::', 48], // Local-use NAT64
+  ['2001::', 32], // Teredo, which embeds an IPv4 address
+  ['2001:db8::', 32], // Documentation
+  ['2002::', 16], // 6to4, which embeds an IPv4 address
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  NON_PUBLIC_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+// IPv4-mapped IPv6 addresses are matched against the IPv4 ranges by BlockList itself
+
+function isPublicAddress(address: string, family: number): boolean {
+  return !NON_PUBLIC_ADDRESSES.check(address, family === 6 ? 'ipv6' : 'ipv4');
+}
+
+interface WebhookTarget {
+  url: URL;
+  address: LookupAddress; // Checked address the request must connect to
+}
+
+/**
+ * Resolve a webhook URL if webhooks may be sent to it: https (http too in
+ * development) to a host whose every address is public. Null otherwise.
+ */
+async function resolveWebhookTarget(url: string): Promise<WebhookTarget | null> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return null;
+  }
+
+  const allowHttp = process.env.NODE_ENV === 'development';
+  if (parsed.protocol !== 'https:' && !(allowHttp && parsed.protocol === 'http:')) {
+    return null;
+  }
+
+  try {
+    const addresses = await lookup(parsed.hostname.replace(/^\[|\]$/g, ''), { all: true, verbatim: true });
+    if (addresses.length === 0 || !addresses.every(({ address, family }) => isPublicAddress(address, family))) {
+      return null;
+    }
+    return { url: parsed, address: addresses[0] };
+  } catch {
+    return null;
+  }
+}
+
+export class WebhookDeliveryService {
+  private config: WebhookDeliveryConfig;
+  private pollTimer: NodeJS.Timeout | null = null;
+  private polling = false;
+
+  constructor(config: Partial<WebhookDeliveryConfig> = {}) {
+    this.config = { ...DEFAULT_DELIVERY_CONFIG, ...config };
+  }
+
+  /**
+   * Generate a new per-agent signing secret
+   */
+  static generateSecret(): string {
+    return `whsec_${crypto.randomBytes(24).toString('hex')}`;
+  }
+
+  /**
+   * Build the signature header value: t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">
+   */
+  static sign(secret: string, timestamp: number, body: string): string {
+    const digest = crypto
+      .createHmac('sha256', secret)
+      .update(`${timestamp}.${body}`)
+      .digest('hex');
+    return `t=${timestamp},v1=${digest}`;
+  }
+
+  /**
+   * Whether webhooks may be sent to a URL: https (http too in development)
+   * to a host whose every address is public, so an endpoint can't be aimed
+   * at internal services
+   */
+  static async isAllowedUrl(url: string): Promise<boolean> {
+    return (await resolveWebhookTarget(url)) !== null;
+  }
+
+  /**
+   * Start the background worker that retries due deliveries
+   */
+  start(): void {
+    if (this.pollTimer) {
+      return;
+    }
+
+    this.pollTimer = setInterval(() => {
+      this.processDueDeliveries().catch((error) => {
+        logger.error('Webhook retry worker failed', { error: (error as Error).message });
+      });
+    }, this.config.pollIntervalMs);
+
+    logger.info('Webhook delivery worker started', { pollIntervalMs: this.config.pollIntervalMs });
+  }
+
+  stop(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+  }
+
+  /**
+   * Notify the owning agent of a payment intent status transition.
+   * Never throws - webhook failures must not break the payment flow.
+   */
+  async emitPaymentStatus(
+    paymentIntentId: string,
+    status: PaymentIntentStatus,
+    extra: Record<string, unknown> = {}
+  ): Promise<void> {
+    if (status === 'pending') {
+      return;
+    }
+
+    await this.emitPaymentEvent(paymentIntentId, `payment.${status}`, extra);
+  }
+
+  /**
+   * Notify the owning agent that a reorg removed transfers already counted
+   * toward a payment intent. The payload carries the intent's new status.
+   */
+  async emitPaymentReorged(paymentIntentId: string, extra: Record<string, unknown> = {}): Promise<void> {
+    await this.emitPaymentEvent(paymentIntentId, 'payment.reorged', extra);
+  }
+
+  private async emitPaymentEvent(
+    paymentIntentId: string,
+    eventType: WebhookEventType,
+    extra: Record<string, unknown>
+  ): Promise<void> {
+    try {
+      const result = await db.query(
+        `SELECT pi.*, a.agent_id as agent_agent_id
+         FROM payment_intents pi
+         JOIN agents a ON pi.agent_id = a.id
+         WHERE pi.id = $1`,
+        [paymentIntentId]
+      );
+
+      if (result.rows.length === 0) {
+        logger.warn('Webhook skipped: payment intent not found', { paymentIntentId, eventType });
+        return;
+      }
+
+      const intent = result.rows[0];
+
+      await this.enqueue(intent.agent_id, eventType, {
+        intentId: intent.intent_id,
+        agentId: intent.agent_agent_id,
+        status: intent.status,
+        sourceChain: intent.source_chain,
+        sourceToken: intent.source_token,
+        amount: intent.amount?.toString(),
+        amountUSD: intent.amount_usd !== null ? parseFloat(intent.amount_usd) : undefined,
+        paymentAddress: intent.payment_address,
+        ...extra,
+      });
+    } catch (error) {
+      logger.error('Failed to emit payment webhook', {
+        paymentIntentId,
+        eventType,
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  /**
+   * Notify the owning agent of a withdrawal status transition.
+   * Never throws - webhook failures must not break withdrawal processing.
+   */
+  async emitWithdrawalStatus(
+    withdrawalId: string,
+    status: WithdrawalStatus,
+    extra: Record<string, unknown> = {}
+  ): Promise<void> {
+    try {
+      const result = await db.query(
+        `SELECT w.*, a.agent_id as agent_agent_id
+         FROM withdrawals w
+         JOIN agents a ON w.agent_id = a.id
+         WHERE w.id = $1`,
+        [withdrawalId]
+      );
+
+      if (result.rows.length === 0) {
+        logger.warn('Webhook skipped: withdrawal not found', { withdrawalId, status });
+        return;
+      }
+
+      const withdrawal = result.rows[0];
+
+      await this.enqueue(withdrawal.agent_id, `withdrawal.${status}`, {
+        withdrawalId,
+        agentId: withdrawal.agent_agent_id,
+        status,
+        amount: withdrawal.amount?.toString(),
+        fee: withdrawal.fee?.toString(),
+        netAmount: withdrawal.net_amount?.toString(),
+        destinationAddress: withdrawal.destination_address,
+        destinationChain: withdrawal.destination_chain,
+        txHash: withdrawal.tx_hash || undefined,
+        ...extra,
+      });
+    } catch (error) {
+      logger.error('Failed to emit withdrawal webhook', {
+        withdrawalId,
+        status,
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  /**
+   * Persist a delivery for the agent's webhook URL and attempt it immediately
+   */
+  private async enqueue(
+    agentDbId: string,
+    eventType: WebhookEventType,
+    data: Record<string, unknown>
+  ): Promise<void> {
+    const agentResult = await db.query(
+      'SELECT webhook_url FROM agents WHERE id = $1',
+      [agentDbId]
+    );
+
+    const url = agentResult.rows[0]?.webhook_url;
+    if (!url) {
+      logger.debug('No webhook URL configured, skipping delivery', { agentDbId, eventType });
+      return;
+    }
+
+    const deliveryId = uuidv4();
+    const payload = {
+      id: deliveryId,
+      type: eventType,
+      createdAt: new Date().toISOString(),
+      data,
+    };
+
+    await db.query(
+      `INSERT INTO webhook_deliveries (id, agent_id, event_type, payload, url, status, next_attempt_at)
+       VALUES ($1, $2, $3, $4, $5, 'pending', NOW())`,
+      [deliveryId, agentDbId, eventType, JSON.stringify(payload), url]
+    );
+
+    // First attempt happens right away; failures are picked up by the retry worker
+    this.deliver(deliveryId).catch((error) => {
+      logger.error('Webhook delivery attempt failed', { deliveryId, error: (error as Error).message });
+    });
+  }
+
+  /**
+   * Retry every delivery whose backoff has elapsed.
+   * Rows stuck in 'delivering' (e.g. process crashed mid-request) are reclaimed.
+   */
+  async processDueDeliveries(): Promise<number> {
+    if (this.polling) {
+      return 0;
+    }
+
+    this.polling = true;
+    try {
+      const staleAfterSeconds = Math.ceil((this.config.requestTimeoutMs * 3) / 1000);
+      const result = await db.query(
+        `UPDATE webhook_deliveries
+         SET status = 'delivering', attempts = attempts + 1, last_attempt_at = NOW()
+         WHERE id IN (
+           SELECT id FROM webhook_deliveries
+           WHERE (status IN ('pending', 'failed') AND next_attempt_at <= NOW())
+              OR (status = 'delivering' AND last_attempt_at < NOW() - make_interval(secs => $2))
+           ORDER BY next_attempt_at ASC
+           LIMIT $1
+           FOR UPDATE SKIP LOCKED
+         )
+         RETURNING *`,
+        [this.config.batchSize, staleAfterSeconds]
+      );
+
+      for (const row of result.rows) {
+        await this.send(row);
+      }
+
+      return result.rows.length;
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  /**
+   * Claim a single delivery and send it
+   */
+  private async deliver(deliveryId: string): Promise<void> {
+    const result = await db.query(
+      `UPDATE webhook_deliveries
+       SET status = 'delivering', attempts = attempts + 1, last_attempt_at = NOW()
+       WHERE id = $1 AND status IN ('pending', 'failed')
+       RETURNING *`,
+      [deliveryId]
+    );
+
+    // Already claimed by the retry worker
+    if (result.rows.length === 0) {
+      return;
+    }
+
+    await this.send(result.rows[0]);
+  }
+
+  /**
+   * POST a claimed delivery to the merchant endpoint and record the outcome
+   */
+  private async send(row: any): Promise<void> {
+    try {
+      const secretResult = await db.query(
+        'SELECT webhook_secret FROM agents WHERE id = $1',
+        [row.agent_id]
+      );
+      const secret = secretResult.rows[0]?.webhook_secret;
+      if (!secret) {
+        throw new Error('Agent has no webhook secret configured');
+      }
+
+      // Checked again at delivery, since the host's DNS may have changed since it was registered
+      const target = await resolveWebhookTarget(row.url);
+      if (!target) {
+        throw new Error('Webhook URL does not resolve to a public https endpoint');
+      }
+
+      const payload = typeof row.payload === 'string' ? row.payload : JSON.stringify(row.payload);
+      const timestamp = Math.floor(Date.now() / 1000);
+
+      const status = await this.post(target, payload, {
+        'Content-Type': 'application/json',
+        'User-Agent': 'StacksPaymentRouter-Webhooks/1.0',
+        'X-Webhook-Id': row.id,
+        'X-Webhook-Event': row.event_type,
+        'X-Webhook-Timestamp': timestamp.toString(),
+        [WEBHOOK_SIGNATURE_HEADER]: WebhookDeliveryService.sign(secret, timestamp, payload),
+      });
+
+      // Redirects are not followed, since one could point at an internal address
+      if (status < 200 || status >= 300) {
+        await this.markFailed(row, `Endpoint responded with HTTP ${status}`, status);
+        return;
+      }
+
+      await db.query(
+        `UPDATE webhook_deliveries
+         SET status = 'delivered', response_status = $1, last_error = NULL,
+             delivered_at = NOW(), next_attempt_at = NULL
+         WHERE id = $2`,
+        [status, row.id]
+      );
+
+      logger.info('Webhook delivered', {
+        deliveryId: row.id,
+        eventType: row.event_type,
+        attempts: row.attempts,
+      });
+    } catch (error) {
+      await this.markFailed(row, (error as Error).message);
+    }
+  }
+
+  /**
+   * POST a body to a resolved target and return the response status. The
+   * connection goes to the address that was checked rather than resolving
+   * the host again, which DNS rebinding could point at an internal address;
+   * the URL's host is still used for TLS and the Host header.
+   */
+  private post(target: WebhookTarget, body: string, headers: Record<string, string>): Promise<number> {
+    const { address, family } = target.address;
+    const pinnedLookup: LookupFunction = (_hostname, options, callback) => {
+      if (options.all) {
+        callback(null, [{ address, family }]);
+      } else {
+        callback(null, address, family);
+      }
+    };
+
+    const client = target.url.protocol === 'https:' ? https : http;
+    return new Promise((resolve, reject) => {
+      const request = client.request(
+        target.url,
+        {
+          method: 'POST',
+          headers: { ...headers, 'Content-Length': Buffer.byteLength(body).toString() },
+          lookup: pinnedLookup,
+          signal: AbortSignal.timeout(this.config.requestTimeoutMs),
+        },
+        (response) => {
+          response.resume(); // The body is not used
+          resolve(response.statusCode ?? 0);
+        }
+      );
+      request.on('error', reject);
+      request.end(body);
+    });
+  }
+
+  /**
+   * Schedule the next attempt with exponential backoff, or dead-letter the delivery
+   */
+  private async markFailed(row: any, errorMessage: string, responseStatus?: number): Promise<void> {
+    const attempts = Number(row.attempts);
+
+    if (attempts >= this.config.maxAttempts) {
+      await db.query(
+        `UPDATE webhook_deliveries
+         SET status = 'dead_letter', response_status = $1, last_error = $2, next_attempt_at = NULL
+         WHERE id = $3`,
+        [responseStatus ?? null, errorMessage, row.id]
+      );
+
+      logger.warn('Webhook moved to dead letter', {
+        deliveryId: row.id,
+        eventType: row.event_type,
+        attempts,
+        error: errorMessage,
+      });
+      return;
+    }
+
+    const delay = Math.min(
+      this.config.initialDelayMs * Math.pow(this.config.backoffMultiplier, attempts - 1),
+      this.config.maxDelayMs
+    );
+    const nextAttemptAt = new Date(Date.now() + delay);
+
+    await db.query(
+      `UPDATE webhook_deliveries
+       SET status = 'failed', response_status = $1, last_error = $2, next_attempt_at = $3
+       WHERE id = $4`,
+      [responseStatus ?? null, errorMessage, nextAttemptAt, row.id]
+    );
+
+    logger.warn('Webhook delivery failed, will retry', {
+      deliveryId: row.id,
+      eventType: row.event_type,
+      attempts,
+      nextAttemptAt,
+      error: errorMessage,
+    });
+  }
+
+  /**
+   * List deliveries for an agent, newest first
+   */
+  async listDeliveries(
+    agentId: string,
+    options: {
+      status?: WebhookDeliveryStatus;
+      limit?: number;
+      offset?: number;
+    } = {}
+  ): Promise<WebhookDelivery[]> {
+    const { status, limit = 50, offset = 0 } = options;
+    const agentDbId = await this.getAgentDbId(agentId);
+
+    let query = 'SELECT * FROM webhook_deliveries WHERE agent_id = $1';
+    const params: any[] = [agentDbId];
+    let paramIndex = 2;
+
+    if (status) {
+      query += ` AND status = $${paramIndex}`;
+      params.push(status);
+      paramIndex++;
+    }
+
+    query += ` ORDER BY created_at DESC LIMIT $${paramIndex} OFFSET $${paramIndex + 1}`;
+    params.push(limit, offset);
+
+    const result = await db.query(query, params);
+    return result.rows.map((row) => this.mapToDelivery(row, agentId));
+  }
+
+  /**
+   * Manually redeliver a delivery (typically one in dead letter).
+   * Resets the retry budget and targets the agent's current webhook URL.
+   */
+  async redeliver(agentId: string, deliveryId: string): Promise<WebhookDelivery> {
+    const agentResult = await db.query(
+      'SELECT id, webhook_url FROM agents WHERE agent_id = $1',
+      [agentId]
+    );
+
+    if (agentResult.rows.length === 0) {
+      const err: AppError = new Error('Agent not found');
+      err.statusCode = 404;
+      throw err;
+    }
+
+    const agent = agentResult.rows[0];
+    if (!agent.webhook_url) {
+      const err: AppError = new Error('No webhook URL configured');
+      err.statusCode = 400;
+      err.code = 'WEBHOOK_NOT_CONFIGURED';
+      throw err;
+    }
+
+    const existing = await db.query(
+      'SELECT status FROM webhook_deliveries WHERE id = $1 AND agent_id = $2',
+      [deliveryId, agent.id]
+    );
+
+    if (existing.rows.length === 0) {
+      const err: AppError = new Error('Webhook delivery not found');
+      err.statusCode = 404;
+      throw err;
+    }
+
+    if (existing.rows[0].status === 'delivering') {
+      const err: AppError = new Error('Webhook delivery is already in progress');
+      err.statusCode = 409;
+      err.code = 'DELIVERY_IN_PROGRESS';
+      throw err;
+    }
+
+    await db.query(
+      `UPDATE webhook_deliveries
+       SET status = 'pending', attempts = 0, url = $1, next_attempt_at = NOW()
+       WHERE id = $2`,
+      [agent.webhook_url, deliveryId]
+    );
+
+    logger.info('Webhook redelivery requested', { agentId, deliveryId });
+
+    await this.deliver(deliveryId);
+
+    const result = await db.query('SELECT * FROM webhook_deliveries WHERE id = $1', [deliveryId]);
+    return this.mapToDelivery(result.rows[0], agentId);
+  }
+
+  /**
+   * Replace the agent's signing secret. The new secret is only returned here.
+   */
+  async rotateSecret(agentId: string): Promise<{ agentId: string; webhookSecret: string }> {
+    const webhookSecret = WebhookDeliveryService.generateSecret();
+
+    const result = await db.query(
+      'UPDATE agents SET webhook_secret = $1, updated_at = NOW() WHERE agent_id = $2 RETURNING id',
+      [webhookSecret, agentId]
+    );
+
+    if (result.rows.length === 0) {
+      const err: AppError = new Error('Agent not found');
+      err.statusCode = 404;
+      throw err;
+    }
+
+    logger.info('Webhook secret rotated', { agentId });
+
+    return { agentId, webhookSecret };
+  }
+
+  private async getAgentDbId(agentId: string): Promise<string> {
+    const result = await db.query('SELECT id FROM agents WHERE agent_id = $1', [agentId]);
+
+    if (result.rows.length === 0) {
+      const err: AppError = new Error('Agent not found');
+      err.statusCode = 404;
+      throw err;
+    }
+
+    return result.rows[0].id;
+  }
+
+  private mapToDelivery(row: any, agentId: string): WebhookDelivery {
+    return {
+      id: row.id,
+      agentId,
+      eventType: row.event_type,
+      payload: typeof row.payload === 'string' ? JSON.parse(row.payload) : row.payload,
+      url: row.url,
+      status: row.status,
+      attempts: Number(row.attempts),
+      nextAttemptAt: row.next_attempt_at || undefined,
+      lastAttemptAt: row.last_attempt_at || undefined,
+      responseStatus: row.response_status ?? undefined,
+      lastError: row.last_error || undefined,
+      deliveredAt: row.delivered_at || undefined,
+      createdAt: row.created_at,
+    };
+  }
+}
+
+let webhookDeliveryService: WebhookDeliveryService | null = null;
+
+export function getWebhookDeliveryService(): WebhookDeliveryService {
+  if (!webhookDeliveryService) {
+    webhookDeliveryService = new WebhookDeliveryService();
+  }
+  return webhookDeliveryService;
+}
@@ -1,60 +1,276 @@
-import { Route, RouteStep } from '@shared/types';
+import { Route, RouteStep, RouteStepState } from '@shared/types';
 import { GasAbstractor } from './gas/GasAbstractor';
 import { TransactionSigner } from './signing/TransactionSigner';
 import { RetryManager } from './retry/RetryManager';
 import { DexCalldataProvider } from './providers/DexCalldataProvider';
+import { NonceManager, getNonceManager, isNonceError } from './nonce/NonceManager';
+import { TransactionWatcher, getTransactionWatcher } from './watcher/TransactionWatcher';
+import {
+  BalanceExpectation,
+  TransactionSimulator,
+  getTransactionSimulator,
+} from './simulation/TransactionSimulator';
+import { RouteStepStore } from './state/RouteStepStore';
+import { CHAIN_CONFIGS } from '@shared/constants/chains';
 import { logger } from '@shared/utils/logger';
+import { getPriceOracle } from '@shared/utils/priceOracle';
 import { db } from './db';
 import { ethers } from 'ethers';
 
+// How often a route being executed refreshes its heartbeat; once it goes
+// stale, the route is resumed elsewhere
+export const ROUTE_HEARTBEAT_INTERVAL_MS = 30000;
+
+// Errors from a mined attempt that did not execute the step
+const MINED_WITHOUT_EFFECT = ['TRANSACTION_REVERTED', 'TRANSACTION_CANCELLED'];
+
+const TRANSFER_TOPIC = ethers.id('Transfer(address,address,uint256)');
+
 export class ExecutionService {
   private gasAbstractor: GasAbstractor;
   private transactionSigner: TransactionSigner;
   private retryManager: RetryManager;
   private dexCalldataProvider: DexCalldataProvider;
+  private nonceManager: NonceManager;
+  private transactionWatcher: TransactionWatcher;
+  private transactionSimulator: TransactionSimulator;
+  private routeStepStore: RouteStepStore;
 
   constructor() {
     this.gasAbstractor = new GasAbstractor();
     this.transactionSigner = new TransactionSigner();
     this.retryManager = new RetryManager();
     this.dexCalldataProvider = new DexCalldataProvider();
+    this.nonceManager = getNonceManager();
+    this.transactionWatcher = getTransactionWatcher();
+    this.transactionSimulator = getTransactionSimulator();
+    this.routeStepStore = new RouteStepStore();
   }
 
+  /**
+   * Execute a route's steps in order. Each step's progress is recorded, so
+   * a retry, or another process after a crash, resumes after the last
+   * confirmed step instead of sending any step twice.
+   */
   async executeRoute(route: Route, paymentIntentId: string): Promise<string> {
+    // Keeps other processes from resuming the route while this one runs it
+    const heartbeat = setInterval(() => {
+      db.query('UPDATE routes SET execution_heartbeat_at = NOW() WHERE id = $1', [route.id]).catch((error) => {
+        logger.warn('Failed to refresh route heartbeat', { routeId: route.id, error: (error as Error).message });
+      });
+    }, ROUTE_HEARTBEAT_INTERVAL_MS);
+
+    try {
+      if (route.routeType === 'split') {
+        return await this.executeSplitRoute(route, paymentIntentId);
+      }
+      return await this.executeSteps(route, paymentIntentId);
+    } finally {
+      clearInterval(heartbeat);
+    }
+  }
+
+  private async executeSteps(route: Route, paymentIntentId: string): Promise<string> {
     logger.info('Executing route', { routeId: route.id, paymentIntentId });
 
+    // Update route status
+    await db.query(
+      'UPDATE routes SET status = $1, execution_heartbeat_at = NOW() WHERE id = $2',
+      ['executing', route.id]
+    );
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const states = await this.routeStepStore.load(route.id);
+        const txHashes: string[] = [];
+
+        // Execute each step, skipping those already confirmed
+        for (let index = 0; index < route.steps.length; index++) {
+          txHashes.push(
+            await this.executeStep(route.id, index, route.steps[index], paymentIntentId, states.get(index))
+          );
+        }
+        const txHash = txHashes[txHashes.length - 1] || '';
+
+        // Update route status, with what the route delivered and spent for settlement
+        const outcome = await this.measureOutcome(route, txHashes);
+        await db.query(
+          `UPDATE routes
+           SET status = $1, executed_at = NOW(), execution_tx_hash = $2, actual_output = $3, actual_gas_cost_usd = $4
+           WHERE id = $5`,
+          ['completed', txHash, outcome.output, outcome.gasCostUSD, route.id]
+        );
+
+        return txHash; // Return final tx hash
+      } catch (error) {
+        logger.error('Route execution failed', error);
+
+        try {
+          // Waits out the backoff; throws once the error is final or retries are used up
+          await this.retryManager.retry(route, paymentIntentId, error as Error, attempt);
+        } catch (finalError) {
+          await db.query('UPDATE routes SET status = $1 WHERE id = $2', ['failed', route.id]);
+          throw finalError;
+        }
+      }
+    }
+  }
+
+  /**
+   * Run each leg of a split route as its own route. Legs run one after
+   * another so they don't race for the gas wallet nonce; a failed leg does
+   * not stop the others, and legs already completed are skipped on re-run.
+   */
+  private async executeSplitRoute(route: Route, paymentIntentId: string): Promise<string> {
+    const legs = route.splits || [];
+    logger.info('Executing split route', { routeId: route.id, paymentIntentId, legs: legs.length });
+
+    if (legs.length === 0) {
+      throw new Error(`Split route ${route.id} has no legs`);
+    }
+
+    await db.query(
+      'UPDATE routes SET status = $1, execution_heartbeat_at = NOW() WHERE id = $2',
+      ['executing', route.id]
+    );
+
     const txHashes: string[] = [];
+    const failures: string[] = [];
 
-    try {
-      // Update route status
-      await db.query('UPDATE routes SET status = $1 WHERE id = $2', ['executing', route.id]);
+    for (const leg of legs) {
+      if (leg.route.status === 'completed' && leg.route.executionTxHash) {
+        txHashes.push(leg.route.executionTxHash);
+        continue;
+      }
 
-      // Execute each step
-      for (const step of route.steps) {
-        const txHash = await this.executeStep(step, paymentIntentId);
-        txHashes.push(txHash);
+      try {
+        txHashes.push(await this.executeRoute(leg.route, paymentIntentId));
+      } catch (error) {
+        logger.error('Split leg failed', { routeId: leg.route.id, weight: leg.weight, error });
+        failures.push(`${leg.route.id}: ${(error as Error).message}`);
+      }
+    }
 
-        // Wait for confirmation before next step
-        await this.waitForConfirmation(step.fromChain, txHash);
+    if (failures.length > 0) {
+      await db.query('UPDATE routes SET status = $1 WHERE id = $2', ['failed', route.id]);
+      throw new Error(`${failures.length} of ${legs.length} split legs failed: ${failures.join('; ')}`);
+    }
+
+    await db.query(
+      'UPDATE routes SET status = $1, executed_at = NOW(), execution_tx_hash = $2 WHERE id = $3',
+      ['completed', txHashes[txHashes.length - 1], route.id]
+    );
+
+    return txHashes[txHashes.length - 1];
+  }
+
+  /**
+   * What a completed route actually delivered and paid in gas, read from
+   * the receipts of its mined step transactions. Either figure is null when
+   * it can't be measured, e.g. a final step whose output is native or lands
+   * on another chain.
+   */
+  private async measureOutcome(
+    route: Route,
+    txHashes: string[]
+  ): Promise<{ output: string | null; gasCostUSD: number | null }> {
+    let receipts: Array<ethers.TransactionReceipt | null>;
+    try {
+      receipts = await Promise.all(
+        route.steps.map(
+          (step, index) => this.getProvider(step.fromChain)?.getTransactionReceipt(txHashes[index]) ?? null
+        )
+      );
+    } catch (error) {
+      logger.warn('Failed to fetch route receipts', { routeId: route.id, error: (error as Error).message });
+      return { output: null, gasCostUSD: null };
+    }
+
+    let gasCostUSD: number | null = null;
+    if (receipts.every((receipt) => receipt !== null)) {
+      try {
+        const priceOracle = getPriceOracle();
+        gasCostUSD = 0;
+        for (let index = 0; index < route.steps.length; index++) {
+          const price = await priceOracle.getNativeTokenPrice(route.steps[index].fromChain);
+          gasCostUSD += parseFloat(ethers.formatEther(receipts[index]!.fee)) * price;
+        }
+      } catch (error) {
+        gasCostUSD = null;
+        logger.warn('Failed to price route gas', { routeId: route.id, error: (error as Error).message });
       }
+    }
 
-      // Update route status
-      await db.query(
-        'UPDATE routes SET status = $1, executed_at = NOW(), execution_tx_hash = $2 WHERE id = $3',
-        ['completed', txHashes[txHashes.length - 1], route.id]
+    // The final step's output token as it arrived at the gas wallet that sent it
+    const step = route.steps[route.steps.length - 1];
+    const receipt = receipts[receipts.length - 1];
+    let output: string | null = null;
+    if (receipt && step.toChain === step.fromChain && step.toToken !== 'ETH' && step.toTokenAddress) {
+      const transfers = receipt.logs.filter(
+        (log) =>
+          log.address.toLowerCase() === step.toTokenAddress!.toLowerCase() &&
+          log.topics[0] === TRANSFER_TOPIC &&
+          log.topics[2]?.toLowerCase() === ethers.zeroPadValue(receipt.from, 32).toLowerCase()
       );
+      if (transfers.length > 0) {
+        output = transfers.reduce((total, log) => total + BigInt(log.data), 0n).toString();
+      }
+    }
 
-      return txHashes[txHashes.length - 1]; // Return final tx hash
-    } catch (error) {
-      logger.error('Route execution failed', error);
-      await db.query('UPDATE routes SET status = $1 WHERE id = $2', ['failed', route.id]);
+    if (output === null || gasCostUSD === null) {
+      logger.warn('Could not measure route outcome', { routeId: route.id, output, gasCostUSD });
+    }
+    return { output, gasCostUSD };
+  }
 
-      // Retry logic
-      return await this.retryManager.retry(route, paymentIntentId, error as Error);
+  /**
+   * Take a step from its recorded state to confirmed, returning the hash
+   * of the transaction that was mined
+   */
+  private async executeStep(
+    routeId: string,
+    index: number,
+    step: RouteStep,
+    paymentIntentId: string,
+    state?: RouteStepState
+  ): Promise<string> {
+    if (state?.status === 'confirmed' && state.txHash) {
+      return state.txHash;
+    }
+
+    let txHash: string | null = null;
+    if (state?.status === 'broadcast' && state.txHash) {
+      txHash = state.txHash;
+    } else if (state?.status === 'signed' && state.txHash && state.signedTx) {
+      txHash = await this.resumeSigned(routeId, index, step, paymentIntentId, state.txHash, state.signedTx);
+    }
+
+    if (txHash) {
+      logger.info('Resuming step', { routeId, index, status: state?.status, txHash });
+    } else {
+      txHash = await this.sendStep(routeId, index, step, paymentIntentId);
+    }
+
+    try {
+      // Wait for confirmation before the next step; a stuck transaction is
+      // replaced along the way, so keep the hash that was mined
+      const minedHash = await this.transactionWatcher.waitForConfirmation(step.fromChain, txHash);
+      await this.routeStepStore.markConfirmed(routeId, index, minedHash);
+      return minedHash;
+    } catch (error) {
+      // Mined without effect, so the step can be built again; anything else may still be mined
+      if (MINED_WITHOUT_EFFECT.some((code) => (error as Error).message.startsWith(code))) {
+        await this.routeStepStore.markFailed(routeId, index, (error as Error).message);
+      }
+      throw error;
     }
   }
 
-  private async executeStep(step: RouteStep, paymentIntentId: string): Promise<string> {
+  /**
+   * Build, simulate, sign and broadcast a step's transaction, recording
+   * each stage; the signed transaction is recorded before it is broadcast
+   */
+  private async sendStep(routeId: string, index: number, step: RouteStep, paymentIntentId: string): Promise<string> {
     logger.info('Executing step', { step, paymentIntentId });
 
     // Get gas wallet for chain
@@ -66,18 +282,153 @@ export class ExecutionService {
     // Build transaction
     const tx = await this.buildTransaction(step, gasWallet.address, gasEstimate);
 
-    // Sign transaction
-    const signedTx = await this.transactionSigner.sign(tx, gasWallet as ethers.Wallet);
+    // Simulate before anything is reserved, so a transaction that would revert costs nothing
+    const simulation = await this.transactionSimulator.simulate(
+      step.fromChain,
+      { ...tx, from: gasWallet.address },
+      this.getExpectedBalanceChanges(step, gasWallet.address)
+    );
+
+    // EIP-1559 fees from recent fee history
+    const fees = await this.gasAbstractor.getFeeEstimate(step.fromChain);
+    await this.routeStepStore.markBuilt(routeId, index, step.fromChain);
+
+    // Reserve the nonce last, so a failed build leaves no gap
+    const nonce = await this.nonceManager.reserve(step.fromChain, gasWallet);
+    const signable: ethers.TransactionRequest = {
+      ...tx,
+      gasLimit: simulation.gasLimit,
+      nonce,
+      chainId: CHAIN_CONFIGS[step.fromChain].chainId,
+      type: 2,
+      maxFeePerGas: fees.maxFeePerGas,
+      maxPriorityFeePerGas: fees.maxPriorityFeePerGas,
+    };
+
+    let signedTx: string;
+    try {
+      // Sign transaction
+      signedTx = await this.transactionSigner.sign(signable, gasWallet);
+
+      // From here on, a resumed step re-sends this transaction rather than building another
+      await this.routeStepStore.markSigned(routeId, index, ethers.keccak256(signedTx), signedTx);
+    } catch (error) {
+      await this.nonceManager.handleFailure(step.fromChain, gasWallet, nonce, error as Error);
+      await this.routeStepStore.markFailed(routeId, index, (error as Error).message);
+      throw error;
+    }
+
+    let txHash: string;
+    try {
+      // Submit transaction
+      txHash = await this.submitTransaction(step.fromChain, signedTx);
+    } catch (error) {
+      // The node may have it anyway: the step stays signed, holding its nonce, to be re-sent as-is
+      if (isUncertainBroadcastError(error as Error)) {
+        throw error;
+      }
+
+      // Resyncs on a nonce collision, so the retry gets a fresh nonce
+      await this.nonceManager.handleFailure(step.fromChain, gasWallet, nonce, error as Error);
+      await this.routeStepStore.markFailed(routeId, index, (error as Error).message);
+      throw error;
+    }
 
-    // Submit transaction
-    const txHash = await this.submitTransaction(step.fromChain, signedTx);
+    await this.nonceManager.markBroadcast(step.fromChain, gasWallet.address, nonce);
+
+    // Log transaction, with what was signed so it can be replaced if it gets stuck
+    await this.logTransaction(paymentIntentId, step, txHash, gasWallet.address, signable);
+    await this.routeStepStore.markBroadcast(routeId, index);
+
+    return txHash;
+  }
+
+  /**
+   * Follow up a step that was signed but not recorded as broadcast when
+   * execution stopped. Returns its hash once the node has it, or null when
+   * its nonce went to another transaction, so it can never be mined and
+   * the step has to be built again.
+   */
+  private async resumeSigned(
+    routeId: string,
+    index: number,
+    step: RouteStep,
+    paymentIntentId: string,
+    txHash: string,
+    signedTx: string
+  ): Promise<string | null> {
+    const signed = ethers.Transaction.from(signedTx);
+    const from = signed.from as string;
+
+    // Logged means it was broadcast just before execution stopped
+    const logged = await db.query('SELECT 1 FROM transaction_logs WHERE chain = $1 AND tx_hash = $2', [
+      step.fromChain,
+      txHash,
+    ]);
+
+    if (logged.rows.length === 0) {
+      try {
+        await this.submitTransaction(step.fromChain, signedTx);
+      } catch (error) {
+        // Rejected as already known, or already mined: the node has it either way
+        const known = await this.getProvider(step.fromChain)?.getTransaction(txHash);
+        if (!known) {
+          if (!isNonceError(error as Error)) {
+            throw error;
+          }
+
+          logger.warn('Signed step transaction lost its nonce, building it again', { routeId, index, txHash });
+          await this.routeStepStore.markFailed(routeId, index, (error as Error).message);
+          return null;
+        }
+      }
 
-    // Log transaction
-    await this.logTransaction(paymentIntentId, step, txHash);
+      await this.nonceManager.markBroadcast(step.fromChain, from, signed.nonce);
+      await this.logTransaction(paymentIntentId, step, txHash, from, {
+        to: signed.to,
+        nonce: signed.nonce,
+        value: signed.value,
+        data: signed.data,
+        gasLimit: signed.gasLimit,
+        maxFeePerGas: signed.maxFeePerGas,
+        maxPriorityFeePerGas: signed.maxPriorityFeePerGas,
+      });
+    }
 
+    await this.routeStepStore.markBroadcast(routeId, index);
     return txHash;
   }
 
+
+  /**
+   * What a step should do to the gas wallet's balances: spend at most its
+   * amount, and for a swap, receive the expected output less the slippage
+   * tolerance its calldata was built with
+   */
+  private getExpectedBalanceChanges(step: RouteStep, account: string): BalanceExpectation[] {
+    const expectations: BalanceExpectation[] = [];
+    const fromNative = step.fromToken === 'ETH';
+
+    if (fromNative || step.fromTokenAddress) {
+      expectations.push({
+        account,
+        token: fromNative ? undefined : step.fromTokenAddress,
+        minChange: -BigInt(step.amount),
+      });
+    }
+
+    if (step.type === 'swap' && step.expectedOutput && (step.toToken === 'ETH' || step.toTokenAddress)) {
+      const toleranceBps = BigInt(Math.round((step.estimatedSlippage || 0.01) * 10000));
+      expectations.push({
+        account,
+        token: step.toToken === 'ETH' ? undefined : step.toTokenAddress,
+        minChange: (BigInt(step.expectedOutput) * (10000n - toleranceBps)) / 10000n,
+      });
+    }
+
+    return expectations;
+  }
+
   private async buildTransaction(
     step: RouteStep,
     fromAddress: string,
@@ -179,29 +530,6 @@ export class ExecutionService {
     };
   }
 
-  private async waitForConfirmation(chain: string, txHash: string): Promise<void> {
-    logger.info('Waiting for confirmation', { chain, txHash });
-    
-    const provider = this.getProvider(chain);
-    if (!provider) {
-      throw new Error(`No provider for chain: ${chain}`);
-    }
-
-    try {
-      // Wait for transaction receipt with confirmations
-      const receipt = await provider.waitForTransaction(txHash, 3); // 3 confirmations
-      
-      if (!receipt || receipt.status === 0) {
-        throw new Error(`Transaction failed: ${txHash}`);
-      }
-
-      logger.info('Transaction confirmed', { chain, txHash, blockNumber: receipt.blockNumber });
-    } catch (error) {
-      logger.error('Transaction confirmation failed', { chain, txHash, error });
-      throw error;
-    }
-  }
-
   private async submitTransaction(chain: string, signedTx: string): Promise<string> {
     logger.info('Submitting transaction', { chain });
     
@@ -241,14 +569,44 @@ export class ExecutionService {
   private async logTransaction(
     paymentIntentId: string,
     step: RouteStep,
-    txHash: string
+    txHash: string,
+    fromAddress: string,
+    tx: ethers.TransactionRequest
   ): Promise<void> {
     await db.query(
       `INSERT INTO transaction_logs (
-        payment_intent_id, chain, tx_hash, tx_type, status
-      ) VALUES ($1, $2, $3, $4, $5)`,
-      [paymentIntentId, step.fromChain, txHash, step.type, 'pending']
+        payment_intent_id, chain, tx_hash, tx_type, status, from_address, to_address, nonce,
+        value, data, gas_limit, max_fee_per_gas, max_priority_fee_per_gas
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)`,
+      [
+        paymentIntentId,
+        step.fromChain,
+        txHash,
+        step.type,
+        'pending',
+        fromAddress,
+        tx.to,
+        tx.nonce,
+        (tx.value ?? 0).toString(),
+        tx.data || '0x',
+        tx.gasLimit?.toString() ?? null,
+        tx.maxFeePerGas?.toString() ?? null,
+        tx.maxPriorityFeePerGas?.toString() ?? null,
+      ]
     );
   }
 }
 
+/**
+ * Whether a failed broadcast may still have reached the node, rather than
+ * the node answering with a rejection
+ */
+export function isUncertainBroadcastError(error: Error): boolean {
+  const code = (error as Error & { code?: string }).code;
+  return (
+    code === 'NETWORK_ERROR' ||
+    code === 'TIMEOUT' ||
+    code === 'SERVER_ERROR' ||
+    /ECONNRESET|ETIMEDOUT|socket hang up/i.test(error.message)
+  );
+}
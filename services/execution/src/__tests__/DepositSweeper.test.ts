@@ -0,0 +1,106 @@
+/**
+ * Tests for DepositSweeper
+ */
+
+import { Wallet } from 'ethers';
+import { logger } from '@shared/utils/logger';
+import { DepositSweeper } from '../sweep/DepositSweeper';
+import { db } from '../db';
+
+const depositKey = Wallet.createRandom();
+
+jest.mock('@shared/utils/redis', () => ({ getRedis: jest.fn(), NONCE_KEYS: {} }));
+jest.mock('@shared/utils/priceOracle', () => ({ getPriceOracle: jest.fn() }));
+jest.mock('@shared/utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+jest.mock('@shared/utils/addressGeneration', () => ({
+  getHDWalletManager: () => ({ getSigningWallet: () => ({ privateKey: depositKey.privateKey }) }),
+}));
+jest.mock('../db', () => ({ db: { query: jest.fn() } }));
+
+const query = db.query as jest.Mock;
+
+describe('DepositSweeper', () => {
+  const provider = { getBalance: jest.fn() };
+  const row = {
+    id: 'deposit-1',
+    payment_intent_id: 'pi-1',
+    chain: 'base',
+    address: depositKey.address,
+    agent_index: 0,
+    address_index: 7,
+    source_token: 'USDC',
+    source_token_address: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913',
+  };
+
+  let sweeper: DepositSweeper;
+  let sweepToken: jest.SpyInstance;
+  let sweepNative: jest.SpyInstance;
+
+  const sqlOf = (fragment: string) => query.mock.calls.filter(([sql]) => sql.includes(fragment));
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    query.mockResolvedValue({ rows: [] });
+    sweeper = new DepositSweeper();
+    jest.spyOn(sweeper as any, 'getProvider').mockReturnValue(provider);
+    jest.spyOn(sweeper as any, 'getTreasuryAddress').mockReturnValue('0x000000000000000000000000000000000000dEaD');
+    sweepToken = jest.spyOn(sweeper as any, 'sweepToken').mockResolvedValue('0xtoken');
+    sweepNative = jest.spyOn(sweeper as any, 'sweepNative');
+  });
+
+  describe('sweepAll', () => {
+    it('should only select terminal intents with no refund outstanding', async () => {
+      await sweeper.sweepAll();
+
+      const [sql, params] = query.mock.calls[0];
+      expect(sql).toContain("pi.status = 'settled'");
+      expect(sql).toContain("r.status = 'sent'");
+      expect(sql).toContain("pi.status = 'expired' AND pi.expires_at < NOW() - make_interval(secs => $4)");
+      expect(sql).toContain("r.status IN ('pending', 'failed')");
+      expect(sql).not.toContain('NOT IN');
+      expect(params[3]).toBe(604800);
+    });
+  });
+
+  describe('sweep', () => {
+    it('should sweep the gas left over after a token sweep', async () => {
+      sweepNative.mockResolvedValue('0xdust');
+
+      await expect((sweeper as any).sweep(row)).resolves.toBe(true);
+
+      expect(sqlOf('INSERT INTO transaction_logs').map(([, params]) => params[2])).toEqual(['0xtoken', '0xdust']);
+    });
+
+    it('should report leftover gas worth less than the transfer fee', async () => {
+      sweepNative.mockResolvedValue(null);
+      provider.getBalance.mockResolvedValue(5000n);
+
+      await expect((sweeper as any).sweep(row)).resolves.toBe(true);
+
+      expect(logger.info).toHaveBeenCalledWith(
+        'Leftover gas on deposit address is below the transfer fee',
+        expect.objectContaining({ address: depositKey.address, leftoverWei: '5000' })
+      );
+    });
+
+    it('should keep a token sweep that succeeded when the leftover sweep fails', async () => {
+      sweepNative.mockRejectedValue(new Error('replacement fee too low'));
+
+      await expect((sweeper as any).sweep(row)).resolves.toBe(true);
+
+      expect(sqlOf("status = 'swept'")).toHaveLength(1);
+      expect(sqlOf('sweep_attempts + 1')).toHaveLength(0);
+    });
+
+    it('should not look for leftover gas after a native sweep', async () => {
+      sweepNative.mockResolvedValue('0xnative');
+
+      await (sweeper as any).sweep({ ...row, source_token: 'ETH', source_token_address: null });
+
+      expect(sweepToken).not.toHaveBeenCalled();
+      expect(sweepNative).toHaveBeenCalledTimes(1);
+    });
+  });
+});
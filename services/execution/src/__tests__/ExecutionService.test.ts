@@ -0,0 +1,252 @@
+/**
+ * Tests for ExecutionService step recovery
+ */
+
+import { ethers } from 'ethers';
+import { Route, RouteStep, RouteStepState } from '@shared/types';
+import { getPriceOracle } from '@shared/utils/priceOracle';
+import { ExecutionService, isUncertainBroadcastError } from '../ExecutionService';
+import { db } from '../db';
+
+const mockNonceManager = {
+  reserve: jest.fn(),
+  markBroadcast: jest.fn(),
+  handleFailure: jest.fn(),
+};
+const mockWatcher = { waitForConfirmation: jest.fn() };
+const mockSimulator = { simulate: jest.fn() };
+const mockStepStore = {
+  load: jest.fn(),
+  markBuilt: jest.fn(),
+  markSigned: jest.fn(),
+  markBroadcast: jest.fn(),
+  markConfirmed: jest.fn(),
+  markFailed: jest.fn(),
+};
+const mockGasAbstractor = {
+  getGasWallet: jest.fn(),
+  estimateGas: jest.fn(),
+  getFeeEstimate: jest.fn(),
+};
+const mockSigner = { sign: jest.fn() };
+
+jest.mock('@shared/utils/redis', () => ({ getRedis: jest.fn(), NONCE_KEYS: {} }));
+jest.mock('@shared/utils/priceOracle', () => ({ getPriceOracle: jest.fn() }));
+jest.mock('../db', () => ({ db: { query: jest.fn() } }));
+jest.mock('../nonce/NonceManager', () => ({
+  ...jest.requireActual('../nonce/NonceManager'),
+  getNonceManager: () => mockNonceManager,
+}));
+jest.mock('../watcher/TransactionWatcher', () => ({ getTransactionWatcher: () => mockWatcher }));
+jest.mock('../simulation/TransactionSimulator', () => ({ getTransactionSimulator: () => mockSimulator }));
+jest.mock('../state/RouteStepStore', () => ({ RouteStepStore: jest.fn(() => mockStepStore) }));
+jest.mock('../gas/GasAbstractor', () => ({ GasAbstractor: jest.fn(() => mockGasAbstractor) }));
+jest.mock('../signing/TransactionSigner', () => ({ TransactionSigner: jest.fn(() => mockSigner) }));
+jest.mock('../retry/RetryManager', () => ({
+  RetryManager: jest.fn(() => ({
+    retry: jest.fn((_route: Route, _intentId: string, error: Error) => Promise.reject(error)),
+  })),
+}));
+jest.mock('../providers/DexCalldataProvider', () => ({ DexCalldataProvider: jest.fn() }));
+
+const query = db.query as jest.Mock;
+
+describe('ExecutionService', () => {
+  const wallet = ethers.Wallet.createRandom();
+
+  const step: RouteStep = {
+    type: 'transfer',
+    fromChain: 'ethereum',
+    toChain: 'ethereum',
+    fromToken: 'USDC',
+    toToken: 'USDC',
+    toTokenAddress: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48',
+    amount: '100000000',
+    provider: 'direct',
+    gasEstimate: 21000,
+    fee: 0,
+  };
+
+  const route = (steps: RouteStep[]) =>
+    ({ id: 'route-1', routeType: 'direct', steps }) as unknown as Route;
+
+  const state = (stepIndex: number, fields: Partial<RouteStepState>): RouteStepState => ({
+    routeId: 'route-1',
+    stepIndex,
+    chain: 'ethereum',
+    status: 'built',
+    updatedAt: new Date(),
+    ...fields,
+  });
+
+  const signTransfer = (nonce: number) =>
+    wallet.signTransaction({
+      to: step.toTokenAddress,
+      nonce,
+      chainId: 1,
+      type: 2,
+      gasLimit: 21000,
+      maxFeePerGas: 30000000000n,
+      maxPriorityFeePerGas: 1000000000n,
+      value: 0,
+    });
+
+  let service: ExecutionService;
+  let provider: { broadcastTransaction: jest.Mock; getTransaction: jest.Mock; getTransactionReceipt: jest.Mock };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    query.mockResolvedValue({ rows: [] });
+    mockWatcher.waitForConfirmation.mockImplementation((_chain: string, txHash: string) => Promise.resolve(txHash));
+
+    provider = {
+      broadcastTransaction: jest.fn((signedTx: string) => Promise.resolve({ hash: ethers.keccak256(signedTx) })),
+      getTransaction: jest.fn().mockResolvedValue(null),
+      getTransactionReceipt: jest.fn().mockResolvedValue(null),
+    };
+
+    service = new ExecutionService();
+    jest.spyOn(service as any, 'getProvider').mockReturnValue(provider);
+  });
+
+  describe('executeRoute', () => {
+    it('should skip steps already confirmed', async () => {
+      mockStepStore.load.mockResolvedValue(
+        new Map([
+          [0, state(0, { status: 'confirmed', txHash: '0xaaa' })],
+          [1, state(1, { status: 'confirmed', txHash: '0xbbb' })],
+        ])
+      );
+
+      const txHash = await service.executeRoute(route([step, step]), 'intent-1');
+
+      expect(txHash).toBe('0xbbb');
+      expect(provider.broadcastTransaction).not.toHaveBeenCalled();
+      expect(mockWatcher.waitForConfirmation).not.toHaveBeenCalled();
+      expect(mockGasAbstractor.getGasWallet).not.toHaveBeenCalled();
+    });
+
+    it('should wait for a broadcast step instead of sending it again', async () => {
+      mockStepStore.load.mockResolvedValue(new Map([[0, state(0, { status: 'broadcast', txHash: '0xccc' })]]));
+
+      const txHash = await service.executeRoute(route([step]), 'intent-1');
+
+      expect(txHash).toBe('0xccc');
+      expect(mockWatcher.waitForConfirmation).toHaveBeenCalledWith('ethereum', '0xccc');
+      expect(provider.broadcastTransaction).not.toHaveBeenCalled();
+      expect(mockStepStore.markConfirmed).toHaveBeenCalledWith('route-1', 0, '0xccc');
+    });
+
+    it('should re-send a signed step byte for byte', async () => {
+      const signedTx = await signTransfer(5);
+      const signedHash = ethers.keccak256(signedTx);
+      mockStepStore.load.mockResolvedValue(
+        new Map([[0, state(0, { status: 'signed', txHash: signedHash, signedTx })]])
+      );
+
+      const txHash = await service.executeRoute(route([step]), 'intent-1');
+
+      expect(txHash).toBe(signedHash);
+      expect(provider.broadcastTransaction).toHaveBeenCalledTimes(1);
+      expect(provider.broadcastTransaction).toHaveBeenCalledWith(signedTx);
+      expect(mockNonceManager.markBroadcast).toHaveBeenCalledWith('ethereum', wallet.address, 5);
+      expect(mockStepStore.markBroadcast).toHaveBeenCalledWith('route-1', 0);
+      expect(mockNonceManager.reserve).not.toHaveBeenCalled();
+    });
+
+    it('should build a signed step again once its nonce went to another transaction', async () => {
+      const lostTx = await signTransfer(5);
+      const rebuiltTx = await signTransfer(6);
+      mockStepStore.load.mockResolvedValue(
+        new Map([[0, state(0, { status: 'signed', txHash: ethers.keccak256(lostTx), signedTx: lostTx })]])
+      );
+      provider.broadcastTransaction.mockRejectedValueOnce(new Error('nonce too low'));
+
+      mockGasAbstractor.getGasWallet.mockResolvedValue({ address: wallet.address });
+      mockGasAbstractor.estimateGas.mockResolvedValue(21000);
+      mockGasAbstractor.getFeeEstimate.mockResolvedValue({
+        maxFeePerGas: 30000000000n,
+        maxPriorityFeePerGas: 1000000000n,
+      });
+      mockSimulator.simulate.mockResolvedValue({ gasLimit: 21000n });
+      mockNonceManager.reserve.mockResolvedValue(6);
+      mockSigner.sign.mockResolvedValue(rebuiltTx);
+
+      const txHash = await service.executeRoute(route([step]), 'intent-1');
+
+      expect(mockStepStore.markFailed).toHaveBeenCalledWith('route-1', 0, 'nonce too low');
+      expect(mockStepStore.markBuilt).toHaveBeenCalledWith('route-1', 0, 'ethereum');
+      expect(mockStepStore.markSigned).toHaveBeenCalledWith('route-1', 0, ethers.keccak256(rebuiltTx), rebuiltTx);
+      expect(provider.broadcastTransaction).toHaveBeenLastCalledWith(rebuiltTx);
+      expect(txHash).toBe(ethers.keccak256(rebuiltTx));
+    });
+
+    it('should keep a signed step whose re-send failed for another reason', async () => {
+      const signedTx = await signTransfer(5);
+      mockStepStore.load.mockResolvedValue(
+        new Map([[0, state(0, { status: 'signed', txHash: ethers.keccak256(signedTx), signedTx })]])
+      );
+      provider.broadcastTransaction.mockRejectedValueOnce(
+        Object.assign(new Error('request timed out'), { code: 'TIMEOUT' })
+      );
+
+      await expect(service.executeRoute(route([step]), 'intent-1')).rejects.toThrow('request timed out');
+
+      expect(mockStepStore.markFailed).not.toHaveBeenCalled();
+      expect(mockNonceManager.reserve).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('route outcome', () => {
+    const TRANSFER_TOPIC = ethers.id('Transfer(address,address,uint256)');
+    const swap: RouteStep = { ...step, type: 'swap', fromToken: 'ETH', expectedOutput: '100000000' };
+    const transferLog = (to: string, amount: bigint) => ({
+      address: step.toTokenAddress!.toLowerCase(),
+      topics: [TRANSFER_TOPIC, ethers.zeroPadValue(step.toTokenAddress!, 32), ethers.zeroPadValue(to, 32)],
+      data: ethers.toBeHex(amount, 32),
+    });
+
+    beforeEach(() => {
+      (getPriceOracle as jest.Mock).mockReturnValue({ getNativeTokenPrice: jest.fn().mockResolvedValue(2000) });
+      mockStepStore.load.mockResolvedValue(new Map([[0, state(0, { status: 'confirmed', txHash: '0xaaa' })]]));
+    });
+
+    it('should record what the final step delivered and the gas it paid, not the estimates', async () => {
+      provider.getTransactionReceipt.mockResolvedValue({
+        from: wallet.address,
+        fee: ethers.parseEther('0.0021'),
+        logs: [
+          transferLog(wallet.address, 99_400_000n),
+          transferLog('0x3333333333333333333333333333333333333333', 600_000n), // Protocol fee
+        ],
+      });
+
+      await service.executeRoute(route([swap]), 'intent-1');
+
+      expect(provider.getTransactionReceipt).toHaveBeenCalledWith('0xaaa');
+      const [, params] = query.mock.calls.find(([sql]) => sql.includes('actual_output'))!;
+      expect(params).toEqual(['completed', '0xaaa', '99400000', expect.closeTo(4.2, 6), 'route-1']);
+    });
+
+    it('should leave the outcome unmeasured when a receipt cannot be read', async () => {
+      await expect(service.executeRoute(route([swap]), 'intent-1')).resolves.toBe('0xaaa');
+
+      const [, params] = query.mock.calls.find(([sql]) => sql.includes('actual_output'))!;
+      expect(params).toEqual(['completed', '0xaaa', null, null, 'route-1']);
+    });
+  });
+
+  describe('isUncertainBroadcastError', () => {
+    it('should treat transport failures as uncertain', () => {
+      expect(isUncertainBroadcastError(Object.assign(new Error('x'), { code: 'NETWORK_ERROR' }))).toBe(true);
+      expect(isUncertainBroadcastError(Object.assign(new Error('x'), { code: 'TIMEOUT' }))).toBe(true);
+      expect(isUncertainBroadcastError(new Error('socket hang up'))).toBe(true);
+      expect(isUncertainBroadcastError(new Error('connect ECONNRESET 10.0.0.1:8545'))).toBe(true);
+    });
+
+    it('should treat node rejections as certain', () => {
+      expect(isUncertainBroadcastError(new Error('nonce too low'))).toBe(false);
+      expect(isUncertainBroadcastError(Object.assign(new Error('x'), { code: 'INSUFFICIENT_FUNDS' }))).toBe(false);
+    });
+  });
+});
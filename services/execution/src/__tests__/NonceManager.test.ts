@@ -0,0 +1,264 @@
+/**
+ * Tests for NonceManager
+ */
+
+import { getRedis, NONCE_KEYS } from '@shared/utils/redis';
+import { EvmSigner } from '@shared/utils/signer';
+import { NonceManager } from '../nonce/NonceManager';
+
+jest.mock('@shared/utils/redis', () => ({
+  ...jest.requireActual('@shared/utils/redis'),
+  getRedis: jest.fn(),
+}));
+
+const ADDRESS = '0x1111111111111111111111111111111111111111';
+const NEXT = NONCE_KEYS.next('base', ADDRESS);
+const RESERVED = NONCE_KEYS.reserved('base', ADDRESS);
+const LOCK = NONCE_KEYS.resyncLock('base', ADDRESS);
+
+/**
+ * The Redis commands and scripts the nonce manager uses, in memory. Each
+ * script runs to completion without yielding, as it does in Redis.
+ */
+class FakeRedis {
+  strings = new Map<string, string>();
+  sets = new Map<string, Map<string, number>>();
+
+  private zset(key: string) {
+    if (!this.sets.has(key)) this.sets.set(key, new Map());
+    return this.sets.get(key)!;
+  }
+
+  async get(key: string) {
+    return this.strings.get(key) ?? null;
+  }
+
+  async set(key: string, value: string, options: { NX?: boolean } = {}) {
+    if (options.NX && this.strings.has(key)) return null;
+    this.strings.set(key, value);
+    return 'OK';
+  }
+
+  async del(key: string) {
+    return this.strings.delete(key) ? 1 : 0;
+  }
+
+  async zAdd(
+    key: string,
+    { score, value }: { score: number; value: string },
+    options: { XX?: boolean } = {}
+  ) {
+    if (options.XX && !this.zset(key).has(value)) return 0;
+    this.zset(key).set(value, score);
+    return 1;
+  }
+
+  async zRem(key: string, values: string | string[]) {
+    for (const value of ([] as string[]).concat(values)) this.zset(key).delete(value);
+  }
+
+  async zScore(key: string, value: string) {
+    return this.zset(key).get(value) ?? null;
+  }
+
+  async zRange(key: string) {
+    return [...this.zset(key).keys()];
+  }
+
+  async eval(script: string, { keys, arguments: args }: { keys: string[]; arguments: string[] }) {
+    const current = this.strings.get(keys[0]);
+
+    if (script.includes("redis.call('ZADD'")) {
+      // Reserve
+      if (current === undefined) return -1;
+      this.strings.set(keys[0], (Number(current) + 1).toString());
+      this.zset(keys[1]).set(current, Number(args[0]));
+      return Number(current);
+    }
+    if (script.includes("redis.call('DECR'")) {
+      // Release
+      this.zset(keys[1]).delete(args[0]);
+      if (current !== (Number(args[0]) + 1).toString()) return 0;
+      this.strings.set(keys[0], args[0]);
+      return 1;
+    }
+    if (script.includes("redis.call('DEL'")) {
+      // Unlock
+      return current === args[0] ? Number(this.strings.delete(keys[0])) : 0;
+    }
+    // Advance
+    const next = Math.max(Number(current ?? -1), Number(args[0]));
+    this.strings.set(keys[0], next.toString());
+    return next;
+  }
+}
+
+describe('NonceManager', () => {
+  let redis: FakeRedis;
+  let chainNonce: number;
+  let sent: Array<{ nonce: number; to: string; maxFeePerGas?: bigint }>;
+  let wallet: EvmSigner;
+
+  beforeEach(() => {
+    redis = new FakeRedis();
+    (getRedis as jest.Mock).mockReturnValue(redis);
+
+    chainNonce = 9;
+    sent = [];
+    const provider = {
+      getTransactionCount: jest.fn(async () => chainNonce),
+      getFeeData: jest.fn(async () => ({
+        maxFeePerGas: 100n,
+        maxPriorityFeePerGas: 4n,
+        gasPrice: null,
+      })),
+    };
+    wallet = {
+      address: ADDRESS,
+      provider,
+      // The node accepts each transaction at the chain's next nonce
+      sendTransaction: jest.fn(async (tx: { nonce: number; to: string; maxFeePerGas?: bigint }) => {
+        sent.push(tx);
+        if (tx.nonce === chainNonce) chainNonce++;
+        return { hash: `0xtx${tx.nonce}` };
+      }),
+    } as unknown as EvmSigner;
+  });
+
+  const reserveSince = (nonce: number, msAgo: number) =>
+    redis.zAdd(RESERVED, { score: Date.now() - msAgo, value: nonce.toString() });
+
+  describe('reserve', () => {
+    it('should hand concurrent callers distinct nonces from the chain pending count', async () => {
+      const manager = new NonceManager();
+
+      const nonces = await Promise.all(
+        Array.from({ length: 5 }, () => manager.reserve('base', wallet))
+      );
+
+      expect([...nonces].sort((a, b) => a - b)).toEqual([9, 10, 11, 12, 13]);
+      expect(redis.strings.get(NEXT)).toBe('14');
+      expect(await redis.zRange(RESERVED)).toHaveLength(5);
+    });
+
+    it('should share the stored nonce between instances', async () => {
+      const first = await new NonceManager().reserve('base', wallet);
+      const second = await new NonceManager().reserve('base', wallet);
+
+      expect([first, second]).toEqual([9, 10]);
+    });
+  });
+
+  describe('handleFailure', () => {
+    it('should give back the latest nonce of a send that failed', async () => {
+      const manager = new NonceManager();
+      await manager.reserve('base', wallet);
+      const nonce = await manager.reserve('base', wallet);
+
+      await manager.handleFailure('base', wallet, nonce, new Error('insufficient funds for gas'));
+
+      expect(redis.strings.get(NEXT)).toBe('10');
+      expect(await redis.zRange(RESERVED)).toEqual(['9']);
+      await expect(manager.reserve('base', wallet)).resolves.toBe(10);
+    });
+
+    it('should leave an earlier failed nonce as a gap for the resync to fill', async () => {
+      const manager = new NonceManager();
+      const nonce = await manager.reserve('base', wallet);
+      await manager.reserve('base', wallet);
+
+      await manager.handleFailure('base', wallet, nonce, new Error('insufficient funds for gas'));
+
+      expect(redis.strings.get(NEXT)).toBe('11');
+      expect(await redis.zRange(RESERVED)).toEqual(['10']);
+    });
+
+    it('should catch up with the chain when the nonce was already used', async () => {
+      const manager = new NonceManager();
+      await redis.set(NEXT, '5');
+      const nonce = await manager.reserve('base', wallet);
+
+      await manager.handleFailure(
+        'base',
+        wallet,
+        nonce,
+        new Error('nonce too low: next nonce 9, tx nonce 5')
+      );
+
+      expect(redis.strings.get(NEXT)).toBe('9');
+      expect(await redis.zRange(RESERVED)).toEqual([]);
+      expect(sent).toHaveLength(0);
+      await expect(manager.reserve('base', wallet)).resolves.toBe(9);
+    });
+  });
+
+  describe('resync', () => {
+    it('should leave a gap alone while its nonce is still in flight', async () => {
+      const manager = new NonceManager({ inFlightGraceMs: 120000 });
+      await redis.set(NEXT, '11');
+      await reserveSince(9, 60000);
+      await reserveSince(10, 60000);
+
+      await manager.resync('base', wallet);
+
+      expect(sent).toHaveLength(0);
+    });
+
+    it('should fill a gap once its nonce has been idle past the grace period', async () => {
+      const manager = new NonceManager({ inFlightGraceMs: 120000 });
+      await redis.set(NEXT, '11');
+      await reserveSince(9, 120001);
+      await reserveSince(10, 60000); // Broadcast, but stuck behind 9
+
+      await manager.resync('base', wallet);
+
+      expect(sent).toEqual([
+        expect.objectContaining({
+          to: ADDRESS,
+          nonce: 9,
+          value: 0n,
+          maxFeePerGas: 125n,
+          maxPriorityFeePerGas: 5n,
+        }),
+      ]);
+      expect(await redis.zRange(RESERVED)).toEqual(['10']);
+    });
+
+    it('should fill no more gaps than the cap per resync', async () => {
+      const manager = new NonceManager({ maxGapFills: 2 });
+      await redis.set(NEXT, '14'); // Nonces 9-13 were handed out and never broadcast
+
+      await manager.resync('base', wallet);
+
+      expect(sent.map((tx) => tx.nonce)).toEqual([9, 10]);
+      expect(chainNonce).toBe(11);
+    });
+
+    it('should skip the resync while another process holds the lock', async () => {
+      await redis.set(NEXT, '14');
+      await redis.set(LOCK, 'other-host-1:token');
+
+      await new NonceManager().resync('base', wallet);
+
+      expect(sent).toHaveLength(0);
+      expect(redis.strings.get(LOCK)).toBe('other-host-1:token');
+    });
+
+    it('should release its lock but not one another process took over', async () => {
+      const manager = new NonceManager();
+      await redis.set(NEXT, '9');
+
+      await manager.resync('base', wallet);
+      expect(redis.strings.has(LOCK)).toBe(false);
+
+      // The lock expires mid-resync and another process takes it
+      (wallet.provider!.getTransactionCount as jest.Mock).mockImplementationOnce(async () => {
+        await redis.set(LOCK, 'other-host-1:token');
+        return chainNonce;
+      });
+      await manager.resync('base', wallet);
+
+      expect(redis.strings.get(LOCK)).toBe('other-host-1:token');
+    });
+  });
+});
@@ -0,0 +1,90 @@
+/**
+ * Tests for RouteStepStore
+ */
+
+import { RouteStepStore } from '../state/RouteStepStore';
+import { db } from '../db';
+
+jest.mock('../db', () => ({ db: { query: jest.fn() } }));
+
+const query = db.query as jest.Mock;
+
+describe('RouteStepStore', () => {
+  let store: RouteStepStore;
+
+  beforeEach(() => {
+    query.mockReset();
+    query.mockResolvedValue({ rows: [] });
+    store = new RouteStepStore();
+  });
+
+  describe('load', () => {
+    it('should map recorded steps by index', async () => {
+      const updatedAt = new Date();
+      query.mockResolvedValue({
+        rows: [
+          { route_id: 'route-1', step_index: 0, chain: 'base', status: 'confirmed', tx_hash: '0xaa', signed_tx: null, error_message: null, updated_at: updatedAt },
+          { route_id: 'route-1', step_index: 1, chain: 'base', status: 'signed', tx_hash: '0xbb', signed_tx: '0x02f8', error_message: null, updated_at: updatedAt },
+        ],
+      });
+
+      const states = await store.load('route-1');
+
+      expect(query).toHaveBeenCalledWith(expect.stringContaining('FROM route_steps'), ['route-1']);
+      expect(states.get(0)).toEqual({
+        routeId: 'route-1',
+        stepIndex: 0,
+        chain: 'base',
+        status: 'confirmed',
+        txHash: '0xaa',
+        signedTx: undefined,
+        error: undefined,
+        updatedAt,
+      });
+      expect(states.get(1)).toMatchObject({ status: 'signed', txHash: '0xbb', signedTx: '0x02f8' });
+    });
+  });
+
+  describe('markBuilt', () => {
+    it('should clear anything recorded for an earlier attempt', async () => {
+      await store.markBuilt('route-1', 2, 'ethereum');
+
+      const [sql, params] = query.mock.calls[0];
+      expect(sql).toContain('ON CONFLICT (route_id, step_index) DO UPDATE');
+      expect(sql).toContain('tx_hash = NULL, signed_tx = NULL, error_message = NULL');
+      expect(params).toEqual(['route-1', 2, 'ethereum']);
+    });
+  });
+
+  describe('state updates', () => {
+    it('should record the signed transaction with its hash', async () => {
+      await store.markSigned('route-1', 0, '0xhash', '0xsigned');
+
+      const [sql, params] = query.mock.calls[0];
+      expect(sql).toContain('SET status = $3, updated_at = NOW(), tx_hash = $4, signed_tx = $5');
+      expect(params).toEqual(['route-1', 0, 'signed', '0xhash', '0xsigned']);
+    });
+
+    it('should drop the signed transaction once confirmed', async () => {
+      await store.markConfirmed('route-1', 0, '0xmined');
+
+      const [sql, params] = query.mock.calls[0];
+      expect(sql).toContain('tx_hash = $4, signed_tx = $5');
+      expect(params).toEqual(['route-1', 0, 'confirmed', '0xmined', null]);
+    });
+
+    it('should keep the hash when marked broadcast', async () => {
+      await store.markBroadcast('route-1', 1);
+
+      const [sql, params] = query.mock.calls[0];
+      expect(sql).not.toContain('tx_hash');
+      expect(params).toEqual(['route-1', 1, 'broadcast']);
+    });
+
+    it('should record why a step failed', async () => {
+      await store.markFailed('route-1', 1, 'nonce too low');
+
+      expect(query.mock.calls[0][1]).toEqual(['route-1', 1, 'failed', 'nonce too low']);
+    });
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * Tests for TransactionSimulator
+ */
+
+import { AbiCoder, Interface, JsonRpcProvider, parseEther } from 'ethers';
+import { TransactionSimulator, decodeRevert } from '../simulation/TransactionSimulator';
+
+const coder = AbiCoder.defaultAbiCoder();
+const routerErrors = new Interface([
+  'error ReturnAmountIsNotEnough(uint256 result, uint256 minReturn)',
+  'error SwapExpired()',
+]);
+
+const errorString = (reason: string) => '0x08c379a0' + coder.encode(['string'], [reason]).slice(2);
+const panic = (code: number) => '0x4e487b71' + coder.encode(['uint256'], [code]).slice(2);
+
+const callException = (data: string | null, message = 'execution reverted') =>
+  Object.assign(new Error(message), { code: 'CALL_EXCEPTION', data });
+
+describe('decodeRevert', () => {
+  it('should decode a router custom error with its arguments', () => {
+    const data = routerErrors.encodeErrorResult('ReturnAmountIsNotEnough', [90n, 100n]);
+
+    expect(decodeRevert(data)).toBe('ReturnAmountIsNotEnough(90, 100)');
+  });
+
+  it('should decode a custom error without arguments by name', () => {
+    expect(decodeRevert(routerErrors.encodeErrorResult('SwapExpired', []))).toBe('SwapExpired');
+  });
+
+  it('should decode Error(string)', () => {
+    expect(decodeRevert(errorString('UniswapV2Router: EXPIRED'))).toBe('UniswapV2Router: EXPIRED');
+  });
+
+  it('should decode Panic(uint256)', () => {
+    expect(decodeRevert(panic(0x11))).toMatch(/overflow/i);
+  });
+
+  it('should describe a revert without data', () => {
+    expect(decodeRevert(null)).toMatch(/missing revert data/i);
+  });
+});
+
+describe('TransactionSimulator', () => {
+  const tx = {
+    from: '0x1111111111111111111111111111111111111111',
+    to: '0x2222222222222222222222222222222222222222',
+    data: '0x',
+  };
+
+  let send: jest.Mock;
+  let simulator: TransactionSimulator;
+
+  beforeEach(() => {
+    send = jest.fn();
+    const provider = { send, getRpcTransaction: (request: object) => request } as unknown as JsonRpcProvider;
+    simulator = new TransactionSimulator({ providers: { base: provider } });
+  });
+
+  const rejectCallWith = (error: Error) => {
+    send.mockImplementation((method: string) =>
+      method === 'eth_call' ? Promise.reject(error) : Promise.resolve('0x5208')
+    );
+  };
+
+  it('should return the estimated gas with headroom', async () => {
+    send.mockImplementation((method: string) => Promise.resolve(method === 'eth_call' ? '0x' : '0x5208'));
+
+    const result = await simulator.simulate('base', tx);
+
+    expect(result.gasLimit).toBe(25200n); // 21000 * 120%
+    expect(result.balanceChanges).toBeUndefined();
+  });
+
+  it.each([
+    ['Error("STF")', 'APPROVAL_REQUIRED', errorString('STF')],
+    ['an exceeded ERC20 balance', 'INSUFFICIENT_BALANCE', errorString('ERC20: transfer amount exceeds balance')],
+    ['ReturnAmountIsNotEnough', 'SLIPPAGE_EXCEEDED', routerErrors.encodeErrorResult('ReturnAmountIsNotEnough', [90n, 100n])],
+    ['INSUFFICIENT_OUTPUT_AMOUNT', 'SLIPPAGE_EXCEEDED', errorString('UniswapV2Router: INSUFFICIENT_OUTPUT_AMOUNT')],
+    ['SwapExpired', 'DEADLINE_EXCEEDED', routerErrors.encodeErrorResult('SwapExpired', [])],
+    ['an arithmetic panic', 'CONTRACT_ERROR', panic(0x11)],
+  ])('should classify a revert with %s as %s', async (_label, code, data) => {
+    rejectCallWith(callException(data));
+
+    await expect(simulator.simulate('base', tx)).rejects.toThrow(new RegExp(`^${code}: simulation reverted`));
+  });
+
+  it('should classify a sender without gas money', async () => {
+    rejectCallWith(Object.assign(new Error('insufficient funds for gas * price + value'), { code: 'SERVER_ERROR' }));
+
+    await expect(simulator.simulate('base', tx)).rejects.toThrow(/^INSUFFICIENT_FUNDS_FOR_GAS:/);
+  });
+
+  it('should report other node errors as retryable', async () => {
+    rejectCallWith(Object.assign(new Error('upstream timeout'), { code: 'SERVER_ERROR' }));
+
+    await expect(simulator.simulate('base', tx)).rejects.toThrow(/^RPC_ERROR:/);
+  });
+
+  it('should report a failed gas estimate after a successful call', async () => {
+    send.mockImplementation((method: string) =>
+      method === 'eth_call' ? Promise.resolve('0x') : Promise.reject(new Error('gas required exceeds allowance'))
+    );
+
+    await expect(simulator.simulate('base', tx)).rejects.toThrow(/^GAS_ESTIMATION_FAILED:/);
+  });
+});
+
+// Runs against an anvil node, e.g. SIMULATION_FORK_RPC_URL=http://127.0.0.1:8545 (anvil or anvil --fork-url ...)
+const forkUrl = process.env.SIMULATION_FORK_RPC_URL;
+
+(forkUrl ? describe : describe.skip)('TransactionSimulator on a fork', () => {
+  // anvil's first default account, funded on every anvil node
+  const sender = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266';
+  const recipient = '0x000000000000000000000000000000000000dEaD';
+
+  it('should measure balance changes and revert the fork afterwards', async () => {
+    const fork = new JsonRpcProvider(forkUrl);
+    const simulator = new TransactionSimulator({ providers: { base: fork }, forks: { base: fork } });
+    const value = parseEther('1');
+    const before = await fork.getBalance(recipient);
+
+    try {
+      const result = await simulator.simulate('base', { from: sender, to: recipient, value }, [
+        { account: sender, minChange: -value },
+        { account: recipient, minChange: value },
+      ]);
+
+      expect(result.balanceChanges?.map((changed) => changed.change)).toEqual([-value, value]);
+      expect(await fork.getBalance(recipient)).toBe(before);
+    } finally {
+      fork.destroy();
+    }
+  });
+});
@@ -0,0 +1,64 @@
+/**
+ * Tests for TransactionWatcher
+ */
+
+import { TransactionWatcher } from '../watcher/TransactionWatcher';
+import { db } from '../db';
+
+jest.mock('@shared/utils/redis', () => ({ getRedis: jest.fn(), NONCE_KEYS: {} }));
+jest.mock('@shared/utils/priceOracle', () => ({ getPriceOracle: jest.fn() }));
+jest.mock('../db', () => ({ db: { query: jest.fn() } }));
+jest.mock('../gas/GasAbstractor', () => ({ GasAbstractor: jest.fn() }));
+
+const query = db.query as jest.Mock;
+
+const GAS_WALLET = '0x1111111111111111111111111111111111111111';
+
+describe('TransactionWatcher', () => {
+  const attempt = {
+    id: 'log-1',
+    payment_intent_id: 'pi-1',
+    chain: 'base',
+    tx_hash: '0xabc',
+    tx_type: 'execution',
+    status: 'pending',
+    from_address: GAS_WALLET,
+    to_address: '0x2222222222222222222222222222222222222222',
+    nonce: 7,
+    created_at: new Date().toISOString(),
+  };
+
+  let getTransactionReceipt: jest.Mock;
+
+  const watcher = (config: object) => {
+    const gasAbstractor = {
+      getGasWallet: jest.fn().mockResolvedValue({ address: GAS_WALLET, provider: { getTransactionReceipt } }),
+    };
+    return new TransactionWatcher(gasAbstractor as any, { pollIntervalMs: 1, ...config });
+  };
+
+  beforeEach(() => {
+    query.mockReset().mockResolvedValue({ rows: [attempt] });
+    getTransactionReceipt = jest.fn().mockResolvedValue(null);
+  });
+
+  it('should return the hash once the transaction has enough confirmations', async () => {
+    getTransactionReceipt.mockResolvedValue({
+      status: 1,
+      gasUsed: 21000n,
+      blockNumber: 100,
+      confirmations: () => Promise.resolve(3),
+    });
+
+    await expect(watcher({}).waitForConfirmation('base', '0xabc')).resolves.toBe('0xabc');
+  });
+
+  it('should give up with a retryable TIMEOUT error after the maximum wait', async () => {
+    await expect(watcher({ maxWaitMs: 20 }).waitForConfirmation('base', '0xabc')).rejects.toThrow(
+      /^TIMEOUT: 0xabc on base not confirmed within/
+    );
+
+    // Left pending for the retry to wait on
+    expect(query.mock.calls.some(([sql]) => sql.includes("status = 'replaced'"))).toBe(false);
+  });
+});
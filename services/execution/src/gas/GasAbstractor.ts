@@ -4,14 +4,17 @@
  * and real-time gas price monitoring
  */
 
-import { Wallet, ethers, JsonRpcProvider } from 'ethers';
+import { ethers, JsonRpcProvider } from 'ethers';
 import { RouteStep, Chain } from '@shared/types';
 import { CHAIN_CONFIGS } from '@shared/constants/chains';
 import { logger } from '@shared/utils/logger';
 import { getPriceOracle } from '@shared/utils/priceOracle';
 import { db } from '../db';
 import { getRedis } from '@shared/utils/redis';
+import { EvmSigner, getSigner, isSignerConfigured } from '@shared/utils/signer';
 import { DexCalldataProvider } from '../providers/DexCalldataProvider';
+import { getNonceManager } from '../nonce/NonceManager';
+import { getTransactionSimulator } from '../simulation/TransactionSimulator';
 
 // Gas reserve configuration
 interface GasReserveConfig {
@@ -44,6 +47,26 @@ interface RebalanceTransaction {
   completedAt?: Date;
 }
 
+// EIP-1559 fees for a transaction sent now
+export interface FeeEstimate {
+  maxFeePerGas: bigint;
+  maxPriorityFeePerGas: bigint;
+  baseFeePerGas: bigint;       // Expected base fee of the next block
+}
+
+export type FeeSpeed = 'slow' | 'standard' | 'fast';
+
+// Percentile of recent priority fees paid, per speed
+const FEE_HISTORY_PERCENTILES: Record<FeeSpeed, number> = {
+  slow: 10,
+  standard: 50,
+  fast: 90,
+};
+const FEE_HISTORY_BLOCKS = 20;
+const FEE_ESTIMATE_TTL_MS = 15000;
+// Headroom for the base fee rising over the next blocks (+12.5% each)
+const BASE_FEE_MULTIPLIER = 2n;
+
 // Gas wallet info
 interface GasWalletInfo {
   chain: Chain;
@@ -106,11 +129,12 @@ const DEFAULT_GAS_RESERVES: Record<Chain, GasReserveConfig> = {
 };
 
 export class GasAbstractor {
-  private gasWallets: Map<Chain, Wallet> = new Map();
+  private gasWallets: Map<Chain, string> = new Map(); // Signer name per chain
   private providers: Map<Chain, JsonRpcProvider> = new Map();
   private gasReserves: Map<Chain, GasReserveConfig> = new Map();
   private balanceCache: Map<Chain, { balance: string; timestamp: number }> = new Map();
   private gasPriceCache: Map<Chain, { price: bigint; timestamp: number }> = new Map();
+  private feeEstimateCache: Map<string, { estimate: FeeEstimate; timestamp: number }> = new Map();
   private rebalancingInterval?: NodeJS.Timeout;
   private monitoringInterval?: NodeJS.Timeout;
   private isRebalancing: boolean = false;
@@ -122,37 +146,27 @@ export class GasAbstractor {
   }
 
   /**
-   * Initialize gas wallets from environment
+   * Resolve which signer each chain's gas wallet uses
    */
   private initializeWallets(): void {
-    // EVM chains use the same wallet (different derived addresses in production)
-    const evmPrivateKey = process.env.GAS_WALLET_PRIVATE_KEY || '';
-    
-    if (evmPrivateKey) {
+    // EVM chains share the GAS_WALLET signer (different derived addresses in production)
+    if (isSignerConfigured('GAS_WALLET')) {
       const evmChains: Chain[] = ['ethereum', 'arbitrum', 'base', 'polygon', 'optimism'];
       for (const chain of evmChains) {
-        try {
-          this.gasWallets.set(chain, new Wallet(evmPrivateKey));
-        } catch (error) {
-          logger.error(`Failed to initialize gas wallet for ${chain}`, { error });
-        }
+        this.gasWallets.set(chain, 'GAS_WALLET');
       }
     }
 
-    // Chain-specific wallets (if different keys needed)
-    const chainKeys: Partial<Record<Chain, string>> = {
-      ethereum: process.env.ETH_GAS_WALLET_PRIVATE_KEY,
-      arbitrum: process.env.ARB_GAS_WALLET_PRIVATE_KEY,
-      base: process.env.BASE_GAS_WALLET_PRIVATE_KEY,
+    // Chain-specific signers (if different keys needed)
+    const chainSigners: Partial<Record<Chain, string>> = {
+      ethereum: 'ETH_GAS_WALLET',
+      arbitrum: 'ARB_GAS_WALLET',
+      base: 'BASE_GAS_WALLET',
     };
 
-    for (const [chain, key] of Object.entries(chainKeys)) {
-      if (key && !this.gasWallets.has(chain as Chain)) {
-        try {
-          this.gasWallets.set(chain as Chain, new Wallet(key));
-        } catch (error) {
-          logger.error(`Failed to initialize gas wallet for ${chain}`, { error });
-        }
+    for (const [chain, name] of Object.entries(chainSigners)) {
+      if (name && isSignerConfigured(name) && !this.gasWallets.has(chain as Chain)) {
+        this.gasWallets.set(chain as Chain, name);
       }
     }
 
@@ -236,19 +250,14 @@ export class GasAbstractor {
   /**
    * Get gas wallet for a chain
    */
-  async getGasWallet(chain: Chain): Promise<Wallet> {
-    const wallet = this.gasWallets.get(chain);
-    if (!wallet) {
+  async getGasWallet(chain: Chain): Promise<EvmSigner> {
+    const name = this.gasWallets.get(chain);
+    if (!name) {
       throw new Error(`No gas wallet configured for chain: ${chain}`);
     }
 
     // Connect to provider
-    const provider = this.providers.get(chain);
-    if (provider) {
-      return wallet.connect(provider);
-    }
-
-    return wallet;
+    return new EvmSigner(await getSigner(name), chain, this.providers.get(chain));
   }
 
   /**
@@ -299,9 +308,10 @@ export class GasAbstractor {
     }
 
     try {
-      const feeData = await provider.getFeeData();
-      const gasPrice = feeData.gasPrice || this.getDefaultGasPrice(chain);
-      
+      // What a transaction pays per gas: the base fee plus its tip
+      const fees = await this.getFeeEstimate(chain);
+      const gasPrice = fees.baseFeePerGas + fees.maxPriorityFeePerGas;
+
       this.gasPriceCache.set(chain, {
         price: gasPrice,
         timestamp: Date.now(),
@@ -314,6 +324,60 @@ export class GasAbstractor {
     }
   }
 
+  /**
+   * EIP-1559 fees from eth_feeHistory: the tip is the median over recent
+   * blocks of the speed's reward percentile, and the fee cap leaves room for
+   * the base fee to double. Falls back to the node's own suggestion.
+   */
+  async getFeeEstimate(chain: Chain, speed: FeeSpeed = 'standard'): Promise<FeeEstimate> {
+    const cacheKey = `${chain}:${speed}`;
+    const cached = this.feeEstimateCache.get(cacheKey);
+    if (cached && Date.now() - cached.timestamp < FEE_ESTIMATE_TTL_MS) {
+      return cached.estimate;
+    }
+
+    const provider = this.providers.get(chain);
+    if (!provider) {
+      throw new Error(`No provider for ${chain}`);
+    }
+
+    let estimate: FeeEstimate;
+    try {
+      const history: { baseFeePerGas: string[]; reward?: string[][] } = await provider.send('eth_feeHistory', [
+        ethers.toQuantity(FEE_HISTORY_BLOCKS),
+        'latest',
+        [FEE_HISTORY_PERCENTILES[speed]],
+      ]);
+
+      // The last base fee is the one predicted for the next block
+      const baseFeePerGas = BigInt(history.baseFeePerGas[history.baseFeePerGas.length - 1]);
+      const rewards = (history.reward || [])
+        .map((reward) => BigInt(reward[0]))
+        .sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+      const maxPriorityFeePerGas = rewards.length > 0 ? rewards[Math.floor(rewards.length / 2)] : 0n;
+
+      estimate = {
+        baseFeePerGas,
+        maxPriorityFeePerGas,
+        maxFeePerGas: baseFeePerGas * BASE_FEE_MULTIPLIER + maxPriorityFeePerGas,
+      };
+    } catch (error) {
+      logger.warn('eth_feeHistory failed, using node fee data', { chain, error });
+      const feeData = await provider.getFeeData();
+      const gasPrice = feeData.gasPrice ?? this.getDefaultGasPrice(chain);
+      const maxPriorityFeePerGas = feeData.maxPriorityFeePerGas ?? 0n;
+
+      estimate = {
+        baseFeePerGas: gasPrice > maxPriorityFeePerGas ? gasPrice - maxPriorityFeePerGas : gasPrice,
+        maxPriorityFeePerGas,
+        maxFeePerGas: feeData.maxFeePerGas ?? gasPrice,
+      };
+    }
+
+    this.feeEstimateCache.set(cacheKey, { estimate, timestamp: Date.now() });
+    return estimate;
+  }
+
   /**
    * Get balance for a chain
    */
@@ -329,14 +393,14 @@ export class GasAbstractor {
       };
     }
 
-    const wallet = this.gasWallets.get(chain);
     const provider = this.providers.get(chain);
-    
-    if (!wallet || !provider) {
+
+    if (!this.gasWallets.has(chain) || !provider) {
       return { balance: '0', balanceUSD: 0 };
     }
 
     try {
+      const wallet = await this.getGasWallet(chain);
       const balance = await provider.getBalance(wallet.address);
       const balanceStr = balance.toString();
       
@@ -378,8 +442,8 @@ export class GasAbstractor {
           }
         }
 
-        const wallet = this.gasWallets.get(chain)!;
-        
+        const wallet = await this.getGasWallet(chain);
+
         const info: GasWalletInfo = {
           chain,
           address: wallet.address,
@@ -598,14 +662,12 @@ export class GasAbstractor {
     const isL1 = fromChain === 'ethereum';
     const lzFee = isL1 ? ethers.parseEther('0.01') : ethers.parseEther('0.001');
 
-    // Build and send the transaction
+    // Simulate, then send the transaction
+    const request = { to: routerAddress, data: calldata, value: lzFee + amountWei };
+    const { gasLimit } = await getTransactionSimulator().simulate(fromChain, { ...request, from: wallet.address });
+
     const connectedWallet = wallet.connect(provider);
-    const tx = await connectedWallet.sendTransaction({
-      to: routerAddress,
-      data: calldata,
-      value: lzFee + amountWei,
-      gasLimit: 500000n,
-    });
+    const tx = await getNonceManager().sendTransaction(fromChain, connectedWallet, { ...request, gasLimit });
 
     logger.info('Bridge transaction submitted', {
       txHash: tx.hash,
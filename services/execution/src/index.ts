@@ -1,23 +1,47 @@
 // Main entry point for execution service
-import { ExecutionService } from './ExecutionService';
-import { logger } from '@shared/utils/logger';
-import dotenv from 'dotenv';
 
+// Load environment variables FIRST before any other imports
+import dotenv from 'dotenv';
 dotenv.config();
 
+import { ExecutionService } from './ExecutionService';
+import { DepositSweeper } from './sweep/DepositSweeper';
+import { NonceManager, getNonceManager } from './nonce/NonceManager';
+import { TransactionWatcher, getTransactionWatcher } from './watcher/TransactionWatcher';
+import { TransactionSimulator, getTransactionSimulator } from './simulation/TransactionSimulator';
+import { logger } from '@shared/utils/logger';
+
 async function main() {
   logger.info('Starting execution service...');
 
   const executionService = new ExecutionService();
 
+  // Resync gas wallet nonces and fill gaps left by failed sends
+  const nonceManager = getNonceManager();
+  nonceManager.start();
+
+  // Send the transaction cancellations operators request
+  const transactionWatcher = getTransactionWatcher();
+  transactionWatcher.start();
+
+  // Consolidate closed intents' deposit addresses into the treasury
+  const depositSweeper = new DepositSweeper();
+  depositSweeper.start();
+
   // Handle graceful shutdown
   process.on('SIGINT', async () => {
     logger.info('Received SIGINT, shutting down gracefully...');
+    depositSweeper.stop();
+    nonceManager.stop();
+    transactionWatcher.stop();
     process.exit(0);
   });
 
   process.on('SIGTERM', async () => {
     logger.info('Received SIGTERM, shutting down gracefully...');
+    depositSweeper.stop();
+    nonceManager.stop();
+    transactionWatcher.stop();
     process.exit(0);
   });
 
@@ -45,4 +69,13 @@ if (require.main === module) {
   main();
 }
 
-export { ExecutionService };
+export {
+  ExecutionService,
+  DepositSweeper,
+  NonceManager,
+  getNonceManager,
+  TransactionWatcher,
+  getTransactionWatcher,
+  TransactionSimulator,
+  getTransactionSimulator,
+};
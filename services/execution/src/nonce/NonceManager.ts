@@ -0,0 +1,325 @@
+/**
+ * Nonce Manager
+ * Hands out nonces per chain and sending wallet from Redis, so concurrent
+ * executions in any number of processes never sign two transactions with
+ * the same nonce. Reserved nonces are tracked until the chain has seen
+ * them; a periodic resync catches up with transactions sent elsewhere and
+ * fills gaps left by reservations that were never broadcast (or were
+ * dropped) with no-op self-transfers, which would otherwise hold up every
+ * later transaction from the wallet.
+ */
+
+import crypto from 'crypto';
+import os from 'os';
+import { TransactionRequest, TransactionResponse } from 'ethers';
+import { Chain } from '@shared/types';
+import { logger } from '@shared/utils/logger';
+import { getRedis, NONCE_KEYS } from '@shared/utils/redis';
+import { EvmSigner } from '@shared/utils/signer';
+
+interface NonceManagerConfig {
+  resyncIntervalMs: number;
+  inFlightGraceMs: number;
+  resyncLockMs: number;
+  maxGapFills: number;
+  gapFillFeeBumpPercent: bigint;
+}
+
+const DEFAULT_NONCE_CONFIG: NonceManagerConfig = {
+  resyncIntervalMs: 60000,      // Check tracked wallets for gaps every minute
+  inFlightGraceMs: 120000,      // A reserved nonce not on chain after this long is a gap
+  resyncLockMs: 60000,
+  maxGapFills: 10,              // Per resync, so one bad run can't drain the wallet
+  gapFillFeeBumpPercent: 125n,  // Enough to replace a stuck transaction at the same nonce
+};
+
+// Hand out the next nonce and record it as reserved; -1 if the wallet was never synced
+const RESERVE_SCRIPT = `
+  local nonce = redis.call('GET', KEYS[1])
+  if not nonce then
+    return -1
+  end
+  redis.call('INCR', KEYS[1])
+  redis.call('ZADD', KEYS[2], ARGV[1], nonce)
+  return tonumber(nonce)`;
+
+// Give back an unused nonce; only the latest one can be taken back, others become gaps
+const RELEASE_SCRIPT = `
+  redis.call('ZREM', KEYS[2], ARGV[1])
+  if redis.call('GET', KEYS[1]) == tostring(tonumber(ARGV[1]) + 1) then
+    redis.call('DECR', KEYS[1])
+    return 1
+  end
+  return 0`;
+
+// Move the next nonce up to the chain's pending count, never down
+const ADVANCE_SCRIPT = `
+  local current = tonumber(redis.call('GET', KEYS[1]) or '-1')
+  local pending = tonumber(ARGV[1])
+  if current < pending then
+    redis.call('SET', KEYS[1], pending)
+    return pending
+  end
+  return current`;
+
+// Release a lock only while it still holds the caller's token
+const UNLOCK_SCRIPT = `
+  if redis.call('GET', KEYS[1]) == ARGV[1] then
+    return redis.call('DEL', KEYS[1])
+  end
+  return 0`;
+
+export class NonceManager {
+  private config: NonceManagerConfig;
+  private instanceId = `${os.hostname()}-${process.pid}`;
+  private wallets: Map<string, { chain: Chain; wallet: EvmSigner }> = new Map();
+  private resyncInterval?: NodeJS.Timeout;
+
+  constructor(config: Partial<NonceManagerConfig> = {}) {
+    this.config = { ...DEFAULT_NONCE_CONFIG, ...config };
+  }
+
+  /**
+   * Periodically resync every wallet a nonce was reserved for
+   */
+  start(): void {
+    this.resyncInterval = setInterval(async () => {
+      for (const { chain, wallet } of this.wallets.values()) {
+        try {
+          await this.resync(chain, wallet);
+        } catch (error) {
+          logger.error('Nonce resync failed', {
+            chain,
+            address: wallet.address,
+            error: (error as Error).message,
+          });
+        }
+      }
+    }, this.config.resyncIntervalMs);
+
+    logger.info('Nonce manager started');
+  }
+
+  stop(): void {
+    if (this.resyncInterval) {
+      clearInterval(this.resyncInterval);
+      this.resyncInterval = undefined;
+    }
+  }
+
+  /**
+   * Reserve the next nonce for a wallet. The caller must follow up with
+   * markBroadcast or handleFailure.
+   */
+  async reserve(chain: Chain, wallet: EvmSigner): Promise<number> {
+    const address = wallet.address.toLowerCase();
+    this.wallets.set(`${chain}:${address}`, { chain, wallet });
+
+    let nonce = await this.evalReserve(chain, address);
+    if (nonce < 0) {
+      // First use of this wallet anywhere: start from the chain's pending count
+      const pending = await this.getPendingCount(wallet);
+      await getRedis().set(NONCE_KEYS.next(chain, address), pending.toString(), { NX: true });
+      nonce = await this.evalReserve(chain, address);
+      if (nonce < 0) {
+        throw new Error(`Nonce for ${address} on ${chain} could not be initialized`);
+      }
+    }
+
+    logger.debug('Nonce reserved', { chain, address, nonce });
+    return nonce;
+  }
+
+  /**
+   * Record that the transaction using a nonce was accepted by the node
+   */
+  async markBroadcast(chain: Chain, address: string, nonce: number): Promise<void> {
+    // Still tracked until the chain's pending count passes it, in case it is dropped
+    await getRedis().zAdd(
+      NONCE_KEYS.reserved(chain, address.toLowerCase()),
+      { score: Date.now(), value: nonce.toString() },
+      { XX: true }
+    );
+  }
+
+  /**
+   * Handle a transaction that could not be sent with its reserved nonce.
+   * A nonce the chain has already used means the stored nonce fell behind,
+   * so the wallet is resynced; any other nonce is given back.
+   */
+  async handleFailure(chain: Chain, wallet: EvmSigner, nonce: number, error: Error): Promise<void> {
+    const address = wallet.address.toLowerCase();
+
+    try {
+      if (isNonceError(error)) {
+        logger.warn('Nonce already used on chain, resyncing', { chain, address, nonce });
+        await getRedis().zRem(NONCE_KEYS.reserved(chain, address), nonce.toString());
+        await this.resync(chain, wallet);
+        return;
+      }
+
+      await getRedis().eval(RELEASE_SCRIPT, {
+        keys: [NONCE_KEYS.next(chain, address), NONCE_KEYS.reserved(chain, address)],
+        arguments: [nonce.toString()],
+      });
+    } catch (releaseError) {
+      // The periodic resync fills the gap if this nonce can't be given back
+      logger.error('Failed to release nonce', {
+        chain,
+        address,
+        nonce,
+        error: (releaseError as Error).message,
+      });
+    }
+  }
+
+  /**
+   * Send a transaction from a wallet with a reserved nonce
+   */
+  async sendTransaction(chain: Chain, wallet: EvmSigner, tx: TransactionRequest): Promise<TransactionResponse> {
+    const nonce = await this.reserve(chain, wallet);
+
+    try {
+      const response = await wallet.sendTransaction({ ...tx, nonce });
+      await this.markBroadcast(chain, wallet.address, nonce);
+      return response;
+    } catch (error) {
+      await this.handleFailure(chain, wallet, nonce, error as Error);
+      throw error;
+    }
+  }
+
+  /**
+   * Catch up with the chain's pending nonce and fill gaps: when the chain
+   * is missing the nonce after its pending count although later ones were
+   * handed out, and it is not still being signed or broadcast, a no-op
+   * takes its place. Skipped while another process resyncs the wallet.
+   */
+  async resync(chain: Chain, wallet: EvmSigner): Promise<void> {
+    const address = wallet.address.toLowerCase();
+    const redis = getRedis();
+    const lockKey = NONCE_KEYS.resyncLock(chain, address);
+
+    // Unique per resync, so one whose lock expired can't release the next holder's
+    const lockToken = `${this.instanceId}:${crypto.randomUUID()}`;
+
+    const locked = await redis.set(lockKey, lockToken, { NX: true, PX: this.config.resyncLockMs });
+    if (locked !== 'OK') {
+      return;
+    }
+
+    try {
+      for (let fills = 0; ; fills++) {
+        const pending = await this.getPendingCount(wallet);
+        const next = Number(
+          await redis.eval(ADVANCE_SCRIPT, {
+            keys: [NONCE_KEYS.next(chain, address)],
+            arguments: [pending.toString()],
+          })
+        );
+        await this.pruneReserved(chain, address, pending);
+
+        if (next <= pending) {
+          return;
+        }
+
+        const lastActivity = await redis.zScore(NONCE_KEYS.reserved(chain, address), pending.toString());
+        if (lastActivity !== null && Date.now() - lastActivity < this.config.inFlightGraceMs) {
+          return;
+        }
+
+        if (fills >= this.config.maxGapFills) {
+          logger.error('Nonce gaps remain after the most fills allowed per resync', {
+            chain,
+            address,
+            pending,
+            next,
+          });
+          return;
+        }
+
+        await this.fillGap(chain, wallet, pending);
+      }
+    } finally {
+      await redis.eval(UNLOCK_SCRIPT, { keys: [lockKey], arguments: [lockToken] });
+    }
+  }
+
+  /**
+   * Use up a missing nonce with a zero-value transfer to the wallet itself
+   */
+  private async fillGap(chain: Chain, wallet: EvmSigner, nonce: number): Promise<void> {
+    const feeData = await wallet.provider!.getFeeData();
+    const bump = (fee: bigint) => (fee * this.config.gapFillFeeBumpPercent) / 100n;
+
+    const fees =
+      feeData.maxFeePerGas !== null && feeData.maxPriorityFeePerGas !== null
+        ? { maxFeePerGas: bump(feeData.maxFeePerGas), maxPriorityFeePerGas: bump(feeData.maxPriorityFeePerGas) }
+        : { gasPrice: bump(feeData.gasPrice ?? 0n) };
+
+    const tx = await wallet.sendTransaction({
+      to: wallet.address,
+      value: 0n,
+      gasLimit: 21000n,
+      nonce,
+      ...fees,
+    });
+
+    await getRedis().zAdd(NONCE_KEYS.reserved(chain, wallet.address.toLowerCase()), {
+      score: Date.now(),
+      value: nonce.toString(),
+    });
+
+    logger.warn('Filled nonce gap with a no-op transaction', {
+      chain,
+      address: wallet.address,
+      nonce,
+      txHash: tx.hash,
+    });
+  }
+
+  /**
+   * Stop tracking nonces the chain has seen
+   */
+  private async pruneReserved(chain: Chain, address: string, pending: number): Promise<void> {
+    const key = NONCE_KEYS.reserved(chain, address);
+    const reserved = await getRedis().zRange(key, 0, -1);
+    const seen = reserved.filter((nonce) => Number(nonce) < pending);
+
+    if (seen.length > 0) {
+      await getRedis().zRem(key, seen);
+    }
+  }
+
+  private async evalReserve(chain: Chain, address: string): Promise<number> {
+    const nonce = await getRedis().eval(RESERVE_SCRIPT, {
+      keys: [NONCE_KEYS.next(chain, address), NONCE_KEYS.reserved(chain, address)],
+      arguments: [Date.now().toString()],
+    });
+    return Number(nonce);
+  }
+
+  private async getPendingCount(wallet: EvmSigner): Promise<number> {
+    if (!wallet.provider) {
+      throw new Error(`Wallet ${wallet.address} has no provider to read its nonce from`);
+    }
+    return await wallet.provider.getTransactionCount(wallet.address, 'pending');
+  }
+}
+
+/**
+ * Whether a send failed because its nonce was already used on chain
+ */
+export function isNonceError(error: Error): boolean {
+  const code = (error as Error & { code?: string }).code;
+  return code === 'NONCE_EXPIRED' || /nonce too low|nonce has already been used|NONCE_TOO_LOW/i.test(error.message);
+}
+
+let nonceManager: NonceManager | null = null;
+
+export function getNonceManager(): NonceManager {
+  if (!nonceManager) {
+    nonceManager = new NonceManager();
+  }
+  return nonceManager;
+}
@@ -67,7 +67,9 @@ const RETRYABLE_ERRORS = [
   'RATE_LIMITED',
   'GAS_ESTIMATION_FAILED',
   'NONCE_TOO_LOW',
+  'NONCE_EXPIRED',              // The nonce manager resyncs before the retry
   'TRANSACTION_UNDERPRICED',
+  'TRANSACTION_REVERTED',       // Mined but reverted; the step is built and sent again
   'INSUFFICIENT_FUNDS_FOR_GAS',
   'RPC_ERROR',
   'CONNECTION_REFUSED',
@@ -84,6 +86,8 @@ const NON_RETRYABLE_ERRORS = [
   'SLIPPAGE_EXCEEDED',
   'DEADLINE_EXCEEDED',
   'INVALID_ROUTE',
+  'TRANSACTION_CANCELLED',      // An operator cancelled it
+  'SIGNER_POLICY_VIOLATION',    // The signer refused; retrying won't change its answer
 ];
 
 export class RetryManager {
@@ -1,8 +1,12 @@
-import { Wallet, TransactionRequest } from 'ethers';
+import { Signer, TransactionRequest } from 'ethers';
 import { logger } from '@shared/utils/logger';
 
 export class TransactionSigner {
-  async sign(tx: TransactionRequest, wallet: Wallet): Promise<string> {
+  /**
+   * Sign with any ethers signer; gas wallets are EvmSigners, so the key may
+   * be local, in a keystore or behind a remote signer
+   */
+  async sign(tx: TransactionRequest, wallet: Signer): Promise<string> {
     logger.info('Signing transaction', { to: tx.to, value: tx.value });
 
     try {
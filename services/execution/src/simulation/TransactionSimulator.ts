@@ -0,0 +1,319 @@
+/**
+ * Transaction Simulator
+ * Runs every route transaction against the chain before it is signed, so
+ * bad calldata, missing approvals and slippage fail without spending gas.
+ * eth_call and eth_estimateGas at the pending block catch the revert, and
+ * its reason is decoded into the error codes RetryManager acts on. Where an
+ * anvil fork of the chain is configured, the transaction is also executed
+ * on the fork to check the balance changes it makes against the route's
+ * expected output, then the fork is reverted.
+ */
+
+import {
+  AbiCoder,
+  Interface,
+  JsonRpcProvider,
+  JsonRpcTransactionRequest,
+  TransactionRequest,
+  toQuantity,
+} from 'ethers';
+import { Chain } from '@shared/types';
+import { logger } from '@shared/utils/logger';
+
+// A token balance the transaction must change by at least minChange
+export interface BalanceExpectation {
+  account: string;
+  token?: string;        // ERC-20 address; the native token when unset
+  minChange: bigint;     // Negative for the most the transaction may spend
+}
+
+export interface SimulationResult {
+  gasLimit: bigint;      // eth_estimateGas with headroom
+  returnData: string;
+  balanceChanges?: Array<BalanceExpectation & { change: bigint }>;
+}
+
+interface TransactionSimulatorConfig {
+  gasLimitHeadroomPercent: bigint;
+  forkMaxLagBlocks: number;
+}
+
+const DEFAULT_SIMULATOR_CONFIG: TransactionSimulatorConfig = {
+  gasLimitHeadroomPercent: 120n,  // State can move between simulation and inclusion
+  forkMaxLagBlocks: 20,           // Re-fork from the latest block once this far behind
+};
+
+// Providers to simulate with; defaults come from <CHAIN>_RPC_URL and <CHAIN>_FORK_RPC_URL
+interface TransactionSimulatorOptions {
+  providers?: Partial<Record<Chain, JsonRpcProvider>>;
+  forks?: Partial<Record<Chain, JsonRpcProvider>>;
+  config?: Partial<TransactionSimulatorConfig>;
+}
+
+const CHAIN_ENV_PREFIXES: Partial<Record<Chain, string>> = {
+  ethereum: 'ETH',
+  arbitrum: 'ARB',
+  base: 'BASE',
+  polygon: 'POLYGON',
+  optimism: 'OPTIMISM',
+};
+
+// Custom errors of the routers we send through, by name
+const ROUTER_ERRORS = new Interface([
+  'error ReturnAmountIsNotEnough()',
+  'error ReturnAmountIsNotEnough(uint256 result, uint256 minReturn)',
+  'error SwapExpired()',
+  'error InsufficientOutputAmount()',
+  'error CumulativeSlippageTooHigh(uint256 minAmount, uint256 receivedAmount)',
+  'error InformationMismatch()',
+  'error NoTransferToNullAddress()',
+]);
+
+const ERC20 = new Interface(['function balanceOf(address account) view returns (uint256)']);
+
+// First match wins; a revert matching none is a CONTRACT_ERROR
+const REVERT_CODES: Array<{ pattern: RegExp; code: string }> = [
+  { pattern: /allowance|approve|\bSTF\b|TRANSFER_FROM_FAILED/i, code: 'APPROVAL_REQUIRED' },
+  { pattern: /exceeds balance|insufficient balance/i, code: 'INSUFFICIENT_BALANCE' },
+  { pattern: /slippage|too little|insufficient.?output|return.?amount|min.?return|not.?enough/i, code: 'SLIPPAGE_EXCEEDED' },
+  { pattern: /deadline|expired/i, code: 'DEADLINE_EXCEEDED' },
+];
+
+export class TransactionSimulator {
+  private config: TransactionSimulatorConfig;
+  private providers: Map<Chain, JsonRpcProvider> = new Map();
+  private forks: Map<Chain, JsonRpcProvider> = new Map();
+  private forkUpstreams: Map<Chain, string> = new Map();
+  private forkQueues: Map<Chain, Promise<unknown>> = new Map();
+
+  constructor(options: TransactionSimulatorOptions = {}) {
+    this.config = { ...DEFAULT_SIMULATOR_CONFIG, ...options.config };
+
+    for (const [chain, prefix] of Object.entries(CHAIN_ENV_PREFIXES) as Array<[Chain, string]>) {
+      const rpcUrl = process.env[`${prefix}_RPC_URL`];
+      const forkUrl = process.env[`${prefix}_FORK_RPC_URL`];
+
+      const provider = options.providers?.[chain] || (rpcUrl ? new JsonRpcProvider(rpcUrl) : undefined);
+      if (provider) {
+        this.providers.set(chain, provider);
+      }
+
+      const fork = options.forks?.[chain] || (forkUrl ? new JsonRpcProvider(forkUrl) : undefined);
+      if (fork) {
+        this.forks.set(chain, fork);
+        // Only a fork we were pointed at by env is re-forked; a test's fork is left alone
+        if (!options.forks?.[chain] && rpcUrl) {
+          this.forkUpstreams.set(chain, rpcUrl);
+        }
+      }
+    }
+  }
+
+  /**
+   * Simulate a transaction from tx.from. Throws with the RetryManager code
+   * of the failure; otherwise returns the gas limit to sign with.
+   */
+  async simulate(
+    chain: Chain,
+    tx: TransactionRequest,
+    expectations: BalanceExpectation[] = []
+  ): Promise<SimulationResult> {
+    const provider = this.providers.get(chain);
+    if (!provider) {
+      throw new Error(`No provider to simulate transactions on ${chain}`);
+    }
+    if (typeof tx.from !== 'string' || typeof tx.to !== 'string') {
+      throw new Error('Simulated transactions need from and to addresses');
+    }
+    const from = tx.from;
+
+    // Leave gas and fees out, so a wrong gas limit can't fail the estimate
+    const call = provider.getRpcTransaction({
+      from,
+      to: tx.to,
+      data: tx.data,
+      value: tx.value,
+    });
+
+    let returnData: string;
+    try {
+      returnData = await provider.send('eth_call', [call, 'pending']);
+    } catch (error) {
+      throw this.toSimulationError(chain, error, 'RPC_ERROR');
+    }
+
+    let gasUsed: bigint;
+    try {
+      gasUsed = BigInt(await provider.send('eth_estimateGas', [call, 'pending']));
+    } catch (error) {
+      throw this.toSimulationError(chain, error, 'GAS_ESTIMATION_FAILED');
+    }
+
+    const gasLimit = (gasUsed * this.config.gasLimitHeadroomPercent) / 100n;
+    const fork = this.forks.get(chain);
+
+    const balanceChanges =
+      fork && expectations.length > 0
+        ? await this.onFork(chain, () =>
+            this.executeOnFork(chain, fork, from, { ...call, gas: toQuantity(gasLimit) }, expectations)
+          )
+        : undefined;
+
+    logger.debug('Transaction simulated', {
+      chain,
+      to: tx.to,
+      gasUsed: gasUsed.toString(),
+      forked: balanceChanges !== undefined,
+    });
+
+    return { gasLimit, returnData, balanceChanges };
+  }
+
+  /**
+   * Execute the transaction on the fork as its sender and measure the
+   * expected balances before and after, reverting the fork afterwards.
+   * The sender's native balance change leaves out the gas it paid.
+   */
+  private async executeOnFork(
+    chain: Chain,
+    fork: JsonRpcProvider,
+    from: string,
+    call: JsonRpcTransactionRequest,
+    expectations: BalanceExpectation[]
+  ): Promise<Array<BalanceExpectation & { change: bigint }>> {
+    await this.syncFork(chain, fork);
+
+    const snapshot = await fork.send('evm_snapshot', []);
+
+    try {
+      await fork.send('anvil_impersonateAccount', [from]);
+
+      const before = await Promise.all(expectations.map((expected) => this.getBalance(fork, expected)));
+      const txHash = await fork.send('eth_sendTransaction', [call]);
+      const receipt = await fork.waitForTransaction(txHash, 1, 30000);
+
+      if (!receipt || receipt.status !== 1) {
+        throw new Error(`CONTRACT_ERROR: simulation reverted on ${chain} fork: ${txHash}`);
+      }
+
+      const gasPaid = receipt.gasUsed * receipt.gasPrice;
+      const after = await Promise.all(expectations.map((expected) => this.getBalance(fork, expected)));
+
+      const changes = expectations.map((expected, i) => {
+        const paysGas = !expected.token && expected.account.toLowerCase() === from.toLowerCase();
+        return { ...expected, change: after[i] - before[i] + (paysGas ? gasPaid : 0n) };
+      });
+
+      const short = changes.find((changed) => changed.change < changed.minChange);
+      if (short) {
+        throw new Error(
+          `SLIPPAGE_EXCEEDED: simulation on ${chain} fork changed ${short.token || 'native'} balance of ` +
+            `${short.account} by ${short.change}, expected at least ${short.minChange}`
+        );
+      }
+
+      return changes;
+    } finally {
+      await fork.send('evm_revert', [snapshot]);
+      await fork.send('anvil_stopImpersonatingAccount', [from]).catch(() => undefined);
+    }
+  }
+
+  /**
+   * Re-fork from the upstream chain's latest block when the fork has fallen behind
+   */
+  private async syncFork(chain: Chain, fork: JsonRpcProvider): Promise<void> {
+    const upstream = this.forkUpstreams.get(chain);
+    const provider = this.providers.get(chain);
+    if (!upstream || !provider) {
+      return;
+    }
+
+    const [forkHead, liveHead] = await Promise.all([fork.getBlockNumber(), provider.getBlockNumber()]);
+    if (liveHead - forkHead > this.config.forkMaxLagBlocks) {
+      await fork.send('anvil_reset', [{ forking: { jsonRpcUrl: upstream } }]);
+      logger.info('Simulation fork reset to latest block', { chain, forkHead, liveHead });
+    }
+  }
+
+  private async getBalance(fork: JsonRpcProvider, expected: BalanceExpectation): Promise<bigint> {
+    if (!expected.token) {
+      return await fork.getBalance(expected.account);
+    }
+
+    const result = await fork.call({
+      to: expected.token,
+      data: ERC20.encodeFunctionData('balanceOf', [expected.account]),
+    });
+    return ERC20.decodeFunctionResult('balanceOf', result)[0] as bigint;
+  }
+
+  /**
+   * Run fork simulations on a chain one at a time; snapshots of
+   * concurrent ones would revert each other's state
+   */
+  private onFork<T>(chain: Chain, run: () => Promise<T>): Promise<T> {
+    const previous = this.forkQueues.get(chain) || Promise.resolve();
+    const result = previous.then(run, run);
+    this.forkQueues.set(chain, result.catch(() => undefined));
+    return result;
+  }
+
+  /**
+   * Turn a failed eth_call or eth_estimateGas into an error carrying the
+   * RetryManager code: a revert by its decoded reason, a node error as
+   * `fallback` (retryable) unless the sender can't pay for gas
+   */
+  private toSimulationError(chain: Chain, error: unknown, fallback: string): Error {
+    const failure = error as Error & {
+      code?: string;
+      data?: string | null;
+      info?: { error?: { message?: string } };
+    };
+
+    // ethers reports every eth_call/eth_estimateGas error as a CALL_EXCEPTION; the node's message tells reverts apart
+    const nodeMessage = failure.info?.error?.message || failure.message;
+    const reverted = failure.code === 'CALL_EXCEPTION' && (failure.data != null || /revert/i.test(nodeMessage));
+
+    if (reverted) {
+      const reason = decodeRevert(failure.data);
+      const code = REVERT_CODES.find(({ pattern }) => pattern.test(reason))?.code || 'CONTRACT_ERROR';
+
+      logger.warn('Transaction simulation reverted', { chain, code, reason });
+      return new Error(`${code}: simulation reverted: ${reason}`);
+    }
+
+    const code = /insufficient funds/i.test(nodeMessage) ? 'INSUFFICIENT_FUNDS_FOR_GAS' : fallback;
+    return new Error(`${code}: simulation failed: ${nodeMessage}`);
+  }
+}
+
+/**
+ * Readable reason for revert data: a router's custom error by name,
+ * otherwise Error(string), Panic(uint256) or a description of the data
+ */
+export function decodeRevert(data?: string | null): string {
+  if (data && data.length >= 10) {
+    try {
+      const custom = ROUTER_ERRORS.parseError(data);
+      // parseError also knows Error(string) and Panic(uint256); those are decoded below
+      if (custom && custom.name !== 'Error' && custom.name !== 'Panic') {
+        return custom.args.length > 0 ? `${custom.name}(${custom.args.join(', ')})` : custom.name;
+      }
+    } catch {
+      // Selector matched but the arguments didn't decode; fall through
+    }
+  }
+
+  const builtin = AbiCoder.getBuiltinCallException('call', {}, data ?? null);
+  return builtin.reason || builtin.shortMessage;
+}
+
+let transactionSimulator: TransactionSimulator | null = null;
+
+export function getTransactionSimulator(): TransactionSimulator {
+  if (!transactionSimulator) {
+    transactionSimulator = new TransactionSimulator();
+  }
+  return transactionSimulator;
+}
@@ -0,0 +1,86 @@
+/**
+ * Route Step Store
+ * Records how far each step of a route got in route_steps, so execution
+ * interrupted by a failure or a crash picks up where it stopped. A step
+ * moves built → signed → broadcast → confirmed; it is marked failed only
+ * when its transaction can no longer execute, which makes it safe to build
+ * again.
+ */
+
+import { Chain, RouteStepState, RouteStepStatus } from '@shared/types';
+import { db } from '../db';
+
+export class RouteStepStore {
+  /**
+   * Recorded state of every step of a route that has started, by index
+   */
+  async load(routeId: string): Promise<Map<number, RouteStepState>> {
+    const result = await db.query('SELECT * FROM route_steps WHERE route_id = $1', [routeId]);
+    return new Map(result.rows.map((row) => [row.step_index, this.mapToState(row)]));
+  }
+
+  /**
+   * The step's transaction is built and simulated; anything recorded for an
+   * earlier attempt at the step is cleared
+   */
+  async markBuilt(routeId: string, stepIndex: number, chain: Chain): Promise<void> {
+    await db.query(
+      `INSERT INTO route_steps (route_id, step_index, chain, status)
+       VALUES ($1, $2, $3, 'built')
+       ON CONFLICT (route_id, step_index) DO UPDATE
+       SET chain = $3, status = 'built', tx_hash = NULL, signed_tx = NULL, error_message = NULL, updated_at = NOW()`,
+      [routeId, stepIndex, chain]
+    );
+  }
+
+  /**
+   * The step's transaction is signed; must be recorded before it is broadcast
+   */
+  async markSigned(routeId: string, stepIndex: number, txHash: string, signedTx: string): Promise<void> {
+    await this.update(routeId, stepIndex, 'signed', { tx_hash: txHash, signed_tx: signedTx });
+  }
+
+  async markBroadcast(routeId: string, stepIndex: number): Promise<void> {
+    await this.update(routeId, stepIndex, 'broadcast', {});
+  }
+
+  /**
+   * The step's transaction, or a replacement of it, is mined and confirmed
+   */
+  async markConfirmed(routeId: string, stepIndex: number, txHash: string): Promise<void> {
+    await this.update(routeId, stepIndex, 'confirmed', { tx_hash: txHash, signed_tx: null });
+  }
+
+  async markFailed(routeId: string, stepIndex: number, error: string): Promise<void> {
+    await this.update(routeId, stepIndex, 'failed', { error_message: error });
+  }
+
+  private async update(
+    routeId: string,
+    stepIndex: number,
+    status: RouteStepStatus,
+    fields: Record<string, string | null>
+  ): Promise<void> {
+    const columns = Object.keys(fields);
+    const assignments = columns.map((column, i) => `, ${column} = $${i + 4}`).join('');
+
+    await db.query(
+      `UPDATE route_steps SET status = $3, updated_at = NOW()${assignments}
+       WHERE route_id = $1 AND step_index = $2`,
+      [routeId, stepIndex, status, ...columns.map((column) => fields[column])]
+    );
+  }
+
+  private mapToState(row: any): RouteStepState {
+    return {
+      routeId: row.route_id,
+      stepIndex: row.step_index,
+      chain: row.chain,
+      status: row.status,
+      txHash: row.tx_hash || undefined,
+      signedTx: row.signed_tx || undefined,
+      error: row.error_message || undefined,
+      updatedAt: row.updated_at,
+    };
+  }
+}
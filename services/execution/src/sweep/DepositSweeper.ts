@@ -0,0 +1,342 @@
+/**
+ * Deposit Sweeper
+ * Consolidates funds left on per-intent deposit addresses into the treasury
+ * once their intents have closed
+ */
+
+import { Contract, JsonRpcProvider, Wallet } from 'ethers';
+import { Chain } from '@shared/types';
+import { CHAIN_CONFIGS, EVM_CHAINS, TOKEN_ADDRESSES } from '@shared/constants/chains';
+import { getHDWalletManager } from '@shared/utils/addressGeneration';
+import { logger } from '@shared/utils/logger';
+import { EvmSigner, getSigner, isSignerConfigured } from '@shared/utils/signer';
+import { db } from '../db';
+import { getNonceManager } from '../nonce/NonceManager';
+
+const SWEEP_INTERVAL_MS = parseInt(process.env.SWEEP_INTERVAL_MS || '300000', 10); // 5 minutes
+// How long an expired intent's address stays untouched, for late payments to be refunded from it
+const SWEEP_REFUND_WINDOW_SECONDS = parseInt(process.env.SWEEP_REFUND_WINDOW_SECONDS || '604800', 10); // 7 days
+const SWEEP_BATCH_SIZE = 20;
+const MAX_SWEEP_ATTEMPTS = 5;
+const NATIVE_TRANSFER_GAS = 21000n;
+const GAS_FUNDING_BUFFER_PERCENT = 20n;
+
+// Key signing is only implemented for EVM deposit addresses
+const SWEEPABLE_CHAINS: Chain[] = EVM_CHAINS;
+
+const ERC20_ABI = [
+  'function balanceOf(address owner) view returns (uint256)',
+  'function transfer(address to, uint256 amount) returns (bool)',
+];
+
+interface DepositRow {
+  id: string;
+  payment_intent_id: string;
+  chain: Chain;
+  address: string;
+  agent_index: number;
+  address_index: number;
+  source_token: string;
+  source_token_address: string | null;
+}
+
+export class DepositSweeper {
+  private hdWalletManager = getHDWalletManager();
+  private providers: Map<Chain, JsonRpcProvider> = new Map();
+  private interval?: NodeJS.Timeout;
+  private isSweeping: boolean = false;
+
+  start(): void {
+    if (this.interval) return;
+
+    this.interval = setInterval(() => {
+      this.sweepAll().catch((error) => {
+        logger.error('Deposit sweep failed', { error: (error as Error).message });
+      });
+    }, SWEEP_INTERVAL_MS);
+
+    logger.info('Deposit sweeper started', { intervalMs: SWEEP_INTERVAL_MS });
+  }
+
+  stop(): void {
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = undefined;
+    }
+  }
+
+  /**
+   * Sweep deposit addresses of terminal intents: settled, refunded (expired
+   * or failed with every refund sent), or expired longer ago than the refund
+   * window. Addresses owing a refund that is pending or failed are left
+   * alone. Returns the number swept.
+   */
+  async sweepAll(): Promise<number> {
+    if (this.isSweeping) return 0;
+    this.isSweeping = true;
+
+    try {
+      const result = await db.query(
+        `SELECT d.*, pi.source_token, pi.source_token_address
+         FROM deposit_addresses d
+         JOIN payment_intents pi ON d.payment_intent_id = pi.id
+         WHERE d.status = 'active'
+           AND d.chain = ANY($1)
+           AND d.sweep_attempts < $2
+           AND (
+             pi.status = 'settled'
+             OR (
+               pi.status IN ('expired', 'failed')
+               AND EXISTS (
+                 SELECT 1 FROM payment_refunds r
+                 WHERE r.payment_intent_id = pi.id AND r.status = 'sent'
+               )
+             )
+             OR (pi.status = 'expired' AND pi.expires_at < NOW() - make_interval(secs => $4))
+           )
+           AND NOT EXISTS (
+             SELECT 1 FROM payment_refunds r
+             WHERE r.payment_intent_id = pi.id AND r.status IN ('pending', 'failed')
+           )
+         ORDER BY d.created_at ASC
+         LIMIT $3`,
+        [SWEEPABLE_CHAINS, MAX_SWEEP_ATTEMPTS, SWEEP_BATCH_SIZE, SWEEP_REFUND_WINDOW_SECONDS]
+      );
+
+      let swept = 0;
+      for (const row of result.rows as DepositRow[]) {
+        if (await this.sweep(row)) {
+          swept++;
+        }
+      }
+
+      return swept;
+    } finally {
+      this.isSweeping = false;
+    }
+  }
+
+  /**
+   * Move the intent's token (or native balance) from one deposit address to
+   * the treasury. An address with nothing on it is marked empty.
+   */
+  private async sweep(row: DepositRow): Promise<boolean> {
+    const provider = this.getProvider(row.chain);
+    const treasury = this.getTreasuryAddress(row.chain);
+
+    if (!provider || !treasury) {
+      logger.debug('Sweep skipped: no provider or treasury configured', { chain: row.chain });
+      return false;
+    }
+
+    try {
+      const signer = this.hdWalletManager.getSigningWallet(row.chain, row.address_index, row.agent_index);
+      const wallet = new Wallet(signer.privateKey, provider);
+
+      // Guards against a changed seed or derivation scheme sending from the wrong key
+      if (wallet.address.toLowerCase() !== row.address.toLowerCase()) {
+        throw new Error(`Derived key does not match deposit address ${row.address}`);
+      }
+
+      const tokenAddress = this.getTokenAddress(row);
+      const txHash = tokenAddress
+        ? await this.sweepToken(row.chain, wallet, tokenAddress, treasury)
+        : await this.sweepNative(wallet, treasury);
+
+      if (!txHash) {
+        await db.query(`UPDATE deposit_addresses SET status = 'empty' WHERE id = $1`, [row.id]);
+        return false;
+      }
+
+      await db.query(
+        `UPDATE deposit_addresses
+         SET status = 'swept', sweep_tx_hash = $1, swept_at = NOW(), last_sweep_error = NULL
+         WHERE id = $2`,
+        [txHash, row.id]
+      );
+
+      await db.query(
+        `INSERT INTO transaction_logs (payment_intent_id, chain, tx_hash, tx_type, status, confirmed_at)
+         VALUES ($1, $2, $3, 'sweep', 'confirmed', NOW())`,
+        [row.payment_intent_id, row.chain, txHash]
+      );
+
+      logger.info('Deposit address swept', {
+        chain: row.chain,
+        address: row.address,
+        treasury,
+        txHash,
+      });
+
+      if (tokenAddress) {
+        await this.sweepLeftoverGas(row, wallet, treasury);
+      }
+
+      return true;
+    } catch (error) {
+      logger.error('Deposit sweep failed', {
+        chain: row.chain,
+        address: row.address,
+        error: (error as Error).message,
+      });
+
+      await db.query(
+        `UPDATE deposit_addresses
+         SET sweep_attempts = sweep_attempts + 1, last_sweep_error = $1
+         WHERE id = $2`,
+        [(error as Error).message, row.id]
+      );
+
+      return false;
+    }
+  }
+
+  /**
+   * Send the whole native balance less the exact transfer fee
+   */
+  private async sweepNative(wallet: Wallet, treasury: string): Promise<string | null> {
+    const provider = wallet.provider as JsonRpcProvider;
+    const balance = await provider.getBalance(wallet.address);
+    const gasPrice = await this.getGasPrice(provider);
+    const fee = NATIVE_TRANSFER_GAS * gasPrice;
+
+    if (balance <= fee) {
+      return null;
+    }
+
+    // Legacy pricing makes the fee exact, so the address is left empty
+    const tx = await wallet.sendTransaction({
+      to: treasury,
+      value: balance - fee,
+      gasLimit: NATIVE_TRANSFER_GAS,
+      gasPrice,
+    });
+    await tx.wait();
+
+    return tx.hash;
+  }
+
+  /**
+   * Send on the native token left over from gas funding after a token sweep,
+   * or log it when it is worth less than the transfer fee. The token sweep
+   * already succeeded, so failures here are only logged.
+   */
+  private async sweepLeftoverGas(row: DepositRow, wallet: Wallet, treasury: string): Promise<void> {
+    try {
+      const txHash = await this.sweepNative(wallet, treasury);
+
+      if (txHash) {
+        await db.query(
+          `INSERT INTO transaction_logs (payment_intent_id, chain, tx_hash, tx_type, status, confirmed_at)
+           VALUES ($1, $2, $3, 'sweep', 'confirmed', NOW())`,
+          [row.payment_intent_id, row.chain, txHash]
+        );
+        logger.info('Leftover gas swept from deposit address', { chain: row.chain, address: row.address, txHash });
+        return;
+      }
+
+      const leftover = await (wallet.provider as JsonRpcProvider).getBalance(wallet.address);
+      if (leftover > 0n) {
+        logger.info('Leftover gas on deposit address is below the transfer fee', {
+          chain: row.chain,
+          address: row.address,
+          leftoverWei: leftover.toString(),
+        });
+      }
+    } catch (error) {
+      logger.warn('Failed to sweep leftover gas from deposit address', {
+        chain: row.chain,
+        address: row.address,
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  /**
+   * Transfer the full token balance. Deposit addresses hold no native token
+   * for gas, so the gas wallet tops them up first.
+   */
+  private async sweepToken(chain: Chain, wallet: Wallet, tokenAddress: string, treasury: string): Promise<string | null> {
+    const provider = wallet.provider as JsonRpcProvider;
+    const token = new Contract(tokenAddress, ERC20_ABI, wallet);
+    const balance: bigint = await token.balanceOf(wallet.address);
+
+    if (balance === 0n) {
+      return null;
+    }
+
+    const gasLimit: bigint = await token.transfer.estimateGas(treasury, balance);
+    const gasPrice = await this.getGasPrice(provider);
+    const needed = (gasLimit * gasPrice * (100n + GAS_FUNDING_BUFFER_PERCENT)) / 100n;
+    const nativeBalance = await provider.getBalance(wallet.address);
+
+    if (nativeBalance < needed) {
+      await this.fundGas(chain, provider, wallet.address, needed - nativeBalance);
+    }
+
+    const tx = await token.transfer(treasury, balance, { gasLimit, gasPrice });
+    await tx.wait();
+
+    return tx.hash;
+  }
+
+  private async fundGas(chain: Chain, provider: JsonRpcProvider, to: string, amount: bigint): Promise<void> {
+    if (!isSignerConfigured('GAS_WALLET')) {
+      throw new Error('A GAS_WALLET signer is required to fund token sweeps');
+    }
+
+    // The gas wallet also pays for route execution, so its nonces come from the shared manager
+    const gasWallet = new EvmSigner(await getSigner('GAS_WALLET'), chain, provider);
+    const tx = await getNonceManager().sendTransaction(chain, gasWallet, { to, value: amount });
+    await tx.wait();
+
+    logger.info('Funded deposit address for sweep', { to, amount: amount.toString(), txHash: tx.hash });
+  }
+
+  private async getGasPrice(provider: JsonRpcProvider): Promise<bigint> {
+    const feeData = await provider.getFeeData();
+    if (feeData.gasPrice === null) {
+      throw new Error('Gas price unavailable');
+    }
+    return feeData.gasPrice;
+  }
+
+  /**
+   * ERC-20 contract for the intent's token, or null for the chain's native token
+   */
+  private getTokenAddress(row: DepositRow): string | null {
+    if (row.source_token_address) {
+      return row.source_token_address;
+    }
+
+    const symbol = row.source_token.toUpperCase();
+    if (symbol === CHAIN_CONFIGS[row.chain].nativeToken) {
+      return null;
+    }
+
+    const tokens = TOKEN_ADDRESSES[row.chain as keyof typeof TOKEN_ADDRESSES] as Record<string, string> | undefined;
+    const address = tokens?.[symbol];
+    if (!address) {
+      throw new Error(`Unknown token ${row.source_token} on ${row.chain}`);
+    }
+
+    return address;
+  }
+
+  private getTreasuryAddress(chain: Chain): string | undefined {
+    return process.env[`TREASURY_ADDRESS_${chain.toUpperCase()}`] || process.env.TREASURY_ADDRESS;
+  }
+
+  private getProvider(chain: Chain): JsonRpcProvider | null {
+    const rpcUrl = CHAIN_CONFIGS[chain].rpcUrl;
+    if (!rpcUrl) {
+      return null;
+    }
+
+    if (!this.providers.has(chain)) {
+      this.providers.set(chain, new JsonRpcProvider(rpcUrl));
+    }
+
+    return this.providers.get(chain)!;
+  }
+}
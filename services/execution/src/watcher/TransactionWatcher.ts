@@ -0,0 +1,397 @@
+/**
+ * Transaction Watcher
+ * Waits for execution transactions to be mined, and re-sends any that sit
+ * unmined past a timeout at the same nonce with bumped EIP-1559 fees, so an
+ * underpriced transaction can't stall a route. Also sends the zero-value
+ * cancellations operators request through the admin API. Every replacement
+ * is logged in transaction_logs pointing at the attempt it replaced.
+ */
+
+import { TransactionReceipt } from 'ethers';
+import { Chain } from '@shared/types';
+import { logger } from '@shared/utils/logger';
+import { EvmSigner } from '@shared/utils/signer';
+import { db } from '../db';
+import { GasAbstractor } from '../gas/GasAbstractor';
+import { getNonceManager, isNonceError } from '../nonce/NonceManager';
+
+interface TransactionWatcherConfig {
+  pollIntervalMs: number;
+  stuckAfterMs: number;
+  confirmations: number;
+  feeBumpPercent: bigint;
+  maxReplacements: number;
+  maxWaitMs: number;
+  cancelCheckIntervalMs: number;
+}
+
+const DEFAULT_WATCHER_CONFIG: TransactionWatcherConfig = {
+  pollIntervalMs: 5000,
+  stuckAfterMs: 180000,      // Re-send with higher fees after 3 minutes unmined
+  confirmations: 3,
+  feeBumpPercent: 125n,      // Nodes only accept a replacement with both fees 10% higher
+  maxReplacements: 5,        // Speed-ups per transaction; cancellations are not limited
+  maxWaitMs: 1800000,        // Give up waiting after 30 minutes; a retry resumes the wait
+  cancelCheckIntervalMs: 15000,
+};
+
+type ReplacementKind = 'speed-up' | 'cancel';
+
+// One attempt at a nonce, as stored in transaction_logs
+interface TransactionAttempt {
+  id: string;
+  paymentIntentId: string | null;
+  chain: Chain;
+  txHash: string;
+  txType: string;
+  status: string;
+  fromAddress: string;
+  toAddress: string;
+  nonce: number;
+  value: bigint;
+  data: string;
+  gasLimit: bigint;
+  maxFeePerGas: bigint;
+  maxPriorityFeePerGas: bigint;
+  createdAt: Date;
+}
+
+export class TransactionWatcher {
+  private gasAbstractor: GasAbstractor;
+  private config: TransactionWatcherConfig;
+  private cancelInterval?: NodeJS.Timeout;
+
+  constructor(gasAbstractor: GasAbstractor = new GasAbstractor(), config: Partial<TransactionWatcherConfig> = {}) {
+    this.gasAbstractor = gasAbstractor;
+    this.config = { ...DEFAULT_WATCHER_CONFIG, ...config };
+  }
+
+  /**
+   * Send the cancellations operators have requested
+   */
+  start(): void {
+    this.cancelInterval = setInterval(() => {
+      this.processCancelRequests().catch((error) => {
+        logger.error('Processing cancel requests failed', { error: (error as Error).message });
+      });
+    }, this.config.cancelCheckIntervalMs);
+
+    logger.info('Transaction watcher started');
+  }
+
+  stop(): void {
+    if (this.cancelInterval) {
+      clearInterval(this.cancelInterval);
+      this.cancelInterval = undefined;
+    }
+  }
+
+  /**
+   * Wait until the transaction, or one of its replacements, has enough
+   * confirmations, speeding it up while it is stuck. Returns the hash of
+   * the attempt that was mined. Throws a retryable TIMEOUT error after
+   * maxWaitMs; the transaction stays pending, so the retry waits for it
+   * again rather than sending a new one.
+   */
+  async waitForConfirmation(chain: Chain, txHash: string): Promise<string> {
+    logger.info('Waiting for confirmation', { chain, txHash });
+
+    const deadline = Date.now() + this.config.maxWaitMs;
+
+    const original = await this.findAttempt(chain, txHash);
+    const wallet = await this.getWallet(chain, original.fromAddress);
+    let speedUps = 0;
+    let reportedStuck = false;
+
+    for (;;) {
+      const attempts = await this.getAttempts(original.id);
+      let mined = false;
+
+      // Any attempt can be the one mined, including one already replaced
+      for (const attempt of attempts) {
+        const receipt = await wallet.provider!.getTransactionReceipt(attempt.txHash);
+        if (!receipt) {
+          continue;
+        }
+        if ((await receipt.confirmations()) >= this.config.confirmations) {
+          return this.finalize(attempt, attempts, receipt);
+        }
+        mined = true;
+      }
+
+      const latest = attempts[attempts.length - 1];
+      const stuck =
+        !mined && latest.status === 'pending' && Date.now() - latest.createdAt.getTime() >= this.config.stuckAfterMs;
+
+      if (stuck && latest.txType === 'cancel') {
+        await this.replace(latest, 'cancel');
+      } else if (stuck && speedUps < this.config.maxReplacements) {
+        if (await this.replace(latest, 'speed-up')) {
+          speedUps++;
+        }
+      } else if (stuck && !reportedStuck) {
+        // Left to an operator to cancel from here
+        reportedStuck = true;
+        logger.error('Transaction still stuck after the most speed-ups allowed', {
+          chain,
+          txHash: latest.txHash,
+          nonce: latest.nonce,
+          speedUps,
+        });
+      }
+
+      if (Date.now() >= deadline) {
+        throw new Error(
+          `TIMEOUT: ${latest.txHash} on ${chain} not confirmed within ${Math.round(this.config.maxWaitMs / 1000)}s`
+        );
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, this.config.pollIntervalMs));
+    }
+  }
+
+  /**
+   * Cancel every pending transaction an operator asked to cancel, by
+   * replacing it with a zero-value transfer to the gas wallet itself
+   */
+  async processCancelRequests(): Promise<void> {
+    const result = await db.query(
+      `SELECT * FROM transaction_logs
+       WHERE cancel_requested_at IS NOT NULL AND status = 'pending' AND tx_type <> 'cancel'
+       ORDER BY cancel_requested_at`
+    );
+
+    for (const row of result.rows) {
+      const attempt = this.mapToAttempt(row);
+      try {
+        await this.replace(attempt, 'cancel');
+      } catch (error) {
+        logger.error('Failed to cancel transaction', {
+          chain: attempt.chain,
+          txHash: attempt.txHash,
+          error: (error as Error).message,
+        });
+      }
+    }
+  }
+
+  /**
+   * Re-send an attempt at its nonce with bumped fees: the same call for a
+   * speed-up, a zero-value self-transfer for a cancellation. Returns false
+   * when another process replaced it first or the nonce was already mined.
+   */
+  private async replace(attempt: TransactionAttempt, kind: ReplacementKind): Promise<boolean> {
+    // Claim the attempt, so only one process replaces it
+    const claimed = await db.query(
+      `UPDATE transaction_logs SET status = 'replaced'
+       WHERE id = $1 AND status = 'pending'
+       RETURNING cancel_requested_at`,
+      [attempt.id]
+    );
+    if (claimed.rows.length === 0) {
+      return false;
+    }
+
+    // A cancel requested while this was being sped up takes precedence
+    if (claimed.rows[0].cancel_requested_at) {
+      kind = 'cancel';
+    }
+
+    try {
+      const wallet = await this.getWallet(attempt.chain, attempt.fromAddress);
+      const fresh = await this.gasAbstractor.getFeeEstimate(attempt.chain, 'fast');
+      const bump = (fee: bigint) => (fee * this.config.feeBumpPercent) / 100n;
+      const max = (a: bigint, b: bigint) => (a > b ? a : b);
+
+      const maxPriorityFeePerGas = max(bump(attempt.maxPriorityFeePerGas), fresh.maxPriorityFeePerGas);
+      const maxFeePerGas = max(max(bump(attempt.maxFeePerGas), fresh.maxFeePerGas), maxPriorityFeePerGas);
+
+      const call =
+        kind === 'cancel'
+          ? { to: wallet.address, value: 0n, data: '0x', gasLimit: 21000n }
+          : { to: attempt.toAddress, value: attempt.value, data: attempt.data, gasLimit: attempt.gasLimit };
+
+      const response = await wallet.sendTransaction({
+        ...call,
+        nonce: attempt.nonce,
+        type: 2,
+        maxFeePerGas,
+        maxPriorityFeePerGas,
+      });
+      await getNonceManager().markBroadcast(attempt.chain, wallet.address, attempt.nonce);
+
+      await db.query(
+        `INSERT INTO transaction_logs (
+          payment_intent_id, chain, tx_hash, tx_type, status, from_address, to_address, nonce,
+          value, data, gas_limit, max_fee_per_gas, max_priority_fee_per_gas, replaces_tx_id
+        ) VALUES ($1, $2, $3, $4, 'pending', $5, $6, $7, $8, $9, $10, $11, $12, $13)`,
+        [
+          attempt.paymentIntentId,
+          attempt.chain,
+          response.hash,
+          kind === 'cancel' ? 'cancel' : attempt.txType,
+          wallet.address,
+          call.to,
+          attempt.nonce,
+          call.value.toString(),
+          call.data,
+          call.gasLimit.toString(),
+          maxFeePerGas.toString(),
+          maxPriorityFeePerGas.toString(),
+          attempt.id,
+        ]
+      );
+
+      logger.warn(kind === 'cancel' ? 'Cancelled transaction' : 'Sped up stuck transaction', {
+        chain: attempt.chain,
+        nonce: attempt.nonce,
+        replacedTxHash: attempt.txHash,
+        txHash: response.hash,
+        maxFeePerGas: maxFeePerGas.toString(),
+        maxPriorityFeePerGas: maxPriorityFeePerGas.toString(),
+      });
+
+      return true;
+    } catch (error) {
+      // Still the live attempt; the next poll finds its receipt or tries again
+      await db.query(
+        `UPDATE transaction_logs SET status = 'pending' WHERE id = $1 AND status = 'replaced'`,
+        [attempt.id]
+      );
+
+      if (isNonceError(error as Error)) {
+        logger.info('Nonce mined before the replacement was sent', {
+          chain: attempt.chain,
+          txHash: attempt.txHash,
+          nonce: attempt.nonce,
+        });
+        return false;
+      }
+
+      logger.error('Failed to replace transaction', {
+        chain: attempt.chain,
+        txHash: attempt.txHash,
+        kind,
+        error: (error as Error).message,
+      });
+      return false;
+    }
+  }
+
+  /**
+   * Record the mined attempt's outcome and mark every other attempt at the
+   * nonce replaced
+   */
+  private async finalize(
+    mined: TransactionAttempt,
+    attempts: TransactionAttempt[],
+    receipt: TransactionReceipt
+  ): Promise<string> {
+    const succeeded = receipt.status === 1;
+
+    await db.query(
+      `UPDATE transaction_logs
+       SET status = $1, gas_used = $2, confirmed_at = NOW(), error_message = $3
+       WHERE id = $4`,
+      [
+        succeeded ? 'confirmed' : 'failed',
+        receipt.gasUsed.toString(),
+        succeeded ? null : 'Transaction reverted',
+        mined.id,
+      ]
+    );
+    await db.query(
+      `UPDATE transaction_logs SET status = 'replaced' WHERE id = ANY($1::uuid[]) AND id <> $2`,
+      [attempts.map((attempt) => attempt.id), mined.id]
+    );
+
+    logger.info('Transaction confirmed', {
+      chain: mined.chain,
+      txHash: mined.txHash,
+      blockNumber: receipt.blockNumber,
+      replacements: attempts.length - 1,
+    });
+
+    if (mined.txType === 'cancel') {
+      throw new Error(`TRANSACTION_CANCELLED: nonce ${mined.nonce} was used by cancellation ${mined.txHash}`);
+    }
+    if (!succeeded) {
+      throw new Error(`TRANSACTION_REVERTED: ${mined.txHash}`);
+    }
+
+    return mined.txHash;
+  }
+
+  private async findAttempt(chain: Chain, txHash: string): Promise<TransactionAttempt> {
+    const result = await db.query(
+      'SELECT * FROM transaction_logs WHERE chain = $1 AND tx_hash = $2 ORDER BY created_at DESC LIMIT 1',
+      [chain, txHash]
+    );
+
+    if (result.rows.length === 0 || result.rows[0].nonce === null) {
+      throw new Error(`No replaceable transaction logged for ${txHash} on ${chain}`);
+    }
+
+    return this.mapToAttempt(result.rows[0]);
+  }
+
+  /**
+   * The attempt and every replacement after it, oldest first
+   */
+  private async getAttempts(attemptId: string): Promise<TransactionAttempt[]> {
+    const result = await db.query(
+      `WITH RECURSIVE attempts AS (
+         SELECT * FROM transaction_logs WHERE id = $1
+         UNION ALL
+         SELECT t.* FROM transaction_logs t JOIN attempts a ON t.replaces_tx_id = a.id
+       )
+       SELECT * FROM attempts ORDER BY created_at`,
+      [attemptId]
+    );
+
+    return result.rows.map((row) => this.mapToAttempt(row));
+  }
+
+  private async getWallet(chain: Chain, fromAddress: string): Promise<EvmSigner> {
+    const wallet = await this.gasAbstractor.getGasWallet(chain);
+
+    if (!wallet.provider) {
+      throw new Error(`No provider for ${chain}`);
+    }
+    // Guards against the gas wallet key changing while a transaction was in flight
+    if (wallet.address.toLowerCase() !== fromAddress.toLowerCase()) {
+      throw new Error(`Gas wallet for ${chain} is not the sender ${fromAddress}`);
+    }
+
+    return wallet;
+  }
+
+  private mapToAttempt(row: any): TransactionAttempt {
+    return {
+      id: row.id,
+      paymentIntentId: row.payment_intent_id,
+      chain: row.chain,
+      txHash: row.tx_hash,
+      txType: row.tx_type,
+      status: row.status,
+      fromAddress: row.from_address,
+      toAddress: row.to_address,
+      nonce: Number(row.nonce),
+      value: BigInt(row.value || 0),
+      data: row.data || '0x',
+      gasLimit: BigInt(row.gas_limit || 0),
+      maxFeePerGas: BigInt(row.max_fee_per_gas || 0),
+      maxPriorityFeePerGas: BigInt(row.max_priority_fee_per_gas || 0),
+      createdAt: new Date(row.created_at),
+    };
+  }
+}
+
+let transactionWatcher: TransactionWatcher | null = null;
+
+export function getTransactionWatcher(): TransactionWatcher {
+  if (!transactionWatcher) {
+    transactionWatcher = new TransactionWatcher();
+  }
+  return transactionWatcher;
+}
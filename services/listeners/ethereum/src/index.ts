@@ -1,2 +0,0 @@
-export * from './EthereumListener';
-
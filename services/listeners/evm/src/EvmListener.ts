@@ -0,0 +1,451 @@
+/**
+ * EVM Listener
+ * Generic listener for any chain in CHAIN_CONFIGS with family 'evm'.
+ * Native transfers are found by scanning blocks, ERC-20 transfers of the
+ * chain's TOKEN_ADDRESSES with batched eth_getLogs queries. The pending
+ * block is polled as well, so payers see a transfer before it is mined.
+ */
+
+import { ethers } from 'ethers';
+import { BaseListener, BlockHeader, FinalityHeads, ListenerConfig } from '../../shared/src/BaseListener';
+import { ChainEvent } from '@shared/types';
+import { logger } from '@shared/utils/logger';
+import { CHAIN_CONFIGS, TOKEN_ADDRESSES, TOKEN_DECIMALS } from '@shared/constants/chains';
+
+const TRANSFER_TOPIC = ethers.id('Transfer(address,address,uint256)');
+
+// Providers commonly reject topic filters with more entries than this
+const MAX_ADDRESSES_PER_QUERY = 500;
+
+// Consecutive failed safe/finalized lookups before the node is taken not to serve them
+const MAX_FINALITY_FAILURES = 5;
+
+// Raw JSON-RPC shapes; ethers cannot format pending blocks and logs, which lack hashes
+interface PendingTransaction {
+  hash: string;
+  from: string;
+  to: string | null;
+  value: string;
+}
+
+interface PendingLog {
+  address: string;
+  topics: string[];
+  data: string;
+  transactionHash: string;
+  logIndex: string;
+}
+
+interface TokenConfig {
+  address: string;
+  symbol: string;
+  decimals: number;
+}
+
+export class EvmListener extends BaseListener {
+  private provider: ethers.JsonRpcProvider;
+  private pollingTimeout?: NodeJS.Timeout;
+  private mempoolTimeout?: NodeJS.Timeout;
+  private addressSet: Set<string>;
+  private tokens: TokenConfig[];
+  private nativeToken: string;
+  private headBlock: number = 0;
+  private finalityFailures: number = 0;
+
+  constructor(config: ListenerConfig) {
+    super(config);
+
+    const chainConfig = CHAIN_CONFIGS[config.chain];
+    if (chainConfig.family !== 'evm') {
+      throw new Error(`${config.chain} is not an EVM chain`);
+    }
+
+    this.provider = new ethers.JsonRpcProvider(config.rpcUrl, chainConfig.chainId, { staticNetwork: true });
+    this.addressSet = new Set(config.addresses.map((a) => a.toLowerCase()));
+    this.nativeToken = chainConfig.nativeToken;
+    this.reportsFinality = true; // Until the node shows it has no safe/finalized tags
+
+    const tokenAddresses = (TOKEN_ADDRESSES as Record<string, Record<string, string>>)[config.chain] || {};
+    this.tokens = Object.entries(tokenAddresses).map(([symbol, address]) => ({
+      address,
+      symbol,
+      decimals: TOKEN_DECIMALS[symbol] ?? 18,
+    }));
+  }
+
+  /**
+   * Start the listener
+   */
+  async start(): Promise<void> {
+    if (this.isRunning) {
+      logger.warn('Listener already running', { chain: this.config.chain });
+      return;
+    }
+
+    logger.info(`Starting ${this.config.chain} listener`, {
+      addresses: this.addressSet.size,
+      tokens: this.tokens.map((t) => t.symbol),
+    });
+
+    await this.initialize();
+
+    this.isRunning = true;
+    this.pollBlocks();
+    this.pollMempool();
+    this.startConfirmationChecker();
+
+    logger.info(`${this.config.chain} listener started`, {
+      startBlock: this.lastProcessedBlock,
+    });
+  }
+
+  /**
+   * Stop the listener
+   */
+  async stop(): Promise<void> {
+    this.isRunning = false;
+
+    if (this.pollingTimeout) {
+      clearTimeout(this.pollingTimeout);
+      this.pollingTimeout = undefined;
+    }
+
+    if (this.mempoolTimeout) {
+      clearTimeout(this.mempoolTimeout);
+      this.mempoolTimeout = undefined;
+    }
+
+    this.stopConfirmationChecker();
+    await this.saveCheckpoint();
+    this.provider.destroy();
+
+    logger.info(`${this.config.chain} listener stopped`);
+  }
+
+  async getCurrentBlockNumber(): Promise<number> {
+    return await this.provider.getBlockNumber();
+  }
+
+  async getBlockHeader(blockNumber: number): Promise<BlockHeader | null> {
+    const block = await this.provider.getBlock(blockNumber);
+    if (!block || !block.hash) return null;
+
+    return { number: block.number, hash: block.hash, parentHash: block.parentHash };
+  }
+
+  /**
+   * Safe and finalized heads from the node's block tags
+   */
+  protected async getFinalityHeads(): Promise<FinalityHeads | null> {
+    if (!this.reportsFinality) return null;
+
+    try {
+      const [safe, finalized] = await Promise.all([
+        this.provider.getBlock('safe'),
+        this.provider.getBlock('finalized'),
+      ]);
+      if (!safe || !finalized) {
+        throw new Error('Node returned no block for the safe or finalized tag');
+      }
+
+      this.finalityFailures = 0;
+      return { safe: safe.number, finalized: finalized.number };
+    } catch (error: unknown) {
+      this.finalityFailures++;
+      if (this.finalityFailures >= MAX_FINALITY_FAILURES) {
+        this.reportsFinality = false;
+        logger.warn('Node does not serve safe/finalized block tags; tracking transfers by depth only', {
+          chain: this.config.chain,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+      return null;
+    }
+  }
+
+  /**
+   * Poll for new blocks and process them in batches of config.batchSize
+   */
+  private async pollBlocks(): Promise<void> {
+    if (!this.isRunning) return;
+
+    try {
+      this.headBlock = await this.getCurrentBlockNumber();
+
+      while (this.lastProcessedBlock < this.headBlock && this.isRunning) {
+        const startBlock = this.lastProcessedBlock + 1;
+        const endBlock = Math.min(startBlock + (this.config.batchSize || 100) - 1, this.headBlock);
+
+        const completed = await this.processBlockRange(startBlock, endBlock);
+        if (!completed) {
+          // Reorg: lastProcessedBlock was rewound to the fork point
+          continue;
+        }
+
+        this.lastProcessedBlock = endBlock;
+        this.processingStats.blocksProcessed += endBlock - startBlock + 1;
+        await this.saveCheckpoint();
+      }
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logger.error('Error polling blocks', { chain: this.config.chain, error: errorMessage });
+      this.processingStats.errors++;
+    }
+
+    this.pollingTimeout = setTimeout(() => this.pollBlocks(), this.config.pollInterval);
+  }
+
+  /**
+   * Report native and token transfers to watched addresses in the pending
+   * block. Nodes without a pending block return the latest one, whose
+   * transfers are picked up by block processing anyway.
+   */
+  private async pollMempool(): Promise<void> {
+    if (!this.isRunning) return;
+
+    if (this.addressSet.size > 0) {
+      try {
+        await this.scanPendingTransactions();
+        await this.scanPendingTokenTransfers();
+      } catch (error: unknown) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        logger.debug('Error polling pending block', { chain: this.config.chain, error: errorMessage });
+      }
+    }
+
+    this.mempoolTimeout = setTimeout(() => this.pollMempool(), this.config.pollInterval);
+  }
+
+  private async scanPendingTransactions(): Promise<void> {
+    const block = await this.provider.send('eth_getBlockByNumber', ['pending', true]);
+    const transactions: PendingTransaction[] = block?.transactions || [];
+
+    for (const tx of transactions) {
+      if (!tx.to || BigInt(tx.value) === 0n) continue;
+
+      const toAddress = tx.to.toLowerCase();
+      if (!this.addressSet.has(toAddress)) continue;
+
+      const amount = ethers.formatEther(BigInt(tx.value));
+      await this.handlePendingEvent({
+        chain: this.config.chain,
+        txHash: tx.hash,
+        blockNumber: 0,
+        blockHash: '',
+        from: tx.from.toLowerCase(),
+        to: toAddress,
+        amount,
+        amountUSD: await this.convertToUSD(this.nativeToken, amount),
+        timestamp: Date.now(),
+        confirmations: 0,
+      });
+    }
+  }
+
+  private async scanPendingTokenTransfers(): Promise<void> {
+    if (this.tokens.length === 0) return;
+
+    const tokensByAddress = new Map(this.tokens.map((t) => [t.address.toLowerCase(), t]));
+    const addressTopics = Array.from(this.addressSet).map((address) => ethers.zeroPadValue(address, 32));
+
+    for (let i = 0; i < addressTopics.length; i += MAX_ADDRESSES_PER_QUERY) {
+      const logs: PendingLog[] = await this.provider.send('eth_getLogs', [
+        {
+          address: this.tokens.map((t) => t.address),
+          topics: [TRANSFER_TOPIC, null, addressTopics.slice(i, i + MAX_ADDRESSES_PER_QUERY)],
+          fromBlock: 'pending',
+          toBlock: 'pending',
+        },
+      ]);
+
+      for (const log of logs || []) {
+        const token = tokensByAddress.get(log.address.toLowerCase());
+        if (!token || log.topics.length < 3) continue;
+
+        const amount = ethers.formatUnits(ethers.toBigInt(log.data), token.decimals);
+        await this.handlePendingEvent({
+          chain: this.config.chain,
+          txHash: log.transactionHash,
+          blockNumber: 0,
+          blockHash: '',
+          from: ethers.getAddress(ethers.dataSlice(log.topics[1], 12)).toLowerCase(),
+          to: ethers.getAddress(ethers.dataSlice(log.topics[2], 12)).toLowerCase(),
+          tokenAddress: token.address,
+          logIndex: Number(log.logIndex),
+          amount,
+          amountUSD: await this.convertToUSD(token.symbol, amount),
+          timestamp: Date.now(),
+          confirmations: 0,
+        });
+      }
+    }
+  }
+
+  /**
+   * Handle a pending-block transfer unless it is already tracked, mined or
+   * processed; it then stays pending until its block is processed
+   */
+  private async handlePendingEvent(event: ChainEvent): Promise<void> {
+    const eventKey = this.getEventKey(event);
+    if (this.pendingEvents.has(eventKey) || (await this.isEventProcessed(eventKey))) {
+      return;
+    }
+
+    logger.info('Pending transfer seen', {
+      chain: this.config.chain,
+      txHash: event.txHash,
+      to: event.to,
+      amount: event.amount,
+    });
+    await this.handleEvent(event);
+  }
+
+  /**
+   * Process a range of blocks. Returns false if a reorg interrupted it.
+   */
+  private async processBlockRange(startBlock: number, endBlock: number): Promise<boolean> {
+    for (let blockNumber = startBlock; blockNumber <= endBlock; blockNumber++) {
+      if (!(await this.trackBlock(blockNumber))) {
+        return false;
+      }
+      await this.processBlock(blockNumber);
+    }
+
+    await this.queryTokenTransfers(startBlock, endBlock, Array.from(this.addressSet));
+    return true;
+  }
+
+  /**
+   * Rescan native transfers block by block and token transfers to the one
+   * address in batches
+   */
+  protected async backfillAddress(address: string, fromBlock: number, toBlock: number): Promise<void> {
+    const batchSize = this.config.batchSize || 100;
+    this.headBlock = Math.max(this.headBlock, toBlock);
+
+    for (let startBlock = fromBlock; startBlock <= toBlock && this.isRunning; startBlock += batchSize) {
+      const endBlock = Math.min(startBlock + batchSize - 1, toBlock);
+
+      for (let blockNumber = startBlock; blockNumber <= endBlock; blockNumber++) {
+        await this.processBlock(blockNumber);
+      }
+      await this.queryTokenTransfers(startBlock, endBlock, [address.toLowerCase()]);
+    }
+  }
+
+  /**
+   * Rescan native and token transfers to every watched address
+   */
+  protected async rescanBlocks(fromBlock: number, toBlock: number): Promise<void> {
+    for (let blockNumber = fromBlock; blockNumber <= toBlock && this.isRunning; blockNumber++) {
+      await this.processBlock(blockNumber);
+    }
+    await this.queryTokenTransfers(fromBlock, toBlock, Array.from(this.addressSet));
+  }
+
+  /**
+   * Process a single block for native transfers
+   */
+  async processBlock(blockNumber: number): Promise<void> {
+    if (this.addressSet.size === 0) return;
+
+    const block = await this.provider.getBlock(blockNumber, true);
+    if (!block) return;
+
+    for (const tx of block.prefetchedTransactions) {
+      if (!tx.to || tx.value === 0n) continue;
+
+      const toAddress = tx.to.toLowerCase();
+      if (!this.addressSet.has(toAddress)) continue;
+
+      const amount = ethers.formatEther(tx.value);
+
+      await this.handleEvent({
+        chain: this.config.chain,
+        txHash: tx.hash,
+        blockNumber,
+        blockHash: block.hash || '',
+        from: tx.from.toLowerCase(),
+        to: toAddress,
+        amount,
+        amountUSD: await this.convertToUSD(this.nativeToken, amount),
+        timestamp: block.timestamp * 1000,
+        confirmations: this.headBlock - blockNumber,
+      });
+    }
+  }
+
+  /**
+   * Fetch Transfer logs for every configured token in one eth_getLogs call
+   * per chunk of recipient addresses
+   */
+  private async queryTokenTransfers(startBlock: number, endBlock: number, addresses: string[]): Promise<void> {
+    if (this.tokens.length === 0 || addresses.length === 0) return;
+
+    const tokensByAddress = new Map(this.tokens.map((t) => [t.address.toLowerCase(), t]));
+    const addressTopics = addresses.map((address) => ethers.zeroPadValue(address, 32));
+
+    for (let i = 0; i < addressTopics.length; i += MAX_ADDRESSES_PER_QUERY) {
+      const logs = await this.provider.getLogs({
+        address: this.tokens.map((t) => t.address),
+        topics: [TRANSFER_TOPIC, null, addressTopics.slice(i, i + MAX_ADDRESSES_PER_QUERY)],
+        fromBlock: startBlock,
+        toBlock: endBlock,
+      });
+
+      for (const log of logs) {
+        const token = tokensByAddress.get(log.address.toLowerCase());
+        if (!token || log.topics.length < 3) continue;
+
+        const from = ethers.getAddress(ethers.dataSlice(log.topics[1], 12)).toLowerCase();
+        const to = ethers.getAddress(ethers.dataSlice(log.topics[2], 12)).toLowerCase();
+        const amount = ethers.formatUnits(ethers.toBigInt(log.data), token.decimals);
+
+        const event: ChainEvent = {
+          chain: this.config.chain,
+          txHash: log.transactionHash,
+          blockNumber: log.blockNumber,
+          blockHash: log.blockHash,
+          from,
+          to,
+          tokenAddress: token.address,
+          logIndex: log.index,
+          amount,
+          amountUSD: await this.convertToUSD(token.symbol, amount),
+          timestamp: Date.now(),
+          confirmations: this.headBlock - log.blockNumber,
+        };
+
+        await this.handleEvent(event);
+      }
+    }
+  }
+
+  protected normalizeAddress(address: string): string {
+    return address.toLowerCase();
+  }
+
+  /**
+   * Add new address to monitor
+   */
+  addAddress(address: string): void {
+    const lowerAddress = address.toLowerCase();
+    if (!this.addressSet.has(lowerAddress)) {
+      this.addressSet.add(lowerAddress);
+      this.config.addresses.push(lowerAddress);
+      logger.info('Added address to monitor', { chain: this.config.chain, address });
+    }
+  }
+
+  /**
+   * Remove address from monitoring
+   */
+  removeAddress(address: string): void {
+    const lowerAddress = address.toLowerCase();
+    this.addressSet.delete(lowerAddress);
+    this.config.addresses = this.config.addresses.filter((a) => a.toLowerCase() !== lowerAddress);
+    logger.info('Removed address from monitoring', { chain: this.config.chain, address });
+  }
+}
+
+export default EvmListener;
@@ -0,0 +1,206 @@
+/**
+ * Tests for EvmListener
+ */
+
+import { ethers } from 'ethers';
+import { ChainEvent } from '@shared/types';
+import { TOKEN_ADDRESSES } from '@shared/constants/chains';
+import { EvmListener } from '../EvmListener';
+
+jest.mock('@shared/utils/redis', () => ({ getRedis: () => ({ set: jest.fn(), get: jest.fn() }) }));
+jest.mock('@shared/utils/priceOracle', () => ({
+  getPriceOracle: () => ({ convertToUSD: jest.fn().mockResolvedValue(1) }),
+}));
+jest.mock('../../../shared/src/db', () => ({ db: { query: jest.fn().mockResolvedValue({ rows: [] }) } }));
+
+const WATCHED = '0x1111111111111111111111111111111111111111';
+const PAYER = '0x2222222222222222222222222222222222222222';
+const USDC = TOKEN_ADDRESSES.base.USDC;
+const TRANSFER_TOPIC = ethers.id('Transfer(address,address,uint256)');
+const topic = (address: string) => ethers.zeroPadValue(address, 32);
+
+describe('EvmListener', () => {
+  let listener: EvmListener;
+  let events: ChainEvent[];
+  let provider: {
+    getBlockNumber: jest.Mock;
+    getBlock: jest.Mock;
+    getLogs: jest.Mock;
+    send: jest.Mock;
+    destroy: jest.Mock;
+  };
+
+  const create = (chain: 'base' | 'polygon', addresses = [WATCHED]) =>
+    new EvmListener({ chain, rpcUrl: 'http://127.0.0.1:8545', addresses, onPayment: jest.fn(), batchSize: 100 });
+
+  const transferLog = (overrides: object = {}) => ({
+    address: USDC,
+    topics: [TRANSFER_TOPIC, topic(PAYER), topic(WATCHED)],
+    data: ethers.toBeHex(2_500_000n, 32),
+    transactionHash: '0xtoken',
+    blockNumber: 120,
+    blockHash: '0xblock120',
+    index: 7,
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    events = [];
+    listener = create('base');
+    provider = {
+      getBlockNumber: jest.fn().mockResolvedValue(250),
+      getBlock: jest.fn(async (blockNumber: number) => ({
+        number: blockNumber,
+        hash: `0xblock${blockNumber}`,
+        parentHash: `0xblock${blockNumber - 1}`,
+        timestamp: 1700000000,
+        prefetchedTransactions: [],
+      })),
+      getLogs: jest.fn().mockResolvedValue([]),
+      send: jest.fn().mockResolvedValue(null),
+      destroy: jest.fn(),
+    };
+    (listener as any).provider = provider;
+    (listener as any).headBlock = 250;
+    jest.spyOn(listener as any, 'handleEvent').mockImplementation((...args: unknown[]) => {
+      events.push(args[0] as ChainEvent);
+      return Promise.resolve();
+    });
+    jest.spyOn(listener as any, 'handlePendingEvent').mockImplementation((...args: unknown[]) => {
+      events.push(args[0] as ChainEvent);
+      return Promise.resolve();
+    });
+  });
+
+  describe('chain setup', () => {
+    it("should watch the chain's configured tokens with their decimals", () => {
+      expect((listener as any).nativeToken).toBe('ETH');
+      expect((listener as any).tokens).toEqual([
+        { symbol: 'USDC', address: USDC, decimals: 6 },
+        { symbol: 'WETH', address: TOKEN_ADDRESSES.base.WETH, decimals: 18 },
+      ]);
+      expect((create('polygon') as any).nativeToken).toBe('MATIC');
+    });
+
+    it('should refuse a chain that is not EVM', () => {
+      expect(
+        () => new EvmListener({ chain: 'solana', rpcUrl: '', addresses: [], onPayment: jest.fn() })
+      ).toThrow('solana is not an EVM chain');
+    });
+  });
+
+  describe('block processing', () => {
+    it('should query token transfers once per batch of blocks', async () => {
+      (listener as any).isRunning = true;
+      await (listener as any).pollBlocks();
+      await listener.stop();
+
+      expect(provider.getLogs.mock.calls.map(([filter]) => [filter.fromBlock, filter.toBlock])).toEqual([
+        [1, 100],
+        [101, 200],
+        [201, 250],
+      ]);
+      expect(provider.getLogs.mock.calls[0][0]).toMatchObject({
+        address: [USDC, TOKEN_ADDRESSES.base.WETH],
+        topics: [TRANSFER_TOPIC, null, [topic(WATCHED)]],
+      });
+      expect((listener as any).lastProcessedBlock).toBe(250);
+    });
+
+    it('should split the watched addresses across queries', async () => {
+      const addresses = Array.from({ length: 501 }, (_, i) => ethers.toBeHex(i + 1, 20));
+
+      await (listener as any).queryTokenTransfers(1, 100, addresses);
+
+      expect(provider.getLogs).toHaveBeenCalledTimes(2);
+      expect(provider.getLogs.mock.calls[0][0].topics[2]).toHaveLength(500);
+      expect(provider.getLogs.mock.calls[1][0].topics[2]).toEqual([topic(addresses[500])]);
+    });
+
+    it('should report native transfers to watched addresses', async () => {
+      provider.getBlock.mockResolvedValueOnce({
+        hash: '0xblock120',
+        timestamp: 1700000000,
+        prefetchedTransactions: [
+          { hash: '0xnative', from: PAYER, to: ethers.getAddress(WATCHED), value: ethers.parseEther('1.5') },
+          { hash: '0xempty', from: PAYER, to: WATCHED, value: 0n },
+          { hash: '0xother', from: PAYER, to: PAYER, value: ethers.parseEther('2') },
+        ],
+      });
+
+      await listener.processBlock(120);
+
+      expect(events).toEqual([
+        expect.objectContaining({
+          txHash: '0xnative',
+          blockNumber: 120,
+          blockHash: '0xblock120',
+          from: PAYER,
+          to: WATCHED,
+          amount: '1.5',
+          timestamp: 1700000000000,
+          confirmations: 130,
+        }),
+      ]);
+      expect(events[0].tokenAddress).toBeUndefined();
+      expect(events[0].logIndex).toBeUndefined();
+    });
+
+    it('should decode ERC-20 transfers with their log index', async () => {
+      provider.getLogs.mockResolvedValueOnce([
+        transferLog(),
+        transferLog({ address: '0x3333333333333333333333333333333333333333' }), // Not a watched token
+      ]);
+
+      await (listener as any).queryTokenTransfers(101, 200, [WATCHED]);
+
+      expect(events).toEqual([
+        expect.objectContaining({
+          txHash: '0xtoken',
+          blockNumber: 120,
+          from: PAYER,
+          to: WATCHED,
+          tokenAddress: USDC,
+          logIndex: 7,
+          amount: '2.5',
+          confirmations: 130,
+        }),
+      ]);
+    });
+  });
+
+  describe('pending block', () => {
+    it('should report pending native transfers', async () => {
+      provider.send.mockResolvedValueOnce({
+        transactions: [{ hash: '0xpending', from: PAYER, to: WATCHED, value: '0x14d1120d7b160000' }],
+      });
+
+      await (listener as any).scanPendingTransactions();
+
+      expect(events).toEqual([
+        expect.objectContaining({ txHash: '0xpending', blockNumber: 0, amount: '1.5', to: WATCHED }),
+      ]);
+    });
+
+    it('should decode pending ERC-20 transfers from raw JSON-RPC logs', async () => {
+      provider.send.mockResolvedValueOnce([
+        { ...transferLog(), transactionHash: '0xpendingtoken', logIndex: '0x3' },
+      ]);
+
+      await (listener as any).scanPendingTokenTransfers();
+
+      expect(provider.send).toHaveBeenCalledWith('eth_getLogs', [
+        expect.objectContaining({ fromBlock: 'pending', toBlock: 'pending' }),
+      ]);
+      expect(events).toEqual([
+        expect.objectContaining({
+          txHash: '0xpendingtoken',
+          blockNumber: 0,
+          tokenAddress: USDC,
+          logIndex: 3,
+          amount: '2.5',
+        }),
+      ]);
+    });
+  });
+});
@@ -4,21 +4,38 @@
  * with persistent block tracking and reliable event handling
  */
 
-import { ChainEvent, Chain } from '@shared/types';
+import { ChainEvent, ChainReorg, Chain, RescanFinding } from '@shared/types';
 import { logger } from '@shared/utils/logger';
 import { getPriceOracle } from '@shared/utils/priceOracle';
 import { getRedis } from '@shared/utils/redis';
+import { exceedsAnyPolicy, MAX_POLICY_CONFIRMATIONS } from '@shared/utils/confirmationPolicy';
 import { db } from './db';
 
 export interface ListenerConfig {
   chain: Chain;
   rpcUrl: string;
   addresses: string[];
-  confirmationsRequired: number;
   onPayment: (event: ChainEvent) => Promise<void>;
+  onReorg?: (reorg: ChainReorg) => Promise<void>;
+  onSeen?: (event: ChainEvent) => Promise<void>; // Tracked transfer first seen or its depth changed
   startBlock?: number;
   batchSize?: number;
   pollInterval?: number;
+  reorgWindow?: number; // Recent block hashes kept for reorg detection
+  backfillBlocks?: number; // Most blocks rescanned when a new address is watched
+  instanceId?: string; // Replica running this listener, recorded with checkpoints
+  leaseEpoch?: number; // Leadership epoch; checkpoint writes from older epochs are rejected
+}
+
+export interface FinalityHeads {
+  safe: number;
+  finalized: number;
+}
+
+export interface BlockHeader {
+  number: number;
+  hash: string;
+  parentHash: string;
 }
 
 interface BlockCheckpoint {
@@ -28,6 +45,33 @@ interface BlockCheckpoint {
   eventsProcessed: number;
 }
 
+interface ProgressSample {
+  at: number;    // Unix ms
+  block: number; // lastProcessedBlock at that time
+}
+
+const MAX_PROGRESS_SAMPLES = 500;
+
+export interface RescanRequest {
+  fromBlock?: number; // Defaults to addressRescanStart() for an address, required otherwise
+  toBlock?: number;   // Defaults to the chain head
+  address?: string;   // Only rescan transfers to this address
+}
+
+export interface RescanProgress {
+  fromBlock: number;
+  toBlock: number;
+  currentBlock: number; // Highest block scanned so far
+  eventsFound: number;
+  eventsNew: number;
+  findings: RescanFinding[]; // First MAX_RESCAN_FINDINGS only; the counts are exact
+}
+
+const MAX_RESCAN_FINDINGS = 1000;
+
+// Mempool transfers not mined within this long were dropped or replaced
+const MEMPOOL_EVENT_TTL_MS = 3 * 60 * 60 * 1000;
+
 interface ProcessingStats {
   blocksProcessed: number;
   eventsDetected: number;
@@ -44,11 +88,18 @@ export abstract class BaseListener {
   protected processingStats: ProcessingStats;
   protected pendingEvents: Map<string, ChainEvent> = new Map();
   protected confirmationCheckInterval?: NodeJS.Timeout;
+  protected blockHashes: Map<number, BlockHeader> = new Map();
+  protected progressLog: ProgressSample[] = [];
+  protected addressAddedAt: Map<string, number> = new Map();
+  protected reportsFinality: boolean = false; // Whether the node serves safe/finalized block tags
+  private activeRescan?: { request: RescanRequest; progress: RescanProgress; seen: Set<string> };
 
   constructor(config: ListenerConfig) {
     this.config = {
       batchSize: 100,
       pollInterval: 12000, // 12 seconds default
+      reorgWindow: 64,
+      backfillBlocks: 1000,
       ...config,
     };
 
@@ -84,6 +135,9 @@ export abstract class BaseListener {
 
     // Load pending events that need confirmation
     await this.loadPendingEvents();
+
+    // Load recent block hashes so a reorg across a restart is still caught
+    await this.loadBlockHashes();
   }
 
   /**
@@ -106,6 +160,195 @@ export abstract class BaseListener {
    */
   abstract getCurrentBlockNumber(): Promise<number>;
 
+  /**
+   * Get hash and parent hash of a block on the current canonical chain
+   */
+  abstract getBlockHeader(blockNumber: number): Promise<BlockHeader | null>;
+
+  /**
+   * Highest safe and finalized blocks, on chains whose nodes report them
+   */
+  protected async getFinalityHeads(): Promise<FinalityHeads | null> {
+    return null;
+  }
+
+  /**
+   * Check that a block extends the chain already processed, then remember
+   * its hash. Returns false when a reorg was detected: the listener has
+   * rewound lastProcessedBlock to the fork point, and the caller must
+   * resume from there instead of processing this block. Throws when the
+   * rollback fails, leaving the checkpoint where it was.
+   */
+  protected async trackBlock(blockNumber: number): Promise<boolean> {
+    const header = await this.getBlockHeader(blockNumber);
+    if (!header) {
+      throw new Error(`Block ${blockNumber} not available on ${this.config.chain}`);
+    }
+
+    const parent = this.blockHashes.get(blockNumber - 1);
+    if (parent && parent.hash !== header.parentHash) {
+      logger.warn('Chain reorganization detected', {
+        chain: this.config.chain,
+        blockNumber,
+        expectedParent: parent.hash,
+        actualParent: header.parentHash,
+      });
+
+      const forkBlock = await this.findForkPoint(blockNumber - 1);
+      await this.handleReorg(forkBlock);
+      return false;
+    }
+
+    await this.recordBlockHash(header);
+    return true;
+  }
+
+  /**
+   * Walk back through the hash window to the highest block whose stored
+   * hash still matches the chain
+   */
+  protected async findForkPoint(fromBlock: number): Promise<number> {
+    const oldest = Math.min(...this.blockHashes.keys());
+
+    for (let blockNumber = fromBlock; blockNumber >= oldest; blockNumber--) {
+      const stored = this.blockHashes.get(blockNumber);
+      if (!stored) continue;
+
+      const current = await this.getBlockHeader(blockNumber);
+      if (current && current.hash === stored.hash) {
+        return blockNumber;
+      }
+    }
+
+    logger.error('Reorg deeper than the block hash window; rescanning the whole window', {
+      chain: this.config.chain,
+      window: this.config.reorgWindow,
+    });
+    return oldest - 1;
+  }
+
+  /**
+   * Roll back everything above the fork point: tell the API to invalidate
+   * its payment events, then drop stored hashes and processed events from
+   * orphaned blocks so they are picked up again if re-mined, and only then
+   * forget them in memory and rewind the checkpoint. A failed step throws
+   * before anything in memory changes, so the next poll detects the reorg
+   * again and retries the rollback instead of rescanning over stale state.
+   */
+  protected async handleReorg(forkBlock: number): Promise<void> {
+    const orphaned = Array.from(this.blockHashes.values())
+      .filter((header) => header.number > forkBlock)
+      .sort((a, b) => a.number - b.number);
+
+    if (this.config.onReorg) {
+      await this.config.onReorg({
+        chain: this.config.chain,
+        forkBlock,
+        orphanedBlockHashes: orphaned.map((header) => header.hash),
+        detectedAt: Date.now(),
+      });
+    }
+
+    try {
+      await db.query(
+        `DELETE FROM listener_block_hashes WHERE chain = $1 AND block_number > $2`,
+        [this.config.chain, forkBlock]
+      );
+      await db.query(
+        `DELETE FROM processed_events WHERE chain = $1 AND block_number > $2`,
+        [this.config.chain, forkBlock]
+      );
+    } catch (error) {
+      logger.error('Failed to roll back listener state', { chain: this.config.chain, forkBlock, error });
+      throw error;
+    }
+
+    for (const header of orphaned) {
+      this.blockHashes.delete(header.number);
+    }
+
+    for (const [eventKey, event] of this.pendingEvents) {
+      if (event.blockNumber > forkBlock) {
+        this.pendingEvents.delete(eventKey);
+        await this.removePendingEvent(eventKey);
+      }
+    }
+
+    this.lastProcessedBlock = Math.min(this.lastProcessedBlock, forkBlock);
+    await this.saveCheckpoint();
+
+    logger.warn('Rolled back to fork point', {
+      chain: this.config.chain,
+      forkBlock,
+      orphanedBlocks: orphaned.length,
+    });
+  }
+
+  /**
+   * Remember a processed block's hash, keeping only the configured window
+   */
+  protected async recordBlockHash(header: BlockHeader): Promise<void> {
+    this.blockHashes.set(header.number, header);
+
+    const cutoff = header.number - (this.config.reorgWindow || 64);
+    for (const blockNumber of this.blockHashes.keys()) {
+      if (blockNumber <= cutoff) {
+        this.blockHashes.delete(blockNumber);
+      }
+    }
+
+    try {
+      await db.query(
+        `INSERT INTO listener_block_hashes (chain, block_number, block_hash, parent_hash)
+         VALUES ($1, $2, $3, $4)
+         ON CONFLICT (chain, block_number) DO UPDATE SET
+           block_hash = $3, parent_hash = $4, created_at = NOW()`,
+        [this.config.chain, header.number, header.hash, header.parentHash]
+      );
+      await db.query(
+        `DELETE FROM listener_block_hashes WHERE chain = $1 AND block_number <= $2`,
+        [this.config.chain, cutoff]
+      );
+    } catch (error) {
+      logger.warn('Failed to persist block hash', { chain: this.config.chain, error });
+    }
+  }
+
+  /**
+   * Load the block hash window from storage
+   */
+  protected async loadBlockHashes(): Promise<void> {
+    try {
+      const result = await db.query(
+        `SELECT block_number, block_hash, parent_hash FROM listener_block_hashes
+         WHERE chain = $1 AND block_number <= $2
+         ORDER BY block_number DESC LIMIT $3`,
+        [this.config.chain, this.lastProcessedBlock, this.config.reorgWindow || 64]
+      );
+
+      for (const row of result.rows) {
+        const blockNumber = parseInt(row.block_number);
+        this.blockHashes.set(blockNumber, {
+          number: blockNumber,
+          hash: row.block_hash,
+          parentHash: row.parent_hash,
+        });
+      }
+    } catch (error) {
+      logger.warn('Failed to load block hashes', { chain: this.config.chain, error });
+    }
+  }
+
+  /**
+   * Whether the block an event was seen in is still on the canonical chain
+   */
+  protected async isOnCanonicalChain(event: ChainEvent): Promise<boolean> {
+    if (!event.blockHash) return true;
+
+    const header = await this.getBlockHeader(event.blockNumber);
+    return !!header && header.hash === event.blockHash;
+  }
+
   /**
    * Handle detected event
    */
@@ -113,12 +356,56 @@ export abstract class BaseListener {
     this.processingStats.eventsDetected++;
     this.processingStats.lastActivity = new Date();
 
-    // Check if event has enough confirmations
-    if (event.confirmations >= this.config.confirmationsRequired) {
+    // A mined transfer replaces the mempool entry it was tracked under
+    if (event.blockNumber) {
+      const mempoolKey = this.getEventKey({ ...event, blockNumber: 0 });
+      if (this.pendingEvents.delete(mempoolKey)) {
+        await this.removePendingEvent(mempoolKey);
+      }
+    }
+
+    // Mempool transfers (block 0) are not part of any rescanned range
+    if (this.activeRescan && event.blockNumber) {
+      await this.recordRescanFinding(event);
+    }
+
+    // Past what any confirmation policy asks for; until then the API judges each report
+    if (exceedsAnyPolicy(event, this.reportsFinality)) {
       await this.confirmEvent(event);
     } else {
+      const previous = this.pendingEvents.get(this.getEventKey(event));
+
       // Store for confirmation checking
       await this.storePendingEvent(event);
+
+      if (
+        !previous ||
+        previous.blockHash !== event.blockHash ||
+        previous.confirmations !== event.confirmations ||
+        previous.finality !== event.finality
+      ) {
+        await this.notifySeen(event);
+      }
+    }
+  }
+
+  /**
+   * Report a transfer still being tracked, so the API can apply the agent's
+   * confirmation policy and payers can follow its confirmations. Best
+   * effort: it is reported again on its next change and through onPayment
+   * once final.
+   */
+  protected async notifySeen(event: ChainEvent): Promise<void> {
+    if (!this.config.onSeen) return;
+
+    try {
+      await this.config.onSeen(event);
+    } catch (error) {
+      logger.warn('Failed to report unconfirmed event', {
+        chain: event.chain,
+        txHash: event.txHash,
+        error: (error as Error).message,
+      });
     }
   }
 
@@ -136,6 +423,19 @@ export abstract class BaseListener {
         return;
       }
 
+      // Never confirm a transfer whose block was reorged out
+      if (!(await this.isOnCanonicalChain(event))) {
+        logger.warn('Dropping event from orphaned block', {
+          chain: event.chain,
+          txHash: event.txHash,
+          blockNumber: event.blockNumber,
+          blockHash: event.blockHash,
+        });
+        this.pendingEvents.delete(eventKey);
+        await this.removePendingEvent(eventKey);
+        return;
+      }
+
       // Mark as processing
       await this.markEventProcessing(eventKey);
 
@@ -164,8 +464,11 @@ export abstract class BaseListener {
         error: (error as Error).message,
       });
 
-      // Mark as failed for retry
+      // Mark as failed and keep it pending so the confirmation checker retries it
       await this.markEventFailed(eventKey, error as Error);
+      if (!this.pendingEvents.has(eventKey)) {
+        await this.storePendingEvent(event);
+      }
     }
   }
 
@@ -202,7 +505,7 @@ export abstract class BaseListener {
           event.txHash,
           event.blockNumber,
           JSON.stringify(event),
-          this.config.confirmationsRequired,
+          MAX_POLICY_CONFIRMATIONS[this.config.chain],
         ]
       );
     } catch (error) {
@@ -283,37 +586,87 @@ export abstract class BaseListener {
     if (this.pendingEvents.size === 0) return;
 
     const currentBlock = await this.getCurrentBlockNumber();
+    const finalityHeads = await this.getFinalityHeads();
 
     for (const [eventKey, event] of this.pendingEvents) {
+      // Still in the mempool; the event is replaced once its block is processed
+      if (!event.blockNumber) {
+        if (Date.now() - event.timestamp > MEMPOOL_EVENT_TTL_MS) {
+          logger.info('Dropping mempool event that was never mined', { eventKey });
+          this.pendingEvents.delete(eventKey);
+          await this.removePendingEvent(eventKey);
+        }
+        continue;
+      }
+
       const confirmations = currentBlock - event.blockNumber;
+      const finality = finalityHeads ? this.blockFinality(event.blockNumber, finalityHeads) : event.finality;
+      const changed = confirmations !== event.confirmations || finality !== event.finality;
       event.confirmations = confirmations;
+      event.finality = finality;
 
-      if (confirmations >= this.config.confirmationsRequired) {
+      if (exceedsAnyPolicy(event, this.reportsFinality)) {
         await this.confirmEvent(event);
+      } else if (changed) {
+        await this.notifySeen(event);
       }
     }
   }
 
+  private blockFinality(blockNumber: number, heads: FinalityHeads): ChainEvent['finality'] {
+    if (blockNumber <= heads.finalized) return 'finalized';
+    if (blockNumber <= heads.safe) return 'safe';
+    return undefined;
+  }
+
   /**
    * Save checkpoint to database
    */
   protected async saveCheckpoint(): Promise<void> {
+    // Remember how far processing had got, to size backfills for new addresses
+    this.progressLog.push({ at: Date.now(), block: this.lastProcessedBlock });
+    if (this.progressLog.length > MAX_PROGRESS_SAMPLES) {
+      this.progressLog.shift();
+    }
+
     try {
-      await db.query(
+      const result = await db.query(
         `INSERT INTO listener_checkpoints (
-          chain, last_processed_block, events_processed, updated_at
-        ) VALUES ($1, $2, $3, NOW())
+          chain, last_processed_block, events_processed,
+          owner_instance, lease_epoch, stats, updated_at
+        ) VALUES ($1, $2, $3, $4, $5, $6, NOW())
         ON CONFLICT (chain) DO UPDATE SET
           last_processed_block = $2,
           events_processed = listener_checkpoints.events_processed + $3,
-          updated_at = NOW()`,
+          owner_instance = $4,
+          lease_epoch = $5,
+          stats = $6,
+          updated_at = NOW()
+        WHERE listener_checkpoints.lease_epoch <= $5`,
         [
           this.config.chain,
           this.lastProcessedBlock,
           this.processingStats.eventsConfirmed,
+          this.config.instanceId || null,
+          this.config.leaseEpoch || 0,
+          JSON.stringify({
+            ...this.processingStats,
+            pendingEvents: this.pendingEvents.size,
+            addresses: this.config.addresses.length,
+          }),
         ]
       );
 
+      // A newer leader owns the chain; it is the only writer now
+      if (result.rowCount === 0) {
+        logger.error('Checkpoint rejected: chain is led by a newer lease epoch', {
+          chain: this.config.chain,
+          instanceId: this.config.instanceId,
+          leaseEpoch: this.config.leaseEpoch,
+        });
+        return;
+      }
+
       // Also save to Redis for fast access
       try {
         const redis = getRedis();
@@ -333,10 +686,32 @@ export abstract class BaseListener {
   }
 
   /**
-   * Load checkpoint from database
+   * Load checkpoint from database. The row is fenced by lease epoch, so it is
+   * read first; the Redis copy may have been written by a leader that has
+   * since lost the chain, and is only used when the DB is unreachable.
    */
   protected async loadCheckpoint(): Promise<BlockCheckpoint | null> {
-    // Try Redis first
+    try {
+      const result = await db.query(
+        `SELECT * FROM listener_checkpoints WHERE chain = $1`,
+        [this.config.chain]
+      );
+
+      if (result.rows.length === 0) {
+        return null;
+      }
+
+      const row = result.rows[0];
+      return {
+        chain: row.chain,
+        lastProcessedBlock: row.last_processed_block,
+        lastProcessedAt: row.updated_at,
+        eventsProcessed: row.events_processed,
+      };
+    } catch (error) {
+      logger.warn('Failed to load checkpoint from DB, trying Redis', { error });
+    }
+
     try {
       const redis = getRedis();
       const cached = await redis.get(`checkpoint:${this.config.chain}`);
@@ -349,39 +724,20 @@ export abstract class BaseListener {
         };
       }
     } catch (error) {
-      // Fall through to DB
-    }
-
-    // Load from database
-    try {
-      const result = await db.query(
-        `SELECT * FROM listener_checkpoints WHERE chain = $1`,
-        [this.config.chain]
-      );
-
-      if (result.rows.length > 0) {
-        const row = result.rows[0];
-        return {
-          chain: row.chain,
-          lastProcessedBlock: row.last_processed_block,
-          lastProcessedAt: row.updated_at,
-          eventsProcessed: row.events_processed,
-        };
-      }
-    } catch (error) {
-      logger.warn('Failed to load checkpoint from DB', { error });
+      // No checkpoint available
     }
 
     return null;
   }
 
   /**
-   * Check if event was already processed
+   * Check if event was already processed. Failed events are not, so they
+   * are retried.
    */
   protected async isEventProcessed(eventKey: string): Promise<boolean> {
     try {
       const result = await db.query(
-        `SELECT id FROM processed_events WHERE event_key = $1`,
+        `SELECT id FROM processed_events WHERE event_key = $1 AND status <> 'failed'`,
         [eventKey]
       );
       return result.rows.length > 0;
@@ -417,9 +773,11 @@ export abstract class BaseListener {
              tx_hash = $2,
              amount = $3,
              amount_usd = $4,
+             block_number = $5,
+             block_hash = $6,
              completed_at = NOW()
          WHERE event_key = $1`,
-        [eventKey, event.txHash, event.amount, event.amountUSD]
+        [eventKey, event.txHash, event.amount, event.amountUSD, event.blockNumber, event.blockHash]
       );
     } catch (error) {
       logger.warn('Failed to mark event completed', { eventKey, error });
@@ -445,10 +803,13 @@ export abstract class BaseListener {
   }
 
   /**
-   * Generate unique event key
+   * Generate unique event key. Transfers of the same amount to the same
+   * address in one transaction differ only by log index; a mempool transfer
+   * has no final log index yet and is keyed without one until it is mined.
    */
   protected getEventKey(event: ChainEvent): string {
-    return `${event.chain}:${event.txHash}:${event.to}:${event.amount}`;
+    const position = event.blockNumber ? event.logIndex ?? -1 : 'mempool';
+    return `${event.chain}:${event.txHash}:${position}:${event.to}:${event.amount}`;
   }
 
   /**
@@ -477,6 +838,257 @@ export abstract class BaseListener {
     }
   }
 
+  /**
+   * Add an address to monitor
+   */
+  addAddress(address: string): void {
+    if (!this.config.addresses.includes(address)) {
+      this.config.addresses.push(address);
+      logger.info('Added address to monitor', { chain: this.config.chain, address });
+    }
+  }
+
+  /**
+   * Remove an address from monitoring
+   */
+  removeAddress(address: string): void {
+    this.config.addresses = this.config.addresses.filter((a) => a !== address);
+    logger.info('Removed address from monitoring', { chain: this.config.chain, address });
+  }
+
+  /**
+   * Canonical form used to compare addresses on this chain
+   */
+  protected normalizeAddress(address: string): string {
+    return address;
+  }
+
+  isWatching(address: string): boolean {
+    const normalized = this.normalizeAddress(address);
+    return this.config.addresses.some((a) => this.normalizeAddress(a) === normalized);
+  }
+
+  /**
+   * Start watching an address created at createdAt (Unix ms) and rescan the
+   * blocks processed since then, so a payment sent before the listener heard
+   * about the address is not missed. Without createdAt the last
+   * backfillBlocks blocks are rescanned.
+   */
+  async watchAddress(address: string, createdAt?: number): Promise<void> {
+    if (this.isWatching(address)) return;
+
+    this.addAddress(address);
+    this.addressAddedAt.set(this.normalizeAddress(address), Date.now());
+
+    if (!this.isRunning) return;
+
+    try {
+      // Blocks up to the chain head, as a batch in flight may already be past lastProcessedBlock
+      const toBlock = await this.getCurrentBlockNumber();
+      const fromBlock = Math.max(
+        this.getProcessedBlockAt(createdAt) + 1,
+        toBlock - (this.config.backfillBlocks || 1000) + 1
+      );
+
+      if (fromBlock > toBlock) return;
+
+      logger.info('Backfilling new address', {
+        chain: this.config.chain,
+        address,
+        fromBlock,
+        toBlock,
+      });
+
+      await this.backfillAddress(address, fromBlock, toBlock);
+    } catch (error) {
+      this.processingStats.errors++;
+      logger.error('Address backfill failed', {
+        chain: this.config.chain,
+        address,
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  /**
+   * Make the watch set match the full address list. Addresses watched after
+   * listedAt are kept, since the list may predate them.
+   */
+  async syncAddresses(addresses: string[], listedAt: number): Promise<void> {
+    const wanted = new Set(addresses.map((a) => this.normalizeAddress(a)));
+
+    for (const address of addresses) {
+      await this.watchAddress(address);
+    }
+
+    for (const address of [...this.config.addresses]) {
+      const normalized = this.normalizeAddress(address);
+      if (!wanted.has(normalized) && (this.addressAddedAt.get(normalized) || 0) < listedAt) {
+        this.removeAddress(address);
+        this.addressAddedAt.delete(normalized);
+      }
+    }
+  }
+
+  /**
+   * Rescan a block range for payments to one address. Rescanning whole
+   * blocks is safe because already-seen events are deduplicated.
+   */
+  protected async backfillAddress(address: string, fromBlock: number, toBlock: number): Promise<void> {
+    for (let blockNumber = fromBlock; blockNumber <= toBlock && this.isRunning; blockNumber++) {
+      await this.processBlock(blockNumber);
+    }
+  }
+
+  /**
+   * Rescan historical blocks for missed payments. Events found go through
+   * handleEvent and confirmEvent as usual, so ones already processed are
+   * skipped; they are all reported in the returned findings. Block ranges
+   * are scanned in batches of config.batchSize with onProgress called after
+   * each; an address rescan reports once it is done.
+   */
+  async rescan(
+    request: RescanRequest,
+    onProgress?: (progress: RescanProgress) => Promise<void>
+  ): Promise<RescanProgress> {
+    if (!this.isRunning) {
+      throw new Error(`${this.config.chain} listener is not running`);
+    }
+    if (this.activeRescan) {
+      throw new Error(`A rescan is already running on ${this.config.chain}`);
+    }
+
+    const head = await this.getCurrentBlockNumber();
+    const toBlock = Math.min(request.toBlock ?? head, head);
+    const fromBlock = request.fromBlock ?? (request.address ? this.addressRescanStart(toBlock) : undefined);
+
+    if (fromBlock === undefined || fromBlock < 0 || fromBlock > toBlock) {
+      throw new Error(`Invalid rescan range ${fromBlock}-${toBlock} on ${this.config.chain}`);
+    }
+
+    const progress: RescanProgress = {
+      fromBlock,
+      toBlock,
+      currentBlock: fromBlock - 1,
+      eventsFound: 0,
+      eventsNew: 0,
+      findings: [],
+    };
+    this.activeRescan = { request, progress, seen: new Set() };
+
+    // An address no longer watched (e.g. of an expired intent) is watched for the duration
+    const address = request.address;
+    const temporary = !!address && !this.isWatching(address);
+    if (temporary) {
+      this.addAddress(address);
+    }
+
+    logger.info('Rescan started', { chain: this.config.chain, address, fromBlock, toBlock });
+
+    try {
+      if (address) {
+        await this.backfillAddress(address, fromBlock, toBlock);
+        if (this.isRunning) {
+          progress.currentBlock = toBlock;
+          if (onProgress) await onProgress(progress);
+        }
+      } else {
+        const batchSize = this.config.batchSize || 100;
+        for (let startBlock = fromBlock; startBlock <= toBlock && this.isRunning; startBlock += batchSize) {
+          const endBlock = Math.min(startBlock + batchSize - 1, toBlock);
+          await this.rescanBlocks(startBlock, endBlock);
+          progress.currentBlock = endBlock;
+          if (onProgress) await onProgress(progress);
+        }
+      }
+    } finally {
+      if (temporary) {
+        this.removeAddress(address);
+      }
+      this.activeRescan = undefined;
+    }
+
+    if (progress.currentBlock < toBlock) {
+      throw new Error(`${this.config.chain} listener stopped during rescan at block ${progress.currentBlock}`);
+    }
+
+    logger.info('Rescan completed', {
+      chain: this.config.chain,
+      address,
+      fromBlock,
+      toBlock,
+      eventsFound: progress.eventsFound,
+      eventsNew: progress.eventsNew,
+    });
+
+    return progress;
+  }
+
+  /**
+   * Rescan a block range for payments to every watched address
+   */
+  protected async rescanBlocks(fromBlock: number, toBlock: number): Promise<void> {
+    for (let blockNumber = fromBlock; blockNumber <= toBlock && this.isRunning; blockNumber++) {
+      await this.processBlock(blockNumber);
+    }
+  }
+
+  /**
+   * First block of an address rescan when none is given. Listeners that can
+   * look up an address's history directly override this to cover all of it.
+   */
+  protected addressRescanStart(toBlock: number): number {
+    return Math.max(0, toBlock - (this.config.backfillBlocks || 1000) + 1);
+  }
+
+  /**
+   * Note an event seen during a rescan, ignoring ones from regular
+   * processing that fall outside the requested range or address
+   */
+  private async recordRescanFinding(event: ChainEvent): Promise<void> {
+    const rescan = this.activeRescan;
+    if (!rescan) return;
+
+    const { request, progress, seen } = rescan;
+    if (event.blockNumber < progress.fromBlock || event.blockNumber > progress.toBlock) return;
+    if (request.address && this.normalizeAddress(event.to) !== this.normalizeAddress(request.address)) return;
+
+    const eventKey = this.getEventKey(event);
+    if (seen.has(eventKey)) return;
+    seen.add(eventKey);
+
+    const alreadyProcessed = await this.isEventProcessed(eventKey);
+    progress.eventsFound++;
+    if (!alreadyProcessed) progress.eventsNew++;
+
+    if (progress.findings.length < MAX_RESCAN_FINDINGS) {
+      progress.findings.push({
+        txHash: event.txHash,
+        blockNumber: event.blockNumber,
+        from: event.from,
+        to: event.to,
+        tokenAddress: event.tokenAddress,
+        amount: event.amount,
+        amountUSD: event.amountUSD,
+        alreadyProcessed,
+      });
+    }
+  }
+
+  /**
+   * Last block known to be processed at a point in time, or -1 if unknown
+   */
+  private getProcessedBlockAt(time?: number): number {
+    if (time === undefined) return -1;
+
+    let block = -1;
+    for (const sample of this.progressLog) {
+      if (sample.at > time) break;
+      block = sample.block;
+    }
+    return block;
+  }
+
   /**
    * Get processing statistics
    */
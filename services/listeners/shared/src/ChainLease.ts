@@ -0,0 +1,96 @@
+/**
+ * Chain Lease
+ * Leader election for one chain across listener replicas, on a Redis key
+ * holding the leader's instance ID with a TTL. The leader renews it well
+ * before expiry; if it dies, another replica takes over once it lapses.
+ * Every acquisition gets a higher epoch, used to fence checkpoint writes
+ * from a leader that lost the lease without noticing.
+ */
+
+import { Chain } from '@shared/types';
+import { getRedis, LISTENER_KEYS } from '@shared/utils/redis';
+
+// Only touch the key while it still names this instance
+const RENEW_SCRIPT = `
+  if redis.call('GET', KEYS[1]) == ARGV[1] then
+    return redis.call('PEXPIRE', KEYS[1], ARGV[2])
+  end
+  return 0`;
+
+const RELEASE_SCRIPT = `
+  if redis.call('GET', KEYS[1]) == ARGV[1] then
+    return redis.call('DEL', KEYS[1])
+  end
+  return 0`;
+
+export class ChainLease {
+  private chain: Chain;
+  private instanceId: string;
+  private ttlMs: number;
+  private epoch: number | null = null;
+  private renewedAt = 0;
+
+  constructor(chain: Chain, instanceId: string, ttlMs: number) {
+    this.chain = chain;
+    this.instanceId = instanceId;
+    this.ttlMs = ttlMs;
+  }
+
+  /**
+   * Try to become leader. Returns the new epoch, or null if another
+   * instance holds the lease.
+   */
+  async acquire(): Promise<number | null> {
+    const redis = getRedis();
+    const acquired = await redis.set(LISTENER_KEYS.leader(this.chain), this.instanceId, {
+      NX: true,
+      PX: this.ttlMs,
+    });
+
+    if (acquired !== 'OK') {
+      return null;
+    }
+
+    this.renewedAt = Date.now();
+    const epoch = await redis.incr(LISTENER_KEYS.leaseEpoch(this.chain));
+    this.epoch = epoch;
+    return epoch;
+  }
+
+  /**
+   * Extend the lease. False means it lapsed or was taken over.
+   */
+  async renew(): Promise<boolean> {
+    const renewed = await getRedis().eval(RENEW_SCRIPT, {
+      keys: [LISTENER_KEYS.leader(this.chain)],
+      arguments: [this.instanceId, this.ttlMs.toString()],
+    });
+    if (renewed === 1) {
+      this.renewedAt = Date.now();
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Whether the lease has lapsed since the last successful renewal, e.g.
+   * while Redis was unreachable
+   */
+  isExpired(): boolean {
+    return Date.now() - this.renewedAt >= this.ttlMs;
+  }
+
+  async release(): Promise<void> {
+    await getRedis().eval(RELEASE_SCRIPT, {
+      keys: [LISTENER_KEYS.leader(this.chain)],
+      arguments: [this.instanceId],
+    });
+    this.epoch = null;
+  }
+
+  getEpoch(): number | null {
+    return this.epoch;
+  }
+}
+
+export default ChainLease;
@@ -1,31 +1,13 @@
 import { ChainEvent } from '@shared/types';
-import axios from 'axios';
+import { publishChainEvent } from '@shared/utils/chainEventStream';
 
 export class PaymentHandler {
-  private apiUrl: string;
-
-  constructor(apiUrl: string = process.env.API_URL || 'http://localhost:3000') {
-    this.apiUrl = apiUrl;
-  }
-
   async handlePayment(event: ChainEvent): Promise<void> {
     try {
-      // Send payment event to API
-      await axios.post(`${this.apiUrl}/api/v1/webhooks/payment`, {
-        chain: event.chain,
-        txHash: event.txHash,
-        blockNumber: event.blockNumber,
-        blockHash: event.blockHash,
-        from: event.from,
-        to: event.to,
-        tokenAddress: event.tokenAddress,
-        amount: event.amount,
-        amountUSD: event.amountUSD,
-        timestamp: event.timestamp,
-        confirmations: event.confirmations,
-      });
+      // Queue the payment event for the API
+      await publishChainEvent({ type: 'payment', event });
     } catch (error) {
-      console.error('Failed to send payment event to API', error);
+      console.error('Failed to queue payment event for API', error);
       throw error;
     }
   }
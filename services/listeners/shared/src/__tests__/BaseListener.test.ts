@@ -0,0 +1,203 @@
+/**
+ * Tests for BaseListener event tracking and reorg handling
+ */
+
+import { ChainEvent } from '@shared/types';
+import { getRedis } from '@shared/utils/redis';
+import { BaseListener, BlockHeader } from '../BaseListener';
+import { db } from '../db';
+
+jest.mock('@shared/utils/redis', () => ({ getRedis: jest.fn() }));
+jest.mock('@shared/utils/priceOracle', () => ({ getPriceOracle: jest.fn() }));
+jest.mock('../db', () => ({ db: { query: jest.fn() } }));
+
+const query = db.query as jest.Mock;
+
+class TestListener extends BaseListener {
+  // Blocks the canonical chain has replaced since they were processed
+  replaced = new Map<number, BlockHeader>();
+
+  async start() {}
+  async stop() {}
+  async processBlock() {}
+  async getCurrentBlockNumber() {
+    return 0;
+  }
+  async getBlockHeader(blockNumber: number): Promise<BlockHeader | null> {
+    return (
+      this.replaced.get(blockNumber) || {
+        number: blockNumber,
+        hash: `0xblock${blockNumber}`,
+        parentHash: `0xblock${blockNumber - 1}`,
+      }
+    );
+  }
+}
+
+describe('BaseListener', () => {
+  let listener: TestListener;
+  let onPayment: jest.Mock;
+  let onSeen: jest.Mock;
+  let onReorg: jest.Mock;
+  let processed: Set<string>;
+
+  const transfer = (overrides: Partial<ChainEvent> = {}): ChainEvent => ({
+    chain: 'base',
+    txHash: '0xabc',
+    blockNumber: 100,
+    blockHash: '0xblock100',
+    from: '0xpayer',
+    to: '0xwatched',
+    tokenAddress: '0xusdc',
+    logIndex: 3,
+    amount: '10',
+    amountUSD: 10,
+    timestamp: Date.now(),
+    confirmations: 1000,
+    ...overrides,
+  });
+
+  const handle = (event: ChainEvent) => (listener as any).handleEvent(event);
+  const pending = () => (listener as any).pendingEvents as Map<string, ChainEvent>;
+
+  beforeEach(() => {
+    processed = new Set();
+    query.mockReset().mockImplementation(async (sql: string, params: unknown[] = []) => {
+      if (sql.includes('SELECT id FROM processed_events')) {
+        return { rows: processed.has(params[0] as string) ? [{ id: 'pe-1' }] : [] };
+      }
+      if (sql.includes('INSERT INTO processed_events')) {
+        processed.add(params[0] as string);
+      }
+      return { rows: [], rowCount: 1 };
+    });
+    (getRedis as jest.Mock).mockReturnValue({ hSet: jest.fn(), hDel: jest.fn(), set: jest.fn() });
+
+    onPayment = jest.fn();
+    onSeen = jest.fn();
+    onReorg = jest.fn();
+    listener = new TestListener({ chain: 'base', rpcUrl: '', addresses: [], onPayment, onSeen, onReorg });
+  });
+
+  describe('event keys', () => {
+    it('should deliver each of two identical transfers in one transaction', async () => {
+      await handle(transfer({ logIndex: 3 }));
+      await handle(transfer({ logIndex: 4 }));
+      await handle(transfer({ logIndex: 4 })); // Seen again on a later pass
+
+      expect(onPayment).toHaveBeenCalledTimes(2);
+      expect(onPayment.mock.calls.map(([event]) => event.logIndex)).toEqual([3, 4]);
+    });
+
+    it('should track two identical unconfirmed transfers separately', async () => {
+      await handle(transfer({ logIndex: 3, confirmations: 1 }));
+      await handle(transfer({ logIndex: 4, confirmations: 1 }));
+
+      expect(pending().size).toBe(2);
+      expect(onSeen).toHaveBeenCalledTimes(2);
+    });
+
+    it('should replace a mempool transfer once it is mined at its final log index', async () => {
+      await handle(transfer({ blockNumber: 0, blockHash: '', logIndex: 0, confirmations: 0 }));
+      await handle(transfer({ logIndex: 7, confirmations: 1 }));
+
+      expect([...pending().values()]).toEqual([
+        expect.objectContaining({ blockNumber: 100, logIndex: 7 }),
+      ]);
+      expect(query.mock.calls.some(([sql]) => sql.includes('DELETE FROM pending_events'))).toBe(
+        true
+      );
+    });
+  });
+
+  describe('reorg handling', () => {
+    const internals = () =>
+      listener as unknown as {
+        blockHashes: Map<number, BlockHeader>;
+        lastProcessedBlock: number;
+        trackBlock(blockNumber: number): Promise<boolean>;
+        recordBlockHash(header: BlockHeader): Promise<void>;
+      };
+
+    // Replace blocks from `from` up on the canonical chain
+    const fork = (from: number, to: number) => {
+      for (let blockNumber = from; blockNumber <= to; blockNumber++) {
+        listener.replaced.set(blockNumber, {
+          number: blockNumber,
+          hash: `0xfork${blockNumber}`,
+          parentHash: blockNumber === from ? `0xblock${blockNumber - 1}` : `0xfork${blockNumber - 1}`,
+        });
+      }
+    };
+
+    beforeEach(async () => {
+      for (let blockNumber = 96; blockNumber <= 100; blockNumber++) {
+        await internals().recordBlockHash((await listener.getBlockHeader(blockNumber))!);
+      }
+      internals().lastProcessedBlock = 100;
+    });
+
+    it('should track a block that extends the processed chain', async () => {
+      await expect(internals().trackBlock(101)).resolves.toBe(true);
+
+      expect(onReorg).not.toHaveBeenCalled();
+      expect(internals().blockHashes.get(101)?.hash).toBe('0xblock101');
+    });
+
+    it('should rewind to the fork point when the parent hash does not match', async () => {
+      fork(99, 101);
+
+      await expect(internals().trackBlock(101)).resolves.toBe(false);
+
+      expect(onReorg).toHaveBeenCalledWith(
+        expect.objectContaining({ chain: 'base', forkBlock: 98, orphanedBlockHashes: ['0xblock99', '0xblock100'] })
+      );
+      expect(internals().lastProcessedBlock).toBe(98);
+      expect([...internals().blockHashes.keys()]).toEqual([96, 97, 98]);
+      expect(query).toHaveBeenCalledWith(expect.stringContaining('DELETE FROM processed_events'), ['base', 98]);
+    });
+
+    it('should rescan the whole window when the fork is deeper than it', async () => {
+      fork(90, 101);
+
+      await expect(internals().trackBlock(101)).resolves.toBe(false);
+
+      expect(onReorg).toHaveBeenCalledWith(expect.objectContaining({ forkBlock: 95 }));
+      expect(onReorg.mock.calls[0][0].orphanedBlockHashes).toHaveLength(5);
+      expect(internals().lastProcessedBlock).toBe(95);
+      expect(internals().blockHashes.size).toBe(0);
+    });
+
+    it('should drop pending events from orphaned blocks only', async () => {
+      await handle(transfer({ blockNumber: 98, blockHash: '0xblock98', logIndex: 1, confirmations: 2 }));
+      await handle(transfer({ blockNumber: 99, blockHash: '0xblock99', logIndex: 2, confirmations: 1 }));
+      fork(99, 101);
+
+      await internals().trackBlock(101);
+
+      expect([...pending().values()].map((event) => event.blockNumber)).toEqual([98]);
+      expect(query).toHaveBeenCalledWith(expect.stringContaining('DELETE FROM pending_events'), [
+        expect.stringContaining(':0xabc:2:'),
+      ]);
+    });
+
+    it('should keep its checkpoint and retry when the rollback fails', async () => {
+      await handle(transfer({ blockNumber: 99, blockHash: '0xblock99', confirmations: 1 }));
+      fork(99, 101);
+      query.mockRejectedValueOnce(new Error('connection refused')); // The listener_block_hashes delete
+
+      await expect(internals().trackBlock(101)).rejects.toThrow('connection refused');
+
+      expect(internals().lastProcessedBlock).toBe(100);
+      expect(internals().blockHashes.has(100)).toBe(true);
+      expect(pending().size).toBe(1);
+      expect(query).not.toHaveBeenCalledWith(expect.stringContaining('listener_checkpoints'), expect.anything());
+
+      // The next poll sees the same mismatch and completes the rollback
+      await expect(internals().trackBlock(101)).resolves.toBe(false);
+      expect(onReorg).toHaveBeenCalledTimes(2);
+      expect(internals().lastProcessedBlock).toBe(98);
+      expect(pending().size).toBe(0);
+    });
+  });
+});
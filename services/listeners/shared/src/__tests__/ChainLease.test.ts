@@ -0,0 +1,162 @@
+/**
+ * Tests for ChainLease
+ */
+
+import { getRedis } from '@shared/utils/redis';
+import { ChainLease } from '../ChainLease';
+import { BaseListener, BlockHeader } from '../BaseListener';
+import { db } from '../db';
+
+jest.mock('@shared/utils/redis', () => ({ ...jest.requireActual('@shared/utils/redis'), getRedis: jest.fn() }));
+jest.mock('@shared/utils/priceOracle', () => ({ getPriceOracle: jest.fn() }));
+jest.mock('../db', () => ({ db: { query: jest.fn() } }));
+
+const query = db.query as jest.Mock;
+
+/**
+ * The slice of Redis a lease uses, in memory. Expiry is left to the tests,
+ * which delete the key to simulate a lapsed lease.
+ */
+class FakeRedis {
+  store = new Map<string, string>();
+
+  async set(key: string, value: string, options: { NX?: boolean }) {
+    if (options.NX && this.store.has(key)) return null;
+    this.store.set(key, value);
+    return 'OK';
+  }
+
+  async incr(key: string) {
+    const next = Number(this.store.get(key) || 0) + 1;
+    this.store.set(key, next.toString());
+    return next;
+  }
+
+  async eval(script: string, { keys, arguments: args }: { keys: string[]; arguments: string[] }) {
+    if (this.store.get(keys[0]) !== args[0]) return 0;
+    if (!script.includes('PEXPIRE')) this.store.delete(keys[0]);
+    return 1;
+  }
+}
+
+describe('ChainLease', () => {
+  let redis: FakeRedis;
+
+  beforeEach(() => {
+    redis = new FakeRedis();
+    (getRedis as jest.Mock).mockReturnValue(redis);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should let only one instance hold the lease', async () => {
+    const first = new ChainLease('base', 'instance-a', 30000);
+    const second = new ChainLease('base', 'instance-b', 30000);
+
+    await expect(first.acquire()).resolves.toBe(1);
+    await expect(second.acquire()).resolves.toBeNull();
+    expect(second.getEpoch()).toBeNull();
+  });
+
+  it('should give a takeover a higher epoch and stop the old leader renewing', async () => {
+    const first = new ChainLease('base', 'instance-a', 30000);
+    const second = new ChainLease('base', 'instance-b', 30000);
+    await first.acquire();
+
+    redis.store.delete('listener:leader:base'); // Lease lapsed
+    await expect(second.acquire()).resolves.toBe(2);
+
+    await expect(first.renew()).resolves.toBe(false);
+    await expect(second.renew()).resolves.toBe(true);
+  });
+
+  it('should not release a lease another instance has taken over', async () => {
+    const first = new ChainLease('base', 'instance-a', 30000);
+    const second = new ChainLease('base', 'instance-b', 30000);
+    await first.acquire();
+    redis.store.delete('listener:leader:base');
+    await second.acquire();
+
+    await first.release();
+
+    expect(redis.store.get('listener:leader:base')).toBe('instance-b');
+    expect(first.getEpoch()).toBeNull();
+  });
+
+  it('should count the lease as expired once a ttl passes without renewal', async () => {
+    const now = jest.spyOn(Date, 'now').mockReturnValue(1_000_000);
+    const lease = new ChainLease('base', 'instance-a', 30000);
+    await lease.acquire();
+
+    now.mockReturnValue(1_029_999);
+    expect(lease.isExpired()).toBe(false);
+
+    now.mockReturnValue(1_030_000);
+    expect(lease.isExpired()).toBe(true);
+
+    await lease.renew();
+    expect(lease.isExpired()).toBe(false);
+  });
+});
+
+describe('BaseListener checkpoint fencing', () => {
+  class TestListener extends BaseListener {
+    async start() {}
+    async stop() {}
+    async processBlock() {}
+    async getCurrentBlockNumber() {
+      return 0;
+    }
+    async getBlockHeader(): Promise<BlockHeader | null> {
+      return null;
+    }
+  }
+
+  const listener = (leaseEpoch: number) =>
+    new TestListener({ chain: 'base', rpcUrl: '', addresses: [], onPayment: jest.fn(), instanceId: 'a', leaseEpoch });
+
+  let redisSet: jest.Mock;
+  let redisGet: jest.Mock;
+
+  beforeEach(() => {
+    query.mockReset();
+    redisSet = jest.fn();
+    redisGet = jest.fn().mockResolvedValue('900');
+    (getRedis as jest.Mock).mockReturnValue({ set: redisSet, get: redisGet });
+  });
+
+  it('should only overwrite a checkpoint written under the same or an older epoch', async () => {
+    query.mockResolvedValue({ rowCount: 1 });
+
+    await (listener(3) as any).saveCheckpoint();
+
+    const [sql, params] = query.mock.calls[0];
+    expect(sql).toContain('WHERE listener_checkpoints.lease_epoch <= $5');
+    expect(params[4]).toBe(3);
+    expect(redisSet).toHaveBeenCalled();
+  });
+
+  it('should not mirror a rejected checkpoint to Redis', async () => {
+    query.mockResolvedValue({ rowCount: 0 }); // A newer epoch wrote the row
+
+    await (listener(2) as any).saveCheckpoint();
+
+    expect(redisSet).not.toHaveBeenCalled();
+  });
+
+  it('should resume from the fenced DB checkpoint rather than the Redis copy', async () => {
+    // The Redis copy was last written by the previous leader
+    query.mockResolvedValue({ rows: [{ chain: 'base', last_processed_block: 850, lease_epoch: 2 }] });
+
+    await expect((listener(3) as any).loadCheckpoint()).resolves.toMatchObject({ lastProcessedBlock: 850 });
+    expect(redisGet).not.toHaveBeenCalled();
+  });
+
+  it('should fall back to the Redis copy only when the DB is unreachable', async () => {
+    query.mockRejectedValue(new Error('connection refused'));
+
+    await expect((listener(3) as any).loadCheckpoint()).resolves.toMatchObject({ lastProcessedBlock: 900 });
+  });
+});
@@ -1,2 +1,3 @@
 export * from './BaseListener';
 
+export * from './ChainLease';
@@ -0,0 +1,481 @@
+/**
+ * Solana Listener
+ * Monitors Solana for incoming SOL and SPL token (USDC/USDT) payments by
+ * polling getSignaturesForAddress on each watched wallet and its token
+ * accounts, then decoding balance changes from getTransaction.
+ *
+ * Slots stand in for block numbers. Works against solana-test-validator
+ * (SOL_RPC_URL=http://127.0.0.1:8899); clone the mainnet mints with
+ * `--clone <mint> --url mainnet-beta` to exercise SPL transfers.
+ */
+
+import axios, { AxiosInstance } from 'axios';
+import { BaseListener, BlockHeader, ListenerConfig } from '../../shared/src/BaseListener';
+import { ChainEvent } from '@shared/types';
+import { logger } from '@shared/utils/logger';
+import { TOKEN_ADDRESSES, TOKEN_DECIMALS } from '@shared/constants/chains';
+
+const TOKEN_PROGRAM_ID = 'TokenkegQfeZyiNwAJbNbGqPWYfbdPjfPsNVhYKJY8mVY6x';
+const LAMPORTS_DECIMALS = 9;
+const SIGNATURE_PAGE_SIZE = 1000;
+const COMMITMENT = 'confirmed';
+
+// RPC errors returned for slots that were skipped or are no longer stored
+const MISSING_SLOT_ERROR_CODES = [-32004, -32007, -32009];
+
+// SPL tokens watched, symbol -> mint address
+const SOLANA_TOKEN_MINTS: Record<string, string> = TOKEN_ADDRESSES.solana;
+
+interface SolanaTokenConfig {
+  mint: string;
+  symbol: string;
+  decimals: number;
+}
+
+interface SignatureInfo {
+  signature: string;
+  slot: number;
+  err: unknown;
+  blockTime: number | null;
+}
+
+interface TokenBalance {
+  accountIndex: number;
+  mint: string;
+  owner?: string;
+  uiTokenAmount: { amount: string; decimals: number };
+}
+
+interface SolanaTransaction {
+  slot: number;
+  blockTime: number | null;
+  transaction: {
+    signatures: string[];
+    message: { accountKeys: Array<{ pubkey: string } | string> };
+  };
+  meta: {
+    err: unknown;
+    preBalances: number[];
+    postBalances: number[];
+    preTokenBalances?: TokenBalance[];
+    postTokenBalances?: TokenBalance[];
+  } | null;
+}
+
+class SolanaRpcError extends Error {
+  constructor(public code: number, message: string) {
+    super(message);
+  }
+}
+
+export class SolanaListener extends BaseListener {
+  private rpcClient: AxiosInstance;
+  private addressSet: Set<string>;
+  private tokens: SolanaTokenConfig[];
+  private tokenAccounts: Map<string, string> = new Map(); // token account -> owner
+  private pollingTimeout?: NodeJS.Timeout;
+  private requestId: number = 0;
+
+  constructor(config: ListenerConfig) {
+    super(config);
+
+    this.rpcClient = axios.create({
+      baseURL: config.rpcUrl,
+      timeout: 30000,
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+    // Base58 addresses are case-sensitive, so they are kept as given
+    this.addressSet = new Set(config.addresses);
+    this.tokens = Object.entries(SOLANA_TOKEN_MINTS).map(([symbol, mint]) => ({
+      mint,
+      symbol,
+      decimals: TOKEN_DECIMALS[symbol] ?? 6,
+    }));
+  }
+
+  /**
+   * Start the listener
+   */
+  async start(): Promise<void> {
+    if (this.isRunning) {
+      logger.warn('Solana listener already running');
+      return;
+    }
+
+    logger.info('Starting Solana listener', {
+      addresses: this.addressSet.size,
+      tokens: this.tokens.map((t) => t.symbol),
+    });
+
+    await this.initialize();
+
+    this.isRunning = true;
+    this.pollSignatures();
+    this.startConfirmationChecker();
+
+    logger.info('Solana listener started', {
+      startSlot: this.lastProcessedBlock,
+    });
+  }
+
+  /**
+   * Stop the listener
+   */
+  async stop(): Promise<void> {
+    this.isRunning = false;
+
+    if (this.pollingTimeout) {
+      clearTimeout(this.pollingTimeout);
+      this.pollingTimeout = undefined;
+    }
+
+    this.stopConfirmationChecker();
+    await this.saveCheckpoint();
+
+    logger.info('Solana listener stopped');
+  }
+
+  /**
+   * Get current slot
+   */
+  async getCurrentBlockNumber(): Promise<number> {
+    return await this.rpc<number>('getSlot', [{ commitment: COMMITMENT }]);
+  }
+
+  /**
+   * Get blockhash and parent blockhash of a slot. Skipped slots have no block.
+   */
+  async getBlockHeader(slot: number): Promise<BlockHeader | null> {
+    try {
+      const block = await this.rpc<{ blockhash: string; previousBlockhash: string } | null>('getBlock', [
+        slot,
+        { commitment: COMMITMENT, transactionDetails: 'none', rewards: false, maxSupportedTransactionVersion: 0 },
+      ]);
+      if (!block) return null;
+
+      return { number: slot, hash: block.blockhash, parentHash: block.previousBlockhash };
+    } catch (error) {
+      if (error instanceof SolanaRpcError && MISSING_SLOT_ERROR_CODES.includes(error.code)) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Poll signatures for every watched wallet and token account. Solana
+   * produces a slot every ~400ms, so walking slots one by one like the EVM
+   * listeners is not practical; orphaned slots are instead caught when an
+   * event is confirmed (BaseListener.isOnCanonicalChain).
+   */
+  private async pollSignatures(): Promise<void> {
+    if (!this.isRunning) return;
+
+    try {
+      const currentSlot = await this.getCurrentBlockNumber();
+      await this.refreshTokenAccounts();
+
+      const watched = [...this.addressSet, ...this.tokenAccounts.keys()];
+      const signatures = new Map<string, SignatureInfo>();
+
+      for (const address of watched) {
+        for (const info of await this.getNewSignatures(address, this.lastProcessedBlock, currentSlot)) {
+          signatures.set(info.signature, info);
+        }
+      }
+
+      // Oldest first so multi-transfer top-ups are reported in order
+      const ordered = Array.from(signatures.values()).sort((a, b) => a.slot - b.slot);
+      for (const info of ordered) {
+        if (!this.isRunning) return;
+        await this.processSignature(info, currentSlot);
+      }
+
+      this.processingStats.blocksProcessed += currentSlot - this.lastProcessedBlock;
+      this.lastProcessedBlock = currentSlot;
+      await this.saveCheckpoint();
+    } catch (error) {
+      logger.error('Error polling Solana signatures', { error: (error as Error).message });
+      this.processingStats.errors++;
+    }
+
+    this.pollingTimeout = setTimeout(() => this.pollSignatures(), this.config.pollInterval);
+  }
+
+  /**
+   * Successful signatures for an address in (afterSlot, currentSlot],
+   * paging back from the newest
+   */
+  private async getNewSignatures(address: string, afterSlot: number, currentSlot: number): Promise<SignatureInfo[]> {
+    const found: SignatureInfo[] = [];
+    let before: string | undefined;
+
+    while (this.isRunning) {
+      const page = await this.rpc<SignatureInfo[]>('getSignaturesForAddress', [
+        address,
+        { limit: SIGNATURE_PAGE_SIZE, before, commitment: COMMITMENT },
+      ]);
+
+      for (const info of page) {
+        if (info.slot <= afterSlot) {
+          return found;
+        }
+        if (info.slot <= currentSlot && !info.err) {
+          found.push(info);
+        }
+      }
+
+      if (page.length < SIGNATURE_PAGE_SIZE) {
+        return found;
+      }
+      before = page[page.length - 1].signature;
+    }
+
+    return found;
+  }
+
+  /**
+   * Rescan the address's own signatures and those of its token accounts
+   * rather than every slot in the range
+   */
+  protected async backfillAddress(address: string, fromSlot: number, toSlot: number): Promise<void> {
+    await this.refreshTokenAccounts();
+
+    const accounts = [address];
+    for (const [tokenAccount, owner] of this.tokenAccounts) {
+      if (owner === address) accounts.push(tokenAccount);
+    }
+
+    const signatures = new Map<string, SignatureInfo>();
+    for (const account of accounts) {
+      for (const info of await this.getNewSignatures(account, fromSlot - 1, toSlot)) {
+        signatures.set(info.signature, info);
+      }
+    }
+
+    const ordered = Array.from(signatures.values()).sort((a, b) => a.slot - b.slot);
+    for (const info of ordered) {
+      await this.processSignature(info, toSlot);
+    }
+  }
+
+  /**
+   * Address history comes from getSignaturesForAddress, so an address
+   * rescan covers all of it by default
+   */
+  protected addressRescanStart(): number {
+    return 0;
+  }
+
+  /**
+   * Discover SPL token accounts (associated or not) owned by watched wallets.
+   * An associated token account is usually created by the first transfer, in
+   * a transaction that also lists the owner, so that transfer is seen through
+   * the owner's signatures and later ones through the token account's.
+   */
+  private async refreshTokenAccounts(): Promise<void> {
+    const mints = new Set(this.tokens.map((t) => t.mint));
+
+    for (const owner of this.addressSet) {
+      const result = await this.rpc<{ value: Array<{ pubkey: string; account: { data: any } }> }>(
+        'getTokenAccountsByOwner',
+        [owner, { programId: TOKEN_PROGRAM_ID }, { encoding: 'jsonParsed', commitment: COMMITMENT }]
+      );
+
+      for (const { pubkey, account } of result.value) {
+        const mint = account.data?.parsed?.info?.mint;
+        if (mints.has(mint) && !this.tokenAccounts.has(pubkey)) {
+          this.tokenAccounts.set(pubkey, owner);
+          logger.debug('Watching Solana token account', { owner, tokenAccount: pubkey, mint });
+        }
+      }
+    }
+  }
+
+  private async processSignature(info: SignatureInfo, currentSlot: number): Promise<void> {
+    const tx = await this.rpc<SolanaTransaction | null>('getTransaction', [
+      info.signature,
+      { encoding: 'jsonParsed', commitment: COMMITMENT, maxSupportedTransactionVersion: 0 },
+    ]);
+    if (!tx) return;
+
+    const header = await this.getBlockHeader(tx.slot);
+    await this.handleTransaction(tx, header?.hash || '', currentSlot);
+  }
+
+  /**
+   * Process a single slot for transfers to watched addresses
+   */
+  async processBlock(slot: number): Promise<void> {
+    try {
+      const block = await this.rpc<{ blockhash: string; transactions: Omit<SolanaTransaction, 'slot'>[] } | null>(
+        'getBlock',
+        [
+          slot,
+          {
+            commitment: COMMITMENT,
+            encoding: 'jsonParsed',
+            transactionDetails: 'full',
+            rewards: false,
+            maxSupportedTransactionVersion: 0,
+          },
+        ]
+      );
+      if (!block) return;
+
+      const currentSlot = await this.getCurrentBlockNumber();
+      for (const tx of block.transactions) {
+        await this.handleTransaction({ ...tx, slot }, block.blockhash, currentSlot);
+      }
+    } catch (error) {
+      if (error instanceof SolanaRpcError && MISSING_SLOT_ERROR_CODES.includes(error.code)) {
+        return;
+      }
+      logger.error(`Error processing Solana slot ${slot}`, { error: (error as Error).message });
+    }
+  }
+
+  /**
+   * Emit an event for every watched wallet whose SOL or supported SPL
+   * balance went up in a transaction. Balance deltas cover plain transfers,
+   * transferChecked and transfers into newly created token accounts alike.
+   */
+  private async handleTransaction(tx: SolanaTransaction, blockHash: string, currentSlot: number): Promise<void> {
+    if (!tx.meta || tx.meta.err) return;
+
+    const accountKeys = tx.transaction.message.accountKeys.map((key) =>
+      typeof key === 'string' ? key : key.pubkey
+    );
+    const feePayer = accountKeys[0];
+    const base = {
+      chain: this.config.chain,
+      txHash: tx.transaction.signatures[0],
+      blockNumber: tx.slot,
+      blockHash,
+      timestamp: tx.blockTime ? tx.blockTime * 1000 : Date.now(),
+      confirmations: Math.max(currentSlot - tx.slot, 0),
+    };
+
+    // Native SOL
+    for (let i = 0; i < accountKeys.length; i++) {
+      const received = BigInt(tx.meta.postBalances[i] ?? 0) - BigInt(tx.meta.preBalances[i] ?? 0);
+      if (received <= 0n || !this.addressSet.has(accountKeys[i])) continue;
+
+      const amount = this.formatUnits(received, LAMPORTS_DECIMALS);
+      const event: ChainEvent = {
+        ...base,
+        from: feePayer,
+        to: accountKeys[i],
+        logIndex: i,
+        amount,
+        amountUSD: await this.convertToUSD('SOL', amount),
+      };
+      await this.handleEvent(event);
+    }
+
+    // SPL tokens, keyed by owner wallet rather than token account
+    for (const token of this.tokens) {
+      const deltas = this.tokenDeltasByOwner(tx, accountKeys, token.mint);
+
+      for (const [owner, { delta: received, accountIndex }] of deltas) {
+        if (received <= 0n || !this.addressSet.has(owner)) continue;
+
+        const sender = Array.from(deltas.entries()).find(([, { delta }]) => delta < 0n)?.[0];
+        const amount = this.formatUnits(received, token.decimals);
+        const event: ChainEvent = {
+          ...base,
+          from: sender || feePayer,
+          to: owner,
+          tokenAddress: token.mint,
+          logIndex: accountIndex, // The token account, never the wallet a native transfer is keyed by
+          amount,
+          amountUSD: await this.convertToUSD(token.symbol, amount),
+        };
+        await this.handleEvent(event);
+      }
+    }
+  }
+
+  /**
+   * Net change in a mint's balance per owning wallet, with the lowest
+   * account index of the wallet's token accounts involved
+   */
+  private tokenDeltasByOwner(
+    tx: SolanaTransaction,
+    accountKeys: string[],
+    mint: string
+  ): Map<string, { delta: bigint; accountIndex: number }> {
+    const deltas = new Map<string, { delta: bigint; accountIndex: number }>();
+
+    const apply = (balances: TokenBalance[] | undefined, sign: bigint) => {
+      for (const balance of balances || []) {
+        if (balance.mint !== mint) continue;
+
+        const owner = balance.owner || this.tokenAccounts.get(accountKeys[balance.accountIndex]);
+        if (!owner) continue;
+
+        const amount = BigInt(balance.uiTokenAmount.amount) * sign;
+        const current = deltas.get(owner);
+        deltas.set(owner, {
+          delta: (current?.delta || 0n) + amount,
+          accountIndex: Math.min(current?.accountIndex ?? balance.accountIndex, balance.accountIndex),
+        });
+      }
+    };
+
+    apply(tx.meta?.preTokenBalances, -1n);
+    apply(tx.meta?.postTokenBalances, 1n);
+
+    return deltas;
+  }
+
+  private formatUnits(value: bigint, decimals: number): string {
+    const base = 10n ** BigInt(decimals);
+    const whole = value / base;
+    const fraction = (value % base).toString().padStart(decimals, '0').replace(/0+$/, '');
+    return fraction ? `${whole}.${fraction}` : whole.toString();
+  }
+
+  private async rpc<T>(method: string, params: unknown[]): Promise<T> {
+    const response = await this.rpcClient.post('', {
+      jsonrpc: '2.0',
+      id: ++this.requestId,
+      method,
+      params,
+    });
+
+    if (response.data.error) {
+      throw new SolanaRpcError(response.data.error.code, `${method}: ${response.data.error.message}`);
+    }
+
+    return response.data.result as T;
+  }
+
+  /**
+   * Add new address to monitor
+   */
+  addAddress(address: string): void {
+    if (!this.addressSet.has(address)) {
+      this.addressSet.add(address);
+      this.config.addresses.push(address);
+      logger.info('Added address to monitor', { chain: this.config.chain, address });
+    }
+  }
+
+  /**
+   * Remove address from monitoring, along with its token accounts
+   */
+  removeAddress(address: string): void {
+    this.addressSet.delete(address);
+    this.config.addresses = this.config.addresses.filter((a) => a !== address);
+    for (const [tokenAccount, owner] of this.tokenAccounts) {
+      if (owner === address) {
+        this.tokenAccounts.delete(tokenAccount);
+      }
+    }
+    logger.info('Removed address from monitoring', { chain: this.config.chain, address });
+  }
+}
+
+export default SolanaListener;
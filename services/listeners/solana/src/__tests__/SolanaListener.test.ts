@@ -0,0 +1,159 @@
+/**
+ * Tests for SolanaListener
+ */
+
+import { ChainEvent } from '@shared/types';
+import { TOKEN_ADDRESSES } from '@shared/constants/chains';
+import { SolanaListener } from '../SolanaListener';
+
+jest.mock('@shared/utils/redis', () => ({ getRedis: jest.fn() }));
+jest.mock('@shared/utils/priceOracle', () => ({
+  getPriceOracle: () => ({ convertToUSD: jest.fn().mockResolvedValue(1) }),
+}));
+jest.mock('../../../shared/src/db', () => ({ db: { query: jest.fn().mockResolvedValue({ rows: [] }) } }));
+
+const WATCHED = '9xQeWvG816bUx9EPjHmaT23yvVM2ZWbrrpZb9PusVFin';
+const PAYER = '7cVfgArCheMR6Cs4t6vz5rfnqd56vZq4ndaBrY5xkxXy';
+const PAYER_USDC_ACCOUNT = 'GcTHJzhX8HbkKxBBXcWbV1DTEN1xNM95Tu8jE6S8v47p';
+const WATCHED_USDC_ACCOUNT = '4Rz2bGqU1ZwNStbBfKqbGdrn7CZv2VkVbGTVbw5Pw3sT';
+const USDC_MINT = TOKEN_ADDRESSES.solana.USDC;
+
+describe('SolanaListener', () => {
+  let listener: SolanaListener;
+  let events: ChainEvent[];
+
+  const transaction = (meta: object, accountKeys: string[]) => ({
+    slot: 250,
+    blockTime: 1700000000,
+    transaction: { signatures: ['sig-1'], message: { accountKeys: accountKeys.map((pubkey) => ({ pubkey })) } },
+    meta: { err: null, preBalances: [], postBalances: [], ...meta },
+  });
+
+  const tokenBalance = (accountIndex: number, owner: string, amount: string) => ({
+    accountIndex,
+    mint: USDC_MINT,
+    owner,
+    uiTokenAmount: { amount, decimals: 6 },
+  });
+
+  const handle = (tx: object) => (listener as any).handleTransaction(tx, 'blockhash-250', 260);
+
+  beforeEach(() => {
+    events = [];
+    listener = new SolanaListener({
+      chain: 'solana',
+      rpcUrl: 'http://127.0.0.1:8899',
+      addresses: [WATCHED],
+      onPayment: jest.fn(),
+    });
+    jest.spyOn(listener as any, 'handleEvent').mockImplementation((...args: unknown[]) => {
+      events.push(args[0] as ChainEvent);
+      return Promise.resolve();
+    });
+  });
+
+  describe('handleTransaction', () => {
+    it('should report SOL received by a watched wallet', async () => {
+      await handle(
+        transaction({ preBalances: [5000000000, 0], postBalances: [3499995000, 1500000000] }, [PAYER, WATCHED])
+      );
+
+      expect(events).toHaveLength(1);
+      expect(events[0]).toMatchObject({
+        txHash: 'sig-1',
+        blockNumber: 250,
+        blockHash: 'blockhash-250',
+        from: PAYER,
+        to: WATCHED,
+        logIndex: 1,
+        amount: '1.5',
+        timestamp: 1700000000000,
+        confirmations: 10,
+      });
+      expect(events[0].tokenAddress).toBeUndefined();
+    });
+
+    it('should report an SPL transfer to the wallet owning the token account', async () => {
+      await handle(
+        transaction(
+          {
+            preBalances: [5000000000, 2039280, 2039280],
+            postBalances: [4999995000, 2039280, 2039280],
+            preTokenBalances: [tokenBalance(1, PAYER, '30000000'), tokenBalance(2, WATCHED, '0')],
+            postTokenBalances: [tokenBalance(1, PAYER, '5000000'), tokenBalance(2, WATCHED, '25000000')],
+          },
+          [PAYER, PAYER_USDC_ACCOUNT, WATCHED_USDC_ACCOUNT]
+        )
+      );
+
+      expect(events).toHaveLength(1);
+      expect(events[0]).toMatchObject({
+        from: PAYER,
+        to: WATCHED,
+        tokenAddress: USDC_MINT,
+        logIndex: 2,
+        amount: '25',
+      });
+    });
+
+    it('should ignore failed transactions', async () => {
+      await handle(
+        transaction(
+          { err: { InstructionError: [0, 'Custom'] }, preBalances: [5000000000, 0], postBalances: [4999995000, 1500000000] },
+          [PAYER, WATCHED]
+        )
+      );
+
+      expect(events).toHaveLength(0);
+    });
+
+    it('should ignore payments sent from a watched wallet', async () => {
+      await handle(
+        transaction({ preBalances: [5000000000, 0], postBalances: [3499995000, 1500000000] }, [WATCHED, PAYER])
+      );
+
+      expect(events).toHaveLength(0);
+    });
+  });
+
+  describe('formatUnits', () => {
+    it('should trim trailing zeros from the fraction', () => {
+      const format = (value: bigint, decimals: number) => (listener as any).formatUnits(value, decimals);
+
+      expect(format(1500000000n, 9)).toBe('1.5');
+      expect(format(25000000n, 6)).toBe('25');
+      expect(format(1n, 9)).toBe('0.000000001');
+    });
+  });
+
+  describe('getBlockHeader', () => {
+    it('should treat a skipped slot as having no block', async () => {
+      jest.spyOn((listener as any).rpcClient, 'post').mockResolvedValue({
+        data: { error: { code: -32007, message: 'Slot 250 was skipped' } },
+      });
+
+      await expect(listener.getBlockHeader(250)).resolves.toBeNull();
+    });
+  });
+});
+
+// Runs against solana-test-validator, e.g. SOLANA_TEST_VALIDATOR_URL=http://127.0.0.1:8899
+const validatorUrl = process.env.SOLANA_TEST_VALIDATOR_URL;
+
+(validatorUrl ? describe : describe.skip)('SolanaListener against a test validator', () => {
+  it('should read the block at a recent slot', async () => {
+    const listener = new SolanaListener({
+      chain: 'solana',
+      rpcUrl: validatorUrl as string,
+      addresses: [],
+      onPayment: jest.fn(),
+    });
+
+    const slot = await listener.getCurrentBlockNumber();
+    const header = await listener.getBlockHeader(slot);
+
+    expect(slot).toBeGreaterThan(0);
+    expect(header?.number).toBe(slot);
+    expect(header?.hash).toBeTruthy();
+  });
+});
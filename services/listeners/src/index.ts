@@ -1,119 +1,458 @@
 // Main listener service that coordinates all chain listeners
-import { EthereumListener } from '../ethereum/src/EthereumListener';
-import { ArbitrumListener } from '../arbitrum/src/ArbitrumListener';
+
+// Load environment variables FIRST before any other imports
+import dotenv from 'dotenv';
+dotenv.config();
+
+import { EvmListener } from '../evm/src/EvmListener';
 import { StacksListener } from '../stacks/src/StacksListener';
-import { ChainEvent } from '@shared/types';
-import { ListenerConfig } from '../shared/src/BaseListener';
+import { SolanaListener } from '../solana/src/SolanaListener';
+import { BitcoinListener } from '../bitcoin/src/BitcoinListener';
+import { Chain, ChainEvent, ChainReorg } from '@shared/types';
+import { BaseListener, ListenerConfig, RescanProgress } from '../shared/src/BaseListener';
+import { ChainLease } from '../shared/src/ChainLease';
+import { db } from '../shared/src/db';
 import { logger } from '@shared/utils/logger';
-import { CONFIRMATIONS_REQUIRED } from '@shared/constants/chains';
+import { CHAIN_CONFIGS, EVM_CHAINS } from '@shared/constants/chains';
+import { getRedis, CHANNELS, LISTENER_KEYS, WatchedAddressMessage, RescanJobMessage } from '@shared/utils/redis';
+import { publishChainEvent } from '@shared/utils/chainEventStream';
 import axios from 'axios';
-import dotenv from 'dotenv';
+import os from 'os';
 
-dotenv.config();
+// Full address list resync, catching changes missed while unsubscribed
+const ADDRESS_RESYNC_INTERVAL_MS = parseInt(process.env.ADDRESS_RESYNC_INTERVAL_MS || '300000', 10);
+
+// A chain's leader must renew its lease within this long or another replica takes over
+const LEASE_TTL_MS = parseInt(process.env.LISTENER_LEASE_TTL_MS || '30000', 10);
+const ELECTION_INTERVAL_MS = Math.floor(LEASE_TTL_MS / 3);
 
 export class ListenerService {
-  private listeners: Map<string, any> = new Map();
+  private listeners: Map<string, BaseListener> = new Map();
+  private leases: Map<string, ChainLease> = new Map();
+  private instanceId: string;
   private apiUrl: string;
+  private subscriber?: ReturnType<typeof getRedis>;
+  private resyncInterval?: NodeJS.Timeout;
+  private electionInterval?: NodeJS.Timeout;
+  private electing = false;
+  private rescanningChains: Set<string> = new Set();
 
   constructor() {
     this.apiUrl = process.env.API_URL || 'http://localhost:3000';
+    this.instanceId = process.env.LISTENER_INSTANCE_ID || `${os.hostname()}-${process.pid}`;
   }
 
   async start() {
-    logger.info('Starting listener service');
-
-    // Get payment addresses from API
-    const addresses = await this.getPaymentAddresses();
-
-    // Start Ethereum listener
-    if (process.env.ETH_RPC_URL) {
-      const ethListener = new EthereumListener({
-        chain: 'ethereum',
-        rpcUrl: process.env.ETH_RPC_URL,
-        addresses: addresses.ethereum || [],
-        confirmationsRequired: CONFIRMATIONS_REQUIRED.ethereum,
-        onPayment: this.handlePayment.bind(this),
-      });
-      await ethListener.start();
-      this.listeners.set('ethereum', ethListener);
-    }
-
-    // Start Arbitrum listener
-    if (process.env.ARB_RPC_URL) {
-      const arbListener = new ArbitrumListener({
-        chain: 'arbitrum',
-        rpcUrl: process.env.ARB_RPC_URL,
-        addresses: addresses.arbitrum || [],
-        confirmationsRequired: CONFIRMATIONS_REQUIRED.arbitrum,
-        onPayment: this.handlePayment.bind(this),
-      });
-      await arbListener.start();
-      this.listeners.set('arbitrum', arbListener);
-    }
-
-    // Start Stacks listener
-    if (process.env.STACKS_RPC_URL) {
-      const stacksListener = new StacksListener({
-        chain: 'stacks',
-        rpcUrl: process.env.STACKS_RPC_URL,
-        addresses: addresses.stacks || [],
-        confirmationsRequired: CONFIRMATIONS_REQUIRED.stacks,
-        onPayment: this.handlePayment.bind(this),
-      });
-      await stacksListener.start();
-      this.listeners.set('stacks', stacksListener);
-    }
+    logger.info('Starting listener service', { instanceId: this.instanceId });
+
+    // Follow address additions and removals, and rescan requests, while running
+    await this.subscribe();
+
+    // Take the lead on free chains now and keep renewing; other replicas stand by
+    await this.runElection();
+    this.electionInterval = setInterval(() => this.runElection(), ELECTION_INTERVAL_MS);
+
+    this.resyncInterval = setInterval(() => {
+      this.resyncAddresses();
+      this.runAllRescanJobs();
+    }, ADDRESS_RESYNC_INTERVAL_MS);
 
-    logger.info(`Started ${this.listeners.size} chain listeners`);
+    logger.info(`Leading ${this.listeners.size} of ${this.configuredChains().length} chains`, {
+      instanceId: this.instanceId,
+      chains: Array.from(this.listeners.keys()),
+    });
   }
 
   async stop() {
-    logger.info('Stopping listener service');
-    for (const [chain, listener] of this.listeners) {
-      await listener.stop();
+    logger.info('Stopping listener service', { instanceId: this.instanceId });
+    if (this.electionInterval) {
+      clearInterval(this.electionInterval);
+      this.electionInterval = undefined;
+    }
+    if (this.resyncInterval) {
+      clearInterval(this.resyncInterval);
+      this.resyncInterval = undefined;
+    }
+    if (this.subscriber) {
+      await this.subscriber.quit();
+      this.subscriber = undefined;
+    }
+    for (const chain of Array.from(this.leases.keys())) {
+      await this.stopChain(chain);
+    }
+
+    try {
+      await getRedis().zRem(LISTENER_KEYS.instances, this.instanceId);
+    } catch (error: any) {
+      logger.warn('Failed to deregister listener instance', { error: error.message });
+    }
+  }
+
+  /**
+   * Chains with an RPC endpoint configured
+   */
+  private configuredChains(): Chain[] {
+    const chains: Chain[] = EVM_CHAINS.filter((chain) => CHAIN_CONFIGS[chain].rpcUrl);
+    if (process.env.STACKS_RPC_URL) chains.push('stacks');
+    if (process.env.SOL_RPC_URL) chains.push('solana');
+    if (process.env.BITCOIN_RPC_URL) chains.push('bitcoin');
+    return chains;
+  }
+
+  private createListener(chain: Chain, addresses: string[], leaseEpoch: number): BaseListener {
+    const config: ListenerConfig = {
+      chain,
+      rpcUrl: CHAIN_CONFIGS[chain].rpcUrl,
+      addresses,
+      onPayment: this.handlePayment.bind(this),
+      onReorg: this.handleReorg.bind(this),
+      onSeen: this.handleSeen.bind(this),
+      instanceId: this.instanceId,
+      leaseEpoch,
+    };
+
+    switch (chain) {
+      case 'stacks':
+        return new StacksListener({ ...config, rpcUrl: process.env.STACKS_RPC_URL! });
+      case 'solana':
+        return new SolanaListener({ ...config, rpcUrl: process.env.SOL_RPC_URL! });
+      case 'bitcoin':
+        return new BitcoinListener({ ...config, rpcUrl: process.env.BITCOIN_RPC_URL!, pollInterval: 15000 });
+      default:
+        return new EvmListener({
+          ...config,
+          pollInterval: Math.max(CHAIN_CONFIGS[chain].blockTime * 1000, 1000),
+        });
+    }
+  }
+
+  /**
+   * Renew the leases this instance holds, stopping chains whose lease was
+   * lost, then balance: claim free chains up to a fair share of the
+   * configured chains across live replicas, and hand off any beyond it
+   */
+  private async runElection() {
+    if (this.electing) return;
+    this.electing = true;
+
+    try {
+      const liveInstances = await this.heartbeat();
+
+      for (const [chain, lease] of Array.from(this.leases)) {
+        try {
+          if (await lease.renew()) continue;
+          logger.warn('Lost chain leadership', { chain, instanceId: this.instanceId });
+        } catch (error: any) {
+          // Keep going while Redis is briefly unreachable, but not past the lease
+          if (!lease.isExpired()) continue;
+          logger.warn('Chain lease expired while Redis was unreachable', { chain, error: error.message });
+        }
+        await this.stopChain(chain, false);
+      }
+
+      const chains = this.configuredChains();
+      const fairShare = Math.ceil(chains.length / liveInstances);
+
+      for (const chain of chains) {
+        if (this.leases.size >= fairShare) break;
+        if (this.leases.has(chain)) continue;
+
+        const lease = new ChainLease(chain, this.instanceId, LEASE_TTL_MS);
+        const epoch = await lease.acquire();
+        if (epoch === null) continue;
+
+        this.leases.set(chain, lease);
+        try {
+          await this.startChain(chain, epoch);
+        } catch (error: any) {
+          logger.error('Failed to start chain listener', { chain, error: error.message });
+          await this.stopChain(chain);
+        }
+      }
+
+      // Another replica joined; let it take over chains beyond our share
+      for (const chain of Array.from(this.leases.keys()).slice(fairShare)) {
+        logger.info('Handing off chain to another replica', { chain, instanceId: this.instanceId, fairShare });
+        await this.stopChain(chain);
+      }
+    } catch (error: any) {
+      logger.error('Leader election failed', { instanceId: this.instanceId, error: error.message });
+    } finally {
+      this.electing = false;
+    }
+  }
+
+  /**
+   * Record this instance as live and return how many replicas are
+   */
+  private async heartbeat(): Promise<number> {
+    const redis = getRedis();
+    const now = Date.now();
+
+    await redis.zAdd(LISTENER_KEYS.instances, { score: now, value: this.instanceId });
+    await redis.zRemRangeByScore(LISTENER_KEYS.instances, 0, now - LEASE_TTL_MS);
+
+    return Math.max(await redis.zCard(LISTENER_KEYS.instances), 1);
+  }
+
+  /**
+   * Start leading a chain. Fails, releasing the lease for a later retry,
+   * until the address list can be fetched, so no block is processed
+   * without knowing which addresses to look for.
+   */
+  private async startChain(chain: Chain, leaseEpoch: number) {
+    const addresses = await this.fetchPaymentAddresses();
+
+    const listener = this.createListener(chain, addresses[chain] || [], leaseEpoch);
+    await listener.start();
+    this.listeners.set(chain, listener);
+
+    logger.info('Took chain leadership', { chain, instanceId: this.instanceId, leaseEpoch });
+
+    // Jobs left running by the previous leader are started over
+    await this.requeueInterruptedRescans(chain);
+    this.runRescanJobs(chain);
+  }
+
+  /**
+   * Stop a chain's listener and give up its lease, unless it is already lost
+   */
+  private async stopChain(chain: string, release: boolean = true) {
+    const listener = this.listeners.get(chain);
+    this.listeners.delete(chain);
+
+    if (listener) {
+      try {
+        await listener.stop();
+      } catch (error: any) {
+        logger.error('Error stopping chain listener', { chain, error: error.message });
+      }
+    }
+
+    const lease = this.leases.get(chain);
+    this.leases.delete(chain);
+
+    if (lease && release) {
+      try {
+        await lease.release();
+      } catch (error: any) {
+        logger.warn('Failed to release chain lease', { chain, error: error.message });
+      }
     }
-    this.listeners.clear();
   }
 
   private async handlePayment(event: ChainEvent) {
+    logger.info('Payment detected', {
+      chain: event.chain,
+      txHash: event.txHash,
+      amount: event.amount,
+      to: event.to,
+    });
+
+    await publishChainEvent({ type: 'payment', event });
+  }
+
+  /**
+   * Transfers not yet past every confirmation policy, with their depth; the
+   * API decides from each report whether the payment counts yet
+   */
+  private async handleSeen(event: ChainEvent) {
+    logger.debug('Unconfirmed payment seen', {
+      chain: event.chain,
+      txHash: event.txHash,
+      confirmations: event.confirmations,
+    });
+
+    await publishChainEvent({ type: 'seen', event });
+  }
+
+  /**
+   * Lets the API roll back payment events from orphaned blocks. Throws if
+   * the reorg can't be queued, so the listener keeps its state and detects
+   * the reorg again on the next poll.
+   */
+  private async handleReorg(reorg: ChainReorg) {
+    logger.warn('Chain reorg detected', {
+      chain: reorg.chain,
+      forkBlock: reorg.forkBlock,
+      orphanedBlocks: reorg.orphanedBlockHashes.length,
+    });
+
+    await publishChainEvent({ type: 'reorg', reorg });
+  }
+
+  private async subscribe() {
     try {
-      logger.info('Payment detected', {
-        chain: event.chain,
-        txHash: event.txHash,
-        amount: event.amount,
-        to: event.to,
+      // A subscribed Redis connection can't run other commands, so use a dedicated one
+      const subscriber = getRedis().duplicate();
+      await subscriber.connect();
+      await subscriber.subscribe(CHANNELS.watchedAddresses, (message: string) => {
+        try {
+          this.applyAddressChange(JSON.parse(message));
+        } catch (error: any) {
+          logger.warn('Ignoring malformed watched address message', { message, error: error.message });
+        }
       });
+      await subscriber.subscribe(CHANNELS.rescanJobs, (message: string) => {
+        try {
+          const job: RescanJobMessage = JSON.parse(message);
+          this.runRescanJobs(job.chain);
+        } catch (error: any) {
+          logger.warn('Ignoring malformed rescan job message', { message, error: error.message });
+        }
+      });
+      this.subscriber = subscriber;
+    } catch (error: any) {
+      // Changes and jobs are still picked up periodically
+      logger.error('Failed to subscribe to address changes and rescan jobs', { error: error.message });
+    }
+  }
+
+  private applyAddressChange(change: WatchedAddressMessage) {
+    const listener = this.listeners.get(change.chain);
+    if (!listener) return;
+
+    if (change.action === 'remove') {
+      listener.removeAddress(change.address);
+      return;
+    }
+
+    listener.watchAddress(change.address, change.createdAt).catch((error: Error) => {
+      logger.error('Failed to watch address', { chain: change.chain, address: change.address, error: error.message });
+    });
+  }
+
+  private runAllRescanJobs() {
+    for (const chain of this.listeners.keys()) {
+      this.runRescanJobs(chain);
+    }
+  }
+
+  /**
+   * Claim and run queued rescan jobs for a chain one after another. Only one
+   * runs per chain at a time; further requests wait in the queue.
+   */
+  private async runRescanJobs(chain: string) {
+    const listener = this.listeners.get(chain);
+    if (!listener || this.rescanningChains.has(chain)) return;
 
-      // Send webhook to API service
-      await axios.post(`${this.apiUrl}/api/v1/webhooks/payment`, event);
+    this.rescanningChains.add(chain);
+    try {
+      let job = await this.claimRescanJob(chain);
+      while (job) {
+        await this.runRescanJob(listener, job);
+        job = await this.claimRescanJob(chain);
+      }
     } catch (error: any) {
-      logger.error('Error handling payment', { error: error.message });
+      logger.error('Error running rescan jobs', { chain, error: error.message });
+    } finally {
+      this.rescanningChains.delete(chain);
     }
   }
 
-  private async getPaymentAddresses(): Promise<Record<string, string[]>> {
+  private async claimRescanJob(chain: string): Promise<any | null> {
+    const result = await db.query(
+      `UPDATE rescan_jobs SET status = 'running', started_at = NOW()
+       WHERE id = (
+         SELECT id FROM rescan_jobs
+         WHERE chain = $1 AND status = 'queued'
+         ORDER BY created_at
+         LIMIT 1
+         FOR UPDATE SKIP LOCKED
+       )
+       RETURNING *`,
+      [chain]
+    );
+    return result.rows[0] || null;
+  }
+
+  private async runRescanJob(listener: BaseListener, job: any) {
+    logger.info('Running rescan job', { jobId: job.id, chain: job.chain, address: job.address });
+
     try {
-      // Fetch payment addresses from API
-      const response = await axios.get(`${this.apiUrl}/api/v1/agents/addresses`);
-      
-      if (response.data.success && response.data.data) {
-        return response.data.data;
+      const progress = await listener.rescan(
+        {
+          fromBlock: job.from_block !== null ? parseInt(job.from_block) : undefined,
+          toBlock: job.to_block !== null ? parseInt(job.to_block) : undefined,
+          address: job.address || undefined,
+        },
+        (progress) => this.saveRescanProgress(job.id, progress)
+      );
+
+      await this.saveRescanProgress(job.id, progress);
+      await db.query(
+        `UPDATE rescan_jobs SET status = 'completed', completed_at = NOW() WHERE id = $1`,
+        [job.id]
+      );
+    } catch (error: any) {
+      // Leadership moved mid-job; the new leader starts it over
+      if (this.listeners.get(job.chain) !== listener) {
+        logger.warn('Rescan job interrupted by leadership change', { jobId: job.id, chain: job.chain });
+        await db.query(`UPDATE rescan_jobs SET status = 'queued', started_at = NULL WHERE id = $1`, [job.id]);
+        return;
       }
-      
-      return {
-        ethereum: [],
-        arbitrum: [],
-        stacks: [],
-      };
+
+      logger.error('Rescan job failed', { jobId: job.id, chain: job.chain, error: error.message });
+      await db.query(
+        `UPDATE rescan_jobs SET status = 'failed', error_message = $2, completed_at = NOW() WHERE id = $1`,
+        [job.id, error.message]
+      );
+    }
+  }
+
+  private async saveRescanProgress(jobId: string, progress: RescanProgress) {
+    await db.query(
+      `UPDATE rescan_jobs
+       SET from_block = $2, to_block = $3, current_block = $4,
+           events_found = $5, events_new = $6, findings = $7
+       WHERE id = $1`,
+      [
+        jobId,
+        progress.fromBlock,
+        progress.toBlock,
+        progress.currentBlock,
+        progress.eventsFound,
+        progress.eventsNew,
+        JSON.stringify(progress.findings),
+      ]
+    );
+  }
+
+  private async requeueInterruptedRescans(chain: string) {
+    try {
+      await db.query(
+        `UPDATE rescan_jobs SET status = 'queued', started_at = NULL
+         WHERE status = 'running' AND chain = $1`,
+        [chain]
+      );
     } catch (error: any) {
-      logger.error('Error fetching payment addresses', { error: error.message });
-      return {
-        ethereum: [],
-        arbitrum: [],
-        stacks: [],
-      };
+      logger.error('Failed to requeue interrupted rescan jobs', { error: error.message });
     }
   }
+
+  private async resyncAddresses() {
+    const listedAt = Date.now();
+
+    try {
+      const addresses = await this.fetchPaymentAddresses();
+
+      for (const [chain, listener] of this.listeners) {
+        await listener.syncAddresses(addresses[chain] || [], listedAt);
+      }
+    } catch (error: any) {
+      logger.error('Error resyncing payment addresses', { error: error.message });
+    }
+  }
+
+  private async fetchPaymentAddresses(): Promise<Record<string, string[]>> {
+    const response = await axios.get(`${this.apiUrl}/api/v1/agents/addresses`);
+
+    if (!response.data.success || !response.data.data) {
+      throw new Error('Unexpected response from address endpoint');
+    }
+
+    return response.data.data;
+  }
 }
 
 // Main entry point
@@ -5,7 +5,7 @@
  */
 
 import axios, { AxiosInstance } from 'axios';
-import { BaseListener, ListenerConfig } from '../../shared/src/BaseListener';
+import { BaseListener, BlockHeader, ListenerConfig } from '../../shared/src/BaseListener';
 import { ChainEvent } from '@shared/types';
 import { logger } from '@shared/utils/logger';
 
@@ -66,6 +66,7 @@ interface StacksTransaction {
 }
 
 interface StacksEvent {
+  event_index: number;
   event_type: string;
   asset: {
     asset_event_type: string;
@@ -160,6 +161,25 @@ export class StacksListener extends BaseListener {
     }
   }
 
+  /**
+   * Get block hash and parent hash
+   */
+  async getBlockHeader(blockNumber: number): Promise<BlockHeader | null> {
+    try {
+      const response = await this.apiClient.get(`/extended/v1/block/by_height/${blockNumber}`);
+      return {
+        number: response.data.height,
+        hash: response.data.hash,
+        parentHash: response.data.parent_block_hash,
+      };
+    } catch (error) {
+      if (axios.isAxiosError(error) && error.response?.status === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
   /**
    * Poll for new blocks
    */
@@ -172,6 +192,9 @@ export class StacksListener extends BaseListener {
       // Process blocks
       while (this.lastProcessedBlock < currentBlock && this.isRunning) {
         const blockNum = this.lastProcessedBlock + 1;
+        if (!(await this.trackBlock(blockNum))) {
+          continue; // Reorg: rewound to the fork point
+        }
         await this.processBlock(blockNum);
 
         this.lastProcessedBlock = blockNum;
@@ -328,6 +351,7 @@ export class StacksListener extends BaseListener {
           from: event.asset.sender,
           to: recipient,
           tokenAddress: tokenConfig.contractId,
+          logIndex: event.event_index,
           amount,
           amountUSD,
           timestamp: tx.burn_block_time * 1000,
@@ -542,7 +566,7 @@ export class StacksListener extends BaseListener {
         amount: stxAmount.toString(),
         amountUSD,
         timestamp: Date.now(),
-        confirmations: status === 'confirmed' ? this.config.confirmationsRequired : 0,
+        confirmations: status === 'confirmed' ? 1 : 0,
       };
     }
     return null;
@@ -0,0 +1,15 @@
+module.exports = {
+  preset: 'ts-jest',
+  transform: {
+    '^.+\\.ts$': ['ts-jest', { tsconfig: { paths: { '@shared/*': ['shared/*'] } } }],
+  },
+  testEnvironment: 'node',
+  roots: ['<rootDir>/src'],
+  testMatch: ['**/__tests__/**/*.test.ts'],
+  // shared/ keeps stale compiled .js next to its sources; prefer the .ts
+  moduleFileExtensions: ['ts', 'js', 'json'],
+  moduleNameMapper: {
+    '^@shared/(.*)$': '<rootDir>/../../shared/$1',
+  },
+  testTimeout: 10000,
+};
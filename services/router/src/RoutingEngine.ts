@@ -1,36 +1,73 @@
 import { PaymentIntent, Route, RouteStep } from '@shared/types';
-import { LiquidityGraph, GraphNode } from './graph/LiquidityGraph';
-import { RouteOptimizer } from './algorithms/RouteOptimizer';
+import { LiquidityGraph, GraphNode, GraphEdge } from './graph/LiquidityGraph';
+import { RouteOptimizer, RouteSearchOptions } from './algorithms/RouteOptimizer';
+import { SwapSimulator } from './algorithms/SwapSimulator';
+import { SplitOptimizer } from './algorithms/SplitOptimizer';
+import { randomUUID } from 'crypto';
 import { DexAggregator } from './providers/DexAggregator';
 import { GasEstimator } from './gas/GasEstimator';
 import { logger } from '@shared/utils/logger';
 
+const DEFAULT_SLIPPAGE_TOLERANCE_BPS = 50; // 0.5%
+const DEFAULT_MAX_SPLITS = 3;
+const DEFAULT_SPLIT_INCREMENTS = 20; // 5% steps
+
+export interface RoutingOptions extends RouteSearchOptions {
+  slippageToleranceBps?: number; // Applied to expectedOutput to get minimumReceived
+  maxSplits?: number;            // Sub-routes a split route may use; 1 disables splitting
+  splitIncrements?: number;      // Granularity of the split search
+}
+
 export class RoutingEngine {
   private liquidityGraph: LiquidityGraph;
   private routeOptimizer: RouteOptimizer;
   private dexAggregator: DexAggregator;
   private gasEstimator: GasEstimator;
+  private swapSimulator: SwapSimulator;
+  private splitOptimizer: SplitOptimizer;
 
   constructor() {
     this.liquidityGraph = new LiquidityGraph();
     this.routeOptimizer = new RouteOptimizer();
     this.dexAggregator = new DexAggregator();
     this.gasEstimator = new GasEstimator();
+    this.swapSimulator = new SwapSimulator();
+    this.splitOptimizer = new SplitOptimizer();
   }
 
   async findOptimalRoute(intent: PaymentIntent): Promise<Route> {
     logger.info('Finding optimal route', { intentId: intent.id });
 
+    const [bestRoute] = await this.findRoutes(intent);
+
+    if (!bestRoute) {
+      throw new Error('No route found');
+    }
+
+    return bestRoute;
+  }
+
+  /**
+   * Find distinct candidate routes for an intent, cheapest first.
+   * Includes a split route when spreading the amount over several
+   * routes beats every single route.
+   */
+  async findRoutes(intent: PaymentIntent, options: RoutingOptions = {}): Promise<Route[]> {
+    if (!/^\d+$/.test(intent.amount)) {
+      throw new Error(`Intent amount must be an integer in base units, got "${intent.amount}"`);
+    }
+
     // Build liquidity graph
     const graph = await this.liquidityGraph.build(intent);
 
     // Create source and destination nodes
+    const sourceId = `${intent.sourceChain}:${intent.sourceToken}`;
     const sourceNode: GraphNode = {
-      id: `${intent.sourceChain}:${intent.sourceToken}`,
+      id: sourceId,
       chain: intent.sourceChain,
       token: intent.sourceToken,
       tokenAddress: intent.sourceTokenAddress,
-      decimals: 18, // Default, would be looked up
+      decimals: graph.nodes.find((node) => node.id === sourceId)?.decimals ?? 18,
     };
 
     const destNode: GraphNode = {
@@ -40,48 +77,184 @@ export class RoutingEngine {
       decimals: 6,
     };
 
-    // Find all possible routes
-    const routes = await this.routeOptimizer.findAllRoutes(
-      graph,
-      sourceNode,
-      destNode
-    );
+    const {
+      slippageToleranceBps = DEFAULT_SLIPPAGE_TOLERANCE_BPS,
+      maxSplits = DEFAULT_MAX_SPLITS,
+      splitIncrements = DEFAULT_SPLIT_INCREMENTS,
+      ...searchOptions
+    } = options;
+
+    // Price fees and slippage at the actual payment size when known
+    const routes = await this.routeOptimizer.findAllRoutes(graph, sourceNode, destNode, {
+      referenceAmountUSD: intent.amountUSD || undefined,
+      ...searchOptions,
+    });
+
+    const edges = new Map(graph.edges.map((edge) => [edge.id, edge]));
+    const totalAmount = BigInt(intent.amount);
+    const totalUSD = intent.amountUSD || 0;
+
+    // Prices a route for part of the intent amount
+    const evaluate = (route: Route, amount: bigint) =>
+      this.scoreRoute(
+        route,
+        amount,
+        totalAmount > 0n ? (totalUSD * Number((amount * 1_000_000n) / totalAmount)) / 1_000_000 : 0,
+        edges,
+        slippageToleranceBps
+      );
 
     // Score and rank routes
-    const scoredRoutes = await Promise.all(routes.map((route) => this.scoreRoute(route, intent)));
+    const scoredRoutes = (await Promise.all(routes.map((route) => evaluate(route, totalAmount))))
+      .filter((route): route is Route => route !== null)
+      .sort((a, b) => a.totalCostUSD - b.totalCostUSD);
 
-    // Select best route
-    const bestRoute = scoredRoutes.sort((a, b) => a.totalCostUSD - b.totalCostUSD)[0];
+    if (maxSplits > 1 && scoredRoutes.length > 1) {
+      const splitRoute = await this.findSplitRoute(
+        scoredRoutes,
+        totalAmount,
+        maxSplits,
+        splitIncrements,
+        evaluate
+      );
+      if (splitRoute) {
+        scoredRoutes.unshift(splitRoute);
+      }
+    }
 
-    if (!bestRoute) {
-      throw new Error('No route found');
+    return scoredRoutes.map((route) => this.assignIntent(route, intent.id));
+  }
+
+  /**
+   * Spread the amount across pool-disjoint routes. Returns null unless the
+   * split is cheaper than the best single route.
+   */
+  private async findSplitRoute(
+    rankedRoutes: Route[],
+    totalAmount: bigint,
+    maxSplits: number,
+    increments: number,
+    evaluate: (route: Route, amount: bigint) => Promise<Route | null>
+  ): Promise<Route | null> {
+    const candidates = this.splitOptimizer.selectDisjoint(rankedRoutes, maxSplits);
+    const allocations = await this.splitOptimizer.allocate(candidates, totalAmount, increments, evaluate);
+
+    if (allocations.length < 2) {
+      return null;
     }
 
-    return bestRoute;
+    const totalCostUSD = allocations.reduce((sum, a) => sum + a.route.totalCostUSD, 0);
+    if (totalCostUSD >= rankedRoutes[0].totalCostUSD) {
+      return null;
+    }
+
+    const sum = (pick: (route: Route) => string | undefined) =>
+      allocations.reduce((total, a) => total + BigInt(pick(a.route) ?? '0'), 0n).toString();
+
+    logger.info('Split route beats single route', {
+      legs: allocations.length,
+      weights: allocations.map((a) => a.weight),
+      savedUSD: rankedRoutes[0].totalCostUSD - totalCostUSD,
+    });
+
+    return {
+      id: randomUUID(),
+      paymentIntentId: '',
+      routeType: 'split',
+      steps: [],
+      splits: allocations.map((a) => ({ weight: a.weight, route: { ...a.route, id: randomUUID() } })),
+      estimatedGasCostUSD: allocations.reduce((total, a) => total + a.route.estimatedGasCostUSD, 0),
+      estimatedSlippage: allocations.reduce((total, a) => total + a.weight * a.route.estimatedSlippage, 0),
+      // Legs are executed one after another
+      estimatedTimeSeconds: allocations.reduce((total, a) => total + a.route.estimatedTimeSeconds, 0),
+      totalCostUSD,
+      expectedOutput: sum((route) => route.expectedOutput),
+      minimumReceived: sum((route) => route.minimumReceived),
+      status: 'pending',
+      createdAt: new Date(),
+    };
   }
 
-  private async scoreRoute(route: Route, intent: PaymentIntent): Promise<Route> {
-    // Calculate total costs
+  private assignIntent(route: Route, paymentIntentId: string): Route {
+    return {
+      ...route,
+      paymentIntentId,
+      splits: route.splits?.map((split) => ({
+        ...split,
+        route: { ...split.route, paymentIntentId },
+      })),
+    };
+  }
+
+  /**
+   * Push an amount through each step, feeding every step's output into
+   * the next, and price gas, fees and price impact along the way.
+   * Returns null when a step cannot be simulated.
+   */
+  private async scoreRoute(
+    route: Route,
+    amountIn: bigint,
+    amountUSD: number,
+    edges: Map<string, GraphEdge>,
+    slippageToleranceBps: number
+  ): Promise<Route | null> {
+    let amount = amountIn;
+    let valueUSD = amountUSD; // USD value entering the current step
+
     let totalGasUSD = 0;
     let totalFeesUSD = 0;
     let totalSlippageUSD = 0;
+    const steps: RouteStep[] = [];
 
     for (const step of route.steps) {
-      const gasUSD = await this.gasEstimator.estimate(step.fromChain, step.type, step.amount);
-      totalGasUSD += gasUSD;
-      totalFeesUSD += step.fee;
+      const edge = edges.get(this.edgeId(step));
+      const simulation = edge ? this.swapSimulator.simulate(edge, amount) : null;
 
-      if (step.type === 'swap') {
-        const slippageUSD = parseFloat(step.amount) * (step.estimatedSlippage || 0);
-        totalSlippageUSD += slippageUSD;
+      if (!simulation) {
+        logger.warn('Skipping route with unpriceable step', {
+          routeId: route.id,
+          step: `${step.fromChain}:${step.fromToken}->${step.toChain}:${step.toToken}`,
+          provider: step.provider,
+        });
+        return null;
       }
+
+      const gasUSD = await this.gasEstimator.estimate(step.fromChain, step.type, amount.toString());
+      const feeUSD = valueUSD * simulation.feeRate;
+      const slippageUSD = (valueUSD - feeUSD) * simulation.priceImpact;
+
+      totalGasUSD += gasUSD;
+      totalFeesUSD += feeUSD;
+      totalSlippageUSD += slippageUSD;
+      valueUSD -= feeUSD + slippageUSD;
+
+      steps.push({
+        ...step,
+        amount: amount.toString(),
+        estimatedSlippage: simulation.priceImpact,
+        expectedOutput: simulation.amountOut.toString(),
+      });
+
+      amount = simulation.amountOut;
     }
 
-    route.totalCostUSD = totalGasUSD + totalFeesUSD + totalSlippageUSD;
-    route.estimatedGasCostUSD = totalGasUSD;
-    route.estimatedSlippage = totalSlippageUSD / parseFloat(intent.amount);
+    const minimumReceived = (amount * BigInt(10000 - slippageToleranceBps)) / 10000n;
 
-    return route;
+    return {
+      ...route,
+      steps,
+      totalCostUSD: totalGasUSD + totalFeesUSD + totalSlippageUSD,
+      estimatedGasCostUSD: totalGasUSD,
+      estimatedSlippage: amountUSD ? totalSlippageUSD / amountUSD : 0,
+      expectedOutput: amount.toString(),
+      minimumReceived: minimumReceived.toString(),
+    };
   }
-}
 
+  /**
+   * Graph edge ID for a step (matches LiquidityGraph.addEdge)
+   */
+  private edgeId(step: RouteStep): string {
+    return `${step.fromChain}:${step.fromToken}->${step.toChain}:${step.toToken}:${step.provider}`;
+  }
+}
@@ -0,0 +1,121 @@
+/**
+ * Tests for RouteOptimizer
+ */
+
+import { Chain } from '@shared/types';
+import { GraphEdge, GraphNode } from '../graph/LiquidityGraph';
+import { RouteOptimizer } from '../algorithms/RouteOptimizer';
+
+jest.mock('@shared/utils/logger', () => ({ logger: { info: jest.fn(), debug: jest.fn() } }));
+
+const node = (id: string, chain: Chain, token: string): GraphNode => ({ id, chain, token, decimals: 6 });
+
+const edge = (
+  id: string,
+  from: GraphNode,
+  to: GraphNode,
+  fields: Partial<Pick<GraphEdge, 'cost' | 'gasEstimate' | 'slippage' | 'estimatedTimeSeconds'>>
+): GraphEdge => ({
+  id,
+  from,
+  to,
+  type: from.chain === to.chain ? 'swap' : 'bridge',
+  provider: id,
+  cost: 0,
+  liquidity: 1_000_000,
+  gasEstimate: 0,
+  slippage: 0,
+  estimatedTimeSeconds: 0,
+  lastUpdated: Date.now(),
+  ...fields,
+});
+
+describe('RouteOptimizer', () => {
+  const source = node('base:USDC', 'base', 'USDC');
+  const hubA = node('ethereum:USDC', 'ethereum', 'USDC');
+  const hubB = node('arbitrum:USDC', 'arbitrum', 'USDC');
+  const target = node('stacks:USDh', 'stacks', 'USDh');
+
+  // At the default $1000 reference amount: direct costs $15, via A $6, via B $8
+  const edges = [
+    edge('direct', source, target, { cost: 0.01, gasEstimate: 5 }),
+    edge('to-a', source, hubA, { cost: 0.001, gasEstimate: 1 }),
+    edge('a-target', hubA, target, { cost: 0.002, gasEstimate: 2 }),
+    edge('to-b', source, hubB, { gasEstimate: 3 }),
+    edge('b-target', hubB, target, { gasEstimate: 5 }),
+    edge('a-back', hubA, source, { gasEstimate: 0 }),
+  ];
+  const graph = { nodes: [source, hubA, hubB, target], edges };
+
+  let optimizer: RouteOptimizer;
+
+  const providers = (route: { steps: Array<{ provider: string }> }) => route.steps.map((step) => step.provider);
+
+  beforeEach(() => {
+    optimizer = new RouteOptimizer();
+  });
+
+  describe('findAllRoutes', () => {
+    it('should return distinct routes cheapest first', async () => {
+      const routes = await optimizer.findAllRoutes(graph, source, target);
+
+      expect(routes.map(providers)).toEqual([['to-a', 'a-target'], ['to-b', 'b-target'], ['direct']]);
+      expect(routes.map((route) => route.totalCostUSD)).toEqual([6, 8, 15]);
+    });
+
+    it('should never revisit a node', async () => {
+      const routes = await optimizer.findAllRoutes(graph, source, target, { maxRoutes: 10 });
+
+      for (const route of routes) {
+        expect(providers(route)).not.toContain('a-back');
+      }
+    });
+
+    it('should limit the number of hops and routes', async () => {
+      expect((await optimizer.findAllRoutes(graph, source, target, { maxHops: 1 })).map(providers)).toEqual([
+        ['direct'],
+      ]);
+      expect(await optimizer.findAllRoutes(graph, source, target, { maxRoutes: 2 })).toHaveLength(2);
+    });
+
+    it('should return no routes when the target is unreachable', async () => {
+      await expect(optimizer.findAllRoutes(graph, target, source)).resolves.toEqual([]);
+    });
+
+    it('should compound slippage and sum gas and time across hops', async () => {
+      const lossy = {
+        nodes: [source, hubA, target],
+        edges: [
+          edge('first', source, hubA, { slippage: 0.01, gasEstimate: 1, estimatedTimeSeconds: 60 }),
+          edge('second', hubA, target, { slippage: 0.02, gasEstimate: 2, estimatedTimeSeconds: 600 }),
+        ],
+      };
+
+      const [route] = await optimizer.findAllRoutes(lossy, source, target);
+
+      expect(route.routeType).toBe('multi_hop');
+      expect(route.estimatedSlippage).toBeCloseTo(1 - 0.99 * 0.98, 10);
+      expect(route.estimatedGasCostUSD).toBe(3);
+      expect(route.estimatedTimeSeconds).toBe(660);
+      expect(route.steps[0]).toMatchObject({ fromChain: 'base', toChain: 'ethereum', estimatedSlippage: 0.01 });
+    });
+  });
+
+  describe('edgeCost', () => {
+    const priced = edge('priced', source, hubA, {
+      cost: 0.003,
+      gasEstimate: 2,
+      slippage: 0.001,
+      estimatedTimeSeconds: 60,
+    });
+
+    it('should price fee and slippage at the reference amount', () => {
+      expect(optimizer.edgeCost(priced)).toBeCloseTo(3 + 2 + 1 + 0.06, 10);
+      expect(optimizer.edgeCost(priced, { referenceAmountUSD: 10000 })).toBeCloseTo(30 + 2 + 10 + 0.06, 10);
+    });
+
+    it('should apply weight overrides on top of the defaults', () => {
+      expect(optimizer.edgeCost(priced, { weights: { gas: 0, time: 0 } })).toBeCloseTo(4, 10);
+    });
+  });
+});
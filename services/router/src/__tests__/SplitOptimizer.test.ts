@@ -0,0 +1,107 @@
+/**
+ * Tests for SplitOptimizer
+ */
+
+import { Route, RouteStep } from '@shared/types';
+import { RouteEvaluator, SplitOptimizer } from '../algorithms/SplitOptimizer';
+
+jest.mock('@shared/utils/logger', () => ({ logger: { warn: jest.fn() } }));
+
+const step = (provider: string, toChain: RouteStep['toChain'] = 'stacks'): RouteStep => ({
+  type: 'bridge',
+  fromChain: 'base',
+  toChain,
+  fromToken: 'USDC',
+  toToken: 'USDC',
+  amount: '0',
+  provider,
+  gasEstimate: 0,
+  fee: 0,
+});
+
+const route = (id: string, steps: RouteStep[]): Route => ({
+  id,
+  paymentIntentId: 'pi_1',
+  routeType: steps.length === 1 ? 'direct' : 'multi_hop',
+  steps,
+  estimatedGasCostUSD: 0,
+  estimatedSlippage: 0,
+  estimatedTimeSeconds: 0,
+  totalCostUSD: 0,
+  status: 'pending',
+  createdAt: new Date(),
+});
+
+describe('SplitOptimizer', () => {
+  let optimizer: SplitOptimizer;
+
+  beforeEach(() => {
+    optimizer = new SplitOptimizer();
+  });
+
+  describe('selectDisjoint', () => {
+    it('should skip routes that reuse a hop of a cheaper route', () => {
+      const cheapest = route('a', [step('across', 'ethereum'), step('wormhole')]);
+      const sharesHop = route('b', [step('across', 'ethereum'), step('allbridge')]);
+      const disjoint = route('c', [step('stargate')]);
+
+      expect(optimizer.selectDisjoint([cheapest, sharesHop, disjoint], 3).map((r) => r.id)).toEqual(['a', 'c']);
+    });
+
+    it('should stop at the split limit', () => {
+      const routes = [route('a', [step('across')]), route('b', [step('stargate')]), route('c', [step('wormhole')])];
+
+      expect(optimizer.selectDisjoint(routes, 2).map((r) => r.id)).toEqual(['a', 'b']);
+    });
+  });
+
+  describe('allocate', () => {
+    const routes = [route('a', [step('across')]), route('b', [step('stargate')])];
+
+    // Quadratic cost, the shape of price impact in a constant-product pool
+    const quadratic =
+      (scale: Record<string, number>): RouteEvaluator =>
+      (candidate, amount) =>
+        Promise.resolve({ ...candidate, totalCostUSD: scale[candidate.id] * Number(amount) ** 2 });
+
+    it('should split evenly across routes with the same cost curve', async () => {
+      const allocations = await optimizer.allocate(routes, 100n, 4, quadratic({ a: 1, b: 1 }));
+
+      expect(allocations.map((a) => [a.route.id, a.amount, a.weight])).toEqual([
+        ['a', 50n, 0.5],
+        ['b', 50n, 0.5],
+      ]);
+    });
+
+    it('should give each increment to the route whose cost grows least', async () => {
+      const allocations = await optimizer.allocate(routes, 100n, 4, quadratic({ a: 1, b: 2 }));
+
+      expect(allocations.map((a) => [a.route.id, a.amount, a.weight])).toEqual([
+        ['a', 75n, 0.75],
+        ['b', 25n, 0.25],
+      ]);
+      expect(allocations[0].route.totalCostUSD).toBe(75 ** 2);
+    });
+
+    it('should hand the rounding remainder to the last increment', async () => {
+      const onlyA: RouteEvaluator = (candidate, amount) =>
+        Promise.resolve(candidate.id === 'a' ? { ...candidate, totalCostUSD: Number(amount) } : null);
+
+      const allocations = await optimizer.allocate(routes, 10n, 3, onlyA);
+
+      expect(allocations).toHaveLength(1);
+      expect(allocations[0]).toMatchObject({ amount: 10n, weight: 1 });
+    });
+
+    it('should not split with fewer than two routes or an amount below the increment count', async () => {
+      const evaluate = quadratic({ a: 1, b: 1 });
+
+      await expect(optimizer.allocate(routes.slice(0, 1), 100n, 4, evaluate)).resolves.toEqual([]);
+      await expect(optimizer.allocate(routes, 3n, 4, evaluate)).resolves.toEqual([]);
+    });
+
+    it('should give up when no route can absorb an increment', async () => {
+      await expect(optimizer.allocate(routes, 100n, 4, () => Promise.resolve(null))).resolves.toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * Tests for SwapSimulator
+ */
+
+import { GraphEdge, GraphNode, PoolReserves } from '../graph/LiquidityGraph';
+import { SwapSimulator } from '../algorithms/SwapSimulator';
+
+const node = (token: string, decimals: number): GraphNode => ({
+  id: `base:${token}`,
+  chain: 'base',
+  token,
+  decimals,
+});
+
+const edge = (type: GraphEdge['type'], from: GraphNode, to: GraphNode, fields: Partial<GraphEdge> = {}): GraphEdge => ({
+  id: `${from.id}->${to.id}`,
+  from,
+  to,
+  type,
+  provider: 'test',
+  cost: 0,
+  liquidity: 1_000_000,
+  gasEstimate: 0,
+  slippage: 0,
+  estimatedTimeSeconds: 0,
+  lastUpdated: Date.now(),
+  ...fields,
+});
+
+describe('SwapSimulator', () => {
+  const usdc = node('USDC', 6);
+  const usdt = node('USDT', 6);
+  const dai = node('DAI', 18);
+  const pool = (reserveIn: string, reserveOut: string): PoolReserves => ({ address: '0xpool', reserveIn, reserveOut });
+
+  let simulator: SwapSimulator;
+
+  beforeEach(() => {
+    simulator = new SwapSimulator();
+  });
+
+  describe('getAmountOut', () => {
+    it('should follow the constant-product curve with the fee taken from the input', () => {
+      // 1000 * 0.997 * 10000 / (10000 + 1000 * 0.997), rounded down
+      expect(simulator.getAmountOut(1000n, 10000n, 10000n, 30n)).toBe(906n);
+    });
+
+    it('should return nothing for a non-positive input', () => {
+      expect(simulator.getAmountOut(0n, 10000n, 10000n, 30n)).toBe(0n);
+    });
+  });
+
+  describe('simulate', () => {
+    it('should price a swap against the pool reserves', () => {
+      const result = simulator.simulate(edge('swap', usdc, usdt, { cost: 0.003, pool: pool('10000', '10000') }), 1000n);
+
+      expect(result).toMatchObject({ amountIn: 1000n, amountOut: 906n, feeRate: 0.003 });
+      // 906 of an ideal 997 retained
+      expect(result?.priceImpact).toBeCloseTo(1 - 0.908726, 6);
+    });
+
+    it('should grow the price impact with the trade size', () => {
+      const swap = edge('swap', usdc, usdt, { pool: pool('1000000000', '1000000000') });
+
+      const small = simulator.simulate(swap, 1_000_000n)!;
+      const large = simulator.simulate(swap, 100_000_000n)!;
+
+      expect(small.priceImpact).toBeLessThan(large.priceImpact);
+      expect(large.amountOut).toBeLessThan(100_000_000n);
+    });
+
+    it('should not price a swap without reserves', () => {
+      expect(simulator.simulate(edge('swap', usdc, usdt), 1000n)).toBeNull();
+      expect(simulator.simulate(edge('swap', usdc, usdt, { pool: pool('0', '10000') }), 1000n)).toBeNull();
+    });
+
+    it('should take the fee and flat slippage off a bridge and scale decimals', () => {
+      const bridge = edge('bridge', usdc, dai, { cost: 0.001, slippage: 0.005 });
+
+      const result = simulator.simulate(bridge, 1_000_000n);
+
+      expect(result?.amountOut).toBe(994_005_000_000_000_000n);
+      expect(result?.priceImpact).toBeCloseTo(0.005, 6);
+    });
+
+    it('should scale down to fewer decimals', () => {
+      const result = simulator.simulate(edge('transfer', dai, usdc), 1_000_000_000_000_000_000n);
+
+      expect(result).toMatchObject({ amountOut: 1_000_000n, priceImpact: 0 });
+    });
+  });
+});
@@ -1,147 +1,281 @@
-import { Route, RouteStep } from '@shared/types';
-import { GraphNode, GraphEdge, LiquidityGraph } from '../graph/LiquidityGraph';
+import { Route, RouteStep, Token } from '@shared/types';
+import { GraphNode, GraphEdge } from '../graph/LiquidityGraph';
 import { logger } from '@shared/utils/logger';
-import { v4 as uuidv4 } from 'uuid';
+import { randomUUID } from 'crypto';
+
+/**
+ * Weights applied to each edge attribute when ranking paths.
+ * fee and slippage are fractions of the reference amount, gas is USD,
+ * time is the USD value assigned to one second of latency.
+ */
+export interface RouteCostWeights {
+  fee: number;
+  gas: number;
+  slippage: number;
+  time: number;
+}
+
+export interface RouteSearchOptions {
+  maxHops?: number;            // Longest path considered
+  maxRoutes?: number;          // Number of distinct routes returned
+  referenceAmountUSD?: number; // Amount used to price fee and slippage
+  weights?: Partial<RouteCostWeights>;
+}
+
+interface ResolvedSearchOptions {
+  maxHops: number;
+  maxRoutes: number;
+  referenceAmountUSD: number;
+  weights: RouteCostWeights;
+}
+
+interface Path {
+  edges: GraphEdge[];
+  cost: number;
+}
+
+const DEFAULT_SEARCH_OPTIONS: ResolvedSearchOptions = {
+  maxHops: 4,
+  maxRoutes: 5,
+  referenceAmountUSD: 1000,
+  weights: {
+    fee: 1,
+    gas: 1,
+    slippage: 1,
+    time: 0.001, // $0.06 per minute of settlement time
+  },
+};
 
 export class RouteOptimizer {
+  private defaults: ResolvedSearchOptions;
+
+  constructor(options: RouteSearchOptions = {}) {
+    this.defaults = this.resolveOptions(DEFAULT_SEARCH_OPTIONS, options);
+  }
+
+  /**
+   * Find the N cheapest loop-free routes between two nodes (Yen's algorithm
+   * on top of a hop-bounded Dijkstra). Routes are returned cheapest first.
+   */
   async findAllRoutes(
     graph: { nodes: GraphNode[]; edges: GraphEdge[] },
     from: GraphNode,
-    to: GraphNode
+    to: GraphNode,
+    options: RouteSearchOptions = {}
   ): Promise<Route[]> {
-    logger.info('Finding routes', { from: `${from.chain}:${from.token}`, to: `${to.chain}:${to.token}` });
+    const opts = this.resolveOptions(this.defaults, options);
 
-    // Simplified Dijkstra's algorithm for MVP
-    // In production, would use a proper graph library
-    const routes: Route[] = [];
+    logger.info('Finding routes', {
+      from: from.id,
+      to: to.id,
+      maxHops: opts.maxHops,
+      maxRoutes: opts.maxRoutes,
+    });
 
-    // Direct route (if exists)
-    const directRoute = this.findDirectRoute(graph, from, to);
-    if (directRoute) {
-      routes.push(directRoute);
-    }
+    const adjacency = this.buildAdjacencyList(graph.edges);
+    const paths = this.findKShortestPaths(adjacency, from.id, to.id, opts);
 
-    // One-hop routes (source -> intermediate -> destination)
-    const oneHopRoutes = this.findOneHopRoutes(graph, from, to);
-    routes.push(...oneHopRoutes);
+    logger.debug(`Found ${paths.length} routes`, { from: from.id, to: to.id });
 
-    // For MVP, limit to 3 routes
-    return routes.slice(0, 3);
+    return paths.map((path) => this.toRoute(path));
   }
 
-  private findDirectRoute(
-    graph: { nodes: GraphNode[]; edges: GraphEdge[] },
-    from: GraphNode,
-    to: GraphNode
-  ): Route | null {
-    const edge = graph.edges.find(
-      (e) =>
-        e.from.chain === from.chain &&
-        e.from.token === from.token &&
-        e.to.chain === to.chain &&
-        e.to.token === to.token
+  /**
+   * Combined cost of traversing an edge, in USD
+   */
+  edgeCost(edge: GraphEdge, options: RouteSearchOptions = {}): number {
+    const { weights, referenceAmountUSD } = this.resolveOptions(this.defaults, options);
+
+    return (
+      weights.fee * edge.cost * referenceAmountUSD +
+      weights.gas * edge.gasEstimate +
+      weights.slippage * edge.slippage * referenceAmountUSD +
+      weights.time * edge.estimatedTimeSeconds
     );
+  }
+
+  private findKShortestPaths(
+    adjacency: Map<string, GraphEdge[]>,
+    sourceId: string,
+    targetId: string,
+    opts: ResolvedSearchOptions
+  ): Path[] {
+    const first = this.shortestPath(adjacency, sourceId, targetId, opts.maxHops, new Set(), new Set(), opts);
+    if (!first) {
+      return [];
+    }
+
+    const accepted: Path[] = [first];
+    const candidates: Path[] = [];
+    const seen = new Set<string>([this.pathKey(first.edges)]);
+
+    while (accepted.length < opts.maxRoutes) {
+      const previous = accepted[accepted.length - 1];
+
+      // Deviate from the previous path at each of its nodes in turn
+      for (let i = 0; i < previous.edges.length; i++) {
+        const spurNodeId = previous.edges[i].from.id;
+        const rootEdges = previous.edges.slice(0, i);
+        const rootKey = this.pathKey(rootEdges);
+
+        // Block the next edge of every accepted path sharing this root
+        const excludedEdges = new Set<string>();
+        for (const path of accepted) {
+          if (path.edges.length > i && this.pathKey(path.edges.slice(0, i)) === rootKey) {
+            excludedEdges.add(path.edges[i].id);
+          }
+        }
+
+        // Root nodes are off-limits so the combined path stays loop-free
+        const excludedNodes = new Set(rootEdges.map((edge) => edge.from.id));
+
+        const spur = this.shortestPath(
+          adjacency,
+          spurNodeId,
+          targetId,
+          opts.maxHops - i,
+          excludedEdges,
+          excludedNodes,
+          opts
+        );
+        if (!spur) continue;
+
+        const edges = [...rootEdges, ...spur.edges];
+        const key = this.pathKey(edges);
+        if (seen.has(key)) continue;
+
+        seen.add(key);
+        candidates.push({
+          edges,
+          cost: edges.reduce((sum, edge) => sum + this.edgeCost(edge, opts), 0),
+        });
+      }
+
+      if (candidates.length === 0) break;
+
+      candidates.sort((a, b) => a.cost - b.cost);
+      accepted.push(candidates.shift()!);
+    }
+
+    return accepted;
+  }
 
-    if (!edge) {
+  /**
+   * Dijkstra over (node, hops) labels, limited to maxHops edges
+   */
+  private shortestPath(
+    adjacency: Map<string, GraphEdge[]>,
+    sourceId: string,
+    targetId: string,
+    maxHops: number,
+    excludedEdges: Set<string>,
+    excludedNodes: Set<string>,
+    opts: ResolvedSearchOptions
+  ): Path | null {
+    if (maxHops <= 0) {
       return null;
     }
 
-    const step: RouteStep = {
+    const queue: Array<Path & { nodeId: string }> = [{ nodeId: sourceId, edges: [], cost: 0 }];
+    const settled = new Set<string>();
+
+    while (queue.length > 0) {
+      // Graphs here are tens of nodes, so a linear scan is cheaper than a heap
+      let bestIndex = 0;
+      for (let i = 1; i < queue.length; i++) {
+        if (queue[i].cost < queue[bestIndex].cost) bestIndex = i;
+      }
+      const label = queue.splice(bestIndex, 1)[0];
+
+      if (label.nodeId === targetId) {
+        return { edges: label.edges, cost: label.cost };
+      }
+
+      const hops = label.edges.length;
+      const stateKey = `${label.nodeId}|${hops}`;
+      if (settled.has(stateKey)) continue;
+      settled.add(stateKey);
+
+      if (hops >= maxHops) continue;
+
+      const visited = new Set([sourceId, ...label.edges.map((edge) => edge.to.id)]);
+
+      for (const edge of adjacency.get(label.nodeId) || []) {
+        if (excludedEdges.has(edge.id) || excludedNodes.has(edge.to.id) || visited.has(edge.to.id)) {
+          continue;
+        }
+
+        queue.push({
+          nodeId: edge.to.id,
+          edges: [...label.edges, edge],
+          cost: label.cost + this.edgeCost(edge, opts),
+        });
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Index edges by source node ID. Built from the edge list rather than
+   * LiquidityGraph's own adjacency list so cached graphs work too.
+   */
+  private buildAdjacencyList(edges: GraphEdge[]): Map<string, GraphEdge[]> {
+    const adjacency = new Map<string, GraphEdge[]>();
+    for (const edge of edges) {
+      const outgoing = adjacency.get(edge.from.id) || [];
+      outgoing.push(edge);
+      adjacency.set(edge.from.id, outgoing);
+    }
+    return adjacency;
+  }
+
+  private pathKey(edges: GraphEdge[]): string {
+    return edges.map((edge) => edge.id).join('|');
+  }
+
+  private toRoute(path: Path): Route {
+    const steps: RouteStep[] = path.edges.map((edge) => ({
       type: edge.type,
-      fromChain: edge.from.chain as any,
-      toChain: edge.to.chain as any,
-      fromToken: edge.from.token as any,
-      toToken: edge.to.token as any,
+      fromChain: edge.from.chain,
+      toChain: edge.to.chain,
+      fromToken: edge.from.token as Token,
+      toToken: edge.to.token as Token,
+      fromTokenAddress: edge.from.tokenAddress,
+      toTokenAddress: edge.to.tokenAddress,
       amount: '0', // Will be set by caller
       provider: edge.provider,
-      gasEstimate: 0,
+      gasEstimate: edge.gasEstimate,
       fee: edge.cost,
-    };
+      estimatedSlippage: edge.slippage,
+    }));
+
+    // Slippage compounds across hops
+    const retained = path.edges.reduce((acc, edge) => acc * (1 - edge.slippage), 1);
 
     return {
-      id: uuidv4(),
+      id: randomUUID(),
       paymentIntentId: '',
-      routeType: 'direct',
-      steps: [step],
-      estimatedGasCostUSD: 0,
-      estimatedSlippage: 0,
-      estimatedTimeSeconds: 300,
-      totalCostUSD: edge.cost,
+      routeType: steps.length === 1 ? 'direct' : 'multi_hop',
+      steps,
+      estimatedGasCostUSD: path.edges.reduce((sum, edge) => sum + edge.gasEstimate, 0),
+      estimatedSlippage: 1 - retained,
+      estimatedTimeSeconds: path.edges.reduce((sum, edge) => sum + edge.estimatedTimeSeconds, 0),
+      totalCostUSD: path.cost,
       status: 'pending',
       createdAt: new Date(),
     };
   }
 
-  private findOneHopRoutes(
-    graph: { nodes: GraphNode[]; edges: GraphEdge[] },
-    from: GraphNode,
-    to: GraphNode
-  ): Route[] {
-    const routes: Route[] = [];
-
-    // Find intermediate nodes
-    const intermediateNodes = graph.nodes.filter(
-      (node) => node.chain !== from.chain && node.chain !== to.chain
-    );
-
-    for (const intermediate of intermediateNodes) {
-      const edge1 = graph.edges.find(
-        (e) =>
-          e.from.chain === from.chain &&
-          e.from.token === from.token &&
-          e.to.chain === intermediate.chain &&
-          e.to.token === intermediate.token
-      );
-
-      const edge2 = graph.edges.find(
-        (e) =>
-          e.from.chain === intermediate.chain &&
-          e.from.token === intermediate.token &&
-          e.to.chain === to.chain &&
-          e.to.token === to.token
-      );
-
-      if (edge1 && edge2) {
-        const step1: RouteStep = {
-          type: edge1.type,
-          fromChain: edge1.from.chain as any,
-          toChain: edge1.to.chain as any,
-          fromToken: edge1.from.token as any,
-          toToken: edge1.to.token as any,
-          amount: '0',
-          provider: edge1.provider,
-          gasEstimate: 0,
-          fee: edge1.cost,
-        };
-
-        const step2: RouteStep = {
-          type: edge2.type,
-          fromChain: edge2.from.chain as any,
-          toChain: edge2.to.chain as any,
-          fromToken: edge2.from.token as any,
-          toToken: edge2.to.token as any,
-          amount: '0',
-          provider: edge2.provider,
-          gasEstimate: 0,
-          fee: edge2.cost,
-        };
-
-        routes.push({
-          id: uuidv4(),
-          paymentIntentId: '',
-          routeType: 'multi_hop',
-          steps: [step1, step2],
-          estimatedGasCostUSD: 0,
-          estimatedSlippage: 0,
-          estimatedTimeSeconds: 600,
-          totalCostUSD: edge1.cost + edge2.cost,
-          status: 'pending',
-          createdAt: new Date(),
-        });
-      }
-    }
-
-    return routes;
+  private resolveOptions(
+    base: ResolvedSearchOptions,
+    overrides: RouteSearchOptions
+  ): ResolvedSearchOptions {
+    return {
+      maxHops: overrides.maxHops ?? base.maxHops,
+      maxRoutes: overrides.maxRoutes ?? base.maxRoutes,
+      referenceAmountUSD: overrides.referenceAmountUSD ?? base.referenceAmountUSD,
+      weights: { ...base.weights, ...overrides.weights },
+    };
   }
 }
-
@@ -0,0 +1,96 @@
+import { Route } from '@shared/types';
+import { logger } from '@shared/utils/logger';
+
+/**
+ * Prices a route for a given input amount; returns the scored route or
+ * null when it cannot be simulated
+ */
+export type RouteEvaluator = (route: Route, amount: bigint) => Promise<Route | null>;
+
+export interface SplitAllocation {
+  route: Route;   // Scored for the allocated amount
+  amount: bigint;
+  weight: number; // Share of the total amount, 0-1
+}
+
+export class SplitOptimizer {
+  /**
+   * Pick up to maxSplits routes, cheapest first, that share no pool or bridge.
+   * Routes through the same pool would each assume its full depth.
+   */
+  selectDisjoint(routes: Route[], maxSplits: number): Route[] {
+    const selected: Route[] = [];
+    const usedHops = new Set<string>();
+
+    for (const route of routes) {
+      if (selected.length >= maxSplits) break;
+
+      const hops = route.steps.map(
+        (step) => `${step.fromChain}:${step.fromToken}->${step.toChain}:${step.toToken}:${step.provider}`
+      );
+      if (hops.some((hop) => usedHops.has(hop))) continue;
+
+      hops.forEach((hop) => usedHops.add(hop));
+      selected.push(route);
+    }
+
+    return selected;
+  }
+
+  /**
+   * Greedy water-filling: hand out the amount in equal increments, each to
+   * the route whose total cost grows least. Optimal for concave output
+   * curves such as constant-product pools; gas makes it a close heuristic.
+   */
+  async allocate(
+    routes: Route[],
+    totalAmount: bigint,
+    increments: number,
+    evaluate: RouteEvaluator
+  ): Promise<SplitAllocation[]> {
+    const chunk = totalAmount / BigInt(increments);
+    if (routes.length < 2 || chunk === 0n) {
+      return [];
+    }
+
+    const amounts = routes.map(() => 0n);
+    const scored: Array<Route | null> = routes.map(() => null);
+
+    for (let i = 0; i < increments; i++) {
+      // Last increment absorbs the rounding remainder
+      const size = i === increments - 1 ? totalAmount - chunk * BigInt(increments - 1) : chunk;
+
+      let bestIndex = -1;
+      let bestRoute: Route | null = null;
+      let bestMarginal = Infinity;
+
+      for (let r = 0; r < routes.length; r++) {
+        const candidate = await evaluate(routes[r], amounts[r] + size);
+        if (!candidate) continue;
+
+        const marginal = candidate.totalCostUSD - (scored[r]?.totalCostUSD ?? 0);
+        if (marginal < bestMarginal) {
+          bestMarginal = marginal;
+          bestIndex = r;
+          bestRoute = candidate;
+        }
+      }
+
+      if (bestIndex === -1) {
+        logger.warn('Split allocation aborted: no route could absorb the next increment');
+        return [];
+      }
+
+      amounts[bestIndex] += size;
+      scored[bestIndex] = bestRoute;
+    }
+
+    return routes
+      .map((_, r) => ({ route: scored[r], amount: amounts[r] }))
+      .filter((entry): entry is { route: Route; amount: bigint } => entry.route !== null && entry.amount > 0n)
+      .map((entry) => ({
+        ...entry,
+        weight: Number((entry.amount * 1_000_000n) / totalAmount) / 1_000_000,
+      }));
+  }
+}
@@ -0,0 +1,88 @@
+import { GraphEdge } from '../graph/LiquidityGraph';
+
+const BPS = 10000n;
+
+export interface StepSimulation {
+  amountIn: bigint;
+  amountOut: bigint;
+  feeRate: number;
+  priceImpact: number; // Fraction of the post-fee amount lost to the curve
+}
+
+/**
+ * Pushes an amount through graph edges.
+ * Swaps use the constant-product (x * y = k) curve over the pool reserves;
+ * bridges and transfers keep value 1:1 minus fee and flat slippage.
+ */
+export class SwapSimulator {
+  /**
+   * Simulate one edge. Returns null when a swap has no reserve data,
+   * since the output cannot be priced without it.
+   */
+  simulate(edge: GraphEdge, amountIn: bigint): StepSimulation | null {
+    const feeBps = this.toBps(edge.cost);
+
+    if (edge.type === 'swap') {
+      if (!edge.pool) {
+        return null;
+      }
+
+      const reserveIn = BigInt(edge.pool.reserveIn);
+      const reserveOut = BigInt(edge.pool.reserveOut);
+      if (reserveIn === 0n || reserveOut === 0n) {
+        return null;
+      }
+
+      const amountOut = this.getAmountOut(amountIn, reserveIn, reserveOut, feeBps);
+
+      // Output at the spot price after fee, i.e. with zero price impact
+      const idealOut = (amountIn * reserveOut * (BPS - feeBps)) / (reserveIn * BPS);
+
+      return {
+        amountIn,
+        amountOut,
+        feeRate: edge.cost,
+        priceImpact: this.ratioLost(amountOut, idealOut),
+      };
+    }
+
+    const afterFee = (amountIn * (BPS - feeBps)) / BPS;
+    const idealOut = this.scaleDecimals(afterFee, edge.from.decimals, edge.to.decimals);
+    const amountOut = (idealOut * (BPS - this.toBps(edge.slippage))) / BPS;
+
+    return {
+      amountIn,
+      amountOut,
+      feeRate: edge.cost,
+      priceImpact: this.ratioLost(amountOut, idealOut),
+    };
+  }
+
+  /**
+   * Constant-product output for an exact input, fee taken from the input
+   */
+  getAmountOut(amountIn: bigint, reserveIn: bigint, reserveOut: bigint, feeBps: bigint): bigint {
+    if (amountIn <= 0n) {
+      return 0n;
+    }
+
+    const amountInWithFee = amountIn * (BPS - feeBps);
+    return (amountInWithFee * reserveOut) / (reserveIn * BPS + amountInWithFee);
+  }
+
+  private scaleDecimals(amount: bigint, fromDecimals: number, toDecimals: number): bigint {
+    if (toDecimals === fromDecimals) return amount;
+    if (toDecimals > fromDecimals) return amount * 10n ** BigInt(toDecimals - fromDecimals);
+    return amount / 10n ** BigInt(fromDecimals - toDecimals);
+  }
+
+  private ratioLost(actual: bigint, ideal: bigint): number {
+    if (ideal <= 0n) return 0;
+    const retainedPpm = Number((actual * 1_000_000n) / ideal);
+    return Math.max(0, 1 - retainedPpm / 1_000_000);
+  }
+
+  private toBps(rate: number): bigint {
+    return BigInt(Math.round(rate * Number(BPS)));
+  }
+}
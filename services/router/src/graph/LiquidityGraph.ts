@@ -9,6 +9,7 @@ import { logger } from '@shared/utils/logger';
 import { getPriceOracle } from '@shared/utils/priceOracle';
 import { getRedis } from '@shared/utils/redis';
 import axios from 'axios';
+import { ethers } from 'ethers';
 
 export interface GraphNode {
   id: string;
@@ -18,16 +19,24 @@ export interface GraphNode {
   decimals: number;
 }
 
+export interface PoolReserves {
+  address: string;
+  reserveIn: string;   // Base units of the edge's input token
+  reserveOut: string;  // Base units of the edge's output token
+}
+
 export interface GraphEdge {
   id: string;
   from: GraphNode;
   to: GraphNode;
   type: 'swap' | 'bridge' | 'transfer';
   provider: string;
-  cost: number;          // Fee in USD
+  cost: number;          // Fee as a fraction of the amount
   liquidity: number;     // Available liquidity in USD
   gasEstimate: number;   // Estimated gas cost in USD
   slippage: number;      // Expected slippage at reference amount
+  estimatedTimeSeconds: number;
+  pool?: PoolReserves;   // Swap edges only
   lastUpdated: number;
 }
 
@@ -347,7 +356,8 @@ export class LiquidityGraph {
     provider: string
   ): Promise<GraphEdge> {
     // Fetch liquidity data (simplified)
-    const liquidity = await this.fetchPoolLiquidity(from.chain, from.token, to.token, provider);
+    const pool = await this.fetchPoolLiquidity(from.chain, from.token, to.token, provider);
+    const hasReserves = pool.reserve0 !== '0' && pool.reserve1 !== '0';
 
     return {
       id: '',
@@ -355,10 +365,14 @@ export class LiquidityGraph {
       to,
       type: 'swap',
       provider,
-      cost: liquidity.fee,
-      liquidity: liquidity.tvl,
+      cost: pool.fee,
+      liquidity: pool.tvl,
       gasEstimate: this.estimateSwapGas(from.chain),
-      slippage: this.estimateSlippage(liquidity.tvl, 1000), // For $1000 reference
+      slippage: this.estimateSlippage(pool.tvl, 1000), // For $1000 reference
+      estimatedTimeSeconds: this.estimateSwapTime(from.chain),
+      pool: hasReserves
+        ? { address: pool.address, reserveIn: pool.reserve0, reserveOut: pool.reserve1 }
+        : undefined,
       lastUpdated: Date.now(),
     };
   }
@@ -389,6 +403,7 @@ export class LiquidityGraph {
       liquidity: bridgeData.liquidity,
       gasEstimate: this.estimateBridgeGas(from.chain),
       slippage: 0.001, // Bridges typically have minimal slippage
+      estimatedTimeSeconds: bridgeData.estimatedTime,
       lastUpdated: Date.now(),
     };
   }
@@ -401,7 +416,7 @@ export class LiquidityGraph {
     tokenA: string,
     tokenB: string,
     provider: string
-  ): Promise<{ tvl: number; fee: number }> {
+  ): Promise<PoolData> {
     // In production, this would call DEX APIs
     // For now, return estimated values
     
@@ -426,12 +441,42 @@ export class LiquidityGraph {
       alex: 0.003,
     };
 
+    const tvl = baseLiquidity[chain] || 1000000;
+
+    // Assume a balanced pool: half the TVL on each side
+    const [reserve0, reserve1] = await Promise.all([
+      this.estimateReserve(chain, tokenA, tvl / 2),
+      this.estimateReserve(chain, tokenB, tvl / 2),
+    ]);
+
     return {
-      tvl: baseLiquidity[chain] || 1000000,
+      address: `${provider}:${chain}:${tokenA}-${tokenB}`,
+      token0: tokenA,
+      token1: tokenB,
+      reserve0,
+      reserve1,
       fee: fees[provider] || 0.003,
+      tvl,
     };
   }
 
+  /**
+   * Convert a USD value into base units of a token, '0' if it cannot be priced
+   */
+  private async estimateReserve(chain: Chain, token: string, valueUSD: number): Promise<string> {
+    const decimals = TOKEN_ADDRESSES[chain]?.[token]?.decimals ?? 18;
+
+    try {
+      const price = await getPriceOracle().getTokenPrice(token, chain);
+      if (!price || price <= 0) return '0';
+
+      return ethers.parseUnits((valueUSD / price).toFixed(decimals), decimals).toString();
+    } catch (error) {
+      logger.warn('Failed to price pool reserve', { chain, token, error: (error as Error).message });
+      return '0';
+    }
+  }
+
   /**
    * Fetch bridge liquidity
    */
@@ -475,6 +520,23 @@ export class LiquidityGraph {
     return gasCosts[chain] || 1;
   }
 
+  /**
+   * Estimate time for a swap to confirm
+   */
+  private estimateSwapTime(chain: Chain): number {
+    const confirmationTimes: Record<Chain, number> = {
+      ethereum: 36,      // ~3 blocks
+      arbitrum: 2,
+      base: 4,
+      polygon: 10,
+      optimism: 4,
+      stacks: 30,        // Nakamoto fast blocks
+      solana: 1,
+      bitcoin: 1800,
+    };
+    return confirmationTimes[chain] || 60;
+  }
+
   /**
    * Estimate gas cost for bridge
    */
@@ -2,5 +2,7 @@ export * from './RoutingEngine';
 export * from './providers/DexAggregator';
 export * from './graph/LiquidityGraph';
 export * from './algorithms/RouteOptimizer';
+export * from './algorithms/SwapSimulator';
+export * from './algorithms/SplitOptimizer';
 export * from './gas/GasEstimator';
 
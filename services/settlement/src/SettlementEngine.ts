@@ -1,9 +1,21 @@
-import { PaymentIntent, Settlement } from '@shared/types';
+import crypto from 'crypto';
+import { PaymentIntent, RouteStatus, RouteStep, Settlement } from '@shared/types';
 import { USDhService } from './usdh/USDhService';
 import { YieldVault } from './vault/YieldVault';
 import { db } from './db';
 import { logger } from '@shared/utils/logger';
-import { v4 as uuidv4 } from 'uuid';
+import { fromBaseUnits } from '@shared/utils/tokenAmounts';
+
+// One leg of a split route, as stored in routes
+interface RouteLegRow {
+  id: string;
+  status: RouteStatus;
+  steps: RouteStep[] | null;
+  expected_output: string | null;
+  estimated_gas_cost_usd: string | null;
+  actual_output: string | null;
+  actual_gas_cost_usd: string | null;
+}
 
 export class SettlementEngine {
   private usdhService: USDhService;
@@ -28,12 +40,25 @@ export class SettlementEngine {
 
     const intent = intentResult.rows[0];
 
-    // Convert to USDh
-    const usdhAmount = await this.usdhService.convertToUSDh(
-      intent.source_token,
-      intent.amount,
-      intent.source_chain
+    // A resumed payment picks up the settlement it already recorded
+    const existing = await db.query(
+      'SELECT id, status, paid_out_at FROM settlements WHERE payment_intent_id = $1',
+      [paymentIntentId]
     );
+    if (existing.rows.length > 0) {
+      await this.resumeSettlement(paymentIntentId, existing.rows[0]);
+      return;
+    }
+
+    // Settle what was actually received, less any excess refunded to the payer
+    const payableAmount = await this.getPayableAmount(intent);
+
+    // Convert to USDh (split routes settle the sum of their legs)
+    const { usdhAmount: executedAmount, gasCostUSD } = await this.getExecutedAmount(intent, payableAmount);
+
+    // Firm quotes lock the rate: credit the quoted output, record the variance
+    const quote = intent.quote_id ? await this.applyQuote(intent, payableAmount, executedAmount) : null;
+    const usdhAmount = quote ? quote.quotedAmount : executedAmount;
 
     // Calculate fees
     const fees = this.calculateFees(usdhAmount);
@@ -48,46 +73,206 @@ export class SettlementEngine {
     }
     const agent = agentResult.rows[0];
 
-    // Create settlement record
-    const settlementId = uuidv4();
-    await db.query(
+    // Create settlement record; one per intent, so a concurrent settle of
+    // the same intent records nothing and stops here
+    const settlementId = crypto.randomUUID();
+    const inserted = await db.query(
       `INSERT INTO settlements (
         id, payment_intent_id, agent_id, source_amount, source_token,
-        usdh_amount, conversion_rate, fees_usd, gas_cost_usd, net_amount_usdh, status
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)`,
+        usdh_amount, conversion_rate, fees_usd, gas_cost_usd, net_amount_usdh, status,
+        quote_id, quoted_usdh_amount, quote_variance_usdh, quote_flagged
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)
+      ON CONFLICT (payment_intent_id) DO NOTHING
+      RETURNING id`,
       [
         settlementId,
         paymentIntentId,
         intent.agent_id,
-        intent.amount,
+        payableAmount,
         intent.source_token,
         netAmount,
-        (netAmount / parseFloat(intent.amount)).toString(),
+        (netAmount / parseFloat(payableAmount)).toString(),
         fees,
-        0, // gas_cost_usd - would be calculated from route execution
+        gasCostUSD,
         netAmount,
         'processing',
+        intent.quote_id,
+        quote?.quotedAmount ?? null,
+        quote ? executedAmount - quote.quotedAmount : null,
+        quote?.flagged ?? false,
       ]
     );
+    if (inserted.rows.length === 0) {
+      throw new Error(`Payment intent ${paymentIntentId} is already being settled`);
+    }
 
     if (agent.auto_withdraw) {
       // Direct transfer to agent
       await this.transferToAgent(agent.stacks_address, netAmount);
+      await db.query('UPDATE settlements SET paid_out_at = NOW() WHERE id = $1', [settlementId]);
     } else {
       // Deposit to yield vault
-      await this.yieldVault.deposit(agent.id, netAmount);
+      const txId = await this.yieldVault.deposit(agent.id, netAmount);
+      await db.query(
+        `UPDATE settlements
+         SET paid_out_at = NOW(), deposited_to_vault = true, vault_deposit_tx_hash = $1
+         WHERE id = $2`,
+        [txId, settlementId]
+      );
     }
 
-    // Update settlement status
-    await db.query('UPDATE settlements SET status = $1, completed_at = NOW() WHERE id = $2', [
-      'completed',
-      settlementId,
-    ]);
+    await this.completeSettlement(settlementId);
+  }
+
+  /**
+   * Finish a settlement an earlier run recorded but did not complete. Once
+   * paid out only the bookkeeping is left; a settlement stopped during its
+   * payout may or may not have paid, so it is left for an operator rather
+   * than paid twice.
+   */
+  private async resumeSettlement(
+    paymentIntentId: string,
+    settlement: { id: string; status: string; paid_out_at: Date | null }
+  ): Promise<void> {
+    if (settlement.status === 'completed') {
+      logger.info('Payment intent already settled', { paymentIntentId, settlementId: settlement.id });
+      return;
+    }
 
-    // Update agent balance
-    await this.updateAgentBalance(intent.agent_id, netAmount);
+    if (!settlement.paid_out_at) {
+      throw new Error(
+        `Settlement ${settlement.id} was interrupted during its payout; reconcile it before settling again`
+      );
+    }
 
-    logger.info(`Settlement completed: ${settlementId}`);
+    logger.warn('Completing interrupted settlement', { paymentIntentId, settlementId: settlement.id });
+    await this.completeSettlement(settlement.id);
+  }
+
+  /**
+   * Source amount to settle: the confirmed total received (falling back to
+   * the intent amount), minus refunds that have not failed
+   */
+  private async getPayableAmount(intent: any): Promise<string> {
+    const received = parseFloat(intent.amount_received) > 0 ? intent.amount_received : intent.amount;
+
+    const refunds = await db.query(
+      `SELECT COALESCE(SUM(amount), 0) AS refunded
+       FROM payment_refunds
+       WHERE payment_intent_id = $1 AND status != 'failed'`,
+      [intent.id]
+    );
+
+    const refunded = parseFloat(refunds.rows[0].refunded);
+    return refunded > 0 ? (parseFloat(received) - refunded).toString() : received.toString();
+  }
+
+  /**
+   * USDh produced by the intent's route. For split routes this aggregates
+   * the legs and refuses to settle until every leg has completed.
+   */
+  private async getExecutedAmount(
+    intent: any,
+    payableAmount: string
+  ): Promise<{ usdhAmount: number; gasCostUSD: number }> {
+    const legs: RouteLegRow[] = intent.route_id
+      ? (
+          await db.query(
+            `SELECT id, status, steps, expected_output, estimated_gas_cost_usd, actual_output, actual_gas_cost_usd
+             FROM routes WHERE parent_route_id = $1`,
+            [intent.route_id]
+          )
+        ).rows
+      : [];
+
+    if (legs.length === 0) {
+      const usdhAmount = await this.usdhService.convertToUSDh(
+        intent.source_token,
+        payableAmount,
+        intent.source_chain
+      );
+      return { usdhAmount, gasCostUSD: 0 }; // Single-route gas is not tracked yet
+    }
+
+    const unfinished = legs.filter((leg) => leg.status !== 'completed');
+    if (unfinished.length > 0) {
+      throw new Error(
+        `Cannot settle split route ${intent.route_id}: ${unfinished.length} leg(s) not completed`
+      );
+    }
+
+    let usdhAmount = 0;
+    let gasCostUSD = 0;
+
+    for (const leg of legs) {
+      const steps = leg.steps || [];
+
+      // Settle what each leg delivered and paid, as measured when it completed;
+      // fall back to its simulated output, then to pricing its input
+      if (leg.actual_output === null || leg.actual_gas_cost_usd === null) {
+        logger.warn('Split leg outcome not measured, using estimates', {
+          routeId: leg.id,
+          actualOutput: leg.actual_output,
+          actualGasCostUSD: leg.actual_gas_cost_usd,
+        });
+      }
+
+      const output = leg.actual_output ?? leg.expected_output;
+      usdhAmount += output
+        ? parseFloat(output) / 1e6
+        : await this.usdhService.convertToUSDh(
+            intent.source_token,
+            steps[0]?.amount ?? '0',
+            intent.source_chain
+          );
+      gasCostUSD += Number(leg.actual_gas_cost_usd ?? leg.estimated_gas_cost_usd) || 0;
+    }
+
+    logger.info('Aggregated split route legs', {
+      routeId: intent.route_id,
+      legs: legs.length,
+      usdhAmount,
+      gasCostUSD,
+    });
+
+    return { usdhAmount, gasCostUSD };
+  }
+
+  /**
+   * Quoted USDh for the intent amount. Flags the settlement when execution
+   * delivered less than the guaranteed minimum; the quote is honored anyway.
+   */
+  private async applyQuote(
+    intent: any,
+    payableAmount: string,
+    executedAmount: number
+  ): Promise<{ quotedAmount: number; flagged: boolean } | null> {
+    const quoteResult = await db.query('SELECT * FROM quotes WHERE id = $1', [intent.quote_id]);
+    if (quoteResult.rows.length === 0) {
+      logger.warn('Intent references a missing quote; settling at market', { quoteId: intent.quote_id });
+      return null;
+    }
+
+    const quote = quoteResult.rows[0];
+
+    // Scale by the amount actually paid relative to the quoted amount; the
+    // intent pays in whole tokens, the quote is in base units
+    const quotedTokens = parseFloat(fromBaseUnits(quote.amount, quote.source_decimals));
+    const ratio = parseFloat(payableAmount) / quotedTokens;
+    const quotedAmount = parseFloat(quote.expected_output_usdh) * ratio;
+    const guaranteedMin = parseFloat(quote.guaranteed_min_usdh) * ratio;
+    const flagged = executedAmount < guaranteedMin;
+
+    if (flagged) {
+      logger.warn('Execution fell below quoted minimum; honoring quote', {
+        quoteId: quote.id,
+        executedAmount,
+        guaranteedMin,
+        shortfall: quotedAmount - executedAmount,
+      });
+    }
+
+    return { quotedAmount, flagged };
   }
 
   private calculateFees(amount: number): number {
@@ -100,16 +285,28 @@ export class SettlementEngine {
     await this.usdhService.transferUSDh(stacksAddress, amount);
   }
 
-  private async updateAgentBalance(agentId: string, amount: number): Promise<void> {
+  /**
+   * Mark a paid-out settlement completed and credit the agent's balance in
+   * one statement, so neither happens without the other or twice
+   */
+  private async completeSettlement(settlementId: string): Promise<void> {
     await db.query(
-      `UPDATE agent_balances 
-       SET principal_usdh = principal_usdh + $1,
-           total_usdh = principal_usdh + accrued_yield_usdh + $1,
+      `WITH completed AS (
+         UPDATE settlements SET status = 'completed', completed_at = NOW()
+         WHERE id = $1 AND status <> 'completed'
+         RETURNING agent_id, net_amount_usdh
+       )
+       UPDATE agent_balances
+       SET principal_usdh = principal_usdh + completed.net_amount_usdh,
+           total_usdh = principal_usdh + accrued_yield_usdh + completed.net_amount_usdh,
            last_deposit_at = NOW(),
            updated_at = NOW()
-       WHERE agent_id = $2`,
-      [amount, agentId]
+       FROM completed
+       WHERE agent_balances.agent_id = completed.agent_id`,
+      [settlementId]
     );
+
+    logger.info(`Settlement completed: ${settlementId}`);
   }
 }
 
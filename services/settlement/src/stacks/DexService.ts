@@ -7,7 +7,6 @@
 import { logger } from '@shared/utils/logger';
 import axios, { AxiosInstance, AxiosError } from 'axios';
 import {
-  makeContractCall,
   broadcastTransaction,
   AnchorMode,
   PostConditionMode,
@@ -19,6 +18,7 @@ import {
   createAssetInfo,
 } from '@stacks/transactions';
 import { StacksMainnet, StacksTestnet } from '@stacks/network';
+import { isSettlementSignerConfigured, makeSignedContractCall } from './signing';
 
 // DEX Provider Types
 type DexProvider = 'velar' | 'alex' | 'stxcity';
@@ -116,13 +116,11 @@ export class StacksDexService {
   private apiUrl: string;
   private velarClient: AxiosInstance;
   private alexClient: AxiosInstance;
-  private privateKey: string;
 
   constructor() {
     this.networkType = (process.env.STACKS_NETWORK || 'testnet') as 'mainnet' | 'testnet';
     this.network = this.networkType === 'mainnet' ? new StacksMainnet() : new StacksTestnet();
     this.apiUrl = process.env.STACKS_RPC_URL || 'https://api.testnet.hiro.so';
-    this.privateKey = process.env.STACKS_SETTLEMENT_WALLET_PRIVATE_KEY || '';
 
     // Initialize Velar API client
     this.velarClient = axios.create({
@@ -276,8 +274,8 @@ export class StacksDexService {
   ): Promise<SwapResult> {
     logger.info('Executing swap to USDh', { fromToken, amount, recipientAddress });
 
-    if (!this.privateKey) {
-      throw new Error('Settlement wallet private key not configured');
+    if (!isSettlementSignerConfigured()) {
+      throw new Error('Settlement wallet signer not configured');
     }
 
     // Get best quote
@@ -343,7 +341,6 @@ export class StacksDexService {
         contractPrincipalCV(outputTokenContract.split('.')[0], outputTokenContract.split('.')[1]),
         standardPrincipalCV(recipient),
       ],
-      senderKey: this.privateKey,
       network: this.network,
       anchorMode: AnchorMode.Any,
       postConditionMode: PostConditionMode.Deny,
@@ -351,7 +348,7 @@ export class StacksDexService {
       fee: BigInt(10000), // 0.01 STX fee
     };
 
-    const transaction = await makeContractCall(txOptions);
+    const transaction = await makeSignedContractCall(txOptions, BigInt(quote.inputAmount), this.signingToken(quote.inputToken));
     const broadcastResponse = await broadcastTransaction(transaction, this.network);
 
     if (broadcastResponse.error) {
@@ -383,14 +380,13 @@ export class StacksDexService {
         uintCV(BigInt(quote.inputAmount)),
         uintCV(BigInt(quote.minimumReceived)),
       ],
-      senderKey: this.privateKey,
       network: this.network,
       anchorMode: AnchorMode.Any,
       postConditionMode: PostConditionMode.Allow, // Alex handles post conditions internally
       fee: BigInt(10000),
     };
 
-    const transaction = await makeContractCall(txOptions);
+    const transaction = await makeSignedContractCall(txOptions, BigInt(quote.inputAmount), this.signingToken(quote.inputToken));
     const broadcastResponse = await broadcastTransaction(transaction, this.network);
 
     if (broadcastResponse.error) {
@@ -467,6 +463,14 @@ export class StacksDexService {
     return contract;
   }
 
+  /**
+   * Token the signer's value limit is looked up for; native STX is checked
+   * against the wallet's native limit
+   */
+  private signingToken(token: string): string | undefined {
+    return this.getTokenContract(token) === 'native' ? undefined : token;
+  }
+
   /**
    * Wait for transaction confirmation
    */
@@ -0,0 +1,56 @@
+/**
+ * Stacks Signing
+ * Builds contract calls unsigned and signs them through the settlement
+ * wallet's Signer, so the key can live in a keystore or a remote signer
+ * and every call passes its policy
+ */
+
+import {
+  makeUnsignedContractCall,
+  makeSigHashPreSign,
+  createMessageSignature,
+  SignedContractCallOptions,
+  SingleSigSpendingCondition,
+  StacksTransaction,
+} from '@stacks/transactions';
+import { getSigner, isSignerConfigured, toStacksSignature } from '@shared/utils/signer';
+
+// Signer name; a local key is read from STACKS_SETTLEMENT_WALLET_PRIVATE_KEY
+export const STACKS_SETTLEMENT_SIGNER = 'STACKS_SETTLEMENT_WALLET';
+
+export type SignerContractCallOptions = Omit<SignedContractCallOptions, 'senderKey'>;
+
+export function isSettlementSignerConfigured(): boolean {
+  return isSignerConfigured(STACKS_SETTLEMENT_SIGNER);
+}
+
+/**
+ * Build and sign a contract call with the settlement wallet. `value` is the
+ * amount the call moves: micro-STX, or base units of `token` when it moves a
+ * token. It is checked against the signer's limit for that asset.
+ */
+export async function makeSignedContractCall(
+  options: SignerContractCallOptions,
+  value: bigint,
+  token?: string
+): Promise<StacksTransaction> {
+  const signer = await getSigner(STACKS_SETTLEMENT_SIGNER);
+  const transaction = await makeUnsignedContractCall({ ...options, publicKey: signer.publicKey.slice(2) });
+
+  const condition = transaction.auth.spendingCondition as SingleSigSpendingCondition;
+  const digest = makeSigHashPreSign(transaction.signBegin(), transaction.auth.authType, condition.fee, condition.nonce);
+
+  const signature = await signer.sign({
+    chain: 'stacks',
+    family: 'stacks',
+    to: `${options.contractAddress}.${options.contractName}`,
+    value,
+    token,
+    functionName: options.functionName,
+    transaction: Buffer.from(transaction.serialize()).toString('hex'),
+    digest: `0x${digest}`,
+  });
+  condition.signature = createMessageSignature(toStacksSignature(signature));
+
+  return transaction;
+}
@@ -7,7 +7,6 @@
 import { logger } from '@shared/utils/logger';
 import {
   broadcastTransaction,
-  makeContractCall,
   standardPrincipalCV,
   uintCV,
   noneCV,
@@ -21,6 +20,7 @@ import {
 } from '@stacks/transactions';
 import { StacksMainnet, StacksTestnet } from '@stacks/network';
 import { StacksDexService } from '../stacks/DexService';
+import { isSettlementSignerConfigured, makeSignedContractCall } from '../stacks/signing';
 import { getPriceOracle } from '@shared/utils/priceOracle';
 import axios from 'axios';
 
@@ -46,14 +46,12 @@ export class USDhService {
   private networkType: 'mainnet' | 'testnet';
   private usdhConfig: TokenConfig;
   private apiUrl: string;
-  private privateKey: string;
   private dexService: StacksDexService;
 
   constructor() {
     this.networkType = (process.env.STACKS_NETWORK || 'testnet') as 'mainnet' | 'testnet';
     this.network = this.networkType === 'mainnet' ? new StacksMainnet() : new StacksTestnet();
     this.apiUrl = process.env.STACKS_RPC_URL || 'https://api.testnet.hiro.so';
-    this.privateKey = process.env.STACKS_SETTLEMENT_WALLET_PRIVATE_KEY || '';
     this.dexService = new StacksDexService();
 
     // USDh token configuration (Hermetica's USDh)
@@ -148,8 +146,8 @@ export class USDhService {
   async transferUSDh(toAddress: string, amount: number): Promise<string> {
     logger.info('Transferring USDh', { toAddress, amount });
 
-    if (!this.privateKey) {
-      throw new Error('Settlement wallet private key not configured');
+    if (!isSettlementSignerConfigured()) {
+      throw new Error('Settlement wallet signer not configured');
     }
 
     // Convert amount to micro-units (6 decimals)
@@ -184,7 +182,6 @@ export class USDhService {
           standardPrincipalCV(toAddress),
           noneCV(), // memo (optional)
         ],
-        senderKey: this.privateKey,
         network: this.network,
         anchorMode: AnchorMode.Any,
         postConditionMode: PostConditionMode.Deny,
@@ -192,7 +189,7 @@ export class USDhService {
         fee: BigInt(2000), // ~0.002 STX fee
       };
 
-      const transaction = await makeContractCall(txOptions);
+      const transaction = await makeSignedContractCall(txOptions, microAmount, 'USDh');
 
       // Broadcast transaction
       const broadcastResponse = await broadcastTransaction(transaction, this.network);
@@ -224,8 +221,8 @@ export class USDhService {
   ): Promise<string> {
     logger.info('Transferring USDh with memo', { toAddress, amount, memo });
 
-    if (!this.privateKey) {
-      throw new Error('Settlement wallet private key not configured');
+    if (!isSettlementSignerConfigured()) {
+      throw new Error('Settlement wallet signer not configured');
     }
 
     const microAmount = BigInt(Math.floor(amount * Math.pow(10, this.usdhConfig.decimals)));
@@ -245,14 +242,13 @@ export class USDhService {
           standardPrincipalCV(toAddress),
           someCV(bufferCV(memoBuffer)),
         ],
-        senderKey: this.privateKey,
         network: this.network,
         anchorMode: AnchorMode.Any,
         postConditionMode: PostConditionMode.Allow,
         fee: BigInt(2000),
       };
 
-      const transaction = await makeContractCall(txOptions);
+      const transaction = await makeSignedContractCall(txOptions, microAmount, 'USDh');
       const broadcastResponse = await broadcastTransaction(transaction, this.network);
 
       if (broadcastResponse.error) {
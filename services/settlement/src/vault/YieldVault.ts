@@ -7,7 +7,6 @@
 import { db } from '../db';
 import { logger } from '@shared/utils/logger';
 import {
-  makeContractCall,
   broadcastTransaction,
   AnchorMode,
   PostConditionMode,
@@ -18,6 +17,7 @@ import {
   ClarityValue,
 } from '@stacks/transactions';
 import { StacksMainnet, StacksTestnet } from '@stacks/network';
+import { isSettlementSignerConfigured, makeSignedContractCall } from '../stacks/signing';
 import axios from 'axios';
 
 // Vault configuration
@@ -26,7 +26,6 @@ interface VaultConfig {
   contractName: string;
   network: StacksMainnet | StacksTestnet;
   apiUrl: string;
-  privateKey: string;
 }
 
 // Agent balance from contract
@@ -65,7 +64,6 @@ export class YieldVault {
       contractName,
       network,
       apiUrl: process.env.STACKS_RPC_URL || 'https://api.testnet.hiro.so',
-      privateKey: process.env.STACKS_SETTLEMENT_WALLET_PRIVATE_KEY || '',
     };
   }
 
@@ -88,7 +86,7 @@ export class YieldVault {
     const agentStacksAddress = agentResult.rows[0].stacks_address;
 
     // Call on-chain deposit function
-    if (this.config.privateKey) {
+    if (isSettlementSignerConfigured()) {
       try {
         const txId = await this.executeDeposit(agentStacksAddress, amount);
         
@@ -102,7 +100,7 @@ export class YieldVault {
       }
     }
 
-    // Update database (fallback or if no private key)
+    // Update database (fallback or if no signer)
     await this.updateDatabaseBalance(agentId, amount, 'deposit');
     
     return 'db-only-deposit';
@@ -112,22 +110,22 @@ export class YieldVault {
    * Execute on-chain deposit
    */
   private async executeDeposit(agentAddress: string, amount: number): Promise<string> {
+    const microAmount = BigInt(Math.floor(amount * 1e6)); // USDh has 6 decimals
     const txOptions = {
       contractAddress: this.config.contractAddress,
       contractName: this.config.contractName,
       functionName: 'deposit-for-agent',
       functionArgs: [
         standardPrincipalCV(agentAddress),
-        uintCV(BigInt(Math.floor(amount * 1e6))), // USDh has 6 decimals
+        uintCV(microAmount),
       ],
-      senderKey: this.config.privateKey,
       network: this.config.network,
       anchorMode: AnchorMode.Any,
       postConditionMode: PostConditionMode.Allow,
       fee: BigInt(10000),
     };
 
-    const transaction = await makeContractCall(txOptions);
+    const transaction = await makeSignedContractCall(txOptions, microAmount, 'USDh');
     const broadcastResponse = await broadcastTransaction(transaction, this.config.network);
 
     if (broadcastResponse.error) {
@@ -164,7 +162,7 @@ export class YieldVault {
     const agentStacksAddress = agentResult.rows[0].stacks_address;
 
     // For instant withdrawal, use the instant-withdraw function (operator only)
-    if (this.config.privateKey) {
+    if (isSettlementSignerConfigured()) {
       try {
         const txId = await this.executeInstantWithdraw(agentStacksAddress, amount);
         
@@ -187,22 +185,22 @@ export class YieldVault {
    * Execute instant withdrawal (for authorized operators)
    */
   private async executeInstantWithdraw(agentAddress: string, amount: number): Promise<string> {
+    const microAmount = BigInt(Math.floor(amount * 1e6));
     const txOptions = {
       contractAddress: this.config.contractAddress,
       contractName: this.config.contractName,
       functionName: 'instant-withdraw',
       functionArgs: [
         standardPrincipalCV(agentAddress),
-        uintCV(BigInt(Math.floor(amount * 1e6))),
+        uintCV(microAmount),
       ],
-      senderKey: this.config.privateKey,
       network: this.config.network,
       anchorMode: AnchorMode.Any,
       postConditionMode: PostConditionMode.Allow,
       fee: BigInt(10000),
     };
 
-    const transaction = await makeContractCall(txOptions);
+    const transaction = await makeSignedContractCall(txOptions, microAmount, 'USDh');
     const broadcastResponse = await broadcastTransaction(transaction, this.config.network);
 
     if (broadcastResponse.error) {
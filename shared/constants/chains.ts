@@ -1,65 +1,90 @@
+// rpcUrl is read when used, so it reflects .env files loaded after this module
 export const CHAIN_CONFIGS = {
   ethereum: {
+    family: 'evm',
     chainId: 1,
     name: 'Ethereum',
     nativeToken: 'ETH',
-    rpcUrl: process.env.ETH_RPC_URL || '',
+    get rpcUrl() {
+      return process.env.ETH_RPC_URL || '';
+    },
     blockTime: 12, // seconds
     confirmationsRequired: 12,
   },
   arbitrum: {
+    family: 'evm',
     chainId: 42161,
     name: 'Arbitrum',
     nativeToken: 'ETH',
-    rpcUrl: process.env.ARB_RPC_URL || '',
+    get rpcUrl() {
+      return process.env.ARB_RPC_URL || '';
+    },
     blockTime: 1, // seconds
     confirmationsRequired: 1,
   },
   base: {
+    family: 'evm',
     chainId: 8453,
     name: 'Base',
     nativeToken: 'ETH',
-    rpcUrl: process.env.BASE_RPC_URL || '',
+    get rpcUrl() {
+      return process.env.BASE_RPC_URL || '';
+    },
     blockTime: 2,
     confirmationsRequired: 1,
   },
   polygon: {
+    family: 'evm',
     chainId: 137,
     name: 'Polygon',
     nativeToken: 'MATIC',
-    rpcUrl: process.env.POLYGON_RPC_URL || '',
+    get rpcUrl() {
+      return process.env.POLYGON_RPC_URL || '';
+    },
     blockTime: 2,
     confirmationsRequired: 1,
   },
   optimism: {
+    family: 'evm',
     chainId: 10,
     name: 'Optimism',
     nativeToken: 'ETH',
-    rpcUrl: process.env.OPTIMISM_RPC_URL || '',
+    get rpcUrl() {
+      return process.env.OPTIMISM_RPC_URL || '';
+    },
     blockTime: 2,
     confirmationsRequired: 1,
   },
   stacks: {
+    family: 'stacks',
     chainId: 1,
     name: 'Stacks',
     nativeToken: 'STX',
-    rpcUrl: process.env.STACKS_RPC_URL || 'https://api.hiro.so',
+    get rpcUrl() {
+      return process.env.STACKS_RPC_URL || 'https://api.hiro.so';
+    },
     blockTime: 600, // ~10 minutes
     confirmationsRequired: 1,
   },
   solana: {
+    family: 'solana',
     chainId: 101,
     name: 'Solana',
     nativeToken: 'SOL',
-    rpcUrl: process.env.SOL_RPC_URL || '',
+    get rpcUrl() {
+      return process.env.SOL_RPC_URL || '';
+    },
     blockTime: 0.4,
     confirmationsRequired: 32,
   },
   bitcoin: {
+    family: 'bitcoin',
     chainId: 0,
     name: 'Bitcoin',
     nativeToken: 'BTC',
-    rpcUrl: process.env.BITCOIN_RPC_URL || '',
+    get rpcUrl() {
+      return process.env.BITCOIN_RPC_URL || '';
+    },
     blockTime: 600,
     confirmationsRequired: 6,
   },
@@ -80,8 +105,33 @@ export const TOKEN_ADDRESSES = {
     USDC: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913',
     WETH: '0x4200000000000000000000000000000000000006',
   },
+  polygon: {
+    USDC: '0x2791Bca1f2de4661ED88A30C99A7a9449Aa84174',
+    USDT: '0xc2132D05D31c914a87C6611C10748AEb04B58e8F',
+    WETH: '0x7ceB23fD6bC0adD59E62ac25578270cFf1b9f619',
+  },
+  optimism: {
+    USDC: '0x7F5c764cBc14f9669B88837ca1490cCa17c31607',
+    USDT: '0x94b008aA00579c1307B0EF2c499aD98a8ce58e58',
+    WETH: '0x4200000000000000000000000000000000000006',
+  },
+  solana: {
+    USDC: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v',
+    USDT: 'Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB',
+  },
 } as const;
 
+export const TOKEN_DECIMALS: Record<string, number> = {
+  USDC: 6,
+  USDT: 6,
+  WETH: 18,
+};
+
+// Chains served by the generic EVM listener and sweeper
+export const EVM_CHAINS = (Object.keys(CHAIN_CONFIGS) as (keyof typeof CHAIN_CONFIGS)[]).filter(
+  (chain) => CHAIN_CONFIGS[chain].family === 'evm'
+);
+
 export const CONFIRMATIONS_REQUIRED = {
   ethereum: 12,
   arbitrum: 1,
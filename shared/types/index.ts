@@ -14,6 +14,7 @@ export interface PaymentIntent {
   amountUSD: number;
   destinationToken: Token;
   status: PaymentIntentStatus;
+  amountReceived?: string; // Sum of confirmed payments, may span several transfers
   paymentAddress: string;
   quoteId?: string;
   routeId?: string;
@@ -25,6 +26,9 @@ export interface PaymentIntent {
 
 export type PaymentIntentStatus =
   | 'pending'
+  | 'seen'
+  | 'underpaid'
+  | 'overpaid'
   | 'detected'
   | 'routing'
   | 'executing'
@@ -40,6 +44,9 @@ export interface Agent {
   minPaymentAmount: string;
   autoWithdraw: boolean;
   settlementPreference: 'usdh' | 'stx';
+  paymentToleranceBps?: number;
+  overpaymentPolicy: OverpaymentPolicy;
+  confirmationPolicy?: ConfirmationPolicy; // Overrides the default per chain
   totalVolumeUSD: number;
   totalPayments: number;
   status: 'active' | 'inactive' | 'suspended';
@@ -48,21 +55,50 @@ export interface Agent {
   metadata?: Record<string, unknown>;
 }
 
+// What happens to the excess when an intent is overpaid
+export type OverpaymentPolicy = 'credit' | 'refund';
+
+// Block tags some chains report; a finalized block is also safe
+export type BlockFinality = 'safe' | 'finalized';
+
+// How deep a transfer must be to count; every condition set must hold
+export interface ConfirmationRule {
+  maxAmountUSD?: number; // Applies to transfers worth up to this much; omit on the last rule
+  confirmations?: number;
+  blockTag?: BlockFinality; // EVM chains only
+}
+
+// Rules in increasing maxAmountUSD, optionally replaced per token symbol
+export interface ChainConfirmationPolicy {
+  rules: ConfirmationRule[];
+  tokens?: Record<string, ConfirmationRule[]>;
+}
+
+export type ConfirmationPolicy = Partial<Record<Chain, ChainConfirmationPolicy>>;
+
 export interface Route {
   id: string;
   paymentIntentId: string;
-  routeType: 'direct' | 'bridge' | 'multi_hop';
-  steps: RouteStep[];
+  routeType: 'direct' | 'bridge' | 'multi_hop' | 'split';
+  steps: RouteStep[];        // Empty for split routes
+  splits?: RouteSplit[];     // Only for split routes
   estimatedGasCostUSD: number;
   estimatedSlippage: number;
   estimatedTimeSeconds: number;
   totalCostUSD: number;
+  expectedOutput?: string;   // Destination token base units for the intent amount
+  minimumReceived?: string;  // expectedOutput less the slippage tolerance
   status: RouteStatus;
   executedAt?: Date;
   executionTxHash?: string;
   createdAt: Date;
 }
 
+export interface RouteSplit {
+  weight: number; // Share of the intent amount, 0-1
+  route: Route;   // Sub-route carrying that share
+}
+
 export type RouteStatus = 'pending' | 'executing' | 'completed' | 'failed';
 
 export interface RouteStep {
@@ -78,6 +114,25 @@ export interface RouteStep {
   gasEstimate: number;
   fee: number;
   estimatedSlippage?: number;
+  expectedOutput?: string;
+}
+
+export type RouteStepStatus = 'built' | 'signed' | 'broadcast' | 'confirmed' | 'failed';
+
+/**
+ * Execution progress of one route step. A step is recorded as signed,
+ * with its raw transaction, before it is broadcast, so a route interrupted
+ * at any point resumes without sending a step twice.
+ */
+export interface RouteStepState {
+  routeId: string;
+  stepIndex: number;
+  chain: Chain;
+  status: RouteStepStatus;
+  txHash?: string;          // The signed transaction's; the attempt mined once confirmed
+  signedTx?: string;
+  error?: string;
+  updatedAt: Date;
 }
 
 export interface PaymentEvent {
@@ -146,10 +201,123 @@ export interface ChainEvent {
   from: string;
   to: string;
   tokenAddress?: string;
+  logIndex?: number; // Position of the transfer in the tx (log, output or event index); none for a native EVM transfer
   amount: string;
   amountUSD: number;
   timestamp: number;
   confirmations: number;
+  finality?: BlockFinality; // Strongest tag the block has reached, on chains reporting them
+}
+
+/**
+ * Emitted by a listener when blocks it already processed were replaced.
+ * Everything above forkBlock on this chain is orphaned.
+ */
+export interface ChainReorg {
+  chain: Chain;
+  forkBlock: number;             // Highest block still on the canonical chain
+  orphanedBlockHashes: string[]; // Hashes of the replaced blocks
+  detectedAt: number;
+}
+
+export type RescanJobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+/**
+ * Admin-requested rescan of a block range, or of one address's activity,
+ * run by the chain's listener through its normal deduplicated event path
+ */
+export interface RescanJob {
+  id: string;
+  chain: Chain;
+  address?: string;        // Only transfers to this address
+  fromBlock?: number;      // Defaults chosen by the listener when omitted
+  toBlock?: number;        // Chain head when the job started, if omitted
+  status: RescanJobStatus;
+  currentBlock?: number;   // Highest block scanned so far
+  eventsFound: number;
+  eventsNew: number;       // Found events that had not been processed before
+  findings: RescanFinding[];
+  error?: string;
+  requestedBy?: string;
+  createdAt: Date;
+  startedAt?: Date;
+  completedAt?: Date;
+}
+
+export interface RescanFinding {
+  txHash: string;
+  blockNumber: number;
+  from: string;
+  to: string;
+  tokenAddress?: string;
+  amount: string;
+  amountUSD: number;
+  alreadyProcessed: boolean; // Handled before the rescan, so skipped
+}
+
+export type TransactionLogStatus = 'pending' | 'confirmed' | 'failed' | 'replaced';
+
+/**
+ * One attempt at sending an execution transaction. A stuck attempt is
+ * replaced by another at the same nonce with higher fees, or by a
+ * zero-value cancellation; each replacement points at the attempt it
+ * replaced.
+ */
+export interface TransactionLog {
+  id: string;
+  paymentIntentId?: string;
+  chain: Chain;
+  txHash: string;
+  txType: string;           // Step type, 'sweep', or 'cancel'
+  status: TransactionLogStatus;
+  fromAddress?: string;
+  nonce?: number;
+  maxFeePerGas?: string;    // Wei
+  maxPriorityFeePerGas?: string;
+  replacesTxId?: string;
+  cancelRequestedAt?: Date;
+  cancelRequestedBy?: string;
+  error?: string;
+  createdAt: Date;
+  confirmedAt?: Date;
+}
+
+export type WithdrawalStatus = 'pending' | 'processing' | 'completed' | 'failed';
+
+export type WebhookEventType =
+  | `payment.${Exclude<PaymentIntentStatus, 'pending'>}`
+  | 'payment.reorged'
+  | `withdrawal.${WithdrawalStatus}`;
+
+export type WebhookDeliveryStatus = 'pending' | 'delivering' | 'delivered' | 'failed' | 'dead_letter';
+
+export interface WebhookDelivery {
+  id: string;
+  agentId: string;
+  eventType: WebhookEventType;
+  payload: Record<string, unknown>;
+  url: string;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  nextAttemptAt?: Date;
+  lastAttemptAt?: Date;
+  responseStatus?: number;
+  lastError?: string;
+  deliveredAt?: Date;
+  createdAt: Date;
+}
+
+export type ApiKeyScope = 'read' | 'payments:write' | 'withdrawals:write' | 'agents:write' | 'keys:manage';
+
+export interface ApiKey {
+  id: string;
+  agentId: string;
+  name?: string;
+  keyPrefix: string;
+  scopes: ApiKeyScope[];
+  lastUsedAt?: Date;
+  revokedAt?: Date;
+  createdAt: Date;
 }
 
 // Chainhook-specific types for tracking users and fees
@@ -10,7 +10,7 @@
  * - All derivation uses hardened paths where possible
  */
 
-import { createHash, createHmac, randomBytes } from 'crypto';
+import { createHash, createHmac, createPrivateKey, createPublicKey, randomBytes } from 'crypto';
 import { ethers, HDNodeWallet, Mnemonic } from 'ethers';
 import { Chain } from '@shared/types';
 import { logger } from './logger';
@@ -37,7 +37,20 @@ const CHAIN_COIN_TYPES: Record<Chain, number> = {
 };
 
 // Derivation path template: m/44'/{coin_type}'/{account}'/{change}/{address_index}
-const DERIVATION_PATH_TEMPLATE = "m/44'/{coinType}'/0'/0/{index}";
+// Agent-level addresses use account 0 with the agent index as address index;
+// per-intent deposit addresses use the agent index as account (agent indices start at 1)
+const DERIVATION_PATH_TEMPLATE = "m/44'/{coinType}'/{account}'/0/{index}";
+
+// PKCS#8 DER header for a raw 32-byte Ed25519 private key
+const ED25519_PKCS8_PREFIX = Buffer.from('302e020100300506032b657004220420', 'hex');
+
+// Bech32 human-readable part per Bitcoin network (BITCOIN_NETWORK)
+const BITCOIN_HRP: Record<string, string> = {
+  mainnet: 'bc',
+  testnet: 'tb',
+  signet: 'tb',
+  regtest: 'bcrt',
+};
 
 interface DerivedAddress {
   address: string;
@@ -98,24 +111,25 @@ export class HDWalletManager {
   }
 
   /**
-   * Get derivation path for a chain and index
+   * Get derivation path for a chain, account and index
    */
-  private getDerivationPath(chain: Chain, index: number): string {
+  private getDerivationPath(chain: Chain, index: number, account: number = 0): string {
     const coinType = CHAIN_COIN_TYPES[chain];
     return DERIVATION_PATH_TEMPLATE
       .replace('{coinType}', coinType.toString())
+      .replace('{account}', account.toString())
       .replace('{index}', index.toString());
   }
 
   /**
    * Derive EVM-compatible address (Ethereum, Arbitrum, Base, Polygon, Optimism)
    */
-  private deriveEVMAddress(index: number, chain: Chain): DerivedAddress {
+  private deriveEVMAddress(index: number, chain: Chain, account: number = 0): DerivedAddress {
     if (!this.mnemonic) {
       throw new Error('Mnemonic not available for EVM derivation');
     }
 
-    const path = this.getDerivationPath(chain, index);
+    const path = this.getDerivationPath(chain, index, account);
     const hdNode = HDNodeWallet.fromPhrase(this.mnemonic, undefined, path);
 
     return {
@@ -130,10 +144,10 @@ export class HDWalletManager {
    * Derive Stacks address
    * Uses BIP-44 path with Stacks coin type (5757)
    */
-  private deriveStacksAddress(index: number, stacksAddress: string): DerivedAddress {
+  private deriveStacksAddress(index: number, stacksAddress: string, account: number = 0): DerivedAddress {
     // For Stacks, we use the provided Stacks address as the payment address
     // The index is used to derive a unique identifier for tracking
-    const path = this.getDerivationPath('stacks', index);
+    const path = this.getDerivationPath('stacks', index, account);
     
     return {
       address: stacksAddress, // Use the agent's own Stacks address
@@ -146,12 +160,12 @@ export class HDWalletManager {
   /**
    * Derive Solana address using Ed25519
    */
-  private deriveSolanaAddress(index: number): DerivedAddress {
+  private deriveSolanaAddress(index: number, account: number = 0): DerivedAddress {
     if (!this.masterSeed) {
       throw new Error('Master seed not available');
     }
 
-    const path = this.getDerivationPath('solana', index);
+    const path = this.getDerivationPath('solana', index, account);
     
     // Solana uses Ed25519, derive using HMAC-SHA512
     // This is a simplified derivation - production should use @solana/web3.js
@@ -171,12 +185,12 @@ export class HDWalletManager {
   /**
    * Derive Bitcoin address (P2WPKH - Native SegWit)
    */
-  private deriveBitcoinAddress(index: number): DerivedAddress {
+  private deriveBitcoinAddress(index: number, account: number = 0): DerivedAddress {
     if (!this.mnemonic) {
       throw new Error('Mnemonic not available for Bitcoin derivation');
     }
 
-    const path = this.getDerivationPath('bitcoin', index);
+    const path = this.getDerivationPath('bitcoin', index, account);
     
     // Use ethers HDNode for key derivation, then convert to Bitcoin format
     const hdNode = HDNodeWallet.fromPhrase(this.mnemonic, undefined, path);
@@ -184,7 +198,12 @@ export class HDWalletManager {
     
     // Create P2WPKH (bc1...) address
     const hash160 = this.hash160(publicKeyBuffer);
-    const address = this.encodeBech32('bc', 0, hash160);
+    const network = process.env.BITCOIN_NETWORK || 'mainnet';
+    const hrp = BITCOIN_HRP[network];
+    if (!hrp) {
+      throw new Error(`Unsupported Bitcoin network: ${network}`);
+    }
+    const address = this.encodeBech32(hrp, 0, hash160);
 
     return {
       address,
@@ -198,16 +217,28 @@ export class HDWalletManager {
    * Derive Ed25519 key (for Solana)
    */
   private deriveEd25519Key(seed: Buffer, path: string): { privateKey: Buffer; publicKey: Buffer } {
-    // Simplified SLIP-0010 Ed25519 derivation
-    const hmac = createHmac('sha512', 'ed25519 seed');
-    hmac.update(seed);
-    const I = hmac.digest();
-    
-    const privateKey = I.slice(0, 32);
-    
-    // In production, use actual Ed25519 library for public key derivation
-    // This is a placeholder that creates a deterministic identifier
-    const publicKey = createHash('sha256').update(privateKey).digest().slice(0, 32);
+    // SLIP-0010 Ed25519 derivation; Ed25519 only supports hardened children,
+    // so every path segment is hardened
+    let I = createHmac('sha512', 'ed25519 seed').update(seed).digest();
+
+    for (const segment of path.split('/').slice(1)) {
+      const index = (parseInt(segment, 10) | 0x80000000) >>> 0;
+      const data = Buffer.alloc(37);
+      I.copy(data, 1, 0, 32);
+      data.writeUInt32BE(index, 33);
+      I = createHmac('sha512', I.subarray(32)).update(data).digest();
+    }
+
+    const privateKey = I.subarray(0, 32);
+    const publicKey = createPublicKey(
+      createPrivateKey({
+        key: Buffer.concat([ED25519_PKCS8_PREFIX, privateKey]),
+        format: 'der',
+        type: 'pkcs8',
+      })
+    )
+      .export({ format: 'der', type: 'spki' })
+      .subarray(-32);
 
     return { privateKey, publicKey };
   }
@@ -217,9 +248,7 @@ export class HDWalletManager {
    */
   private hash160(buffer: Buffer): Buffer {
     const sha256 = createHash('sha256').update(buffer).digest();
-    // RIPEMD160 - using a simplified version
-    // In production, use proper ripemd160 implementation
-    return createHash('sha256').update(sha256).digest().slice(0, 20);
+    return createHash('ripemd160').update(sha256).digest();
   }
 
   /**
@@ -347,7 +376,31 @@ export class HDWalletManager {
    * @param stacksAddress - Agent's Stacks address (used for Stacks chain)
    */
   derivePaymentAddress(agentIndex: number, chain: Chain, stacksAddress?: string): DerivedAddress {
-    const cacheKey = `${chain}:${agentIndex}`;
+    return this.deriveAddress(chain, 0, agentIndex, stacksAddress);
+  }
+
+  /**
+   * Generate a deposit address unique to one payment intent
+   * @param agentIndex - Unique agent index, used as the BIP-44 account
+   * @param intentIndex - Per-agent intent counter
+   * @param chain - Target blockchain
+   * @param stacksAddress - Agent's Stacks address (Stacks payments still go to the agent directly)
+   */
+  deriveIntentAddress(
+    agentIndex: number,
+    intentIndex: number,
+    chain: Chain,
+    stacksAddress?: string
+  ): DerivedAddress {
+    if (agentIndex < 1) {
+      // Account 0 holds the agent-level addresses
+      throw new Error(`Invalid agent index for intent derivation: ${agentIndex}`);
+    }
+    return this.deriveAddress(chain, agentIndex, intentIndex, stacksAddress);
+  }
+
+  private deriveAddress(chain: Chain, account: number, index: number, stacksAddress?: string): DerivedAddress {
+    const cacheKey = `${chain}:${account}:${index}`;
     
     // Check cache
     const cached = this.addressCache.get(cacheKey);
@@ -363,22 +416,22 @@ export class HDWalletManager {
       case 'base':
       case 'polygon':
       case 'optimism':
-        derived = this.deriveEVMAddress(agentIndex, chain);
+        derived = this.deriveEVMAddress(index, chain, account);
         break;
       
       case 'stacks':
         if (!stacksAddress) {
           throw new Error('Stacks address required for Stacks chain');
         }
-        derived = this.deriveStacksAddress(agentIndex, stacksAddress);
+        derived = this.deriveStacksAddress(index, stacksAddress, account);
         break;
       
       case 'solana':
-        derived = this.deriveSolanaAddress(agentIndex);
+        derived = this.deriveSolanaAddress(index, account);
         break;
       
       case 'bitcoin':
-        derived = this.deriveBitcoinAddress(agentIndex);
+        derived = this.deriveBitcoinAddress(index, account);
         break;
       
       default:
@@ -390,7 +443,7 @@ export class HDWalletManager {
     
     logger.debug('Derived payment address', {
       chain,
-      agentIndex,
+      path: derived.path,
       address: derived.address.slice(0, 10) + '...',
     });
 
@@ -419,8 +472,8 @@ export class HDWalletManager {
    * Get wallet with private key (for signing transactions)
    * WARNING: Handle private keys with extreme care
    */
-  getSigningWallet(chain: Chain, index: number): WalletInfo {
-    const cacheKey = `wallet:${chain}:${index}`;
+  getSigningWallet(chain: Chain, index: number, account: number = 0): WalletInfo {
+    const cacheKey = `wallet:${chain}:${account}:${index}`;
     
     const cached = this.walletCache.get(cacheKey);
     if (cached) {
@@ -436,7 +489,7 @@ export class HDWalletManager {
       throw new Error(`Signing not supported for chain: ${chain}`);
     }
 
-    const path = this.getDerivationPath(chain, index);
+    const path = this.getDerivationPath(chain, index, account);
     const hdNode = HDNodeWallet.fromPhrase(this.mnemonic, undefined, path);
 
     const wallet: WalletInfo = {
@@ -0,0 +1,65 @@
+/**
+ * Chain event stream
+ * Durable queue between the chain listeners and the API on Redis Streams.
+ * Listeners append payment, seen and reorg events; the API reads them
+ * through a consumer group and acknowledges each one once handled, so
+ * events survive the API being down. Entries that keep failing move to a
+ * dead-letter stream.
+ */
+
+import { ChainEvent, ChainReorg } from '@shared/types';
+import { getRedis } from './redis';
+
+export const CHAIN_EVENT_STREAMS = {
+  events: 'stream:chain-events',
+  deadLetter: 'stream:chain-events:dead',
+};
+
+export const CHAIN_EVENT_GROUP = 'payment-detection';
+
+// Approximate cap on each stream, far beyond how far a consumer should lag
+const MAX_STREAM_LENGTH = 100000;
+
+export type ChainEventMessage =
+  | { type: 'payment'; event: ChainEvent }
+  | { type: 'seen'; event: ChainEvent } // Still tracked by the listener; may not meet the agent's policy yet
+  | { type: 'reorg'; reorg: ChainReorg };
+
+/**
+ * Append an event to the stream and return its entry ID. Throws when Redis
+ * is unavailable, so the listener keeps the event and tries again.
+ */
+export async function publishChainEvent(message: ChainEventMessage): Promise<string> {
+  return await getRedis().xAdd(
+    CHAIN_EVENT_STREAMS.events,
+    '*',
+    { type: message.type, payload: JSON.stringify(message) },
+    { TRIM: { strategy: 'MAXLEN', strategyModifier: '~', threshold: MAX_STREAM_LENGTH } }
+  );
+}
+
+export function parseChainEventMessage(fields: Record<string, string>): ChainEventMessage {
+  const message = JSON.parse(fields.payload) as ChainEventMessage;
+  if (message.type !== 'payment' && message.type !== 'seen' && message.type !== 'reorg') {
+    throw new Error(`Unknown chain event type: ${fields.type}`);
+  }
+  return message;
+}
+
+/**
+ * Move an entry that could not be handled to the dead-letter stream, keeping
+ * the original entry ID and the last error for manual replay
+ */
+export async function deadLetterChainEvent(
+  entryId: string,
+  fields: Record<string, string>,
+  error: string,
+  deliveries: number
+): Promise<string> {
+  return await getRedis().xAdd(
+    CHAIN_EVENT_STREAMS.deadLetter,
+    '*',
+    { ...fields, sourceId: entryId, error, deliveries: deliveries.toString() },
+    { TRIM: { strategy: 'MAXLEN', strategyModifier: '~', threshold: MAX_STREAM_LENGTH } }
+  );
+}
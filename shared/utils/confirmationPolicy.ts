@@ -0,0 +1,195 @@
+/**
+ * Confirmation policy
+ * Decides how deep a transfer must be before it counts toward a payment,
+ * from its chain, token and USD value. Agents can replace the default for
+ * any chain. Listeners report every transfer until it is deeper than any
+ * policy can ask for, and the API applies the agent's policy to each report,
+ * so the same rule decides in every detection path.
+ */
+
+import {
+  BlockFinality,
+  Chain,
+  ChainConfirmationPolicy,
+  ChainEvent,
+  ConfirmationPolicy,
+  ConfirmationRule,
+} from '@shared/types';
+import { CHAIN_CONFIGS, CONFIRMATIONS_REQUIRED, TOKEN_ADDRESSES } from '@shared/constants/chains';
+
+const CHAINS = Object.keys(CONFIRMATIONS_REQUIRED) as Chain[];
+
+// Deepest count a rule may require, and how far listeners track each transfer
+export const MAX_POLICY_CONFIRMATIONS: Record<Chain, number> = {
+  ethereum: 64,
+  arbitrum: 64,
+  base: 64,
+  polygon: 128,
+  optimism: 64,
+  stacks: 6,
+  solana: 32,
+  bitcoin: 12,
+};
+
+export const DEFAULT_CONFIRMATION_POLICY: ConfirmationPolicy = {
+  ...Object.fromEntries(
+    CHAINS.map((chain) => [chain, { rules: [{ confirmations: CONFIRMATIONS_REQUIRED[chain] }] }])
+  ),
+  ethereum: {
+    rules: [
+      { maxAmountUSD: 100, confirmations: 1 },
+      { maxAmountUSD: 100000, confirmations: 12 },
+      { confirmations: 20 },
+    ],
+  },
+};
+
+/**
+ * The rule for a transfer toward a payment of paymentAmountUSD under an
+ * agent's policy, falling back to the default for chains the agent has not
+ * configured. The rule follows the value at stake: a payment split into
+ * small transfers is held to the rule for its whole amount, and a transfer
+ * larger than the payment to its own value.
+ */
+export function resolveConfirmationRule(
+  event: Pick<ChainEvent, 'chain' | 'amountUSD' | 'tokenAddress'>,
+  paymentAmountUSD: number,
+  policy?: ConfirmationPolicy | null
+): ConfirmationRule {
+  const chainPolicy = policy?.[event.chain] || DEFAULT_CONFIRMATION_POLICY[event.chain];
+  if (!chainPolicy) {
+    return { confirmations: CONFIRMATIONS_REQUIRED[event.chain] };
+  }
+
+  const symbol = tokenSymbol(event.chain, event.tokenAddress);
+  const rules = (symbol && chainPolicy.tokens?.[symbol]) || chainPolicy.rules;
+  const amountUSD = Math.max(paymentAmountUSD || 0, event.amountUSD);
+
+  // The first rule covering the amount; the last one has no ceiling
+  return (
+    rules.find((rule) => rule.maxAmountUSD === undefined || amountUSD <= rule.maxAmountUSD) ||
+    rules[rules.length - 1]
+  );
+}
+
+export function meetsConfirmationRule(
+  event: Pick<ChainEvent, 'confirmations' | 'finality'>,
+  rule: ConfirmationRule
+): boolean {
+  if (rule.confirmations !== undefined && event.confirmations < rule.confirmations) {
+    return false;
+  }
+  if (rule.blockTag && !reachesFinality(event.finality, rule.blockTag)) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Whether a transfer already meets any rule a policy can set, so its
+ * listener can stop tracking it. Chains that report block tags are tracked
+ * until finalized as well.
+ */
+export function exceedsAnyPolicy(
+  event: Pick<ChainEvent, 'chain' | 'confirmations' | 'finality'>,
+  reportsFinality: boolean
+): boolean {
+  if (event.confirmations < MAX_POLICY_CONFIRMATIONS[event.chain]) {
+    return false;
+  }
+  return !reportsFinality || event.finality === 'finalized';
+}
+
+/**
+ * Check an agent-supplied policy, throwing with the first problem found
+ */
+export function parseConfirmationPolicy(value: unknown): ConfirmationPolicy {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error('Confirmation policy must be an object keyed by chain');
+  }
+
+  const policy: ConfirmationPolicy = {};
+  for (const [chain, chainPolicy] of Object.entries(value as Record<string, unknown>)) {
+    if (!CHAINS.includes(chain as Chain)) {
+      throw new Error(`Unsupported chain in confirmation policy: ${chain}`);
+    }
+    policy[chain as Chain] = parseChainPolicy(chain as Chain, chainPolicy);
+  }
+  return policy;
+}
+
+function parseChainPolicy(chain: Chain, value: unknown): ChainConfirmationPolicy {
+  const { rules, tokens } = (value || {}) as { rules?: unknown; tokens?: unknown };
+  const parsed: ChainConfirmationPolicy = { rules: parseRules(chain, rules) };
+
+  if (tokens !== undefined) {
+    if (!tokens || typeof tokens !== 'object' || Array.isArray(tokens)) {
+      throw new Error(`${chain}: tokens must map token symbols to rules`);
+    }
+    parsed.tokens = {};
+    for (const [symbol, tokenRules] of Object.entries(tokens)) {
+      parsed.tokens[symbol] = parseRules(chain, tokenRules);
+    }
+  }
+
+  return parsed;
+}
+
+function parseRules(chain: Chain, value: unknown): ConfirmationRule[] {
+  if (!Array.isArray(value) || value.length === 0) {
+    throw new Error(`${chain}: rules must be a non-empty list`);
+  }
+
+  const maxConfirmations = MAX_POLICY_CONFIRMATIONS[chain];
+  let previousCeiling = -Infinity;
+
+  return value.map((raw, index) => {
+    const { maxAmountUSD, confirmations, blockTag } = (raw || {}) as ConfirmationRule;
+    const isLast = index === value.length - 1;
+
+    if (maxAmountUSD !== undefined) {
+      if (typeof maxAmountUSD !== 'number' || !(maxAmountUSD > previousCeiling)) {
+        throw new Error(`${chain}: maxAmountUSD must increase from rule to rule`);
+      }
+      previousCeiling = maxAmountUSD;
+    } else if (!isLast) {
+      throw new Error(`${chain}: only the last rule may omit maxAmountUSD`);
+    }
+
+    if (confirmations === undefined && blockTag === undefined) {
+      throw new Error(`${chain}: each rule needs confirmations, a blockTag or both`);
+    }
+    if (
+      confirmations !== undefined &&
+      (!Number.isInteger(confirmations) || confirmations < 0 || confirmations > maxConfirmations)
+    ) {
+      throw new Error(`${chain}: confirmations must be an integer from 0 to ${maxConfirmations}`);
+    }
+    if (blockTag !== undefined) {
+      if (CHAIN_CONFIGS[chain].family !== 'evm') {
+        throw new Error(`${chain}: block tags are only supported on EVM chains`);
+      }
+      if (blockTag !== 'safe' && blockTag !== 'finalized') {
+        throw new Error(`${chain}: blockTag must be 'safe' or 'finalized'`);
+      }
+    }
+
+    return { maxAmountUSD, confirmations, blockTag };
+  });
+}
+
+function reachesFinality(finality: BlockFinality | undefined, required: BlockFinality): boolean {
+  return finality === 'finalized' || finality === required;
+}
+
+function tokenSymbol(chain: Chain, tokenAddress?: string): string | undefined {
+  if (!tokenAddress) {
+    return CHAIN_CONFIGS[chain].nativeToken;
+  }
+
+  const tokens = (TOKEN_ADDRESSES as Record<string, Record<string, string>>)[chain] || {};
+  const match = Object.entries(tokens).find(
+    ([, address]) => address.toLowerCase() === tokenAddress.toLowerCase()
+  );
+  return match?.[0];
+}
@@ -418,7 +418,7 @@ export class PriceOracle {
       USDC: 1.0,
       USDT: 1.0,
       DAI: 1.0,
-      USDh: 1.0,
+      USDH: 1.0, // Looked up by upper-cased symbol
       ETH: 2000,
       WETH: 2000,
       BTC: 40000,
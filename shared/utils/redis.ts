@@ -43,3 +43,64 @@ export const CACHE_KEYS = {
   rateLimit: (ip: string, endpoint: string) => `ratelimit:${ip}:${endpoint}`,
 };
 
+// Listener coordination across replicas
+export const LISTENER_KEYS = {
+  leader: (chain: string) => `listener:leader:${chain}`,      // Instance ID of the chain's current leader
+  leaseEpoch: (chain: string) => `listener:epoch:${chain}`,   // Incremented on every leadership change
+  instances: 'listener:instances',                            // Sorted set of instance IDs by last heartbeat
+};
+
+// Nonces of sending wallets, shared by every execution process
+export const NONCE_KEYS = {
+  next: (chain: string, address: string) => `nonce:next:${chain}:${address}`,          // Next nonce to hand out
+  reserved: (chain: string, address: string) => `nonce:reserved:${chain}:${address}`,  // Sorted set of nonces handed out but not yet on chain, by last activity
+  resyncLock: (chain: string, address: string) => `nonce:lock:${chain}:${address}`,    // Held while one process resyncs the wallet
+};
+
+// Pub/sub channels
+export const CHANNELS = {
+  watchedAddresses: 'watched-addresses', // WatchedAddressMessage when an address starts or stops taking payments
+  rescanJobs: 'rescan-jobs', // RescanJobMessage when an admin queues a rescan
+};
+
+export interface WatchedAddressMessage {
+  action: 'add' | 'remove';
+  chain: string;
+  address: string;
+  createdAt?: number; // Unix ms; listeners backfill blocks processed since then
+}
+
+/**
+ * Tell running listeners to start or stop watching an address. Best effort:
+ * listeners also resync the full address list periodically.
+ */
+export async function publishWatchedAddress(message: WatchedAddressMessage): Promise<void> {
+  try {
+    await getRedis().publish(CHANNELS.watchedAddresses, JSON.stringify(message));
+  } catch (error) {
+    logger.warn('Failed to publish watched address change', {
+      ...message,
+      error: (error as Error).message,
+    });
+  }
+}
+
+export interface RescanJobMessage {
+  jobId: string;
+  chain: string;
+}
+
+/**
+ * Wake the listener for a chain to pick up a queued rescan job. Best effort:
+ * listeners also look for queued jobs periodically.
+ */
+export async function publishRescanJob(message: RescanJobMessage): Promise<void> {
+  try {
+    await getRedis().publish(CHANNELS.rescanJobs, JSON.stringify(message));
+  } catch (error) {
+    logger.warn('Failed to publish rescan job', {
+      ...message,
+      error: (error as Error).message,
+    });
+  }
+}
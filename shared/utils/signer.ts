@@ -0,0 +1,443 @@
+/**
+ * Transaction Signers
+ *
+ * One secp256k1 key behind interchangeable backends, used for both EVM and
+ * Stacks transactions:
+ * - local: a raw private key from the environment
+ * - keystore: an encrypted JSON keystore file, decrypted once on first use
+ * - remote: an HTTP signer (a KMS/HSM gateway, or a local stand-in) that
+ *   never reveals the key; see "Remote signer protocol" in the README
+ *
+ * Callers build the transaction and hand the signer its digest together
+ * with what the transaction does, so every backend applies the same policy
+ * (allowed destination contracts, maximum value, custom hooks) before
+ * signing. Keys are configured per wallet name, e.g. GAS_WALLET or
+ * STACKS_SETTLEMENT_WALLET, through <NAME>_SIGNER and related variables.
+ */
+
+import { readFile } from 'fs/promises';
+import axios from 'axios';
+import {
+  AbstractSigner,
+  Interface,
+  Provider,
+  Signature,
+  SigningKey,
+  Transaction,
+  TransactionLike,
+  TransactionRequest,
+  TypedDataDomain,
+  TypedDataField,
+  Wallet,
+  computeAddress,
+  copyRequest,
+  getAddress,
+  resolveAddress,
+  resolveProperties,
+} from 'ethers';
+import { Chain } from '@shared/types';
+import { TOKEN_ADDRESSES } from '@shared/constants/chains';
+import { logger } from './logger';
+
+export type SignerBackend = 'local' | 'keystore' | 'remote';
+
+// ERC-20 calls that move the wallet's tokens or let another address move them
+const ERC20_INTERFACE = new Interface([
+  'function transfer(address to, uint256 amount)',
+  'function approve(address spender, uint256 amount)',
+  'function transferFrom(address from, address to, uint256 amount)',
+]);
+
+/**
+ * What a signature authorizes, checked against the signer's policy
+ */
+export interface SignRequest {
+  chain: Chain;
+  family: 'evm' | 'stacks';
+  to: string;              // EVM address, or Stacks contract ID (address.name)
+  value: bigint;           // Native value, or with `token` the amount of that token moved, in base units
+  token?: string;          // Symbol of the token a Stacks call moves; unset for native value
+  data?: string;           // EVM calldata
+  functionName?: string;   // Stacks contract function
+  transaction: string;     // Unsigned serialized transaction, hex
+  digest: string;          // 32-byte hash to sign, hex
+}
+
+export type SignerPolicyHook = (request: SignRequest) => void | Promise<void>;
+
+export interface SignerPolicy {
+  allowedDestinations?: string[]; // Matched case-insensitively; any destination when unset
+  maxValue?: bigint;              // Native value
+  maxTokenValues?: Record<string, bigint>; // By uppercase token symbol; a listed token without one is unlimited
+  hooks?: SignerPolicyHook[];     // Throw to refuse
+}
+
+export abstract class Signer {
+  abstract readonly backend: SignerBackend;
+  readonly publicKey: string;     // Compressed, 0x-prefixed
+  readonly address: string;       // EVM address of the key
+  private policy: SignerPolicy;
+
+  protected constructor(publicKey: string, policy: SignerPolicy = {}) {
+    this.publicKey = SigningKey.computePublicKey(publicKey, true);
+    this.address = computeAddress(this.publicKey);
+    this.policy = { ...policy, hooks: [...(policy.hooks || [])] };
+  }
+
+  /**
+   * Add a check run before every signature, e.g. by a service that only
+   * ever calls one contract
+   */
+  addPolicyHook(hook: SignerPolicyHook): void {
+    this.policy.hooks!.push(hook);
+  }
+
+  /**
+   * Sign a digest once the policy allows the request. The signature is
+   * checked against the public key, so a misbehaving backend can't produce
+   * a transaction from another key.
+   */
+  async sign(request: SignRequest): Promise<Signature> {
+    await this.enforcePolicy(request);
+
+    const signature = await this.signDigest(request);
+    const recovered = SigningKey.recoverPublicKey(request.digest, signature);
+    if (SigningKey.computePublicKey(recovered, true) !== this.publicKey) {
+      throw new Error(`${this.backend} signer returned a signature from a different key`);
+    }
+
+    return signature;
+  }
+
+  protected abstract signDigest(request: SignRequest): Promise<Signature>;
+
+  private async enforcePolicy(request: SignRequest): Promise<void> {
+    const { allowedDestinations, maxValue, maxTokenValues, hooks } = this.policy;
+
+    if (
+      allowedDestinations &&
+      !allowedDestinations.some((destination) => destination.toLowerCase() === request.to.toLowerCase())
+    ) {
+      throw policyViolation(`destination ${request.to} is not allowed`);
+    }
+    // Limits only compare amounts of one asset, so token amounts never count against the native limit
+    if (!request.token && maxValue !== undefined && request.value > maxValue) {
+      throw policyViolation(`value ${request.value} is above the limit of ${maxValue}`);
+    }
+
+    const movement = tokenMovement(request);
+    if (movement) {
+      const limit = movement.token ? maxTokenValues?.[movement.token.toUpperCase()] : undefined;
+      if (limit !== undefined && movement.amount > limit) {
+        throw policyViolation(`value ${movement.amount} ${movement.token} is above the limit of ${limit}`);
+      }
+      // Once token limits are set, an unlisted token contract can't be used to get around them
+      if (!movement.token && maxTokenValues) {
+        throw policyViolation(`${request.to} is not a token with a limit`);
+      }
+    }
+
+    for (const hook of hooks || []) {
+      try {
+        await hook(request);
+      } catch (error) {
+        throw policyViolation((error as Error).message);
+      }
+    }
+  }
+}
+
+export class LocalSigner extends Signer {
+  readonly backend: SignerBackend = 'local';
+  private signingKey: SigningKey;
+
+  constructor(privateKey: string, policy?: SignerPolicy) {
+    const signingKey = new SigningKey(normalizePrivateKey(privateKey));
+    super(signingKey.compressedPublicKey, policy);
+    this.signingKey = signingKey;
+  }
+
+  protected async signDigest(request: SignRequest): Promise<Signature> {
+    return this.signingKey.sign(request.digest);
+  }
+}
+
+export class KeystoreSigner extends LocalSigner {
+  readonly backend: SignerBackend = 'keystore';
+
+  /**
+   * Decrypt a keystore file (the JSON format ethers and geth write)
+   */
+  static async fromFile(path: string, password: string, policy?: SignerPolicy): Promise<KeystoreSigner> {
+    const json = await readFile(path, 'utf8');
+    const wallet = await Wallet.fromEncryptedJson(json, password);
+    return new KeystoreSigner(wallet.privateKey, policy);
+  }
+}
+
+interface RemoteSignerConfig {
+  url: string;
+  keyId: string;
+  token?: string;
+  timeoutMs?: number;
+}
+
+export class RemoteSigner extends Signer {
+  readonly backend: SignerBackend = 'remote';
+  private config: RemoteSignerConfig;
+
+  private constructor(config: RemoteSignerConfig, publicKey: string, policy?: SignerPolicy) {
+    super(publicKey, policy);
+    this.config = config;
+  }
+
+  /**
+   * Look up the key's public key, which also checks the signer is reachable
+   */
+  static async connect(config: RemoteSignerConfig, policy?: SignerPolicy): Promise<RemoteSigner> {
+    const response = await axios.get(RemoteSigner.keyUrl(config), {
+      headers: RemoteSigner.headers(config),
+      timeout: config.timeoutMs ?? 10000,
+    });
+    return new RemoteSigner(config, response.data.publicKey, policy);
+  }
+
+  protected async signDigest(request: SignRequest): Promise<Signature> {
+    try {
+      const response = await axios.post(
+        `${RemoteSigner.keyUrl(this.config)}/sign`,
+        {
+          digest: request.digest,
+          request: {
+            chain: request.chain,
+            family: request.family,
+            to: request.to,
+            value: request.value.toString(),
+            token: request.token,
+            data: request.data,
+            functionName: request.functionName,
+            transaction: request.transaction,
+          },
+        },
+        { headers: RemoteSigner.headers(this.config), timeout: this.config.timeoutMs ?? 10000 }
+      );
+      return Signature.from(response.data.signature);
+    } catch (error) {
+      // The remote side applies its own policy and refuses with 403
+      if (axios.isAxiosError(error) && error.response?.status === 403) {
+        throw policyViolation(error.response.data?.error || 'refused by remote signer');
+      }
+      throw error;
+    }
+  }
+
+  private static keyUrl(config: RemoteSignerConfig): string {
+    return `${config.url.replace(/\/$/, '')}/keys/${encodeURIComponent(config.keyId)}`;
+  }
+
+  private static headers(config: RemoteSignerConfig): Record<string, string> {
+    return config.token ? { Authorization: `Bearer ${config.token}` } : {};
+  }
+}
+
+/**
+ * An ethers signer backed by a Signer, so EVM code can connect it to a
+ * provider and send transactions as with a Wallet
+ */
+export class EvmSigner extends AbstractSigner {
+  readonly signer: Signer;
+  readonly chain: Chain;
+  readonly address: string;
+
+  constructor(signer: Signer, chain: Chain, provider?: Provider | null) {
+    super(provider);
+    this.signer = signer;
+    this.chain = chain;
+    this.address = signer.address;
+  }
+
+  async getAddress(): Promise<string> {
+    return this.address;
+  }
+
+  connect(provider: Provider | null): EvmSigner {
+    return new EvmSigner(this.signer, this.chain, provider);
+  }
+
+  async signTransaction(tx: TransactionRequest): Promise<string> {
+    tx = copyRequest(tx);
+
+    const { to, from } = await resolveProperties({
+      to: tx.to ? resolveAddress(tx.to, this.provider) : undefined,
+      from: tx.from ? resolveAddress(tx.from, this.provider) : undefined,
+    });
+    if (from && getAddress(from) !== this.address) {
+      throw new Error(`Transaction from ${from} cannot be signed by ${this.address}`);
+    }
+
+    const btx = Transaction.from({ ...tx, to, from: undefined } as TransactionLike<string>);
+    btx.signature = await this.signer.sign({
+      chain: this.chain,
+      family: 'evm',
+      to: btx.to || '',
+      value: btx.value,
+      data: btx.data,
+      transaction: btx.unsignedSerialized,
+      digest: btx.unsignedHash,
+    });
+
+    return btx.serialized;
+  }
+
+  // Messages carry no destination or value the policy could check
+  async signMessage(): Promise<string> {
+    throw new Error('Message signing is not supported by policy-checked signers');
+  }
+
+  async signTypedData(
+    _domain: TypedDataDomain,
+    _types: Record<string, TypedDataField[]>,
+    _value: Record<string, unknown>
+  ): Promise<string> {
+    throw new Error('Typed data signing is not supported by policy-checked signers');
+  }
+}
+
+/**
+ * A signature in the recoverable form Stacks transactions carry: the
+ * recovery byte, then r and s
+ */
+export function toStacksSignature(signature: Signature): string {
+  return signature.yParity.toString(16).padStart(2, '0') + signature.r.slice(2) + signature.s.slice(2);
+}
+
+/**
+ * Whether any backend is configured for a wallet name
+ */
+export function isSignerConfigured(name: string): boolean {
+  return Boolean(process.env[`${name}_SIGNER`] || process.env[`${name}_PRIVATE_KEY`]);
+}
+
+const signers: Map<string, Promise<Signer>> = new Map();
+
+/**
+ * The signer for a wallet name, created on first use from the environment:
+ * - <NAME>_SIGNER: local (default), keystore or remote
+ * - local: <NAME>_PRIVATE_KEY
+ * - keystore: <NAME>_KEYSTORE_PATH and <NAME>_KEYSTORE_PASSWORD
+ * - remote: <NAME>_SIGNER_URL, <NAME>_SIGNER_KEY_ID and <NAME>_SIGNER_TOKEN
+ * - policy: <NAME>_ALLOWED_DESTINATIONS (comma-separated), <NAME>_MAX_VALUE
+ *   for native value and <NAME>_MAX_VALUE_<TOKEN> per token, for Stacks
+ *   token calls and ERC-20 transfers and approvals
+ */
+export function getSigner(name: string): Promise<Signer> {
+  let signer = signers.get(name);
+  if (!signer) {
+    signer = createSigner(name);
+    signers.set(name, signer);
+    // Let a failed setup (e.g. remote signer down) be retried on next use
+    signer.catch(() => signers.delete(name));
+  }
+  return signer;
+}
+
+async function createSigner(name: string): Promise<Signer> {
+  const env = (suffix: string) => process.env[`${name}_${suffix}`];
+  const backend = (env('SIGNER') || 'local') as SignerBackend;
+  const policy = readPolicy(name);
+
+  let signer: Signer;
+  switch (backend) {
+    case 'local': {
+      const privateKey = env('PRIVATE_KEY');
+      if (!privateKey) {
+        throw new Error(`${name}_PRIVATE_KEY is required for a local signer`);
+      }
+      signer = new LocalSigner(privateKey, policy);
+      break;
+    }
+    case 'keystore': {
+      const path = env('KEYSTORE_PATH');
+      if (!path) {
+        throw new Error(`${name}_KEYSTORE_PATH is required for a keystore signer`);
+      }
+      signer = await KeystoreSigner.fromFile(path, env('KEYSTORE_PASSWORD') || '', policy);
+      break;
+    }
+    case 'remote': {
+      const url = env('SIGNER_URL');
+      const keyId = env('SIGNER_KEY_ID');
+      if (!url || !keyId) {
+        throw new Error(`${name}_SIGNER_URL and ${name}_SIGNER_KEY_ID are required for a remote signer`);
+      }
+      signer = await RemoteSigner.connect({ url, keyId, token: env('SIGNER_TOKEN') }, policy);
+      break;
+    }
+    default:
+      throw new Error(`Unknown signer backend for ${name}: ${backend}`);
+  }
+
+  logger.info('Signer ready', { name, backend, address: signer.address });
+  return signer;
+}
+
+function readPolicy(name: string): SignerPolicy {
+  const destinations = process.env[`${name}_ALLOWED_DESTINATIONS`];
+  const maxValue = process.env[`${name}_MAX_VALUE`];
+
+  const tokenPrefix = `${name}_MAX_VALUE_`;
+  const maxTokenValues: Record<string, bigint> = {};
+  for (const [key, value] of Object.entries(process.env)) {
+    if (key.startsWith(tokenPrefix) && value) {
+      maxTokenValues[key.slice(tokenPrefix.length).toUpperCase()] = BigInt(value);
+    }
+  }
+
+  return {
+    allowedDestinations: destinations
+      ? destinations.split(',').map((destination) => destination.trim()).filter(Boolean)
+      : undefined,
+    maxValue: maxValue ? BigInt(maxValue) : undefined,
+    maxTokenValues: Object.keys(maxTokenValues).length > 0 ? maxTokenValues : undefined,
+  };
+}
+
+/**
+ * The token amount a request moves: the declared token of a Stacks call, or
+ * an ERC-20 transfer or approval in EVM calldata, whose token is looked up
+ * from the contract address (unset for contracts that aren't listed tokens)
+ */
+function tokenMovement(request: SignRequest): { token?: string; amount: bigint } | null {
+  if (request.family === 'stacks') {
+    return request.token ? { token: request.token, amount: request.value } : null;
+  }
+  if (!request.data || request.data === '0x') {
+    return null;
+  }
+
+  let call;
+  try {
+    call = ERC20_INTERFACE.parseTransaction({ data: request.data });
+  } catch {
+    throw policyViolation(`calldata to ${request.to} looks like an ERC-20 call but does not decode`);
+  }
+  if (!call) {
+    return null;
+  }
+
+  const tokens: Record<string, string> = TOKEN_ADDRESSES[request.chain as keyof typeof TOKEN_ADDRESSES] || {};
+  const token =
+    request.token ||
+    Object.keys(tokens).find((symbol) => tokens[symbol].toLowerCase() === request.to.toLowerCase());
+  return { token, amount: call.args.amount as bigint };
+}
+
+function policyViolation(reason: string): Error {
+  return new Error(`SIGNER_POLICY_VIOLATION: ${reason}`);
+}
+
+// Stacks keys carry a trailing 01 byte marking a compressed public key
+function normalizePrivateKey(privateKey: string): string {
+  const hex = privateKey.replace(/^0x/, '');
+  return `0x${hex.length === 66 && hex.endsWith('01') ? hex.slice(0, 64) : hex}`;
+}
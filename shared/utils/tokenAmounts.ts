@@ -0,0 +1,34 @@
+/**
+ * Token amounts
+ * Payment intents and settlements hold amounts in whole tokens ("100.00"),
+ * quotes and routes in integer base units ("100000000" for 100 USDC).
+ * These convert between the two with the token's decimals.
+ */
+
+import { formatUnits, parseUnits } from 'ethers';
+
+/**
+ * Whole-token decimal amount to base units. Throws if the amount is not a
+ * decimal number or has more fractional digits than the token.
+ */
+export function toBaseUnits(amount: string, decimals: number): bigint {
+  return parseUnits(amount.trim(), decimals);
+}
+
+/**
+ * Base units to a whole-token decimal amount, e.g. "100.0"
+ */
+export function fromBaseUnits(baseUnits: string | bigint, decimals: number): string {
+  return formatUnits(BigInt(baseUnits), decimals);
+}
+
+/**
+ * Whether a whole-token amount is exactly the given base units
+ */
+export function isSameAmount(amount: string, baseUnits: string | bigint, decimals: number): boolean {
+  try {
+    return toBaseUnits(amount, decimals) === BigInt(baseUnits);
+  } catch {
+    return false;
+  }
+}
@@ -5,6 +5,7 @@
 
 API_URL="${API_URL:-http://localhost:3000}"
 ADMIN_ADDRESS="${ADMIN_ADDRESS:-ST2N6HZJPPQ8VGJZGPPP8754CFNGWKBHVAZ85QB6K}"
+AGENT_API_KEY="${AGENT_API_KEY:-}"   # spr_... key of the agent at ADMIN_ADDRESS
 
 echo "🧪 Testing Stacks Payment Router API"
 echo "======================================"
@@ -57,11 +58,14 @@ echo "1. Health Check"
 test_endpoint "Health Check" "GET" "/health" "" ""
 echo ""
 
-# 2. Agent Endpoints (requires existing agent)
+# 2. Agent Endpoints (requires existing agent and its API key)
 echo "2. Agent Endpoints"
-test_endpoint "Get Agent Payments" "GET" "/api/v1/agents/$ADMIN_ADDRESS/payments" "" ""
-test_endpoint "Get Agent Vault Stats" "GET" "/api/v1/agents/$ADMIN_ADDRESS/vault" "" ""
-test_endpoint "Get Withdrawal History" "GET" "/api/v1/agents/$ADMIN_ADDRESS/withdrawals" "" ""
+if [ -z "$AGENT_API_KEY" ]; then
+    echo -e "${YELLOW}AGENT_API_KEY is not set; agent endpoints will be rejected${NC}"
+fi
+test_endpoint "Get Agent Payments" "GET" "/api/v1/agents/$ADMIN_ADDRESS/payments" "" "X-API-Key: $AGENT_API_KEY"
+test_endpoint "Get Agent Vault Stats" "GET" "/api/v1/agents/$ADMIN_ADDRESS/vault" "" "X-API-Key: $AGENT_API_KEY"
+test_endpoint "Get Withdrawal History" "GET" "/api/v1/agents/$ADMIN_ADDRESS/withdrawals" "" "X-API-Key: $AGENT_API_KEY"
 echo ""
 
 # 3. Admin Endpoints
@@ -10,6 +10,7 @@ const API_URL = process.env.API_URL || 'http://localhost:3000';
 
 describe('Payment Flow E2E', () => {
   let agentId: string;
+  let apiKey: string;
   let paymentIntentId: string;
 
   beforeAll(async () => {
@@ -21,6 +22,8 @@ describe('Payment Flow E2E', () => {
     });
 
     agentId = response.data.data.agentId;
+    // Registration returns the agent's first API key, shown only once
+    apiKey = response.data.data.apiKey;
   });
 
   it('should create a payment intent', async () => {
@@ -30,6 +33,8 @@ describe('Payment Flow E2E', () => {
       sourceToken: 'USDC',
       amount: '100',
       amountUSD: 100,
+    }, {
+      headers: { 'X-API-Key': apiKey },
     });
 
     expect(response.status).toBe(201);
@@ -63,7 +68,9 @@ describe('Payment Flow E2E', () => {
   });
 
   it('should get agent balance', async () => {
-    const response = await axios.get(`${API_URL}/api/v1/agents/${agentId}/balance`);
+    const response = await axios.get(`${API_URL}/api/v1/agents/${agentId}/balance`, {
+      headers: { 'X-API-Key': apiKey },
+    });
 
     expect(response.status).toBe(200);
     expect(response.data.success).toBe(true);